@@ -0,0 +1,208 @@
+'use client'
+
+import { useId, useMemo, type CSSProperties } from 'react'
+import type {
+    WaveBlobProps,
+    RadialPathOptions,
+    ShadowConfig,
+    GlowConfig,
+    StrokeConfig,
+    TextureConfig,
+    InnerShadowConfig,
+} from '../types'
+import { useOptionalWaveContext } from '../context/useWaveContext'
+import {
+    DEFAULTS,
+    DEFAULT_SHADOW,
+    DEFAULT_GLOW,
+    DEFAULT_STROKE,
+    DEFAULT_TEXTURE,
+    DEFAULT_INNER_SHADOW,
+} from '../constants'
+import { useReducedMotion } from '../utils/animation'
+import { generatePath } from '../utils/path-generator'
+import { PATH_MORPH_GENERATORS } from '../utils/keyframes'
+import { radialPatternConfig, wrapRadialPath, wrapRadialKeyframes } from '../utils/radial-path'
+import { generateRadialClipPath } from '../utils/clip-path'
+import { renderGradientDef, renderEffectFilter } from './WaveDefs'
+
+/** Resolve a `boolean | config` effect prop against its default config */
+function resolveEffect<T>(value: boolean | T | undefined, fallback: T): T | undefined {
+    return value === true ? fallback : value === false || value === undefined ? undefined : value
+}
+
+/**
+ * WaveBlob — a closed wavy circle or ellipse.
+ *
+ * Wraps any registered pattern around the center (see `generateRadialPath`)
+ * for avatar frames, badges and blob backgrounds. Supports the same fills
+ * and effects as wave edges (gradient, shadow, glow, stroke, texture, inner
+ * shadow) and the path-morph animations, whose frames are wrapped the same
+ * way so the outline keeps wobbling without a seam.
+ *
+ * The blob is `2 × radius` px wide by default; size it with `style` to scale
+ * the shape. Children are centered on top and, with `clipContent`, clipped
+ * to the (unanimated) outline.
+ *
+ * @example
+ * ```tsx
+ * <WaveBlob pattern="organic" radius={64} frequency={5} seed={2} clipContent animate="morph">
+ *   <img src="/avatar.jpg" alt="" width={128} height={128} />
+ * </WaveBlob>
+ * ```
+ */
+export function WaveBlob({
+    pattern = 'smooth',
+    radius = 100,
+    radiusY,
+    amplitude,
+    frequency,
+    phase,
+    seed,
+    depth,
+    rotation,
+    spline,
+    noise,
+    customPath,
+    patterns: patternsProp,
+    color = '#6c5ce7',
+    gradient,
+    shadow: shadowProp,
+    glow: glowProp,
+    stroke: strokeProp,
+    texture: textureProp,
+    innerShadow: innerShadowProp,
+    animate = false,
+    animationDuration = 4,
+    clipContent = false,
+    className = '',
+    style,
+    'aria-label': ariaLabel,
+    children,
+}: WaveBlobProps) {
+    const ctx = useOptionalWaveContext()
+    const defaults = ctx?.defaults ?? DEFAULTS
+    const stableId = useId().replace(/:/g, '')
+    const width = 2 * radius
+    const height = 2 * (radiusY ?? radius)
+
+    // Provider-scoped patterns, overridden by the blob's own
+    const ctxPatterns = ctx?.patterns
+    const patterns = useMemo(
+        () => (ctxPatterns || patternsProp ? { ...ctxPatterns, ...patternsProp } : undefined),
+        [ctxPatterns, patternsProp],
+    )
+
+    const options: RadialPathOptions = { radius, radiusY, amplitude, frequency, phase, seed, depth, rotation, spline, noise, customPath }
+
+    // Straight periodic band, then wrapped around the center
+    const bandPath = useMemo(
+        () => generatePath(pattern, radialPatternConfig(options), patterns),
+        [pattern, amplitude, frequency, phase, seed, spline, noise, customPath, patterns],
+    )
+    const path = useMemo(
+        () => wrapRadialPath(bandPath, options),
+        [bandPath, radius, radiusY, depth, rotation],
+    )
+
+    // ── Effects ──
+    const shadow = resolveEffect<ShadowConfig>(shadowProp, DEFAULT_SHADOW)
+    const glow = resolveEffect<GlowConfig>(glowProp, DEFAULT_GLOW)
+    const stroke = resolveEffect<StrokeConfig>(strokeProp, DEFAULT_STROKE)
+    const texture = resolveEffect<TextureConfig>(textureProp, DEFAULT_TEXTURE)
+    const innerShadow = resolveEffect<InnerShadowConfig>(innerShadowProp, DEFAULT_INNER_SHADOW)
+
+    const filterId = shadow || glow || texture || innerShadow ? `wave-blob-filter-${stableId}` : undefined
+    const gradientId = gradient ? `wave-blob-grad-${stableId}` : undefined
+    const fill = gradientId ? `url(#${gradientId})` : color
+
+    // ── Path-morph animation (frames generated as bands, then wrapped) ──
+    const prefersReducedMotion = useReducedMotion()
+    const animateName = animate === false ? 'none' : animate
+    const isMorphAnim = animateName in PATH_MORPH_GENERATORS
+    if (animateName !== 'none' && !isMorphAnim) {
+        console.warn(`[wavy-bavy] WaveBlob only supports path-morph animations (${Object.keys(PATH_MORPH_GENERATORS).join(', ')}); "${animateName}" is ignored`)
+    }
+    const animId = isMorphAnim && !(defaults.respectReducedMotion && prefersReducedMotion)
+        ? `wavy-blob-${stableId}`
+        : undefined
+
+    const keyframesCSS = useMemo(() => {
+        if (!animId) return undefined
+        const css = PATH_MORPH_GENERATORS[animateName](animId, bandPath, pattern, { ...radialPatternConfig(options), patterns })
+        return wrapRadialKeyframes(css, options)
+    }, [animId, animateName, bandPath, pattern, patterns, radius, radiusY, depth, rotation])
+    const animationStyle: CSSProperties | undefined = animId
+        ? { animation: `${animId} ${animationDuration}s ease-in-out infinite` }
+        : undefined
+
+    const clipPath = useMemo(
+        () => (clipContent && path ? generateRadialClipPath(path, width, height) : undefined),
+        [clipContent, path, width, height],
+    )
+
+    const wrapperStyle: CSSProperties = {
+        position: 'relative',
+        display: 'inline-block',
+        width,
+        height,
+        ...style,
+    }
+
+    return (
+        <div className={`wavy-bavy-blob ${className}`} style={wrapperStyle}>
+            <svg
+                viewBox={`0 0 ${width} ${height}`}
+                preserveAspectRatio="none"
+                style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', display: 'block', overflow: 'visible' }}
+                xmlns="http://www.w3.org/2000/svg"
+                role={ariaLabel ? 'img' : 'presentation'}
+                aria-label={ariaLabel}
+                aria-hidden={ariaLabel ? undefined : 'true'}
+            >
+                <defs>
+                    {gradient && gradientId && renderGradientDef(gradient, gradientId)}
+                    {filterId && renderEffectFilter(filterId, { shadow, glow, texture, innerShadow, glowColor: color })}
+                    {keyframesCSS && <style>{keyframesCSS}</style>}
+                </defs>
+
+                <path
+                    d={path}
+                    fill={stroke && !stroke.fill ? 'none' : fill}
+                    filter={filterId ? `url(#${filterId})` : undefined}
+                    style={animationStyle}
+                />
+
+                {/* Outline along the wavy edge */}
+                {stroke && (
+                    <path
+                        d={path}
+                        fill="none"
+                        stroke={stroke.color}
+                        strokeWidth={stroke.width}
+                        strokeDasharray={stroke.dashArray}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        style={animationStyle}
+                    />
+                )}
+            </svg>
+
+            {children !== undefined && (
+                <div
+                    style={{
+                        position: 'relative',
+                        width: '100%',
+                        height: '100%',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        clipPath,
+                    }}
+                >
+                    {children}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useMemo, useState, type CSSProperties } from 'react'
+import type { WaveCardProps, WaveCardSide, WaveEdgeConfig, HoverConfig, PatternLookup } from '../types'
+import { useOptionalWaveContext } from '../context/useWaveContext'
+import { DEFAULT_CARD_EDGE, DEFAULT_CARD_HOVER } from '../constants'
+import { generatePath } from '../utils/path-generator'
+import { generateCardClipPath, type ClipPathEdge } from '../utils/clip-path'
+
+// ============================================================
+// WaveCard — card with independently wavy sides
+// ============================================================
+
+const SIDES: WaveCardSide[] = ['top', 'right', 'bottom', 'left']
+
+/** Samples per wave along each side, so sharp patterns keep their peaks */
+const SAMPLES_PER_WAVE = 16
+const MIN_EDGE_SAMPLES = 48
+
+/** Edge config with the default edge's fields filled in */
+type ResolvedEdge = WaveEdgeConfig & typeof DEFAULT_CARD_EDGE
+
+/** Resolve a side prop: true → default edge, config → merged over the default edge */
+function resolveEdge(value: boolean | WaveEdgeConfig | undefined): ResolvedEdge | undefined {
+    if (value === true) return DEFAULT_CARD_EDGE
+    if (value === false || value === undefined) return undefined
+    return { ...DEFAULT_CARD_EDGE, ...value }
+}
+
+/** Generate every edge as a periodic tile, so it can slide along its side and wrap */
+function generateEdges(
+    edges: Partial<Record<WaveCardSide, ResolvedEdge>>,
+    patterns?: PatternLookup,
+): Partial<Record<WaveCardSide, ClipPathEdge>> {
+    const result: Partial<Record<WaveCardSide, ClipPathEdge>> = {}
+    for (const side of SIDES) {
+        const edge = edges[side]
+        if (!edge) continue
+        const path = generatePath(edge.pattern, {
+            height: edge.height,
+            amplitude: edge.amplitude,
+            frequency: edge.frequency,
+            phase: edge.phase,
+            mirror: edge.mirror,
+            seed: edge.seed,
+            periodic: true,
+            spline: edge.spline,
+            noise: edge.noise,
+            customPath: edge.customPath,
+            anchors: edge.anchors,
+        }, patterns)
+        result[side] = { path, height: edge.height }
+    }
+    return result
+}
+
+/** Slide every edge by `waves` of its own wave length (as a share of the side) */
+function offsetEdges(
+    edges: Partial<Record<WaveCardSide, ClipPathEdge>>,
+    configs: Partial<Record<WaveCardSide, ResolvedEdge>>,
+    waves: number,
+): Partial<Record<WaveCardSide, ClipPathEdge>> {
+    const result: Partial<Record<WaveCardSide, ClipPathEdge>> = {}
+    for (const side of SIDES) {
+        const edge = edges[side]
+        const config = configs[side]
+        if (!edge || !config) continue
+        // Built-in patterns repeat a whole number of times along the side
+        result[side] = { ...edge, offset: waves / Math.max(1, Math.round(config.frequency)) }
+    }
+    return result
+}
+
+/**
+ * WaveCard — a box whose sides are independently wavy.
+ *
+ * Each side takes its own `WaveEdgeConfig` (pattern, height, amplitude, …)
+ * and all of them are combined into one CSS `clip-path` (see
+ * `generateCardClipPath`). Edges are periodic, so each side starts and ends
+ * at the same depth. Content padding grows by each wavy side's height, so
+ * text never runs under an edge.
+ *
+ * With `hover`, the card lifts/scales like a hovered wave and its edges
+ * slide by `hover.morph` waves; both clip-paths share one vertex count, so
+ * the edges morph through the CSS transition instead of snapping.
+ *
+ * @example
+ * ```tsx
+ * <WaveCard top bottom={{ pattern: 'organic', height: 32, seed: 4 }} background="#fff" padding={24} hover>
+ *   <h3>Pricing</h3>
+ * </WaveCard>
+ * ```
+ */
+export function WaveCard({
+    top,
+    right,
+    bottom,
+    left,
+    background,
+    padding = 0,
+    hover: hoverProp,
+    as: Component = 'div',
+    className = '',
+    style,
+    'aria-label': ariaLabel,
+    children,
+}: WaveCardProps) {
+    const ctx = useOptionalWaveContext()
+    const patterns = ctx?.patterns
+    const [isHovered, setIsHovered] = useState(false)
+
+    const hover: HoverConfig | undefined =
+        hoverProp === true
+            ? DEFAULT_CARD_HOVER
+            : hoverProp === false || hoverProp === undefined
+                ? undefined
+                : { ...DEFAULT_CARD_HOVER, ...hoverProp }
+
+    const edges = { top: resolveEdge(top), right: resolveEdge(right), bottom: resolveEdge(bottom), left: resolveEdge(left) }
+    const edgesKey = JSON.stringify(edges)
+
+    // One sample count for both clip-paths, so hover transitions interpolate
+    const samples = Math.max(
+        MIN_EDGE_SAMPLES,
+        ...SIDES.map((side) => Math.ceil((edges[side]?.frequency ?? 0) * SAMPLES_PER_WAVE)),
+    )
+
+    const edgePaths = useMemo(() => generateEdges(edges, patterns), [edgesKey, patterns])
+    const clipPath = useMemo(() => generateCardClipPath(edgePaths, undefined, samples), [edgePaths, samples])
+    const morph = hover?.morph ?? 0
+    const hoverClipPath = useMemo(
+        () => (hover && morph !== 0 ? generateCardClipPath(offsetEdges(edgePaths, edges, morph), undefined, samples) : undefined),
+        [edgePaths, edgesKey, samples, !!hover, morph],
+    )
+
+    const transforms: string[] = []
+    if (hover && isHovered) {
+        transforms.push(`translateY(${hover.lift ?? -4}px)`)
+        transforms.push(`scale(${hover.scale ?? 1.02})`)
+    }
+
+    const cardStyle: CSSProperties = {
+        position: 'relative',
+        ...(background && (
+            background.includes('gradient')
+                ? { background }
+                : { backgroundColor: background }
+        )),
+        clipPath: isHovered && hoverClipPath ? hoverClipPath : clipPath,
+        // Keep content clear of the wavy sides
+        paddingTop: (edges.top?.height ?? 0) + padding,
+        paddingRight: (edges.right?.height ?? 0) + padding,
+        paddingBottom: (edges.bottom?.height ?? 0) + padding,
+        paddingLeft: (edges.left?.height ?? 0) + padding,
+        transform: transforms.length > 0 ? transforms.join(' ') : undefined,
+        transition: hover?.transition,
+        ...style,
+    }
+
+    const mouseHandlers = hover
+        ? {
+              onMouseEnter: () => setIsHovered(true),
+              onMouseLeave: () => setIsHovered(false),
+          }
+        : undefined
+
+    return (
+        <Component
+            className={`wavy-bavy-card ${className}`}
+            style={cardStyle}
+            aria-label={ariaLabel}
+            {...mouseHandlers}
+        >
+            {children}
+        </Component>
+    )
+}
@@ -0,0 +1,129 @@
+import { createElement, type ReactElement } from 'react'
+import type { GradientConfig, ShadowConfig, GlowConfig, TextureConfig, InnerShadowConfig } from '../types'
+import { gradientNode, type SvgNode } from '../utils/svg-defs'
+
+// ============================================================
+// Shared SVG defs — gradients and effect filters
+// ============================================================
+
+/** Effects combined into one SVG filter */
+export interface EffectFilterOptions {
+    shadow?: ShadowConfig
+    glow?: GlowConfig
+    texture?: TextureConfig
+    innerShadow?: InnerShadowConfig
+    /** Color used for a glow set to 'currentColor' */
+    glowColor: string
+}
+
+/**
+ * Render an `SvgNode` (see `utils/svg-defs`) as React elements.
+ * Hyphenated attribute names become React's camelCase props.
+ */
+export function renderSvgNode(node: SvgNode): ReactElement {
+    const props: Record<string, string | number> = {}
+    for (const [name, value] of Object.entries(node.attrs)) {
+        props[name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase())] = value
+    }
+    return createElement(node.tag, props, ...(node.children ?? []).map(renderSvgNode))
+}
+
+/**
+ * Render an SVG gradient definition element.
+ */
+export function renderGradientDef(config: GradientConfig, id: string) {
+    return renderSvgNode(gradientNode(config, id))
+}
+
+/**
+ * Render the SVG filter for shadow/glow/texture/innerShadow effects.
+ * Returns null when no effect is set.
+ */
+export function renderEffectFilter(id: string, { shadow, glow, texture, innerShadow, glowColor }: EffectFilterOptions) {
+    if (!shadow && !glow && !texture && !innerShadow) return null
+    return (
+        <filter id={id} x="-20%" y="-20%" width="140%" height="140%">
+            {shadow && (
+                <feDropShadow
+                    dx={shadow.offsetX}
+                    dy={shadow.offsetY}
+                    stdDeviation={shadow.blur / 2}
+                    floodColor={shadow.color}
+                />
+            )}
+            {glow && (
+                <>
+                    <feGaussianBlur
+                        in="SourceAlpha"
+                        stdDeviation={glow.intensity / 2}
+                        result="blur"
+                    />
+                    <feFlood
+                        floodColor={glow.color === 'currentColor' ? glowColor : glow.color}
+                        floodOpacity={glow.opacity}
+                        result="color"
+                    />
+                    <feComposite in="color" in2="blur" operator="in" result="glow" />
+                    <feMerge>
+                        <feMergeNode in="glow" />
+                        <feMergeNode in="SourceGraphic" />
+                    </feMerge>
+                </>
+            )}
+            {texture && (
+                <>
+                    <feTurbulence
+                        type={texture.type}
+                        baseFrequency={texture.frequency}
+                        numOctaves={texture.octaves}
+                        seed={texture.seed}
+                        result="texture"
+                    />
+                    <feDisplacementMap
+                        in="SourceGraphic"
+                        in2="texture"
+                        scale={texture.scale}
+                        xChannelSelector="R"
+                        yChannelSelector="G"
+                        result="displaced"
+                    />
+                </>
+            )}
+            {innerShadow && (
+                <>
+                    <feComponentTransfer in="SourceAlpha" result="innerAlpha">
+                        <feFuncA type="table" tableValues="1 0" />
+                    </feComponentTransfer>
+                    <feGaussianBlur
+                        in="innerAlpha"
+                        stdDeviation={innerShadow.blur / 2}
+                        result="innerBlur"
+                    />
+                    <feOffset
+                        dx={innerShadow.offsetX}
+                        dy={innerShadow.offsetY}
+                        in="innerBlur"
+                        result="innerOffset"
+                    />
+                    <feFlood floodColor={innerShadow.color} result="innerColor" />
+                    <feComposite
+                        in="innerColor"
+                        in2="innerOffset"
+                        operator="in"
+                        result="innerShadow"
+                    />
+                    <feComposite
+                        in="innerShadow"
+                        in2="SourceAlpha"
+                        operator="in"
+                        result="innerClipped"
+                    />
+                    <feMerge>
+                        <feMergeNode in="SourceGraphic" />
+                        <feMergeNode in="innerClipped" />
+                    </feMerge>
+                </>
+            )}
+        </filter>
+    )
+}
@@ -1,20 +1,31 @@
 'use client'
 
-import type { HoverConfig } from '../types'
+import type { ColorInterpolationOptions, HoverConfig, WaveFit, WaveOrientation } from '../types'
+import { interpolateColors } from '../utils/color-utils'
 import { WaveRenderer } from './WaveRenderer'
 
 /**
  * WaveLayer — renders multiple stacked wave layers with decreasing opacity.
  *
- * Used when `layers > 1` to create a layered, depth effect.
+ * Used when `layers > 1` to create a layered, depth effect, and for
+ * `transitionBands`, where each layer is an opaque band in its own color.
  * When parallax is active, each layer gets a slightly different speed for depth.
+ *
+ * With a `colorSpace` other than 'srgb', the opacity ramp is blended in that
+ * space instead of by the browser: each extra layer gets an opaque color
+ * between the container and fill colors, and layers are painted back to front
+ * so the base wave stays on top.
  */
 interface WaveLayerProps {
     paths: string[]
     fillColor: string
+    /** Per-layer fill colors. When set, layers are drawn opaque instead of fading */
+    fillColors?: string[]
     containerColor: string
     height: number
     direction: 'up' | 'down'
+    /** Edge orientation passed through to each WaveRenderer. Default: 'horizontal' */
+    orientation?: WaveOrientation
     baseOpacity: number
     /** Parallax speed for the base layer (0 = static, 1 = full scroll). Each subsequent layer gets speed * (1 + index * 0.15) */
     parallaxSpeed?: number
@@ -24,66 +35,103 @@ interface WaveLayerProps {
     parallaxDirection?: 'vertical' | 'horizontal'
     /** Hover config to pass through to WaveRenderer */
     hover?: HoverConfig
+    /** Width the paths were generated for. Default: 1440 */
+    viewBoxWidth?: number
+    /** Width fitting mode; the base layer reports measurements via `onMeasure` */
+    fit?: WaveFit
+    /** Called with the measured width in px when `fit` is 'measure' */
+    onMeasure?: (width: number) => void
+    /** Color space the layer opacity ramp blends in. Default: 'srgb' (CSS opacity) */
+    colorSpace?: ColorInterpolationOptions['colorSpace']
+    /** Hue direction for `colorSpace` 'oklch'. Default: 'shorter' */
+    hueInterpolation?: ColorInterpolationOptions['hueInterpolation']
 }
 
 export function WaveLayer({
     paths,
     fillColor,
+    fillColors,
     containerColor,
     height,
     direction,
+    orientation = 'horizontal',
     baseOpacity,
     parallaxSpeed,
     scrollProgress = 0,
     parallaxDirection = 'vertical',
     hover,
+    viewBoxWidth,
+    fit,
+    onMeasure,
+    colorSpace = 'srgb',
+    hueInterpolation,
 }: WaveLayerProps) {
     if (paths.length <= 1) {
         const offset = computeParallaxOffset(parallaxSpeed, scrollProgress, parallaxDirection, 0)
         return (
             <WaveRenderer
                 path={paths[0] || ''}
-                fillColor={fillColor}
+                fillColor={fillColors?.[0] ?? fillColor}
                 containerColor={containerColor}
                 height={height}
                 direction={direction}
+                orientation={orientation}
                 hover={hover}
                 parallaxOffset={offset}
+                viewBoxWidth={viewBoxWidth}
+                fit={fit}
+                onMeasure={onMeasure}
             />
         )
     }
 
+    // Opaque stand-ins for the faded layers, blended in the chosen color space
+    const rampColors = !fillColors && colorSpace !== 'srgb'
+        ? paths.map((_, i) => (i === 0 ? fillColor : interpolateColors(containerColor, fillColor, layerOpacity(baseOpacity, i), { colorSpace, hueInterpolation })))
+        : undefined
+    const paintOrder = paths.map((_, i) => i)
+    if (rampColors) paintOrder.reverse()
+
     return (
         <div
-            style={{ position: 'relative', width: '100%', height }}
+            style={orientation === 'vertical'
+                ? { position: 'relative', width: height, alignSelf: 'stretch', flexShrink: 0 }
+                : { position: 'relative', width: '100%', height }}
             aria-hidden="true"
             role="presentation"
         >
-            {paths.map((path, i) => {
-                const isBase = i === 0
-                const opacity = isBase ? 1 : baseOpacity * (1 - i * 0.2)
+            {paintOrder.map((i, painted) => {
+                const path = paths[i]
+                const isBack = painted === 0
+                const opacity = i === 0 || fillColors || rampColors ? 1 : layerOpacity(baseOpacity, i)
                 const offset = computeParallaxOffset(parallaxSpeed, scrollProgress, parallaxDirection, i)
 
                 return (
                     <div
                         key={i}
                         style={{
-                            position: isBase ? 'relative' : 'absolute',
+                            position: isBack ? 'relative' : 'absolute',
                             top: 0,
                             left: 0,
                             width: '100%',
                             height: '100%',
-                            opacity: isBase ? 1 : opacity,
+                            opacity,
+                            // Lets vertical renderers stretch to the layer's height
+                            ...(orientation === 'vertical' && { display: 'flex' }),
                         }}
                     >
                         <WaveRenderer
                             path={path}
-                            fillColor={fillColor}
-                            containerColor={isBase ? containerColor : 'transparent'}
+                            fillColor={fillColors?.[i] ?? rampColors?.[i] ?? fillColor}
+                            containerColor={isBack ? containerColor : 'transparent'}
                             height={height}
                             direction={direction}
+                            orientation={orientation}
                             hover={hover}
                             parallaxOffset={offset}
+                            viewBoxWidth={viewBoxWidth}
+                            fit={fit}
+                            onMeasure={i === 0 ? onMeasure : undefined}
                         />
                     </div>
                 )
@@ -92,6 +140,11 @@ export function WaveLayer({
     )
 }
 
+/** Opacity of layer `index` (1 and up) in the fading stack */
+function layerOpacity(baseOpacity: number, index: number): number {
+    return baseOpacity * (1 - index * 0.2)
+}
+
 function computeParallaxOffset(
     speed: number | undefined,
     progress: number,
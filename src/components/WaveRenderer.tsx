@@ -1,10 +1,15 @@
 'use client'
 
-import { useId, useMemo, useState } from 'react'
-import type { WaveRendererProps, GradientConfig } from '../types'
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import type { WaveRendererProps } from '../types'
 import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
 import type { CSSProperties } from 'react'
-import { useIntersection } from '../utils/use-intersection'
+import { useIntersection, useMergedRef } from '../utils/use-intersection'
+import { useElementWidth } from '../utils/use-element-width'
+import { tilePeriodicPath, transposePath } from '../utils/path-generator'
+import { tileScrollKeyframes } from '../utils/keyframes'
+import { bandFill } from '../utils/svg-defs'
+import { renderGradientDef, renderEffectFilter, renderSvgNode } from './WaveDefs'
 
 // ── Path utilities ──
 
@@ -51,32 +56,11 @@ function invertPathToTop(pathStr: string): string {
 }
 
 /**
- * Render an SVG gradient definition element.
+ * Transpose every `d: path("...")` in a keyframes block, so morph
+ * animations generated for horizontal paths drive vertical ones.
  */
-function renderGradientDef(config: GradientConfig, id: string) {
-    if (config.type === 'radial') {
-        return (
-            <radialGradient id={id} cx="50%" cy="50%" r="50%">
-                {config.stops.map((stop, i) => (
-                    <stop key={i} offset={`${stop.offset * 100}%`} stopColor={stop.color} />
-                ))}
-            </radialGradient>
-        )
-    }
-    // Linear gradient — convert angle to SVG x1/y1/x2/y2
-    const angle = config.angle ?? 0
-    const rad = (angle * Math.PI) / 180
-    const x1 = `${50 - Math.cos(rad) * 50}%`
-    const y1 = `${50 + Math.sin(rad) * 50}%`
-    const x2 = `${50 + Math.cos(rad) * 50}%`
-    const y2 = `${50 - Math.sin(rad) * 50}%`
-    return (
-        <linearGradient id={id} x1={x1} y1={y1} x2={x2} y2={y2}>
-            {config.stops.map((stop, i) => (
-                <stop key={i} offset={`${stop.offset * 100}%`} stopColor={stop.color} />
-            ))}
-        </linearGradient>
-    )
+function transposeKeyframePaths(css: string): string {
+    return css.replace(/d:\s*path\("([^"]+)"\)/g, (_: string, pathStr: string) => `d: path("${transposePath(pathStr)}")`)
 }
 
 /**
@@ -93,6 +77,22 @@ function renderGradientDef(config: GradientConfig, id: string) {
  * for reliable CSS transform behavior on HTML elements.
  *
  * Stroke traces only the wave contour (no baseline edges).
+ *
+ * With `separation.band` in dual-path mode, the strip between Path A and
+ * Path B is painted with the band's color, gradient or pattern. It is Path
+ * A's area, so it morphs with Path A's keyframes.
+ *
+ * With `tileScroll`, a periodic path is repeated side by side and every
+ * path slides left by one tile per cycle, so flow/drift loop without a seam.
+ *
+ * With `fit="measure"`, the container's width is reported through
+ * `onMeasure` so the owner can regenerate paths at that width (passed back
+ * as `viewBoxWidth`), and strokes use `vector-effect: non-scaling-stroke`.
+ *
+ * With `orientation="vertical"`, paths and keyframes are still built in the
+ * horizontal frame and transposed at the end: the container becomes a band
+ * `height` px wide that stretches to its flex row's height, with the owning
+ * section's area on the left of the wave and the adjacent one on the right.
  */
 export function WaveRenderer({
     path,
@@ -102,6 +102,7 @@ export function WaveRenderer({
     containerGradient,
     height,
     direction,
+    orientation = 'horizontal',
     shadow,
     glow,
     stroke,
@@ -118,11 +119,15 @@ export function WaveRenderer({
     pathAAnimId,
     pathBAnimId,
     animationDuration,
+    tileScroll = false,
+    viewBoxWidth = DEFAULT_VIEWBOX_WIDTH,
+    fit = 'viewBox',
+    onMeasure,
     className = '',
     animationStyle,
 }: WaveRendererProps & { animationStyle?: CSSProperties }) {
-    const viewBoxWidth = DEFAULT_VIEWBOX_WIDTH
     const isUp = direction === 'up'
+    const isVertical = orientation === 'vertical'
     const [isHovered, setIsHovered] = useState(false)
     const stableId = useId()
 
@@ -132,6 +137,23 @@ export function WaveRenderer({
         once: true,
     })
 
+    // Measured fit: report the container width (height when vertical) so paths can be regenerated at it
+    const isMeasured = fit === 'measure'
+    const [measureRef, measuredWidth] = useElementWidth({ disabled: !isMeasured, dimension: isVertical ? 'height' : 'width' })
+    const onMeasureRef = useRef(onMeasure)
+    onMeasureRef.current = onMeasure
+    useEffect(() => {
+        if (measuredWidth !== null) onMeasureRef.current?.(measuredWidth)
+    }, [measuredWidth])
+    const observedRef = useMergedRef<HTMLElement>(lazy ? intersectionRef : undefined, isMeasured ? measureRef : undefined)
+    const strokeVectorEffect = isMeasured ? 'non-scaling-stroke' : undefined
+    // Measured paths are drawn one unit per px: the -20/+20 overflow hangs outside the (clipped) container
+    const svgStyle: CSSProperties = !isMeasured
+        ? { width: '100%', height: '100%', display: 'block' }
+        : isVertical
+            ? { width: '100%', height: 'calc(100% + 40px)', marginTop: -20, display: 'block' }
+            : { width: 'calc(100% + 40px)', height: '100%', marginLeft: -20, display: 'block' }
+
     // Build SVG filter for shadow/glow/texture/innerShadow effects
     const hasFilter = !!shadow || !!glow || !!texture || !!innerShadow
     const filterId = hasFilter ? `wave-filter-${stableId.replace(/:/g, '')}` : undefined
@@ -147,14 +169,34 @@ export function WaveRenderer({
     // Dual-path mode active when pathB is provided
     const isDualPath = !!pathB
 
+    // Accent band: Path A's area is painted with the band, Path B covers all but the strip between them
+    const band = isDualPath && separation?.band
+        ? bandFill(separation.band.fill, `wave-band-${stableId.replace(/:/g, '')}`)
+        : undefined
+
+    // Tile scroll: repeat a periodic path so it can slide one full tile per cycle
+    const tiledPath = useMemo(() => {
+        if (!tileScroll || isDualPath) return null
+        const tiled = tilePeriodicPath(path, viewBoxWidth)
+        if (!tiled) {
+            console.warn('[wavy-bavy] tileScroll requires a periodic path (generated with periodic: true); rendering without scrolling')
+        }
+        return tiled
+    }, [tileScroll, isDualPath, path, viewBoxWidth])
+    const tileAnimId = tiledPath ? `wave-tile-${stableId.replace(/:/g, '')}` : undefined
+    const tileStyle: CSSProperties | undefined = tileAnimId
+        ? { animation: `${tileAnimId} ${animationDuration ?? 4}s linear infinite` }
+        : undefined
+    const areaPath = tiledPath ?? path
+
     // Extract wave contour for stroke (excludes baseline edges)
     const strokePath = useMemo(
-        () => (stroke ? extractWaveContour(path) : undefined),
-        [path, !!stroke],
+        () => (stroke ? extractWaveContour(areaPath) : undefined),
+        [areaPath, !!stroke],
     )
 
     // Top area path: covers above the wave curve, gets effects
-    const topPath = useMemo(() => invertPathToTop(path), [path])
+    const topPath = useMemo(() => invertPathToTop(areaPath), [areaPath])
 
     // Generate top path morph keyframes from bottom path keyframes
     const topMorphAnim = useMemo(() => {
@@ -169,7 +211,7 @@ export function WaveRenderer({
     }, [pathAKeyframesCSS, pathAAnimId])
 
     // Bottom area path: covers below the wave curve, no effects
-    const bottomPath = useMemo(() => extendPathBelow(path, height), [path, height])
+    const bottomPath = useMemo(() => extendPathBelow(areaPath, height), [areaPath, height])
 
     // Dual-path: Path B bottom area
     const bottomPathB = useMemo(
@@ -183,13 +225,30 @@ export function WaveRenderer({
         if (pathAKeyframesCSS) parts.push(pathAKeyframesCSS)
         if (pathBKeyframesCSS) parts.push(pathBKeyframesCSS)
         if (topMorphAnim?.css) parts.push(topMorphAnim.css)
-        return parts.length > 0 ? parts.join('\n') : undefined
-    }, [pathAKeyframesCSS, pathBKeyframesCSS, topMorphAnim?.css])
+        if (tileAnimId) parts.push(tileScrollKeyframes(tileAnimId, viewBoxWidth, isVertical ? 'y' : 'x'))
+        if (parts.length === 0) return undefined
+        return isVertical ? transposeKeyframePaths(parts.join('\n')) : parts.join('\n')
+    }, [pathAKeyframesCSS, pathBKeyframesCSS, topMorphAnim?.css, tileAnimId, viewBoxWidth, isVertical])
+
+    // Paths as drawn: transposed into vertical seams when needed
+    const drawn = useMemo(() => {
+        const orient = (d: string) => (isVertical ? transposePath(d) : d)
+        return {
+            top: orient(topPath),
+            bottom: orient(bottomPath),
+            bottomB: bottomPathB ? orient(bottomPathB) : undefined,
+            stroke: strokePath ? orient(strokePath) : undefined,
+            contourA: isDualPath && separation?.strokeColor ? orient(extractWaveContour(path)) : undefined,
+            contourB: pathB && separation?.strokeColor ? orient(extractWaveContour(pathB)) : undefined,
+        }
+    }, [isVertical, topPath, bottomPath, bottomPathB, strokePath, isDualPath, separation?.strokeColor, path, pathB])
 
     // ── Container styles (layout + fallback background + rotation) ──
     const containerStyle: CSSProperties = {
-        width: '100%',
-        height,
+        // Vertical seams are a fixed-width band stretched to the flex row's height
+        width: isVertical ? height : '100%',
+        height: isVertical ? undefined : height,
+        ...(isVertical && { alignSelf: 'stretch', flexShrink: 0 }),
         overflow: 'hidden',
         lineHeight: 0,
         fontSize: 0,
@@ -203,7 +262,7 @@ export function WaveRenderer({
         containerStyle.WebkitBackdropFilter = `blur(${blur.radius}px) saturate(${blur.saturation})`
     }
 
-    // ── Parallax via viewBox shift (Y axis only — no wrapper gap) ──
+    // ── Parallax via viewBox shift (across the wave only — no wrapper gap) ──
     const parallaxY = Math.max(-50, Math.min(50, -(parallaxOffset?.y ?? 0)))
 
     // ── Wrapper styles (animation + hover + horizontal parallax) ──
@@ -212,10 +271,11 @@ export function WaveRenderer({
         const s = hover.scale ?? 1.02
         const l = hover.lift ?? -4
         wrapperTransforms.push(`scale(${s})`)
-        wrapperTransforms.push(`translateY(${l}px)`)
+        wrapperTransforms.push(isVertical ? `translateX(${l}px)` : `translateY(${l}px)`)
     }
     if (parallaxOffset && parallaxOffset.x !== 0) {
-        wrapperTransforms.push(`translateX(${parallaxOffset.x}px)`)
+        // Along the wave: down the seam when vertical
+        wrapperTransforms.push(isVertical ? `translateY(${parallaxOffset.x}px)` : `translateX(${parallaxOffset.x}px)`)
     }
 
     const wrapperStyle: CSSProperties = {
@@ -247,7 +307,7 @@ export function WaveRenderer({
     if (lazy && !isVisible) {
         return (
             <div
-                ref={intersectionRef}
+                ref={observedRef}
                 className={`wavy-bavy-wave ${className}`}
                 style={containerStyle}
                 aria-hidden="true"
@@ -259,7 +319,7 @@ export function WaveRenderer({
 
     return (
         <div
-            ref={lazy ? intersectionRef : undefined}
+            ref={isMeasured || lazy ? observedRef : undefined}
             className={`wavy-bavy-wave ${className}`}
             style={containerStyle}
             aria-hidden="true"
@@ -268,100 +328,25 @@ export function WaveRenderer({
         >
             <div style={wrapperStyle}>
                 <svg
-                    viewBox={`-20 ${parallaxY} ${viewBoxWidth + 40} ${height}`}
+                    viewBox={isVertical
+                        ? `${parallaxY} -20 ${height} ${viewBoxWidth + 40}`
+                        : `-20 ${parallaxY} ${viewBoxWidth + 40} ${height}`}
                     preserveAspectRatio="none"
-                    style={{ width: '100%', height: '100%', display: 'block' }}
+                    style={svgStyle}
                     xmlns="http://www.w3.org/2000/svg"
                 >
                     {/* Defs: gradients + filters + path morphing keyframes */}
                     <defs>
                         {fillGradient && fillGradientId && renderGradientDef(fillGradient, fillGradientId)}
                         {containerGradient && containerGradientId && renderGradientDef(containerGradient, containerGradientId)}
-                        {hasFilter && (
-                            <filter id={filterId} x="-20%" y="-20%" width="140%" height="140%">
-                                {shadow && (
-                                    <feDropShadow
-                                        dx={shadow.offsetX}
-                                        dy={shadow.offsetY}
-                                        stdDeviation={shadow.blur / 2}
-                                        floodColor={shadow.color}
-                                    />
-                                )}
-                                {glow && (
-                                    <>
-                                        <feGaussianBlur
-                                            in="SourceAlpha"
-                                            stdDeviation={glow.intensity / 2}
-                                            result="blur"
-                                        />
-                                        <feFlood
-                                            floodColor={glow.color === 'currentColor' ? containerColor : glow.color}
-                                            floodOpacity={glow.opacity}
-                                            result="color"
-                                        />
-                                        <feComposite in="color" in2="blur" operator="in" result="glow" />
-                                        <feMerge>
-                                            <feMergeNode in="glow" />
-                                            <feMergeNode in="SourceGraphic" />
-                                        </feMerge>
-                                    </>
-                                )}
-                                {texture && (
-                                    <>
-                                        <feTurbulence
-                                            type={texture.type}
-                                            baseFrequency={texture.frequency}
-                                            numOctaves={texture.octaves}
-                                            seed={texture.seed}
-                                            result="texture"
-                                        />
-                                        <feDisplacementMap
-                                            in="SourceGraphic"
-                                            in2="texture"
-                                            scale={texture.scale}
-                                            xChannelSelector="R"
-                                            yChannelSelector="G"
-                                            result="displaced"
-                                        />
-                                    </>
-                                )}
-                                {innerShadow && (
-                                    <>
-                                        <feComponentTransfer in="SourceAlpha" result="innerAlpha">
-                                            <feFuncA type="table" tableValues="1 0" />
-                                        </feComponentTransfer>
-                                        <feGaussianBlur
-                                            in="innerAlpha"
-                                            stdDeviation={innerShadow.blur / 2}
-                                            result="innerBlur"
-                                        />
-                                        <feOffset
-                                            dx={innerShadow.offsetX}
-                                            dy={innerShadow.offsetY}
-                                            in="innerBlur"
-                                            result="innerOffset"
-                                        />
-                                        <feFlood floodColor={innerShadow.color} result="innerColor" />
-                                        <feComposite
-                                            in="innerColor"
-                                            in2="innerOffset"
-                                            operator="in"
-                                            result="innerShadow"
-                                        />
-                                        <feComposite
-                                            in="innerShadow"
-                                            in2="SourceAlpha"
-                                            operator="in"
-                                            result="innerClipped"
-                                        />
-                                        <feMerge>
-                                            <feMergeNode in="SourceGraphic" />
-                                            <feMergeNode in="innerClipped" />
-                                        </feMerge>
-                                    </>
-                                )}
-                            </filter>
-                        )}
+                        {band?.def && renderSvgNode(band.def)}
+                        {filterId && renderEffectFilter(filterId, {
+                            shadow,
+                            glow,
+                            texture,
+                            innerShadow,
+                            glowColor: containerColor,
+                        })}
                         {morphKeyframesCSS && (
                             <style>{morphKeyframesCSS}</style>
                         )}
@@ -369,28 +354,28 @@ export function WaveRenderer({
 
                     {/* Path 1: Top area — containerColor + effects (owning section) */}
                     <path
-                        d={topPath}
+                        d={drawn.top}
                         fill={containerRef}
                         fillOpacity={blur ? blur.opacity : undefined}
                         filter={filterId ? `url(#${filterId})` : undefined}
                         style={topMorphAnim ? {
                             animation: `${topMorphAnim.animId} ${animationDuration ?? 4}s ease-in-out infinite`,
-                        } : undefined}
+                        } : tileStyle}
                     />
 
                     {isDualPath ? (
                         <>
-                            {/* Dual-path mode: Path A (upper edge) with d: path() morphing */}
+                            {/* Dual-path mode: Path A (upper edge) with d: path() morphing — the band shows below it */}
                             <path
-                                d={bottomPath}
-                                fill={stroke && !stroke.fill ? 'none' : containerRef}
+                                d={drawn.bottom}
+                                fill={stroke && !stroke.fill ? 'none' : band?.paint ?? containerRef}
                                 style={pathAAnimId ? {
                                     animation: `${pathAAnimId} ${animationDuration ?? 4}s ease-in-out infinite`,
                                 } : undefined}
                             />
                             {/* Dual-path mode: Path B (lower edge) with d: path() morphing */}
                             <path
-                                d={bottomPathB}
+                                d={drawn.bottomB}
                                 fill={stroke && !stroke.fill ? 'none' : fillRef}
                                 style={pathBAnimId ? {
                                     animation: `${pathBAnimId} ${animationDuration ?? 4}s ease-in-out infinite`,
@@ -400,18 +385,20 @@ export function WaveRenderer({
                             {separation?.strokeColor && (
                                 <>
                                     <path
-                                        d={extractWaveContour(path)}
+                                        d={drawn.contourA}
                                         fill="none"
                                         stroke={separation.strokeColor}
                                         strokeWidth={separation.strokeWidth ?? 1}
                                         strokeLinecap="round"
+                                        vectorEffect={strokeVectorEffect}
                                     />
                                     <path
-                                        d={extractWaveContour(pathB!)}
+                                        d={drawn.contourB}
                                         fill="none"
                                         stroke={separation.strokeColor}
                                         strokeWidth={separation.strokeWidth ?? 1}
                                         strokeLinecap="round"
+                                        vectorEffect={strokeVectorEffect}
                                     />
                                 </>
                             )}
@@ -420,25 +407,27 @@ export function WaveRenderer({
                         <>
                             {/* Single-path mode: Bottom area — fillColor, no effects */}
                             <path
-                                d={bottomPath}
+                                d={drawn.bottom}
                                 fill={stroke && !stroke.fill ? 'none' : fillRef}
                                 style={pathAAnimId ? {
                                     animation: `${pathAAnimId} ${animationDuration ?? 4}s ease-in-out infinite`,
-                                } : undefined}
+                                } : tileStyle}
                             />
                         </>
                     )}
 
                     {/* Stroke path (wave contour only — no baseline edges) */}
-                    {stroke && strokePath && !isDualPath && (
+                    {stroke && drawn.stroke && !isDualPath && (
                         <path
-                            d={strokePath}
+                            d={drawn.stroke}
                             fill="none"
                             stroke={stroke.color}
                             strokeWidth={stroke.width}
                             strokeDasharray={stroke.dashArray}
                             strokeLinecap="round"
                             strokeLinejoin="round"
+                            vectorEffect={strokeVectorEffect}
+                            style={tileStyle}
                         />
                     )}
                 </svg>
@@ -5,6 +5,7 @@ import {
     useId,
     useMemo,
     useRef,
+    useState,
     type CSSProperties,
     type MutableRefObject,
 } from 'react'
@@ -17,17 +18,23 @@ import type {
     TextureConfig,
     InnerShadowConfig,
     PatternName,
+    PatternParam,
     ScrollAnimationConfig,
     ParallaxConfig,
     HoverConfig,
     WaveSeparationConfig,
     WaveEdgeConfig,
+    ParsedBackground,
+    PatternConfig,
+    PatternLookup,
 } from '../types'
 import { useOptionalWaveContext } from '../context/useWaveContext'
 import { WaveRenderer } from './WaveRenderer'
 import { WaveLayer } from './WaveLayer'
-import { parseBackground, generateAutoGradient } from '../utils/color-utils'
-import { generatePath, generateLayeredPaths } from '../utils/path-generator'
+import { parseBackground, backgroundEdgeColor, generateAutoGradient, transitionBandColors } from '../utils/color-utils'
+import { generatePath, generateLayeredPaths, generateTransitionBands } from '../utils/path-generator'
+import { resolvePatternInput } from '../utils/compose-patterns'
+import { getPatternInfo } from '../utils/pattern-registry'
 import {
     DEFAULTS,
     BREAKPOINTS,
@@ -42,14 +49,36 @@ import {
     DEFAULT_HOVER,
     DEFAULT_SEPARATION,
     PRESETS,
+    DEFAULT_FREQUENCY_RANGE,
+    DEFAULT_VIEWBOX_WIDTH,
 } from '../constants'
 import type { Breakpoint } from '../types'
-import { useWaveAnimation } from '../utils/animation'
+import { useWaveAnimation, useReducedMotion } from '../utils/animation'
 import { generateClipPath } from '../utils/clip-path'
 import { useIntersection, useMergedRef } from '../utils/use-intersection'
 import { useScrollProgress } from '../utils/use-scroll-progress'
+import { useResolvedBackground } from '../utils/use-resolved-background'
+import { useImageEdgeColors } from '../utils/use-image-edge-colors'
 import { generateInterlockPaths, generateCrossBoundaryPaths, autoSeed } from '../utils/interlock-generator'
-import { PATH_MORPH_GENERATORS, generateDualPathMorphKeyframes } from '../utils/keyframes'
+import { PATH_MORPH_GENERATORS, TILE_SCROLL_ANIMATIONS, generateDualPathMorphKeyframes } from '../utils/keyframes'
+
+/** Everything the path generators need for one wave: a pattern plus its config */
+type SectionWaveConfig = PatternConfig & { pattern: PatternName }
+
+/** Section wave config with an edge's own settings (`upperWave` / `lowerWave`) laid over it */
+function withEdgeOverrides(config: SectionWaveConfig, edge: WaveEdgeConfig | undefined): SectionWaveConfig {
+    if (!edge) return config
+    const overrides = Object.fromEntries(Object.entries(edge).filter(([, value]) => value !== undefined))
+    return { ...config, ...overrides }
+}
+
+/** Single-edge paths: transition bands, decorative layers, or one wave */
+function generateEdgePaths(config: SectionWaveConfig, bandCount: number, layerCount: number, patterns?: PatternLookup): string[] {
+    const { pattern, ...patternConfig } = config
+    if (bandCount > 1) return generateTransitionBands(pattern, bandCount, patternConfig, patterns)
+    if (layerCount > 1) return generateLayeredPaths(pattern, layerCount, patternConfig, patterns)
+    return [generatePath(pattern, patternConfig, patterns)]
+}
 
 /**
  * WaveSection — the main public API component.
@@ -77,11 +106,15 @@ export function WaveSection({
     background,
     backgroundImage,
     clipImage = false,
+    edgeColor: edgeColorProp,
+    edgeSampling = 'dominant',
 
     // Wave config
     preset,
     wavePosition: wavePositionProp,
+    orientation: orientationProp,
     height: heightProp,
+    fit = 'viewBox',
 
     // Pattern
     pattern: patternProp,
@@ -91,11 +124,18 @@ export function WaveSection({
     phase,
     mirror,
     seed,
+    periodic = false,
+    spline,
+    noise,
+    anchors,
 
     // Gradient Fills
     fillGradient,
     containerGradient,
     autoGradient,
+    gradientStops,
+    colorSpace: colorSpaceProp,
+    hueInterpolation: hueInterpolationProp,
 
     // Animation
     animate,
@@ -111,6 +151,7 @@ export function WaveSection({
     innerShadow: innerShadowProp,
     layers: layerCount = 1,
     layerOpacity = 0.3,
+    transitionBands = 1,
 
     // Scroll & Interaction
     scrollAnimate: scrollAnimateProp,
@@ -148,19 +189,42 @@ export function WaveSection({
     // (ctx changes on every sections update because getSectionBefore/After are recreated)
     const ctxRegister = ctx?.register
     const ctxUpdate = ctx?.update
+    const ctxPatterns = ctx?.patterns
 
     // ── Resolve preset ──
     const resolvedPreset = preset ? PRESETS[preset] : undefined
 
+    // ── Resolve orientation (left/right wave positions imply vertical edges) ──
+    const orientation = orientationProp ?? (wavePositionProp === 'left' || wavePositionProp === 'right' ? 'vertical' : 'horizontal')
+    const isVertical = orientation === 'vertical'
+
+    // ── Resolve pattern (an array of layers becomes a section-scoped composed pattern) ──
+    const patternInput = patternProp ?? resolvedPreset?.pattern ?? defaults.pattern
+    const patternKey = Array.isArray(patternInput) ? JSON.stringify(patternInput) : patternInput
+    const { pattern, patterns: scopedPatterns } = useMemo(
+        () => resolvePatternInput(patternInput, ctxPatterns),
+        [patternKey, ctxPatterns],
+    )
+
     // ── Parse background ──
     const bgValue = backgroundImage ? `url(${backgroundImage})` : background
     const parsedBg = useMemo(() => parseBackground(bgValue), [bgValue])
+    // var(), currentColor and class backgrounds resolve against the page after mount (and on theme changes)
+    const resolvedBg = useResolvedBackground(bgValue, parsedBg, sectionRef)
+    // Image backgrounds are sampled where waves meet them; edgeColor overrides (a string, every edge)
+    const sampledEdges = useImageEdgeColors(resolvedBg, edgeSampling, typeof edgeColorProp !== 'string')
+    const edgeColorKey = JSON.stringify(edgeColorProp)
+    const sectionBg = useMemo((): ParsedBackground => {
+        if (typeof edgeColorProp === 'string') return { ...resolvedBg, dominantColor: edgeColorProp }
+        const edgeColors = { ...sampledEdges, ...edgeColorProp }
+        return Object.keys(edgeColors).length > 0 ? { ...resolvedBg, edgeColors } : resolvedBg
+    }, [resolvedBg, sampledEdges, edgeColorKey])
 
     // ── Debug metadata (zero overhead when debug is off) ──
     const isDebug = ctx?.debug ?? false
     const debugMeta = isDebug
         ? {
-              pattern: patternProp ?? resolvedPreset?.pattern ?? defaults.pattern,
+              pattern,
               amplitude: amplitudeProp ?? resolvedPreset?.amplitude ?? defaults.amplitude,
               frequency: frequencyProp ?? resolvedPreset?.frequency ?? defaults.frequency,
               animate: animate ?? resolvedPreset?.animate ?? defaults.animate,
@@ -171,9 +235,9 @@ export function WaveSection({
     useEffect(() => {
         if (!ctxRegister || !ctxUpdate) return
 
-        const wavePos = wavePositionProp ?? 'bottom'
+        const wavePos = wavePositionProp ?? (isVertical ? 'right' : 'bottom')
         const config = {
-            background: parsedBg,
+            background: sectionBg,
             wavePosition: wavePos,
             debugMeta,
             upperWave,
@@ -191,7 +255,7 @@ export function WaveSection({
             // Subsequent renders — update only
             ctxUpdate(sectionId, config)
         }
-    }, [ctxRegister, ctxUpdate, sectionId, parsedBg, wavePositionProp, isDebug, debugMeta?.pattern, debugMeta?.amplitude, debugMeta?.frequency, debugMeta?.animate, JSON.stringify(upperWave), JSON.stringify(lowerWave)])
+    }, [ctxRegister, ctxUpdate, sectionId, sectionBg, wavePositionProp, isVertical, isDebug, debugMeta?.pattern, debugMeta?.amplitude, debugMeta?.frequency, debugMeta?.animate, JSON.stringify(upperWave), JSON.stringify(lowerWave)])
 
     // Unmount-only cleanup (separate effect to prevent re-registration on prop changes)
     useEffect(() => {
@@ -208,21 +272,32 @@ export function WaveSection({
     }, [ctxUpdate, sectionId])
 
     // ── Resolve wave config ──
-    const pattern: PatternName = patternProp ?? resolvedPreset?.pattern ?? defaults.pattern
     const height = heightProp ?? resolvedPreset?.height ?? defaults.height
     const rawAmplitude = amplitudeProp ?? resolvedPreset?.amplitude ?? defaults.amplitude
     const rawFrequency = frequencyProp ?? resolvedPreset?.frequency ?? defaults.frequency
 
-    // Validate and clamp numeric props
+    // Validate and clamp numeric props (frequency range depends on the pattern)
+    const patternInfo = useMemo(() => getPatternInfo(pattern, scopedPatterns), [pattern, scopedPatterns])
+    const [periodicMinFrequency, maxFrequency] = patternInfo?.frequencyRange ?? DEFAULT_FREQUENCY_RANGE
+    // Whole periods only matter for seamless tiles; otherwise fractions stay valid (drawn as one period)
+    const minFrequency = periodic ? periodicMinFrequency : Math.min(periodicMinFrequency, DEFAULT_FREQUENCY_RANGE[0])
     const amplitude = Math.max(0, Math.min(1, rawAmplitude))
-    const frequency = Math.max(0.1, Math.min(20, rawFrequency))
+    const frequency = Math.max(minFrequency, Math.min(maxFrequency, rawFrequency))
 
     // Validate numeric props — warn and clamp
     if (rawAmplitude < 0 || rawAmplitude > 1) {
         console.warn(`[wavy-bavy] amplitude ${rawAmplitude} is outside valid range [0, 1], clamped to ${amplitude}`)
     }
-    if (rawFrequency < 0.1 || rawFrequency > 20) {
-        console.warn(`[wavy-bavy] frequency ${rawFrequency} is outside valid range [0.1, 20], clamped to ${frequency}`)
+    if (rawFrequency < minFrequency || rawFrequency > maxFrequency) {
+        console.warn(`[wavy-bavy] frequency ${rawFrequency} is outside valid range [${minFrequency}, ${maxFrequency}] for pattern "${pattern}", clamped to ${frequency}`)
+    }
+    // Pattern-specific props the pattern does not respond to
+    if (patternInfo) {
+        const given: Array<[PatternParam, unknown]> = [['phase', phase], ['seed', seed], ['spline', spline], ['noise', noise], ['customPath', customPath]]
+        const ignored = given.filter(([param, value]) => value !== undefined && !patternInfo.params.includes(param)).map(([param]) => param)
+        if (ignored.length > 0) {
+            console.warn(`[wavy-bavy] pattern "${pattern}" ignores ${ignored.join(', ')} (it responds to ${patternInfo.params.join(', ')})`)
+        }
     }
 
     // Resolve responsive height: use max for SVG path generation, CSS media queries for visual
@@ -231,23 +306,24 @@ export function WaveSection({
         ? height
         : Math.max(...Object.values(height as Partial<Record<Breakpoint, number>>).filter((v): v is number => typeof v === 'number'), 120)
 
-    // Generate responsive CSS for wave height
+    // Generate responsive CSS for wave height (the band's width for vertical edges)
     const responsiveHeightCSS = useMemo(() => {
         if (!isResponsiveHeight) return undefined
+        const size = isVertical ? 'width' : 'height'
         const bp = height as Partial<Record<Breakpoint, number>>
         const rules: string[] = []
         // Base height (smallest defined or fallback)
         const baseHeight = bp.sm ?? Object.values(bp).find((v): v is number => typeof v === 'number') ?? 120
-        rules.push(`.wavy-bavy-rh-${sectionId.replace(/:/g, '')} { height: ${baseHeight}px; }`)
+        rules.push(`.wavy-bavy-rh-${sectionId.replace(/:/g, '')} { ${size}: ${baseHeight}px; }`)
         // Media queries for each breakpoint
         const bpOrder: Breakpoint[] = ['sm', 'md', 'lg', 'xl', '2xl']
         for (const name of bpOrder) {
             if (bp[name] !== undefined) {
-                rules.push(`@media (min-width: ${BREAKPOINTS[name]}px) { .wavy-bavy-rh-${sectionId.replace(/:/g, '')} { height: ${bp[name]}px; } }`)
+                rules.push(`@media (min-width: ${BREAKPOINTS[name]}px) { .wavy-bavy-rh-${sectionId.replace(/:/g, '')} { ${size}: ${bp[name]}px; } }`)
             }
         }
         return rules.join('\n')
-    }, [isResponsiveHeight, height, sectionId])
+    }, [isResponsiveHeight, height, sectionId, isVertical])
 
     const responsiveHeightClass = isResponsiveHeight ? `wavy-bavy-rh-${sectionId.replace(/:/g, '')}` : undefined
 
@@ -408,50 +484,55 @@ export function WaveSection({
     // Deduplication: at any boundary, bottom wave takes priority over top wave.
     // If the previous section already renders a bottom wave at this boundary,
     // this section's top wave is suppressed to prevent doubled/overlapping waves.
-    const wavePosition = wavePositionProp ?? 'bottom'
+    // Vertical edges work the same way: 'left' is the leading (top) edge and
+    // 'right' the trailing (bottom) edge, with 'right' the default.
+    const wavePosition = wavePositionProp ?? (isVertical ? 'right' : 'bottom')
     const prevRendersBottom = prevSection !== null &&
-        (prevSection.wavePosition === 'bottom' || prevSection.wavePosition === 'both')
-    const showTopWave = (wavePosition === 'top' || wavePosition === 'both') && prevSection !== null && !prevRendersBottom
-    const showBottomWave = (wavePosition === 'bottom' || wavePosition === 'both') && nextSection !== null
+        (prevSection.wavePosition === 'bottom' || prevSection.wavePosition === 'right' || prevSection.wavePosition === 'both')
+    const showTopWave = (wavePosition === 'top' || wavePosition === 'left' || wavePosition === 'both') && prevSection !== null && !prevRendersBottom
+    const showBottomWave = (wavePosition === 'bottom' || wavePosition === 'right' || wavePosition === 'both') && nextSection !== null
 
     // ── Generate wave paths ──
 
-    // ── Helper: resolve edge config from WaveEdgeConfig + section defaults ──
-    const resolveEdgeConfig = (
-        edge: WaveEdgeConfig | undefined,
-        sectionDefaults: { pattern: PatternName; amplitude: number; frequency: number; height: number; phase: number; mirror: boolean; seed?: number }
-    ) => {
-        if (!edge) return sectionDefaults
-        return {
-            pattern: edge.pattern ?? sectionDefaults.pattern,
-            amplitude: edge.amplitude ?? sectionDefaults.amplitude,
-            frequency: edge.frequency ?? sectionDefaults.frequency,
-            height: edge.height ?? sectionDefaults.height,
-            phase: edge.phase ?? sectionDefaults.phase,
-            mirror: edge.mirror ?? sectionDefaults.mirror,
-            seed: edge.seed ?? sectionDefaults.seed,
-        }
-    }
-
-    const sectionDefaults = { pattern, amplitude, frequency, height: resolvedHeight, phase: phase ?? 0, mirror: mirror ?? false, seed }
+    // ── Path width: the measured pixel width in fit="measure" mode, the viewBox width otherwise ──
+    const [measuredWidth, setMeasuredWidth] = useState<number | null>(null)
+    const pathWidth = fit === 'measure' && measuredWidth ? measuredWidth : DEFAULT_VIEWBOX_WIDTH
+    const measureProps = { viewBoxWidth: pathWidth, fit, onMeasure: fit === 'measure' ? setMeasuredWidth : undefined }
+
+    // ── Wave config: built once and shared by every path, interlock and keyframe generator below ──
+    const waveConfig: SectionWaveConfig = useMemo(() => ({
+        pattern,
+        width: pathWidth,
+        height: resolvedHeight,
+        amplitude,
+        frequency,
+        phase: phase ?? 0,
+        mirror: mirror ?? false,
+        seed,
+        periodic,
+        spline,
+        noise,
+        customPath,
+        anchors,
+    }), [pattern, pathWidth, resolvedHeight, amplitude, frequency, phase, mirror, seed, periodic, spline, noise, customPath, anchors])
+
+    // ── Stacked waves: transition bands take precedence over decorative layers ──
+    const bandCount = transitionBands > 1 ? Math.floor(transitionBands) : 1
+    const stackedWaves = bandCount > 1 || layerCount > 1
 
     const topWavePaths = useMemo(() => {
         if (!showTopWave) return []
         // If dual-path separation is active for the top edge, single paths are not used
         if (separation && separation.mode !== 'flush' && (upperWave || prevSection?.lowerWave)) return []
-        const edgeConfig = resolveEdgeConfig(upperWave, sectionDefaults)
-        if (layerCount > 1) return generateLayeredPaths(edgeConfig.pattern, layerCount, { height: edgeConfig.height, amplitude: edgeConfig.amplitude, frequency: edgeConfig.frequency, phase: edgeConfig.phase, mirror: edgeConfig.mirror, seed: edgeConfig.seed })
-        return [generatePath(edgeConfig.pattern === 'custom' && customPath ? 'smooth' : edgeConfig.pattern, { height: edgeConfig.height, amplitude: edgeConfig.amplitude, frequency: edgeConfig.frequency, phase: edgeConfig.phase, mirror: edgeConfig.mirror, seed: edgeConfig.seed })]
-    }, [showTopWave, pattern, layerCount, amplitude, frequency, phase, mirror, seed, resolvedHeight, upperWave, prevSection?.lowerWave, separation])
+        return generateEdgePaths(withEdgeOverrides(waveConfig, upperWave), bandCount, layerCount, scopedPatterns)
+    }, [showTopWave, waveConfig, layerCount, bandCount, upperWave, prevSection?.lowerWave, separation, scopedPatterns])
 
     const bottomWavePaths = useMemo(() => {
         if (!showBottomWave) return []
         // If dual-path separation is active for the bottom edge, single paths are not used
         if (separation && separation.mode !== 'flush' && (lowerWave || nextSection?.upperWave)) return []
-        const edgeConfig = resolveEdgeConfig(lowerWave, sectionDefaults)
-        if (layerCount > 1) return generateLayeredPaths(edgeConfig.pattern, layerCount, { height: edgeConfig.height, amplitude: edgeConfig.amplitude, frequency: edgeConfig.frequency, phase: edgeConfig.phase, mirror: edgeConfig.mirror, seed: edgeConfig.seed })
-        return [generatePath(edgeConfig.pattern === 'custom' && customPath ? 'smooth' : edgeConfig.pattern, { height: edgeConfig.height, amplitude: edgeConfig.amplitude, frequency: edgeConfig.frequency, phase: edgeConfig.phase, mirror: edgeConfig.mirror, seed: edgeConfig.seed })]
-    }, [showBottomWave, pattern, layerCount, amplitude, frequency, phase, mirror, seed, resolvedHeight, lowerWave, nextSection?.upperWave, separation])
+        return generateEdgePaths(withEdgeOverrides(waveConfig, lowerWave), bandCount, layerCount, scopedPatterns)
+    }, [showBottomWave, waveConfig, layerCount, bandCount, lowerWave, nextSection?.upperWave, separation, scopedPatterns])
 
     // ── Dual-path interlocking (cross-boundary or separation) ──
     const sectionOrder = ctx?.sections.findIndex(s => s.id === sectionId) ?? 0
@@ -463,31 +544,33 @@ export function WaveSection({
 
         // Cross-boundary mode: use edge configs when available
         if (lowerWave || nextSection?.upperWave) {
-            const myLower = resolveEdgeConfig(lowerWave, sectionDefaults)
-            const nextUpper = resolveEdgeConfig(nextSection?.upperWave, sectionDefaults)
             return generateCrossBoundaryPaths({
-                upperConfig: myLower,
-                lowerConfig: nextUpper,
+                upperConfig: withEdgeOverrides(waveConfig, lowerWave),
+                lowerConfig: withEdgeOverrides(waveConfig, nextSection?.upperWave),
                 mode: separation.mode,
                 intensity: separation.intensity,
                 gap: separation.gap,
+                samples: separation.samples,
+                band: separation.band,
+                tabs: separation.tabs,
+                width: pathWidth,
+                patterns: scopedPatterns,
             })
         }
 
         // Legacy dual-path mode (separation prop, no edge configs)
         return generateInterlockPaths({
-            pattern,
-            height: resolvedHeight,
-            amplitude,
-            frequency,
+            ...waveConfig,
+            seed: seed ?? autoSeed(sectionOrder, 0),
             intensity: separation.intensity,
             mode: separation.mode,
-            seed: seed ?? autoSeed(sectionOrder, 0),
             gap: separation.gap,
-            phase: phase ?? 0,
-            mirror: mirror ?? false,
+            samples: separation.samples,
+            band: separation.band,
+            tabs: separation.tabs,
+            patterns: scopedPatterns,
         })
-    }, [showBottomWave, lowerWave, nextSection?.upperWave, separation, pattern, resolvedHeight, amplitude, frequency, sectionOrder, seed, phase, mirror])
+    }, [showBottomWave, lowerWave, nextSection?.upperWave, separation, waveConfig, sectionOrder, seed, scopedPatterns])
 
     const topDualPaths = useMemo(() => {
         if (!showTopWave) return undefined
@@ -496,120 +579,147 @@ export function WaveSection({
 
         // Cross-boundary mode: use edge configs when available
         if (upperWave || prevSection?.lowerWave) {
-            const myUpper = resolveEdgeConfig(upperWave, sectionDefaults)
-            const prevLower = resolveEdgeConfig(prevSection?.lowerWave, sectionDefaults)
             return generateCrossBoundaryPaths({
-                upperConfig: prevLower,
-                lowerConfig: myUpper,
+                upperConfig: withEdgeOverrides(waveConfig, prevSection?.lowerWave),
+                lowerConfig: withEdgeOverrides(waveConfig, upperWave),
                 mode: separation.mode,
                 intensity: separation.intensity,
                 gap: separation.gap,
+                samples: separation.samples,
+                band: separation.band,
+                tabs: separation.tabs,
+                width: pathWidth,
+                patterns: scopedPatterns,
             })
         }
 
         // Legacy dual-path mode (separation prop, no edge configs)
         return generateInterlockPaths({
-            pattern,
-            height: resolvedHeight,
-            amplitude,
-            frequency,
+            ...waveConfig,
+            seed: seed ?? autoSeed(sectionOrder, 1),
             intensity: separation.intensity,
             mode: separation.mode,
-            seed: seed ?? autoSeed(sectionOrder, 1),
             gap: separation.gap,
-            phase: phase ?? 0,
-            mirror: mirror ?? false,
+            samples: separation.samples,
+            band: separation.band,
+            tabs: separation.tabs,
+            patterns: scopedPatterns,
         })
-    }, [showTopWave, upperWave, prevSection?.lowerWave, separation, pattern, resolvedHeight, amplitude, frequency, sectionOrder, seed, phase, mirror])
+    }, [showTopWave, upperWave, prevSection?.lowerWave, separation, waveConfig, sectionOrder, seed, scopedPatterns])
 
     // ── Path morphing keyframes for new animation types ──
     const animateName = animate ?? resolvedPreset?.animate ?? defaults.animate
     const isPathMorphAnim = typeof animateName === 'string' && animateName in PATH_MORPH_GENERATORS
 
+    // Periodic single-path waves scroll as a seamless tile instead of morphing
+    const prefersReducedMotion = useReducedMotion()
+    const isTileScrollAnim = periodic && !stackedWaves && typeof animateName === 'string' && TILE_SCROLL_ANIMATIONS.has(animateName)
+    const tileScroll = isTileScrollAnim && !(defaults.respectReducedMotion && prefersReducedMotion)
+
     const bottomMorphKeyframes = useMemo(() => {
-        if (!isPathMorphAnim || !showBottomWave) return undefined
+        if (!isPathMorphAnim || !showBottomWave || (isTileScrollAnim && !bottomDualPaths)) return undefined
         const gen = PATH_MORPH_GENERATORS[animateName as string]
         if (!gen) return undefined
         const basePath = bottomDualPaths?.pathA ?? bottomWavePaths[0] ?? ''
         const animIdA = `wavy-morph-a-${sectionOrder}-bottom`
         const animIdB = `wavy-morph-b-${sectionOrder}-bottom`
-        const morphConfig = { height: resolvedHeight, amplitude, frequency }
+        const morphConfig = { ...waveConfig, patterns: scopedPatterns }
 
         if (bottomDualPaths) {
-            // Coordinated dual-path keyframes — both paths stay in sync
+            // Coordinated dual-path keyframes — both paths stay in sync, seeded like the still paths
+            const dualSeed = lowerWave || nextSection?.upperWave ? seed : seed ?? autoSeed(sectionOrder, 0)
             const { cssA, cssB } = generateDualPathMorphKeyframes(
                 animIdA, animIdB, basePath, bottomDualPaths.pathB,
-                animateName as string, pattern, morphConfig,
+                animateName as string, pattern, { ...morphConfig, seed: dualSeed }, separation,
             )
             return { cssA, cssB, animIdA, animIdB }
         }
 
         const cssA = gen(animIdA, basePath, pattern, morphConfig)
         return { cssA, cssB: undefined, animIdA, animIdB }
-    }, [isPathMorphAnim, showBottomWave, animateName, bottomDualPaths, bottomWavePaths, pattern, resolvedHeight, amplitude, frequency, sectionOrder])
+    }, [isPathMorphAnim, isTileScrollAnim, showBottomWave, animateName, bottomDualPaths, bottomWavePaths, separation, pattern, waveConfig, seed, lowerWave, nextSection?.upperWave, sectionOrder, scopedPatterns])
 
     const topMorphKeyframes = useMemo(() => {
-        if (!isPathMorphAnim || !showTopWave) return undefined
+        if (!isPathMorphAnim || !showTopWave || (isTileScrollAnim && !topDualPaths)) return undefined
         const gen = PATH_MORPH_GENERATORS[animateName as string]
         if (!gen) return undefined
         const basePath = topDualPaths?.pathA ?? topWavePaths[0] ?? ''
         const animIdA = `wavy-morph-a-${sectionOrder}-top`
         const animIdB = `wavy-morph-b-${sectionOrder}-top`
-        const morphConfig = { height: resolvedHeight, amplitude, frequency }
+        const morphConfig = { ...waveConfig, patterns: scopedPatterns }
 
         if (topDualPaths) {
-            // Coordinated dual-path keyframes — both paths stay in sync
+            // Coordinated dual-path keyframes — both paths stay in sync, seeded like the still paths
+            const dualSeed = upperWave || prevSection?.lowerWave ? seed : seed ?? autoSeed(sectionOrder, 1)
             const { cssA, cssB } = generateDualPathMorphKeyframes(
                 animIdA, animIdB, basePath, topDualPaths.pathB,
-                animateName as string, pattern, morphConfig,
+                animateName as string, pattern, { ...morphConfig, seed: dualSeed }, separation,
             )
             return { cssA, cssB, animIdA, animIdB }
         }
 
         const cssA = gen(animIdA, basePath, pattern, morphConfig)
         return { cssA, cssB: undefined, animIdA, animIdB }
-    }, [isPathMorphAnim, showTopWave, animateName, topDualPaths, topWavePaths, pattern, resolvedHeight, amplitude, frequency, sectionOrder])
+    }, [isPathMorphAnim, isTileScrollAnim, showTopWave, animateName, topDualPaths, topWavePaths, separation, pattern, waveConfig, seed, upperWave, prevSection?.lowerWave, sectionOrder, scopedPatterns])
 
     // ── Wave colors ──
     // Top wave: transitions from PREVIOUS section color to THIS section color
-    const topWaveFillColor = parsedBg.dominantColor // This section's color fills the wave
-    const topWaveContainerColor = prevSection?.background.dominantColor ?? 'transparent'
+    // (each side's color at the shared edge — images differ from edge to edge)
+    const leadingEdge = isVertical ? 'left' : 'top'
+    const trailingEdge = isVertical ? 'right' : 'bottom'
+    const topWaveFillColor = backgroundEdgeColor(sectionBg, leadingEdge) // This section's color fills the wave
+    const topWaveContainerColor = prevSection ? backgroundEdgeColor(prevSection.background, trailingEdge) : 'transparent'
 
     // Bottom wave: transitions from THIS section color to NEXT section color
-    const bottomWaveFillColor = nextSection?.background.dominantColor ?? 'transparent'
-    const bottomWaveContainerColor = parsedBg.dominantColor
+    const bottomWaveFillColor = nextSection ? backgroundEdgeColor(nextSection.background, leadingEdge) : 'transparent'
+    const bottomWaveContainerColor = backgroundEdgeColor(sectionBg, trailingEdge)
+
+    // ── Color blending: section override, then provider default ──
+    const colorBlend = {
+        colorSpace: colorSpaceProp ?? defaults.colorSpace,
+        hueInterpolation: hueInterpolationProp ?? defaults.hueInterpolation,
+    }
+
+    // ── Transition bands: colors stepping from the container color to the fill color ──
+    const topBandColors = bandCount > 1 ? transitionBandColors(topWaveContainerColor, topWaveFillColor, bandCount, colorBlend) : undefined
+    const bottomBandColors = bandCount > 1 ? transitionBandColors(bottomWaveContainerColor, bottomWaveFillColor, bandCount, colorBlend) : undefined
 
-    // ── Auto-gradient from adjacent section colors ──
+    // ── Auto-gradient from adjacent section colors (across the seam when vertical) ──
+    const gradientAngle = isVertical ? 180 : 90
+    const gradientOptions = { ...colorBlend, stops: gradientStops }
     const resolvedFillGradient = fillGradient ?? (autoGradient && showBottomWave
-        ? generateAutoGradient(bottomWaveContainerColor, bottomWaveFillColor)
+        ? generateAutoGradient(bottomWaveContainerColor, bottomWaveFillColor, gradientAngle, gradientOptions)
         : undefined)
     const resolvedContainerGradient = containerGradient ?? (autoGradient && showBottomWave
-        ? generateAutoGradient(bottomWaveContainerColor, bottomWaveFillColor)
+        ? generateAutoGradient(bottomWaveContainerColor, bottomWaveFillColor, gradientAngle, gradientOptions)
         : undefined)
     const resolvedTopFillGradient = fillGradient ?? (autoGradient && showTopWave
-        ? generateAutoGradient(topWaveContainerColor, topWaveFillColor)
+        ? generateAutoGradient(topWaveContainerColor, topWaveFillColor, gradientAngle, gradientOptions)
         : undefined)
     const resolvedTopContainerGradient = containerGradient ?? (autoGradient && showTopWave
-        ? generateAutoGradient(topWaveContainerColor, topWaveFillColor)
+        ? generateAutoGradient(topWaveContainerColor, topWaveFillColor, gradientAngle, gradientOptions)
         : undefined)
 
     // ── Clip-path for background images ──
     const clipPathStyle = useMemo(() => {
         if (!clipImage || !bottomWavePaths[0]) return undefined
-        return generateClipPath(bottomWavePaths[0], resolvedHeight, 'bottom')
-    }, [clipImage, bottomWavePaths, resolvedHeight])
+        return generateClipPath(bottomWavePaths[0], resolvedHeight, isVertical ? 'right' : 'bottom', pathWidth)
+    }, [clipImage, bottomWavePaths, resolvedHeight, isVertical, pathWidth])
 
     // ── Section styles ──
     const sectionStyle: CSSProperties = {
         position: 'relative',
-        ...(parsedBg.type === 'color' && { backgroundColor: parsedBg.value }),
+        // Without a background prop, leave the background to the section's classes
+        ...(parsedBg.type === 'color' && bgValue !== undefined && { backgroundColor: parsedBg.value }),
         ...(parsedBg.type === 'gradient' && { background: parsedBg.value }),
         ...(parsedBg.type === 'image' && {
             backgroundImage: parsedBg.value,
             backgroundSize: 'cover',
             backgroundPosition: 'center',
         }),
-        ...(overlap !== 0 && { marginTop: -overlap, marginBottom: -overlap }),
+        ...(overlap !== 0 && (isVertical
+            ? { marginLeft: -overlap, marginRight: -overlap }
+            : { marginTop: -overlap, marginBottom: -overlap })),
         ...(clipPathStyle && { clipPath: clipPathStyle }),
         ...(blur?.section && {
             backdropFilter: `blur(${blur.radius}px) saturate(${blur.saturation})`,
@@ -645,15 +755,19 @@ export function WaveSection({
 
             {/* Top Wave */}
             {showTopWave && (
-                layerCount > 1 ? (
+                stackedWaves ? (
                     <WaveLayer
                         paths={topWavePaths}
                         fillColor={topWaveFillColor}
+                        fillColors={topBandColors}
                         containerColor={topWaveContainerColor}
                         height={resolvedHeight}
                         direction="down"
+                        orientation={orientation}
                         baseOpacity={layerOpacity}
+                        {...colorBlend}
                         hover={hover}
+                        {...measureProps}
                         {...parallaxLayerProps}
                     />
                 ) : (
@@ -665,6 +779,7 @@ export function WaveSection({
                         containerGradient={resolvedTopContainerGradient}
                         height={resolvedHeight}
                         direction="down"
+                        orientation={orientation}
                         shadow={shadow}
                         glow={glow}
                         {...sharedEffects}
@@ -677,7 +792,9 @@ export function WaveSection({
                         pathAAnimId={topMorphKeyframes?.animIdA}
                         pathBAnimId={topMorphKeyframes?.animIdB}
                         animationDuration={animationDuration}
+                        tileScroll={tileScroll}
                         className={responsiveHeightClass}
+                        {...measureProps}
                     />
                 )
             )}
@@ -694,15 +811,19 @@ export function WaveSection({
 
             {/* Bottom Wave */}
             {showBottomWave && (
-                layerCount > 1 ? (
+                stackedWaves ? (
                     <WaveLayer
                         paths={bottomWavePaths}
                         fillColor={bottomWaveFillColor}
+                        fillColors={bottomBandColors}
                         containerColor={bottomWaveContainerColor}
                         height={resolvedHeight}
                         direction="down"
+                        orientation={orientation}
                         baseOpacity={layerOpacity}
+                        {...colorBlend}
                         hover={hover}
+                        {...measureProps}
                         {...parallaxLayerProps}
                     />
                 ) : (
@@ -714,6 +835,7 @@ export function WaveSection({
                         containerGradient={resolvedContainerGradient}
                         height={resolvedHeight}
                         direction="down"
+                        orientation={orientation}
                         shadow={shadow}
                         glow={glow}
                         {...sharedEffects}
@@ -726,7 +848,9 @@ export function WaveSection({
                         pathAAnimId={bottomMorphKeyframes?.animIdA}
                         pathBAnimId={bottomMorphKeyframes?.animIdB}
                         animationDuration={animationDuration}
+                        tileScroll={tileScroll}
                         className={responsiveHeightClass}
+                        {...measureProps}
                     />
                 )
             )}
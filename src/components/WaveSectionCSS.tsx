@@ -14,14 +14,16 @@ export interface WaveSectionCSSProps {
     background?: string
     /** Wave pattern. Default: 'smooth' */
     pattern?: PatternName
+    /** Path drawn when pattern='custom' (see `importWaveSVG`) */
+    customPath?: string
     /** Wave height in px. Default: 120 */
     height?: number
     /** Wave amplitude (0-1). Default: 0.5 */
     amplitude?: number
     /** Number of wave peaks. Default: 1 */
     frequency?: number
-    /** Wave position. Default: 'bottom' */
-    wavePosition?: 'top' | 'bottom' | 'both'
+    /** Wave position ('left'/'right' clip a vertical edge). Default: 'bottom' */
+    wavePosition?: 'top' | 'bottom' | 'left' | 'right' | 'both'
     // direction is intentionally omitted — CSS-only mode uses clip-path only
     /** HTML element type. Default: 'section' */
     as?: ElementType
@@ -51,6 +53,7 @@ export interface WaveSectionCSSProps {
 export function WaveSectionCSS({
     background,
     pattern = 'smooth',
+    customPath,
     height = 120,
     amplitude = 0.5,
     frequency = 1,
@@ -62,16 +65,15 @@ export function WaveSectionCSS({
     children,
 }: WaveSectionCSSProps) {
     const clipPath = useMemo(() => {
-        const path = generatePath(pattern, { height, amplitude, frequency })
+        const path = generatePath(pattern, { height, amplitude, frequency, customPath })
 
         if (wavePosition === 'both') {
             // For 'both', use bottom clip-path (CSS-only mode clips both ends via padding)
             return generateClipPath(path, height, 'bottom')
         }
 
-        const position = wavePosition === 'top' ? 'top' : 'bottom'
-        return generateClipPath(path, height, position)
-    }, [pattern, height, amplitude, frequency, wavePosition])
+        return generateClipPath(path, height, wavePosition)
+    }, [pattern, customPath, height, amplitude, frequency, wavePosition])
 
     const sectionStyle: CSSProperties = {
         position: 'relative',
@@ -86,6 +88,8 @@ export function WaveSectionCSS({
         // adjacent sections flow seamlessly behind the wave.
         ...(wavePosition === 'bottom' && { paddingBottom: height, marginBottom: -height }),
         ...(wavePosition === 'top' && { paddingTop: height, marginTop: -height }),
+        ...(wavePosition === 'right' && { paddingRight: height, marginRight: -height }),
+        ...(wavePosition === 'left' && { paddingLeft: height, marginLeft: -height }),
         ...(wavePosition === 'both' && { paddingTop: height, paddingBottom: height, marginTop: -height, marginBottom: -height }),
         ...style,
     }
@@ -1,4 +1,6 @@
-import type { WaveDefaults, WavePreset, PatternGenerator, PatternConfig, StrokeConfig, BlurConfig, TextureConfig, InnerShadowConfig, ScrollAnimationConfig, ParallaxConfig, HoverConfig, WaveSeparationConfig } from './types'
+import type { WaveDefaults, WavePreset, PatternGenerator, PatternMeta, BuiltInPatternName, PatternConfig, SplinePoint, StrokeConfig, BlurConfig, TextureConfig, InnerShadowConfig, ScrollAnimationConfig, ParallaxConfig, HoverConfig, WaveSeparationConfig, WaveEdgeConfig } from './types'
+import { splineWaveSegments, cardinalSegments } from './utils/spline'
+import { createNoise2D, fractalNoise } from './utils/noise'
 
 // ============================================================
 // Default Configuration
@@ -18,6 +20,8 @@ export const DEFAULTS: WaveDefaults = {
     frequency: DEFAULT_FREQUENCY,
     animate: DEFAULT_ANIMATION,
     respectReducedMotion: true,
+    colorSpace: 'srgb',
+    hueInterpolation: 'shorter',
 }
 
 // ============================================================
@@ -37,29 +41,84 @@ export const BREAKPOINTS = {
 // ============================================================
 
 /**
- * Smooth sine-wave curve (classic wave divider)
+ * Number of whole periods for a frequency value.
+ * Every built-in pattern repeats its shape this many times across the width.
  */
-function generateSmoothPath(config: PatternConfig): string {
-    const { width, height, amplitude } = config
-    const waveHeight = height * amplitude
-    const cy = height - waveHeight
+function periodCount(frequency: number): number {
+    return Math.max(1, Math.round(frequency))
+}
 
+/**
+ * Frame a periodic tile whose curve runs from (0, startY) to (width, startY).
+ * The -20/+20 overflow continues along the seam tangent instead of the usual
+ * flat baseline so the edges never show a kink.
+ *
+ * Output: M -20 {h} L -20 {y'} L 0 {y} [body...] L {w + 20} {y''} L {w + 20} {h} Z
+ */
+function periodicFrame(width: number, height: number, startY: number, slope: number, body: string[]): string {
     return [
         `M -20 ${height}`,
-        `L -20 ${cy + waveHeight * 0.6}`,
-        `Q ${width * 0.25} ${cy - waveHeight * 0.4}, ${width * 0.5} ${cy + waveHeight * 0.2}`,
-        `Q ${width * 0.75} ${cy + waveHeight * 0.8}, ${width + 20} ${cy + waveHeight * 0.3}`,
+        `L -20 ${startY - slope * 20}`,
+        `L 0 ${startY}`,
+        ...body,
+        `L ${width + 20} ${startY + slope * 20}`,
         `L ${width + 20} ${height}`,
         `Z`,
     ].join(' ')
 }
 
 /**
- * Organic blob-like curve — irregular, natural shape
+ * Smooth sine-wave curve (classic wave divider)
+ */
+function generateSmoothPath(config: PatternConfig): string {
+    const { width, height, amplitude, frequency, periodic } = config
+    const waveHeight = height * amplitude
+    const cy = height - waveHeight
+    const periods = periodCount(frequency)
+    const periodWidth = width / periods
+
+    if (periodic) {
+        // Symmetric sine: crest at cy, trough at cy + 0.8h, crossings at the seams
+        const midY = cy + waveHeight * 0.4
+        const crestCtrlY = cy - waveHeight * 0.4
+        const troughCtrlY = cy + waveHeight * 1.2
+        const body: string[] = []
+        for (let p = 0; p < periods; p++) {
+            const x0 = periodWidth * p
+            body.push(
+                `Q ${x0 + periodWidth * 0.25} ${crestCtrlY}, ${x0 + periodWidth * 0.5} ${midY}`,
+                `Q ${x0 + periodWidth * 0.75} ${troughCtrlY}, ${x0 + periodWidth} ${midY}`,
+            )
+        }
+        return periodicFrame(width, height, midY, (crestCtrlY - midY) / (periodWidth * 0.25), body)
+    }
+
+    const segments: string[] = [`M -20 ${height}`, `L -20 ${cy + waveHeight * 0.6}`]
+
+    for (let p = 0; p < periods; p++) {
+        const x0 = periodWidth * p
+        const endX = p === periods - 1 ? width + 20 : x0 + periodWidth
+        // Later periods reflect the previous control point so joins stay smooth
+        const firstCtrlY = p === 0 ? cy - waveHeight * 0.4 : cy - waveHeight * 0.2
+        segments.push(
+            `Q ${x0 + periodWidth * 0.25} ${firstCtrlY}, ${x0 + periodWidth * 0.5} ${cy + waveHeight * 0.2}`,
+            `Q ${x0 + periodWidth * 0.75} ${cy + waveHeight * 0.8}, ${endX} ${cy + waveHeight * 0.3}`,
+        )
+    }
+
+    segments.push(`L ${width + 20} ${height}`, `Z`)
+    return segments.join(' ')
+}
+
+/**
+ * Organic blob-like curve — irregular, natural shape.
+ * Each period draws its own seeded variation, joined to the last on a shared tangent.
  */
 function generateOrganicPath(config: PatternConfig): string {
-    const { width, height, amplitude, seed } = config
+    const { width, height, amplitude, frequency, seed, periodic } = config
     const waveHeight = height * amplitude
+    const periods = periodCount(frequency)
+    const periodWidth = width / periods
 
     // Use seed for reproducible randomness
     const s = seed ?? 42
@@ -69,30 +128,59 @@ function generateOrganicPath(config: PatternConfig): string {
     }
 
     const cy = height - waveHeight
-    const r1 = pseudoRandom(1) * 0.4 + 0.1
-    const r2 = pseudoRandom(2) * 0.4 + 0.3
-    const r3 = pseudoRandom(3) * 0.4 + 0.2
+    const startY = cy + waveHeight * (pseudoRandom(1) * 0.4 + 0.1)
+    const firstCtrlY = cy - waveHeight * (pseudoRandom(2) * 0.4 + 0.3)
+    const body: string[] = []
+    // Join tangent handed from one period to the next
+    let ctrlY = firstCtrlY
+
+    for (let p = 0; p < periods; p++) {
+        const r1 = pseudoRandom(p * 3 + 1) * 0.4 + 0.1
+        const r2 = pseudoRandom(p * 3 + 2) * 0.4 + 0.3
+        const r3 = pseudoRandom(p * 3 + 3) * 0.4 + 0.2
+        const x0 = periodWidth * p
+        const isLast = p === periods - 1
+        const endX = isLast ? (periodic ? width : width + 20) : x0 + periodWidth
+        // Periodic: close on the start height and mirror the opening tangent
+        const endY = periodic && isLast ? startY : cy + waveHeight * r3
+        const endCtrlY = periodic && isLast ? 2 * startY - firstCtrlY : cy + waveHeight * r2
+
+        body.push(
+            `C ${x0 + periodWidth * 0.2} ${ctrlY}, ${x0 + periodWidth * 0.35} ${cy + waveHeight * r3}, ${x0 + periodWidth * 0.5} ${cy + waveHeight * 0.15}`,
+            `C ${x0 + periodWidth * 0.65} ${cy - waveHeight * r1}, ${x0 + periodWidth * 0.8} ${endCtrlY}, ${endX} ${endY}`,
+        )
+        // Both handles span 0.2 of a period, so the next one mirrors this end control
+        ctrlY = 2 * endY - endCtrlY
+    }
 
-    return [
-        `M -20 ${height}`,
-        `L -20 ${cy + waveHeight * r1}`,
-        `C ${width * 0.2} ${cy - waveHeight * r2}, ${width * 0.35} ${cy + waveHeight * r3}, ${width * 0.5} ${cy + waveHeight * 0.15}`,
-        `C ${width * 0.65} ${cy - waveHeight * r1}, ${width * 0.8} ${cy + waveHeight * r2}, ${width + 20} ${cy + waveHeight * r3}`,
-        `L ${width + 20} ${height}`,
-        `Z`,
-    ].join(' ')
+    if (periodic) {
+        return periodicFrame(width, height, startY, (firstCtrlY - startY) / (periodWidth * 0.2), body)
+    }
+
+    return [`M -20 ${height}`, `L -20 ${startY}`, ...body, `L ${width + 20} ${height}`, `Z`].join(' ')
 }
 
 /**
  * Sharp angular wave — geometric, modern feel
  */
 function generateSharpPath(config: PatternConfig): string {
-    const { width, height, amplitude, frequency } = config
+    const { width, height, amplitude, frequency, periodic } = config
     const waveHeight = height * amplitude
     const cy = height - waveHeight
-    const peakCount = Math.max(1, Math.round(frequency))
+    const peakCount = periodCount(frequency)
     const segmentWidth = width / (peakCount * 2)
 
+    if (periodic) {
+        // Shift by half a segment so the seam falls mid-slope rather than on a corner
+        const midY = cy + waveHeight / 2
+        const body: string[] = []
+        for (let i = 0; i < peakCount * 2; i++) {
+            body.push(`L ${segmentWidth * (i + 0.5)} ${i % 2 === 0 ? cy : cy + waveHeight}`)
+        }
+        body.push(`L ${width} ${midY}`)
+        return periodicFrame(width, height, midY, -waveHeight / segmentWidth, body)
+    }
+
     const points: string[] = [`M -20 ${height}`, `L -20 ${cy + waveHeight}`]
 
     for (let i = 0; i < peakCount * 2; i++) {
@@ -109,12 +197,23 @@ function generateSharpPath(config: PatternConfig): string {
  * Mountain peak pattern — triangular shapes
  */
 function generateMountainPath(config: PatternConfig): string {
-    const { width, height, amplitude, frequency } = config
+    const { width, height, amplitude, frequency, periodic } = config
     const waveHeight = height * amplitude
     const cy = height - waveHeight
-    const peakCount = Math.max(1, Math.round(frequency))
+    const peakCount = periodCount(frequency)
     const segmentWidth = width / peakCount
 
+    if (periodic) {
+        // Shift by a quarter period so the seam falls mid-slope rather than on a corner
+        const midY = cy + waveHeight / 2
+        const body: string[] = []
+        for (let i = 0; i < peakCount; i++) {
+            body.push(`L ${segmentWidth * (i + 0.25)} ${cy}`, `L ${segmentWidth * (i + 0.75)} ${cy + waveHeight}`)
+        }
+        body.push(`L ${width} ${midY}`)
+        return periodicFrame(width, height, midY, (-waveHeight * 2) / segmentWidth, body)
+    }
+
     const points: string[] = [`M -20 ${height}`, `L -20 ${cy + waveHeight}`]
 
     for (let i = 0; i < peakCount; i++) {
@@ -129,33 +228,59 @@ function generateMountainPath(config: PatternConfig): string {
 }
 
 /**
- * Flowing S-curve — large dramatic sweep across the full width.
+ * Flowing S-curve — large dramatic sweep across each period.
  * Designed for high-intensity hero transitions.
  */
 function generateFlowingPath(config: PatternConfig): string {
-    const { width, height, amplitude, phase } = config
+    const { width, height, amplitude, frequency, phase, periodic } = config
     const waveHeight = height * amplitude
     const cy = height - waveHeight
-    const shift = (phase ?? 0) * width * 0.2
+    const periods = periodCount(frequency)
+    const periodWidth = width / periods
+    const shift = (phase ?? 0) * periodWidth * 0.2
+
+    if (periodic) {
+        // Identical periods that start and end at the same height with matching tangents
+        const startY = cy + waveHeight * 0.5
+        const openCtrlY = cy - waveHeight * 0.1
+        const body: string[] = []
+        for (let p = 0; p < periods; p++) {
+            const x0 = periodWidth * p
+            body.push(
+                `C ${x0 + periodWidth * 0.15 + shift} ${openCtrlY}, ${x0 + periodWidth * 0.35 + shift} ${cy + waveHeight * 1.1}, ${x0 + periodWidth * 0.5} ${cy + waveHeight * 0.4}`,
+                `C ${x0 + periodWidth * 0.65 - shift} ${cy - waveHeight * 0.2}, ${x0 + periodWidth * 0.85 - shift} ${2 * startY - openCtrlY}, ${x0 + periodWidth} ${startY}`,
+            )
+        }
+        const tangentX = periodWidth * 0.15 + shift
+        return periodicFrame(width, height, startY, tangentX !== 0 ? (openCtrlY - startY) / tangentX : 0, body)
+    }
 
-    return [
-        `M -20 ${height}`,
-        `L -20 ${cy + waveHeight * 0.8}`,
-        `C ${width * 0.15 + shift} ${cy - waveHeight * 0.3}, ${width * 0.35 + shift} ${cy + waveHeight * 1.1}, ${width * 0.5} ${cy + waveHeight * 0.4}`,
-        `C ${width * 0.65 - shift} ${cy - waveHeight * 0.2}, ${width * 0.85 - shift} ${cy + waveHeight * 0.9}, ${width + 20} ${cy + waveHeight * 0.5}`,
-        `L ${width + 20} ${height}`,
-        `Z`,
-    ].join(' ')
+    const segments: string[] = [`M -20 ${height}`, `L -20 ${cy + waveHeight * 0.8}`]
+
+    for (let p = 0; p < periods; p++) {
+        const x0 = periodWidth * p
+        const endX = p === periods - 1 ? width + 20 : x0 + periodWidth
+        segments.push(
+            `C ${x0 + periodWidth * 0.15 + shift} ${cy - waveHeight * 0.3}, ${x0 + periodWidth * 0.35 + shift} ${cy + waveHeight * 1.1}, ${x0 + periodWidth * 0.5} ${cy + waveHeight * 0.4}`,
+            `C ${x0 + periodWidth * 0.65 - shift} ${cy - waveHeight * 0.2}, ${x0 + periodWidth * 0.85 - shift} ${cy + waveHeight * 0.9}, ${endX} ${cy + waveHeight * 0.5}`,
+        )
+    }
+
+    segments.push(`L ${width + 20} ${height}`, `Z`)
+    return segments.join(' ')
 }
 
 /**
  * Ribbon pattern — smooth curve with varying visual thickness.
- * Wider at peaks, thinner at zero-crossings. Seed controls personality.
+ * Wider at peaks, thinner at zero-crossings. Seed controls personality,
+ * and each period draws its own variation, joined to the last on a shared tangent.
  */
 function generateRibbonPath(config: PatternConfig): string {
-    const { width, height, amplitude, seed } = config
+    const { width, height, amplitude, frequency, seed, periodic } = config
     const waveHeight = height * amplitude
     const cy = height - waveHeight
+    const periods = periodCount(frequency)
+    const periodWidth = width / periods
 
     const s = seed ?? 33
     const pr = (i: number) => {
@@ -163,28 +288,46 @@ function generateRibbonPath(config: PatternConfig): string {
         return x - Math.floor(x)
     }
 
-    const r1 = pr(1) * 0.3 + 0.2
-    const r2 = pr(2) * 0.3 + 0.3
-    const r3 = pr(3) * 0.3 + 0.1
-    const r4 = pr(4) * 0.3 + 0.25
+    const startY = cy + waveHeight * (pr(1) * 0.3 + 0.2)
+    const firstCtrlY = cy - waveHeight * (pr(2) * 0.3 + 0.3)
+    // Slope leaving the start point — the periodic seam closes on the same slope
+    const startSlope = (firstCtrlY - startY) / (periodWidth * 0.12)
+    const body: string[] = []
+    // Join tangent handed from one period to the next
+    let ctrlY = firstCtrlY
+
+    for (let p = 0; p < periods; p++) {
+        const r1 = pr(p * 4 + 1) * 0.3 + 0.2
+        const r2 = pr(p * 4 + 2) * 0.3 + 0.3
+        const r3 = pr(p * 4 + 3) * 0.3 + 0.1
+        const r4 = pr(p * 4 + 4) * 0.3 + 0.25
+        const x = (t: number) => periodWidth * p + periodWidth * t
+        const isLast = p === periods - 1
+        const endX = isLast ? (periodic ? width : width + 20) : x(1)
+        const endY = periodic && isLast ? startY : cy + waveHeight * r1
+        const endCtrlY = periodic && isLast ? startY - startSlope * periodWidth * 0.08 : cy + waveHeight * r4
+
+        body.push(
+            `C ${x(0.12)} ${ctrlY}, ${x(0.28)} ${cy + waveHeight * r3}, ${x(0.38)} ${cy + waveHeight * 0.1}`,
+            `C ${x(0.48)} ${cy - waveHeight * r4}, ${x(0.58)} ${cy + waveHeight * r1}, ${x(0.68)} ${cy + waveHeight * r3}`,
+            `C ${x(0.78)} ${cy - waveHeight * r2}, ${x(0.92)} ${endCtrlY}, ${endX} ${endY}`,
+        )
+        // The end handle spans 0.08 of a period and the next start handle 0.12
+        ctrlY = endY + ((endY - endCtrlY) * 0.12) / 0.08
+    }
 
-    return [
-        `M -20 ${height}`,
-        `L -20 ${cy + waveHeight * r1}`,
-        `C ${width * 0.12} ${cy - waveHeight * r2}, ${width * 0.28} ${cy + waveHeight * r3}, ${width * 0.38} ${cy + waveHeight * 0.1}`,
-        `C ${width * 0.48} ${cy - waveHeight * r4}, ${width * 0.58} ${cy + waveHeight * r1}, ${width * 0.68} ${cy + waveHeight * r3}`,
-        `C ${width * 0.78} ${cy - waveHeight * r2}, ${width * 0.92} ${cy + waveHeight * r4}, ${width + 20} ${cy + waveHeight * r1}`,
-        `L ${width + 20} ${height}`,
-        `Z`,
-    ].join(' ')
+    if (periodic) return periodicFrame(width, height, startY, startSlope, body)
+
+    return [`M -20 ${height}`, `L -20 ${startY}`, ...body, `L ${width + 20} ${height}`, `Z`].join(' ')
 }
 
 /**
  * Layered-organic — denser organic curve with more control points.
  * Designed for multi-layer stacking with slight offsets.
+ * Each period adds five seeded curve segments, joined to the last on a shared tangent.
  */
 function generateLayeredOrganicPath(config: PatternConfig): string {
-    const { width, height, amplitude, seed } = config
+    const { width, height, amplitude, frequency, seed, periodic } = config
     const waveHeight = height * amplitude
     const cy = height - waveHeight
 
@@ -194,19 +337,185 @@ function generateLayeredOrganicPath(config: PatternConfig): string {
         return x - Math.floor(x)
     }
 
-    const points = 5
-    const segments: string[] = [`M -20 ${height}`, `L -20 ${cy + waveHeight * pr(0)}`]
+    const points = 5 * periodCount(frequency)
+    const segmentWidth = width / points
+    const startY = cy + waveHeight * pr(0)
+    const firstCtrlY = cy + waveHeight * (pr(1) - 0.3)
+    const body: string[] = []
+
+    let prevCy2 = 0
+    let prevEndY = startY
 
     for (let i = 0; i < points; i++) {
-        const x1 = (width / points) * i + (width / points) * 0.3
-        const x2 = (width / points) * (i + 1)
-        const cy1 = cy + waveHeight * (pr(i * 2 + 1) - 0.3)
-        const cy2 = cy + waveHeight * pr(i * 2 + 2)
-        segments.push(`C ${x1} ${cy1}, ${x2 - (width / points) * 0.3} ${cy2}, ${x2} ${cy + waveHeight * pr(i + points)}`)
+        const isLast = i === points - 1
+        const x1 = segmentWidth * i + segmentWidth * 0.3
+        const x2 = segmentWidth * (i + 1)
+        // Period joins mirror the previous end control so the slope carries over
+        const cy1 = i > 0 && i % 5 === 0 ? 2 * prevEndY - prevCy2 : cy + waveHeight * (pr(i * 2 + 1) - 0.3)
+        // Periodic: close on the start height and mirror the opening tangent
+        const cy2 = periodic && isLast ? 2 * startY - firstCtrlY : cy + waveHeight * pr(i * 2 + 2)
+        const endY = periodic && isLast ? startY : cy + waveHeight * pr(i + points)
+        body.push(`C ${x1} ${cy1}, ${x2 - segmentWidth * 0.3} ${cy2}, ${x2} ${endY}`)
+        prevCy2 = cy2
+        prevEndY = endY
     }
 
-    segments.push(`L ${width + 20} ${cy + waveHeight * pr(points - 1)}`, `L ${width + 20} ${height}`, `Z`)
-    return segments.join(' ')
+    if (periodic) {
+        return periodicFrame(width, height, startY, (firstCtrlY - startY) / (segmentWidth * 0.3), body)
+    }
+
+    return [
+        `M -20 ${height}`,
+        `L -20 ${startY}`,
+        ...body,
+        `L ${width + 20} ${cy + waveHeight * pr(points - 1)}`,
+        `L ${width + 20} ${height}`,
+        `Z`,
+    ].join(' ')
+}
+
+/** Anchors used by the spline pattern when `spline.points` is not given */
+export const DEFAULT_SPLINE_POINTS: readonly SplinePoint[] = [
+    { x: 0, y: 0.35 },
+    { x: 0.25, y: 0.85 },
+    { x: 0.55, y: 0.3 },
+    { x: 0.8, y: 0.7 },
+    { x: 1, y: 0.45 },
+]
+
+/**
+ * Spline — smooth curve through user-supplied anchors (`config.spline`).
+ * Anchor x spans one period (0-1); y runs from the baseline (0) to the full
+ * wave height (1), so the shape scales with `height` and `amplitude`.
+ * Phase shifts the anchors along the repeating sequence without changing
+ * the command structure, so path-morph animations interpolate smoothly.
+ */
+function generateSplinePath(config: PatternConfig): string {
+    const { width, height, amplitude, frequency, phase, periodic, spline } = config
+    const waveHeight = height * amplitude
+    const periods = periodCount(frequency)
+    const periodWidth = width / periods
+
+    let points: readonly SplinePoint[] = spline?.points ?? DEFAULT_SPLINE_POINTS
+    const finite = points.filter(({ x, y }) => Number.isFinite(x) && Number.isFinite(y))
+    if (finite.length < points.length) {
+        console.warn(`[wavy-bavy] spline points need a finite x and y, ignoring ${points.length - finite.length} of them`)
+        points = finite
+    }
+    // Points are clamped into the period, so x = -0.2 and x = 0 land on the same spot
+    const distinctXs = new Set(points.map(({ x }) => Math.max(0, Math.min(1, x)))).size
+    if (distinctXs < points.length) {
+        console.warn('[wavy-bavy] spline points share an x, only the first point at each x is used')
+    }
+    if (distinctXs < 2) {
+        console.warn('[wavy-bavy] spline pattern needs at least 2 points, using the default anchors')
+        points = DEFAULT_SPLINE_POINTS
+    }
+
+    const segments = splineWaveSegments([...points], {
+        periods,
+        phase: phase ?? 0,
+        periodic: periodic ?? false,
+        interpolation: spline?.interpolation ?? 'catmull-rom',
+        tension: spline?.tension ?? 0,
+    })
+
+    // Round to 0.001px — interpolation leaves floating-point noise
+    const round = (v: number) => Math.round(v * 1000) / 1000
+    const x = (v: number) => round(v * periodWidth)
+    const y = (v: number) => round(height - v * waveHeight)
+    const body = segments.map(([, c1, c2, end]) => `C ${x(c1.x)} ${y(c1.y)}, ${x(c2.x)} ${y(c2.y)}, ${x(end.x)} ${y(end.y)}`)
+    const [start, firstCtrl] = segments[0]
+    const end = segments[segments.length - 1][3]
+
+    if (periodic) {
+        const tangentX = x(firstCtrl.x) - x(start.x)
+        return periodicFrame(width, height, y(start.y), tangentX !== 0 ? (y(firstCtrl.y) - y(start.y)) / tangentX : 0, body)
+    }
+
+    return [
+        `M -20 ${height}`,
+        `L -20 ${y(start.y)}`,
+        `L 0 ${y(start.y)}`,
+        ...body,
+        `L ${width + 20} ${y(end.y)}`,
+        `L ${width + 20} ${height}`,
+        `Z`,
+    ].join(' ')
+}
+
+/** Noise lattice cells per period at the base octave — roughly one crest and one trough */
+const NOISE_CELLS_PER_PERIOD = 2
+
+/** Upper bound on noise samples so high octave counts stay cheap */
+const MAX_NOISE_SAMPLES = 256
+
+/**
+ * Noise — seeded fractal Perlin noise sampled across the width and drawn as a
+ * smooth curve. Every seed gives a different shape; `noise.time` moves
+ * through the field so the shape evolves continuously, and `noise.loop`
+ * makes it come back around.
+ * The sample count never depends on `phase` or `noise.time`, so animation
+ * frames share one command structure.
+ */
+function generateNoisePath(config: PatternConfig): string {
+    const { width, height, amplitude, frequency, phase, seed, periodic, noise } = config
+    const waveHeight = height * amplitude
+    const midY = height - waveHeight / 2
+    const cells = periodCount(frequency) * NOISE_CELLS_PER_PERIOD
+
+    const octaves = Math.max(1, Math.min(8, Math.round(noise?.octaves ?? 3)))
+    const lacunarity = Math.max(1, noise?.lacunarity ?? 2)
+    const persistence = Math.max(0, Math.min(1, noise?.persistence ?? 0.5))
+    const time = noise?.time ?? 0
+
+    // ~3 samples per cell of the finest octave
+    const samples = Math.min(MAX_NOISE_SAMPLES, Math.ceil(cells * 3 * lacunarity ** (octaves - 1)))
+    const step = width / samples
+    const field = createNoise2D(seed ?? 0)
+    const loop = noise?.loop && noise.loop > 0 ? noise.loop : undefined
+    const options = { octaves, lacunarity, persistence, period: periodic ? cells : undefined, periodY: loop }
+
+    // One extra sample beyond each edge supplies the end tangents
+    const points = Array.from({ length: samples + 3 }, (_, i) => {
+        const x = (i - 1) * step
+        const u = (x / width) * cells + (phase ?? 0) * NOISE_CELLS_PER_PERIOD
+        // Fractal Perlin noise rarely exceeds ±0.6 — stretch it to fill the wave height
+        const value = Math.max(-1, Math.min(1, fractalNoise(field, u, time, options) * 1.75))
+        return { x, y: midY - value * waveHeight / 2 }
+    })
+
+    return sampledWavePath(points, width, height, periodic ?? false)
+}
+
+/**
+ * Draw a smooth wave through evenly spaced samples of a height field.
+ * `points` runs from one step before x = 0 to one step past x = width; the
+ * outer samples only shape the end tangents. The curve has one cubic per
+ * step, so the command structure depends only on the sample count.
+ */
+export function sampledWavePath(points: SplinePoint[], width: number, height: number, periodic: boolean): string {
+    const round = (v: number) => Math.round(v * 1000) / 1000
+    const segments = cardinalSegments(points).slice(1, points.length - 2)
+    const body = segments.map(([, c1, c2, end]) =>
+        `C ${round(c1.x)} ${round(c1.y)}, ${round(c2.x)} ${round(c2.y)}, ${round(end.x)} ${round(end.y)}`)
+    const [start, firstCtrl] = segments[0]
+    const startY = round(start.y)
+    const endY = round(segments[segments.length - 1][3].y)
+
+    if (periodic) {
+        return periodicFrame(width, height, startY, (firstCtrl.y - start.y) / (firstCtrl.x - start.x), body)
+    }
+
+    return [
+        `M -20 ${height}`,
+        `L -20 ${startY}`,
+        `L 0 ${startY}`,
+        ...body,
+        `L ${width + 20} ${endY}`,
+        `L ${width + 20} ${height}`,
+        `Z`,
+    ].join(' ')
 }
 
 /**
@@ -220,6 +529,139 @@ export const PATTERN_REGISTRY: Record<string, PatternGenerator> = {
     flowing: generateFlowingPath,
     ribbon: generateRibbonPath,
     'layered-organic': generateLayeredOrganicPath,
+    spline: generateSplinePath,
+    noise: generateNoisePath,
+}
+
+/**
+ * Valid `frequency` range for patterns without an entry in
+ * PATTERN_FREQUENCY_RANGE (registered patterns and 'custom').
+ */
+export const DEFAULT_FREQUENCY_RANGE: readonly [number, number] = [0.1, 20]
+
+/**
+ * Valid `frequency` range per built-in pattern, used by WaveSection to clamp.
+ * Built-ins round frequency to whole periods, so with `periodic` the minimum
+ * is 1 (without it, WaveSection still accepts fractions down to
+ * DEFAULT_FREQUENCY_RANGE's minimum); the maximum keeps each period wide
+ * enough (at the 1440 viewBox) for its shape to read.
+ */
+export const PATTERN_FREQUENCY_RANGE: Record<string, readonly [number, number]> = {
+    /** 2 quadratic curves per period — legible down to ~72px periods */
+    smooth: [1, 20],
+    /** 2 seeded cubics per period — irregularity is lost below ~120px */
+    organic: [1, 12],
+    /** 1 zig-zag per period */
+    sharp: [1, 20],
+    /** 1 peak per period */
+    mountain: [1, 20],
+    /** Dramatic sweep needs at least ~180px per period */
+    flowing: [1, 8],
+    /** 3 cubics per period */
+    ribbon: [1, 8],
+    /** 5 cubics per period */
+    'layered-organic': [1, 6],
+    /** Every anchor repeats per period — keep ~120px per period */
+    spline: [1, 12],
+    /** 2 noise cells per period at the base octave */
+    noise: [1, 12],
+    /** Rendered with the smooth generator */
+    layered: [1, 20],
+}
+
+/**
+ * Metadata for every built-in pattern: what it looks like, which config
+ * fields it responds to and how it behaves under animation. Read it through
+ * `getPatternInfo` / `listPatterns`, which also cover registered patterns.
+ */
+export const PATTERN_CATALOG: Record<BuiltInPatternName, PatternMeta> = {
+    smooth: {
+        label: 'Smooth',
+        description: 'Classic sine-like wave divider',
+        params: ['amplitude', 'frequency'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.smooth,
+        morphSafe: true,
+        periodic: true,
+    },
+    organic: {
+        label: 'Organic',
+        description: 'Irregular, hand-drawn swells varied by seed',
+        params: ['amplitude', 'frequency', 'seed'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.organic,
+        morphSafe: true,
+        periodic: true,
+    },
+    sharp: {
+        label: 'Sharp',
+        description: 'Straight zig-zag teeth',
+        params: ['amplitude', 'frequency'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.sharp,
+        morphSafe: true,
+        periodic: true,
+    },
+    mountain: {
+        label: 'Mountain',
+        description: 'Angular peaks like a mountain range',
+        params: ['amplitude', 'frequency'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.mountain,
+        morphSafe: true,
+        periodic: true,
+    },
+    flowing: {
+        label: 'Flowing',
+        description: 'Dramatic asymmetric sweeps',
+        params: ['amplitude', 'frequency', 'phase'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.flowing,
+        morphSafe: true,
+        periodic: true,
+    },
+    ribbon: {
+        label: 'Ribbon',
+        description: 'Twisting ribbon-like curves varied by seed',
+        params: ['amplitude', 'frequency', 'seed'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.ribbon,
+        morphSafe: true,
+        periodic: true,
+    },
+    'layered-organic': {
+        label: 'Layered Organic',
+        description: 'Several organic swells stacked into one richer edge',
+        params: ['amplitude', 'frequency', 'seed'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE['layered-organic'],
+        morphSafe: true,
+        periodic: true,
+    },
+    spline: {
+        label: 'Spline',
+        description: 'Smooth curve through your own anchor points',
+        params: ['amplitude', 'frequency', 'phase', 'spline'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.spline,
+        morphSafe: true,
+        periodic: true,
+    },
+    noise: {
+        label: 'Noise',
+        description: 'Seeded fractal noise that evolves over time',
+        params: ['amplitude', 'frequency', 'phase', 'seed', 'noise'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.noise,
+        morphSafe: true,
+        periodic: true,
+    },
+    layered: {
+        label: 'Layered',
+        description: 'Stacked translucent smooth waves (uses `layers`)',
+        params: ['amplitude', 'frequency'],
+        frequencyRange: PATTERN_FREQUENCY_RANGE.layered,
+        morphSafe: true,
+        periodic: true,
+    },
+    custom: {
+        label: 'Custom',
+        description: 'Your own path (`customPath`, see `importWaveSVG`)',
+        params: ['customPath'],
+        morphSafe: true,
+        periodic: false,
+    },
 }
 
 // ============================================================
@@ -371,3 +813,26 @@ export const DEFAULT_SEPARATION: WaveSeparationConfig = {
     intensity: 0.5,
     gap: 0,
 }
+
+/** Thinnest an accent band (`separation.band`) gets unless set, in px */
+export const DEFAULT_BAND_MIN_THICKNESS = 4
+
+// ============================================================
+// Default WaveCard Configs
+// ============================================================
+
+/** Edge used for WaveCard sides set to `true` (and the base for edge configs) */
+export const DEFAULT_CARD_EDGE: Required<Pick<WaveEdgeConfig, 'pattern' | 'height' | 'amplitude' | 'frequency'>> = {
+    pattern: 'smooth',
+    height: 24,
+    amplitude: 0.5,
+    frequency: 3,
+}
+
+/** Hover defaults for WaveCard: transitions the clip-path so edges morph */
+export const DEFAULT_CARD_HOVER: HoverConfig = {
+    scale: 1.02,
+    lift: -4,
+    morph: 0.5,
+    transition: 'transform 0.3s ease, clip-path 0.3s ease',
+}
@@ -8,7 +8,7 @@ import {
     useRef,
     useState,
 } from 'react'
-import type { WaveContextValue, WaveDefaults, SectionRegistration, WaveProviderProps, DebugPanelConfig } from '../types'
+import type { WaveContextValue, WaveDefaults, SectionRegistration, WaveProviderProps, DebugPanelConfig, PatternLookup } from '../types'
 import { DEFAULTS } from '../constants'
 
 // ============================================================
@@ -18,6 +18,9 @@ import { DEFAULTS } from '../constants'
 export const WaveContext = createContext<WaveContextValue | null>(null)
 WaveContext.displayName = 'WaveContext'
 
+/** Shared empty lookup so context consumers see a stable reference */
+const NO_SCOPED_PATTERNS: PatternLookup = {}
+
 // ============================================================
 // Provider
 // ============================================================
@@ -26,17 +29,17 @@ WaveContext.displayName = 'WaveContext'
  * WaveProvider — wraps your page layout and tracks all WaveSections.
  *
  * Provides automatic section ordering, adjacent section detection,
- * and global default configuration.
+ * global default configuration and provider-scoped custom patterns.
  *
  * @example
  * ```tsx
- * <WaveProvider defaults={{ height: 150, pattern: 'organic' }}>
- *   <WaveSection background="#fff">...</WaveSection>
+ * <WaveProvider defaults={{ height: 150, pattern: 'organic' }} patterns={{ brand: brandGenerator }}>
+ *   <WaveSection background="#fff" pattern="brand">...</WaveSection>
  *   <WaveSection background="#f5f5f5">...</WaveSection>
  * </WaveProvider>
  * ```
  */
-export function WaveProvider({ defaults: userDefaults, debug: debugProp = false, children }: WaveProviderProps) {
+export function WaveProvider({ defaults: userDefaults, debug: debugProp = false, patterns: patternsProp, children }: WaveProviderProps) {
     // Store sections in a ref to avoid re-renders on every registration
     // This breaks the infinite loop cycle
     const sectionsRef = useRef<SectionRegistration[]>([])
@@ -77,6 +80,13 @@ export function WaveProvider({ defaults: userDefaults, debug: debugProp = false,
         [userDefaults],
     )
 
+    // Scoped patterns — compared by generator identity so inline objects don't churn consumers
+    const patternsRef = useRef<PatternLookup>(NO_SCOPED_PATTERNS)
+    if (!isSameLookup(patternsRef.current, patternsProp ?? NO_SCOPED_PATTERNS)) {
+        patternsRef.current = patternsProp ? { ...patternsProp } : NO_SCOPED_PATTERNS
+    }
+    const patterns = patternsRef.current
+
     // Helper to force update
     const bumpVersion = useCallback(() => setVersion((v) => v + 1), [])
 
@@ -152,9 +162,10 @@ export function WaveProvider({ defaults: userDefaults, debug: debugProp = false,
             getSectionBefore,
             getSectionAfter,
             defaults,
-            debug: debugEnabled
+            debug: debugEnabled,
+            patterns,
         }),
-        [version, register, update, getSectionBefore, getSectionAfter, defaults, debugEnabled],
+        [version, register, update, getSectionBefore, getSectionAfter, defaults, debugEnabled, patterns],
     )
 
     return (
@@ -165,6 +176,16 @@ export function WaveProvider({ defaults: userDefaults, debug: debugProp = false,
     )
 }
 
+/**
+ * Shallow equality for pattern lookups (same names → same generator functions).
+ */
+function isSameLookup(a: PatternLookup, b: PatternLookup): boolean {
+    const aKeys = Object.keys(a)
+    const bKeys = Object.keys(b)
+    if (aKeys.length !== bKeys.length) return false
+    return aKeys.every((key) => a[key] === b[key])
+}
+
 // ============================================================
 // Debug Overlay (dev only)
 // ============================================================
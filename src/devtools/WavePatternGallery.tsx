@@ -1,9 +1,11 @@
 'use client'
 
-import { useMemo } from 'react'
-import type { PatternName } from '../types'
-import { PATTERN_REGISTRY, DEFAULT_VIEWBOX_WIDTH } from '../constants'
+import { useEffect, useMemo, useState } from 'react'
+import type { PatternName, PatternLookup, PatternInfo } from '../types'
+import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
 import { generatePath } from '../utils/path-generator'
+import { listPatterns, subscribePatternRegistry } from '../utils/pattern-registry'
+import { useOptionalWaveContext } from '../context/useWaveContext'
 
 interface WavePatternGalleryProps {
     /** Background color for the preview SVGs. Default: '#ffffff' */
@@ -17,12 +19,24 @@ interface WavePatternGalleryProps {
 }
 
 const PREVIEW_HEIGHT = 80
+/** Waves shown in each preview, clamped to the pattern's recommended range */
+const PREVIEW_FREQUENCY = 2
+
+/** Preview frequency for a pattern: patterns that ignore frequency get one wave */
+function previewFrequency(info: PatternInfo): number {
+    if (!info.params.includes('frequency')) return 1
+    const [min, max] = info.frequencyRange
+    return Math.min(max, Math.max(min, PREVIEW_FREQUENCY))
+}
 
 /**
  * WavePatternGallery — standalone pattern preview grid.
  *
- * Iterates the built-in pattern registry and renders mini SVG previews.
- * No context dependency — works anywhere.
+ * Iterates the pattern registry (built-ins, registered patterns and any
+ * patterns scoped to an enclosing `<WaveProvider>`) and renders mini SVG
+ * previews with each pattern's catalog info (see `listPatterns`): label,
+ * description, the params it honours and whether it tiles and morphs
+ * cleanly. Works with or without a provider.
  *
  * @example
  * ```tsx
@@ -37,7 +51,17 @@ export function WavePatternGallery({
     onSelect,
     className = '',
 }: WavePatternGalleryProps) {
-    const patterns = useMemo(() => Object.keys(PATTERN_REGISTRY) as PatternName[], [])
+    const ctx = useOptionalWaveContext()
+    const scopedPatterns = ctx?.patterns
+
+    // Re-list when patterns are registered or unregistered while mounted
+    const [registryVersion, setRegistryVersion] = useState(0)
+    useEffect(() => subscribePatternRegistry(() => setRegistryVersion((v) => v + 1)), [])
+
+    const patterns = useMemo(
+        () => listPatterns(scopedPatterns),
+        [scopedPatterns, registryVersion],
+    )
 
     return (
         <div
@@ -49,13 +73,14 @@ export function WavePatternGallery({
                 gap: 16,
             }}
         >
-            {patterns.map((name) => (
+            {patterns.map((info) => (
                 <PatternCard
-                    key={name}
-                    name={name}
+                    key={info.name}
+                    info={info}
                     backgroundColor={backgroundColor}
                     fillColor={fillColor}
                     onSelect={onSelect}
+                    scopedPatterns={scopedPatterns}
                 />
             ))}
         </div>
@@ -63,26 +88,36 @@ export function WavePatternGallery({
 }
 
 function PatternCard({
-    name,
+    info,
     backgroundColor,
     fillColor,
     onSelect,
+    scopedPatterns,
 }: {
-    name: PatternName
+    info: PatternInfo
     backgroundColor: string
     fillColor: string
     onSelect?: (pattern: PatternName) => void
+    scopedPatterns?: PatternLookup
 }) {
+    const { name } = info
     const path = useMemo(
         () =>
             generatePath(name, {
                 width: DEFAULT_VIEWBOX_WIDTH,
                 height: PREVIEW_HEIGHT,
                 amplitude: 0.5,
-                frequency: name === 'sharp' || name === 'mountain' ? 3 : 1,
-            }),
-        [name],
+                frequency: previewFrequency(info),
+            }, scopedPatterns),
+        [info, scopedPatterns],
     )
+    const hasLabel = info.label !== name
+    // Params beyond amplitude, plus the capabilities worth knowing when picking a pattern
+    const tags = [
+        ...info.params.filter((param) => param !== 'amplitude'),
+        ...(info.periodic ? ['periodic'] : []),
+        ...(info.morphSafe ? ['morph-safe'] : []),
+    ]
 
     return (
         <div
@@ -112,17 +147,22 @@ function PatternCard({
                 <rect width={DEFAULT_VIEWBOX_WIDTH} height={PREVIEW_HEIGHT} fill={backgroundColor} />
                 <path d={path} fill={fillColor} />
             </svg>
-            <div
-                style={{
-                    padding: '8px 12px',
-                    fontSize: 13,
-                    fontFamily: 'monospace',
-                    fontWeight: 600,
-                    textAlign: 'center',
-                    color: '#333',
-                }}
-            >
-                {name}
+            <div style={{ padding: '8px 12px', textAlign: 'center', color: '#333' }}>
+                {hasLabel && <div style={{ fontSize: 13, fontWeight: 600 }}>{info.label}</div>}
+                <div style={{ fontSize: 13, fontFamily: 'monospace', fontWeight: hasLabel ? 400 : 600 }}>
+                    {name}
+                </div>
+                {info.description && (
+                    <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>{info.description}</div>
+                )}
+                {tags.length > 0 && (
+                    <div
+                        data-testid={`pattern-tags-${name}`}
+                        style={{ fontSize: 11, opacity: 0.55, marginTop: 4 }}
+                    >
+                        {tags.join(' · ')}
+                    </div>
+                )}
             </div>
         </div>
     )
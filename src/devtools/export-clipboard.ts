@@ -1,11 +1,12 @@
-import type { PatternName } from '../types'
+import type { PatternInput } from '../types'
 import { generatePath } from '../utils/path-generator'
+import { resolvePatternInput } from '../utils/compose-patterns'
 import { generateClipPath } from '../utils/clip-path'
 import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
 
 export interface ClipPathCSSOptions {
-    /** Wave pattern. Default: 'smooth' */
-    pattern?: PatternName
+    /** Wave pattern or composed layers. Default: 'smooth' */
+    pattern?: PatternInput
     /** Wave height in px. Default: 120 */
     height?: number
     /** Wave amplitude (0-1). Default: 0.5 */
@@ -35,7 +36,8 @@ export function generateClipPathCSS(options: ClipPathCSSOptions = {}): string {
         seed,
     } = options
 
-    const path = generatePath(pattern, {
+    const resolved = resolvePatternInput(pattern)
+    const path = generatePath(resolved.pattern, {
         width,
         height,
         amplitude,
@@ -43,7 +45,7 @@ export function generateClipPathCSS(options: ClipPathCSSOptions = {}): string {
         phase: 0,
         mirror: false,
         seed,
-    })
+    }, resolved.patterns)
 
     return generateClipPath(path, height, position)
 }
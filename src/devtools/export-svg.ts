@@ -1,10 +1,17 @@
 import type { ExportSVGOptions } from '../types'
 import { generatePath } from '../utils/path-generator'
-import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
+import { generateInterlockPaths } from '../utils/interlock-generator'
+import { resolvePatternInput } from '../utils/compose-patterns'
+import { optimizePath } from '../utils/path-optimizer'
+import { bandFill, serializeSvgNode } from '../utils/svg-defs'
+import { DEFAULT_VIEWBOX_WIDTH, DEFAULT_SEPARATION } from '../constants'
 
 /**
  * Generate a standalone SVG string from wave config.
  * Deterministic — regenerates from config, not DOM serialization.
+ *
+ * With `separation`, exports both interlocked edges: the band (or the
+ * background color) shows between them and `fillColor` below the lower one.
  */
 export function exportWaveAsSVG(options: ExportSVGOptions = {}): string {
     const {
@@ -18,9 +25,30 @@ export function exportWaveAsSVG(options: ExportSVGOptions = {}): string {
         seed,
         stroke,
         shadow,
+        optimize = false,
     } = options
 
-    const path = generatePath(pattern, {
+    const resolved = resolvePatternInput(pattern)
+    const shrink = (d: string) => (optimize ? optimizePath(d, optimize === true ? {} : optimize) : d)
+    const separation = options.separation ? { ...DEFAULT_SEPARATION, ...options.separation } : undefined
+    const dual = separation && separation.mode !== 'flush'
+        ? generateInterlockPaths({
+              pattern: resolved.pattern,
+              height,
+              amplitude,
+              frequency,
+              intensity: separation.intensity,
+              mode: separation.mode,
+              seed,
+              gap: separation.gap,
+              samples: separation.samples,
+              band: separation.band,
+              tabs: separation.tabs,
+              width,
+              patterns: resolved.patterns,
+          })
+        : undefined
+    const generated = dual?.pathB ?? generatePath(resolved.pattern, {
         width,
         height,
         amplitude,
@@ -28,15 +56,21 @@ export function exportWaveAsSVG(options: ExportSVGOptions = {}): string {
         phase: 0,
         mirror: false,
         seed,
-    })
+    }, resolved.patterns)
+    const path = shrink(generated)
 
     const filterId = shadow ? 'wave-shadow' : undefined
-    const filterDef = shadow
-        ? `<defs><filter id="${filterId}" x="-20%" y="-20%" width="140%" height="140%">` +
-          `<feDropShadow dx="${shadow.offsetX}" dy="${shadow.offsetY}" ` +
-          `stdDeviation="${shadow.blur / 2}" flood-color="${shadow.color}" />` +
-          `</filter></defs>`
-        : ''
+    const band = dual && separation?.band ? bandFill(separation.band.fill, 'wave-band') : undefined
+    const defs = [
+        shadow
+            ? `<filter id="${filterId}" x="-20%" y="-20%" width="140%" height="140%">` +
+              `<feDropShadow dx="${shadow.offsetX}" dy="${shadow.offsetY}" ` +
+              `stdDeviation="${shadow.blur / 2}" flood-color="${shadow.color}" />` +
+              `</filter>`
+            : '',
+        band?.def ? serializeSvgNode(band.def) : '',
+    ].join('')
+    const filterDef = defs ? `<defs>${defs}</defs>` : ''
 
     const strokeAttr = stroke
         ? ` stroke="${stroke.color}" stroke-width="${stroke.width}"${stroke.dashArray ? ` stroke-dasharray="${stroke.dashArray}"` : ''}`
@@ -49,6 +83,8 @@ export function exportWaveAsSVG(options: ExportSVGOptions = {}): string {
         `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">`,
         filterDef,
         `<rect width="${width}" height="${height}" fill="${backgroundColor}" />`,
+        // Upper edge of a dual export: its area shows as the band between the edges
+        ...(dual ? [`<path d="${shrink(dual.pathA)}" fill="${band?.paint ?? backgroundColor}" />`] : []),
         `<path d="${path}" fill="${fillAttr}"${strokeAttr}${filterAttr} />`,
         `</svg>`,
     ].join('\n')
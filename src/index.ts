@@ -6,6 +6,8 @@
 export { WaveSection } from './components/WaveSection'
 export { WaveRenderer } from './components/WaveRenderer'
 export { WaveLayer } from './components/WaveLayer'
+export { WaveBlob } from './components/WaveBlob'
+export { WaveCard } from './components/WaveCard'
 export { WaveSectionCSS } from './components/WaveSectionCSS'
 export type { WaveSectionCSSProps } from './components/WaveSectionCSS'
 
@@ -14,22 +16,54 @@ export { WaveProvider } from './context/WaveProvider'
 export { useWaveContext, useOptionalWaveContext } from './context/useWaveContext'
 
 // Utilities
-export { parseBackground, hexToRgb, rgbToHex, interpolateColors, isDark, generateAutoGradient } from './utils/color-utils'
-export { generatePath, generateLayeredPaths, flipPathVertically } from './utils/path-generator'
+export { parseBackground, hexToRgb, rgbToHex, rgbaToHex, backgroundEdgeColor, interpolateColors, transitionBandColors, isDark, generateAutoGradient } from './utils/color-utils'
+export { parseColor } from './utils/css-color'
+export type { CssColorSpace } from './utils/css-color'
+export { generatePath, generateLayeredPaths, generateTransitionBands, flipPathVertically, transposePath, tilePeriodicPath } from './utils/path-generator'
+export { applyAnchors } from './utils/anchors'
+export type { ApplyAnchorsOptions } from './utils/anchors'
+export {
+    parsePath,
+    toAbsoluteCommands,
+    normalizePath,
+    serializePath,
+    flattenPath,
+    createPathGeometry,
+    getYAtX,
+    getPointAtLength,
+    getPathLength,
+    getPathBounds,
+} from './utils/path-geometry'
+export type { PathPoint, PathBounds, PathCommand, PathPolyline, PathGeometry, FlattenOptions } from './utils/path-geometry'
+export { matchPathStructure, morphBetween } from './utils/path-morph'
+export { importWaveSVG } from './utils/svg-import'
+export { createNoise2D, fractalNoise } from './utils/noise'
+export type { Noise2D, FractalNoiseOptions } from './utils/noise'
+export { composePatterns, resolvePatternInput, COMPOSED_PATTERN } from './utils/compose-patterns'
+export { parseShapeExpression, toExpression, compileShapeExpression, isShapeExpression } from './utils/shape-expression'
+export { registerPattern, unregisterPattern, resetPatternRegistry, hasPattern, getPatternNames, getPatternMeta, getPatternInfo, listPatterns } from './utils/pattern-registry'
 export { useWaveAnimation, useReducedMotion, generateMorphFrames } from './utils/animation'
 export type { UseWaveAnimationOptions, UseWaveAnimationResult } from './utils/animation'
-export { KEYFRAME_GENERATORS, PATH_MORPH_GENERATORS, generatePathKeyframes, generateDualPathMorphKeyframes } from './utils/keyframes'
-export { generateClipPath, generateDualClipPath } from './utils/clip-path'
+export { KEYFRAME_GENERATORS, PATH_MORPH_GENERATORS, TILE_SCROLL_ANIMATIONS, generatePathKeyframes, generateDualPathMorphKeyframes, tileScrollKeyframes } from './utils/keyframes'
+export { generateClipPath, generateDualClipPath, generateRadialClipPath, generateCardClipPath } from './utils/clip-path'
+export type { ClipPathEdge } from './utils/clip-path'
+export { generateRadialPath, wrapRadialPath, radialPatternConfig } from './utils/radial-path'
 export { useIntersection, useMergedRef } from './utils/use-intersection'
 export type { UseIntersectionOptions } from './utils/use-intersection'
 export { optimizePath } from './utils/path-optimizer'
-export { generateInterlockPaths, generateCrossBoundaryPaths, autoSeed } from './utils/interlock-generator'
-export type { InterlockOptions, CrossBoundaryOptions } from './utils/interlock-generator'
+export { generateInterlockPaths, generateCrossBoundaryPaths, constrainDualPath, validateDualPath, autoSeed } from './utils/interlock-generator'
+export type { InterlockOptions, CrossBoundaryOptions, ConstrainDualPathOptions, ValidateDualPathOptions } from './utils/interlock-generator'
 export { createScrollTracker } from './utils/scroll-tracker'
 export { useScrollProgress } from './utils/use-scroll-progress'
 export type { ScrollProgressOptions } from './utils/use-scroll-progress'
 export { useScrollVelocity } from './utils/use-scroll-velocity'
 export type { ScrollVelocityOptions } from './utils/use-scroll-velocity'
+export { useElementWidth } from './utils/use-element-width'
+export type { UseElementWidthOptions } from './utils/use-element-width'
+export { useResolvedBackground, resolveBackground, needsRuntimeBackground } from './utils/use-resolved-background'
+export { useImageEdgeColors } from './utils/use-image-edge-colors'
+export { sampleImageEdgeColors, extractEdgeColors, backgroundImageUrl, clearImageColorCache } from './utils/image-colors'
+export type { ImagePixels, EdgeColorOptions } from './utils/image-colors'
 
 // Constants & presets
 export {
@@ -37,6 +71,10 @@ export {
     PRESETS,
     BREAKPOINTS,
     PATTERN_REGISTRY,
+    PATTERN_FREQUENCY_RANGE,
+    PATTERN_CATALOG,
+    DEFAULT_FREQUENCY_RANGE,
+    DEFAULT_SPLINE_POINTS,
     DEFAULT_SHADOW,
     DEFAULT_GLOW,
     DEFAULT_STROKE,
@@ -47,6 +85,9 @@ export {
     DEFAULT_PARALLAX,
     DEFAULT_HOVER,
     DEFAULT_SEPARATION,
+    DEFAULT_BAND_MIN_THICKNESS,
+    DEFAULT_CARD_EDGE,
+    DEFAULT_CARD_HOVER,
 } from './constants'
 
 // Tailwind plugin (re-exported for convenience; primary access via 'wavy-bavy/tailwind')
@@ -59,11 +100,32 @@ export type {
     WaveSectionProps,
     WaveProviderProps,
     WaveRendererProps,
+    WaveBlobProps,
+    RadialPathOptions,
+    WaveCardProps,
+    WaveCardSide,
 
     // Patterns
     PatternName,
+    BuiltInPatternName,
+    CustomPatterns,
     PatternGenerator,
+    PatternLookup,
+    PatternMeta,
+    PatternInfo,
+    PatternParam,
     PatternConfig,
+    PatternComponent,
+    PatternInput,
+    ShapeExpression,
+    ShapeExpressionString,
+    ShapeTerm,
+    ShapeFilter,
+    SplinePoint,
+    SplineInterpolation,
+    SplineConfig,
+    NoiseConfig,
+    WaveAnchor,
 
     // Animations
     AnimationName,
@@ -85,14 +147,24 @@ export type {
     // Layout
     WavePosition,
     WaveDirection,
+    WaveOrientation,
+    WaveFit,
     ResponsiveValue,
     Breakpoint,
 
     // Background & Gradients
     BackgroundValue,
+    RgbaColor,
+    ColorInterpolationSpace,
+    HueInterpolation,
+    ColorInterpolationOptions,
     ParsedBackground,
+    BackgroundEdge,
+    EdgeColors,
+    EdgeSampling,
     GradientStop,
     GradientConfig,
+    AutoGradientOptions,
 
     // Context
     WaveContextValue,
@@ -109,13 +181,23 @@ export type {
 
     // Export
     ExportSVGOptions,
+    PathOptimizeMode,
+    OptimizePathOptions,
     ExportRasterOptions,
     ResolvedPresetConfig,
 
+    // Import
+    ImportWaveSVGOptions,
+    ImportWaveAnchor,
+
     // Separation / Interlock
     WaveSeparationConfig,
+    WaveBandConfig,
+    WaveBandPattern,
     InterlockMode,
+    InterlockTabConfig,
     DualPathResult,
+    DualPathValidation,
     WaveEdgeConfig,
 
     // Scroll Tracker
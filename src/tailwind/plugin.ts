@@ -2,7 +2,7 @@
  * wavy-bavy Tailwind CSS Plugin
  *
  * Adds utility classes for wave sections:
- *   - wave-{pattern}       → pattern selection (smooth, organic, sharp, etc.)
+ *   - wave-{pattern}       → pattern selection (smooth, organic, sharp, registered patterns, etc.)
  *   - wave-h-{size}        → wave height (sm, md, lg, xl, 2xl)
  *   - wave-animate-{name}  → animation preset (flow, pulse, morph, etc.)
  *   - wave-duration-{speed} → animation duration (fast, normal, slow)
@@ -29,6 +29,7 @@
  */
 
 import { defaultWaveTheme } from './theme'
+import { getPatternNames } from '../utils/pattern-registry'
 
 // Type for Tailwind's plugin API (inline to avoid dependency on tailwindcss)
 interface PluginAPI {
@@ -51,6 +52,8 @@ interface WavePresetConfig {
 
 interface WavyBavyPluginOptions {
     waves?: Record<string, WavePresetConfig>
+    /** Extra pattern names to generate `wave-{pattern}` utilities for (e.g. from `registerPattern`) */
+    patterns?: string[]
 }
 
 function wavyBavyPlugin(options: WavyBavyPluginOptions = {}) {
@@ -58,9 +61,14 @@ function wavyBavyPlugin(options: WavyBavyPluginOptions = {}) {
         const { addUtilities, matchUtilities } = api
         const theme = defaultWaveTheme
 
-        // ── Static pattern utilities ──
+        // ── Static pattern utilities (theme + registered + user-listed) ──
+        const patternNames = new Set<string>([
+            ...theme.patterns,
+            ...getPatternNames(),
+            ...(options.patterns ?? []),
+        ])
         const patternUtilities: Record<string, Record<string, string>> = {}
-        for (const pattern of theme.patterns) {
+        for (const pattern of patternNames) {
             patternUtilities[`.wave-${pattern}`] = {
                 '--wavy-bavy-pattern': pattern,
             }
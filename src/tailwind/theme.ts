@@ -1,3 +1,6 @@
+import type { BuiltInPatternName } from '../types'
+import { PATTERN_CATALOG } from '../constants'
+
 /**
  * Default Tailwind theme tokens for wavy-bavy.
  * Extend or override via the plugin's `waves` option.
@@ -10,7 +13,8 @@ export const defaultWaveTheme = {
         xl: '250px',
         '2xl': '300px',
     },
-    patterns: ['smooth', 'organic', 'sharp', 'layered', 'mountain'] as const,
+    /** Every built-in pattern in the catalog (`custom` needs a path, so it has no utility) */
+    patterns: (Object.keys(PATTERN_CATALOG) as BuiltInPatternName[]).filter((name) => name !== 'custom'),
     animations: ['flow', 'pulse', 'morph', 'ripple', 'bounce'] as const,
     durations: {
         fast: '2s',
@@ -5,11 +5,167 @@ import type { CSSProperties, ReactNode, ElementType } from 'react'
 // ============================================================
 
 /** Available built-in wave patterns */
-export type PatternName = 'smooth' | 'organic' | 'sharp' | 'layered' | 'mountain' | 'flowing' | 'ribbon' | 'layered-organic' | 'custom'
+export type BuiltInPatternName = 'smooth' | 'organic' | 'sharp' | 'layered' | 'mountain' | 'flowing' | 'ribbon' | 'layered-organic' | 'spline' | 'noise' | 'custom'
+
+/**
+ * Names of patterns added via `registerPattern()` or `<WaveProvider patterns>`.
+ * Extend through module augmentation to make custom names valid `PatternName`s:
+ *
+ * ```ts
+ * declare module 'wavy-bavy' {
+ *   interface CustomPatterns { brand: true }
+ * }
+ * ```
+ */
+export interface CustomPatterns {}
+
+/**
+ * A shape expression used as a pattern name, such as
+ * `'sine(f=2,a=0.4) + noise(seed=7,a=0.1) | mirror'` (see `parseShapeExpression`)
+ */
+export type ShapeExpressionString = 'sine' | `${string}(${string}` | `${string}+${string}` | `${string}|${string}`
+
+/** Built-in pattern names, names declared on `CustomPatterns`, and shape expressions */
+export type PatternName = BuiltInPatternName | Extract<keyof CustomPatterns, string> | ShapeExpressionString
 
 /** Function that generates an SVG path string for a wave */
 export type PatternGenerator = (config: PatternConfig) => string
 
+/** Lookup table of pattern generators keyed by pattern name */
+export type PatternLookup = Record<string, PatternGenerator>
+
+/** Pattern-specific config fields a generator may respond to */
+export type PatternParam = 'amplitude' | 'frequency' | 'phase' | 'seed' | 'spline' | 'noise' | 'customPath'
+
+/** Descriptive metadata attached to a registered pattern */
+export interface PatternMeta {
+    /** Human-readable name. Default: the pattern name */
+    label?: string
+    /** Short description of the pattern's character */
+    description?: string
+    /** Config fields the generator responds to. Default: all of them (no ignored-prop warnings) */
+    params?: PatternParam[]
+    /** Recommended `frequency` range. Default: [0.1, 20] */
+    frequencyRange?: readonly [number, number]
+    /** Recommended `amplitude` range. Default: [0, 1] */
+    amplitudeRange?: readonly [number, number]
+    /** Frames at different phases/amplitudes share one command structure, so `d: path()` morphs tween without resampling. Default: false */
+    morphSafe?: boolean
+    /** Honours `periodic: true` (seamlessly tileable output). Default: false */
+    periodic?: boolean
+}
+
+/** Resolved metadata for a pattern, with every default filled in (see `getPatternInfo`) */
+export interface PatternInfo {
+    name: PatternName
+    label: string
+    description: string
+    /** Shipped with the library (as opposed to registered or provider-scoped) */
+    builtIn: boolean
+    params: PatternParam[]
+    frequencyRange: readonly [number, number]
+    amplitudeRange: readonly [number, number]
+    morphSafe: boolean
+    periodic: boolean
+}
+
+/** Normalized spline anchor: x across one period (0-1), y from the baseline (0) to the full wave height (1) */
+export interface SplinePoint {
+    x: number
+    y: number
+}
+
+/**
+ * A point a wave is forced through (see `anchors`). Unlike spline points,
+ * anchors deform any pattern and are not scaled by `amplitude`.
+ */
+export interface WaveAnchor {
+    /** Position across the full width (0-1) */
+    x: number
+    /** Height from the baseline (0) to the full wave height (1) */
+    y: number
+    /** Slope at the anchor as normalized rise over run (0 is flat). Default: the pattern's own slope */
+    slope?: number
+}
+
+/**
+ * How the spline pattern connects its anchors:
+ * - 'catmull-rom': smooth cardinal spline, shaped by `tension`
+ * - 'monotone': monotone cubic — never overshoots above or below neighbouring anchors
+ */
+export type SplineInterpolation = 'catmull-rom' | 'monotone'
+
+/** Anchors and interpolation for the 'spline' pattern */
+export interface SplineConfig {
+    /** At least two anchors. Order does not matter; they are sorted by x */
+    points: SplinePoint[]
+    /** Interpolation mode. Default: 'catmull-rom' */
+    interpolation?: SplineInterpolation
+    /** Catmull-Rom tension (0-1): 0 is the classic curve, 1 straight segments. Default: 0 */
+    tension?: number
+}
+
+/** Fractal noise settings for the 'noise' pattern */
+export interface NoiseConfig {
+    /** Noise layers summed together (1-8). More octaves add finer detail. Default: 3 */
+    octaves?: number
+    /** Frequency multiplier between octaves. Default: 2 */
+    lacunarity?: number
+    /** Amplitude multiplier between octaves (0-1). Lower values give smoother waves. Default: 0.5 */
+    persistence?: number
+    /** Position along the noise's time axis. Advancing it evolves the shape continuously. Default: 0 */
+    time?: number
+    /**
+     * Make the time axis repeat every `loop` units, so advancing `time` by
+     * `loop` comes back to the same shape without reversing. Default: no repeat
+     */
+    loop?: number
+}
+
+/** One weighted layer of a composed pattern (see `composePatterns`) */
+export interface PatternComponent {
+    /** Pattern whose height field this layer contributes */
+    pattern: PatternName
+    /** Scale of this layer's displacement from the baseline — layers add up, clamped to the frame. Default: 1 */
+    weight?: number
+    /** Frequency for this layer. Default: the wave's frequency */
+    frequency?: number
+    /** Phase offset added to the wave's phase. Default: 0 */
+    phase?: number
+    /** Seed for this layer. Default: the wave's seed */
+    seed?: number
+}
+
+/** A pattern name, or layers to compose into one pattern */
+export type PatternInput = PatternName | PatternComponent[]
+
+/** One pattern of a shape expression, e.g. `noise(a=0.1,seed=7)` */
+export interface ShapeTerm {
+    /** Pattern whose height this term adds (`sine` parses as 'smooth') */
+    pattern: PatternName
+    /** `a` — multiplies the wave's amplitude. Default: 1 */
+    amplitude?: number
+    /** `f` — frequency for this term. Default: the wave's frequency */
+    frequency?: number
+    /** `p` — shift in waves, added to the wave's phase. Default: 0 */
+    phase?: number
+    /** `seed` — seed for this term. Default: the wave's seed */
+    seed?: number
+}
+
+/** A `| filter` stage of a shape expression, applied to the height above the baseline (0-1) */
+export type ShapeFilter =
+    | { type: 'mirror' }
+    | { type: 'clamp'; min: number; max: number }
+    | { type: 'scale'; factor: number }
+    | { type: 'offset'; amount: number }
+
+/** A parsed shape expression: summed terms, then filters from left to right */
+export interface ShapeExpression {
+    terms: ShapeTerm[]
+    filters?: ShapeFilter[]
+}
+
 /** Configuration passed to pattern generators */
 export interface PatternConfig {
     /** Width of the SVG viewBox */
@@ -18,7 +174,7 @@ export interface PatternConfig {
     height: number
     /** Wave amplitude multiplier (0-1). Default: 0.5 */
     amplitude: number
-    /** Number of wave peaks. Default: 1 */
+    /** Number of pattern periods (built-ins round to whole periods). Default: 1 */
     frequency: number
     /** Horizontal offset (0-1). Default: 0 */
     phase: number
@@ -26,18 +182,55 @@ export interface PatternConfig {
     mirror: boolean
     /** Seed for reproducible random patterns. Default: undefined */
     seed?: number
+    /**
+     * Generate a seamlessly tileable curve: it runs from x=0 to x=width and
+     * starts and ends at the same height with the same slope. Default: false
+     */
+    periodic?: boolean
+    /** Anchors for the 'spline' pattern. Default: a built-in gentle swell */
+    spline?: SplineConfig
+    /** Fractal noise settings for the 'noise' pattern */
+    noise?: NoiseConfig
+    /**
+     * Path drawn by the 'custom' pattern, in viewBox coordinates. Closed
+     * paths are scaled so their base sits on the bottom edge
+     */
+    customPath?: string
+    /**
+     * Points the finished wave is bent through, smoothly and within about one
+     * wave of each anchor (see `applyAnchors`). Works with every pattern
+     */
+    anchors?: WaveAnchor[]
 }
 
 // ============================================================
 // Wave Position & Direction
 // ============================================================
 
-/** Where waves are placed on a section */
-export type WavePosition = 'top' | 'bottom' | 'both' | 'none'
+/**
+ * Where waves are placed on a section.
+ * 'left' and 'right' are the vertical-orientation counterparts of 'top' and
+ * 'bottom' (the edge shared with the previous and next section).
+ */
+export type WavePosition = 'top' | 'bottom' | 'left' | 'right' | 'both' | 'none'
 
 /** Direction the wave curves toward */
 export type WaveDirection = 'up' | 'down'
 
+/**
+ * Which way sections are laid out. 'horizontal' edges separate stacked
+ * sections; 'vertical' edges separate side-by-side sections (e.g. panels in
+ * a flex row), with the wave depth running along the x axis.
+ */
+export type WaveOrientation = 'horizontal' | 'vertical'
+
+/**
+ * How waves fit their container's width.
+ * 'viewBox' stretches a 1440-wide drawing to any width; 'measure' redraws
+ * the paths at the container's measured pixel width.
+ */
+export type WaveFit = 'viewBox' | 'measure'
+
 // ============================================================
 // Responsive Values
 // ============================================================
@@ -55,15 +248,52 @@ export type ResponsiveValue<T> = T | Partial<Record<Breakpoint, T>>
 /** Supported background value types */
 export type BackgroundValue = string // CSS color, gradient, or url()
 
+/** A parsed CSS color in sRGB: channels 0-255 (unrounded), alpha 0-1 */
+export interface RgbaColor {
+    r: number
+    g: number
+    b: number
+    alpha: number
+}
+
+/**
+ * Color space colors are blended in: gamma-encoded sRGB (what CSS does by
+ * default), linear-light sRGB, or the perceptual OKLab / OKLCH, which keep
+ * blue→yellow blends from turning grey in the middle
+ */
+export type ColorInterpolationSpace = 'srgb' | 'linear-srgb' | 'oklab' | 'oklch'
+
+/** Which way round the hue wheel OKLCH blends go */
+export type HueInterpolation = 'shorter' | 'longer'
+
+/** How two colors are blended */
+export interface ColorInterpolationOptions {
+    /** Default: 'srgb' */
+    colorSpace?: ColorInterpolationSpace
+    /** Hue direction, OKLCH only. Default: 'shorter' */
+    hueInterpolation?: HueInterpolation
+}
+
 /** Parsed background info used internally */
 export interface ParsedBackground {
     type: 'color' | 'gradient' | 'image' | 'video'
     /** The raw CSS value */
     value: string
-    /** Dominant color for wave matching (hex) */
+    /** Dominant color for wave matching (hex — `#rrggbbaa` when translucent) */
     dominantColor: string
+    /** Colors where waves meet single edges (sampled from images), preferred over `dominantColor` */
+    edgeColors?: EdgeColors
 }
 
+/** A side of a section where a wave can meet it */
+export type BackgroundEdge = 'top' | 'right' | 'bottom' | 'left'
+
+/** Wave-matching colors per section edge */
+export type EdgeColors = Partial<Record<BackgroundEdge, string>>
+
+/** How an image edge strip becomes one color: its most common color or the mean of all its pixels */
+export type EdgeSampling = 'dominant' | 'average'
+
 // ============================================================
 // Gradient Types
 // ============================================================
@@ -86,6 +316,12 @@ export interface GradientConfig {
     angle?: number
 }
 
+/** Options for `generateAutoGradient` */
+export interface AutoGradientOptions extends ColorInterpolationOptions {
+    /** Number of evenly spaced stops, ends included (2 or more). Default: 3 */
+    stops?: number
+}
+
 // ============================================================
 // Animation Types
 // ============================================================
@@ -215,6 +451,8 @@ export interface HoverConfig {
     lift?: number
     /** Enhance glow effect on hover. Default: false */
     glow?: boolean
+    /** How far wavy edges slide on hover, in waves (0.5 swaps crests and troughs), for components that morph them (WaveCard). Default: 0.5 */
+    morph?: number
     /** CSS transition string. Default: 'transform 0.3s ease, filter 0.3s ease' */
     transition?: string
 }
@@ -223,8 +461,23 @@ export interface HoverConfig {
 // Interlocking Wave Separation Types
 // ============================================================
 
-/** Interaction mode for dual-wave interlocking */
-export type InterlockMode = 'interlock' | 'overlap' | 'apart' | 'flush'
+/**
+ * Interaction mode for dual-wave interlocking. 'interlock', 'overlap' and
+ * 'apart' offset copies of one curve; 'puzzle' (jigsaw tabs and sockets) and
+ * 'zipper' (alternating teeth) mesh both edges around tabs, exactly `gap`
+ * apart. Tabbed edges don't bend back through `anchors`.
+ */
+export type InterlockMode = 'interlock' | 'overlap' | 'apart' | 'flush' | 'puzzle' | 'zipper'
+
+/** Tabs for the 'puzzle' and 'zipper' interlock modes (`WaveSeparationConfig.tabs`) */
+export interface InterlockTabConfig {
+    /** Tabs (puzzle) or teeth (zipper) across the width. Default: 6 for puzzle, 12 for zipper */
+    count?: number
+    /** Share of its slot each tab spans (0.2-1); tabs also shrink to fit the wave height. Default: 0.6 */
+    size?: number
+    /** Seed for puzzle tab directions and sizes. Default: the wave's seed */
+    seed?: number
+}
 
 /** Configuration for how two wave edges interact at a section transition */
 export interface WaveSeparationConfig {
@@ -232,12 +485,42 @@ export interface WaveSeparationConfig {
     mode: InterlockMode
     /** Depth of interlocking teeth (0.0-1.0). Default: 0.5 */
     intensity: number
-    /** Gap in px between the two wave edges. Default: 0 */
+    /** Gap in px between the two wave edges; the edges never come closer. Default: 0 */
     gap: number
+    /** Samples along each edge; more keeps finer pattern detail. Default: 20 */
+    samples?: number
     /** Stroke color applied to wave edges. Default: undefined */
     strokeColor?: string
     /** Stroke width in px for wave edges. Default: undefined */
     strokeWidth?: number
+    /** Accent band filling the space between the two edges. Default: undefined (the gap shows the container color) */
+    band?: WaveBandConfig
+    /** Tab count, size and seed for the 'puzzle' and 'zipper' modes */
+    tabs?: InterlockTabConfig
+}
+
+/** Repeating pattern fill for an accent band */
+export interface WaveBandPattern {
+    /** Tile shape: diagonal stripes, a dot grid, or a line grid */
+    type: 'stripes' | 'dots' | 'grid'
+    /** Color of the stripes, dots or lines */
+    color: string
+    /** Color behind the pattern. Default: transparent */
+    background?: string
+    /** Tile size in px. Default: 8 */
+    size?: number
+    /** Pattern rotation in degrees. Default: 45 for stripes, 0 otherwise */
+    angle?: number
+}
+
+/** Accent ribbon between two interlocked wave edges (`WaveSeparationConfig.band`) */
+export interface WaveBandConfig {
+    /** CSS color, gradient, or repeating pattern */
+    fill: string | GradientConfig | WaveBandPattern
+    /** Thinnest the band gets, in px (at least `gap`). Default: 4 */
+    minThickness?: number
+    /** Thickest the band gets, in px. Default: unlimited */
+    maxThickness?: number
 }
 
 /** Result of dual-path interlocking generation */
@@ -250,6 +533,20 @@ export interface DualPathResult {
     baseCurve: string
 }
 
+/** Result of `validateDualPath` */
+export interface DualPathValidation {
+    /** pathB stays within the required separation below pathA everywhere */
+    valid: boolean
+    /** Smallest pathB − pathA distance found (negative where the paths cross); NaN if nothing could be sampled */
+    minSeparation: number
+    /** x position of `minSeparation` */
+    minSeparationX: number
+    /** Largest pathB − pathA distance found */
+    maxSeparation: number
+    /** x positions where the separation falls short (or exceeds the maximum) */
+    violations: number[]
+}
+
 /** Per-edge wave configuration for independent upper/lower wave control */
 export interface WaveEdgeConfig {
     pattern?: PatternName
@@ -259,6 +556,14 @@ export interface WaveEdgeConfig {
     phase?: number
     mirror?: boolean
     seed?: number
+    /** Anchors for the 'spline' pattern */
+    spline?: SplineConfig
+    /** Fractal noise settings for the 'noise' pattern */
+    noise?: NoiseConfig
+    /** Path for the 'custom' pattern (see `importWaveSVG`) */
+    customPath?: string
+    /** Points this edge is forced through (see `WaveAnchor`) */
+    anchors?: WaveAnchor[]
 }
 
 /** Options for the vanilla JS scroll tracker */
@@ -337,6 +642,8 @@ export interface WaveContextValue {
     defaults: WaveDefaults
     /** Whether debug mode is active */
     debug: boolean
+    /** Provider-scoped pattern generators (take precedence over the global registry) */
+    patterns: PatternLookup
 }
 
 /** Global default settings configurable via WaveProvider */
@@ -353,6 +660,10 @@ export interface WaveDefaults {
     animate: AnimationName
     /** Whether to respect prefers-reduced-motion. Default: true */
     respectReducedMotion: boolean
+    /** Color space for auto gradients, transition bands and layer ramps. Default: 'srgb' */
+    colorSpace: ColorInterpolationSpace
+    /** Hue direction for `colorSpace` 'oklch'. Default: 'shorter' */
+    hueInterpolation: HueInterpolation
 }
 
 // ============================================================
@@ -384,23 +695,56 @@ export interface WaveSectionProps {
     backgroundImage?: string
     /** If true, clips the background image/video to follow the wave contour. Default: false */
     clipImage?: boolean
+    /**
+     * Color waves use at this section's edges instead of the one parsed or
+     * sampled from the background. A string sets every edge; an object sets
+     * single edges (precomputed on the server, say) and leaves the rest to
+     * image sampling.
+     */
+    edgeColor?: string | EdgeColors
+    /** How image backgrounds are sampled at their edges. Default: 'dominant' */
+    edgeSampling?: EdgeSampling
 
     // --- Wave Configuration ---
     /** Use a named preset configuration */
     preset?: string
     /** Where to place waves. Default: auto-detected from context */
     wavePosition?: WavePosition
-    /** Wave height in px. Supports responsive values. Default: from provider defaults */
+    /**
+     * Edge orientation. 'vertical' draws the waves as left/right seams between
+     * side-by-side sections; `height` is then the wave band's width.
+     * Default: 'vertical' for `wavePosition` 'left'/'right', otherwise 'horizontal'
+     */
+    orientation?: WaveOrientation
+    /** Wave height in px (the band's width for vertical edges). Supports responsive values. Default: from provider defaults */
     height?: number | ResponsiveValue<number>
+    /**
+     * 'measure' observes the wave's width and regenerates paths at that pixel
+     * width, so narrow screens get undistorted shapes and strokes. Server
+     * rendering and the first paint use the 1440-wide viewBox. Default: 'viewBox'
+     */
+    fit?: WaveFit
 
     // --- Pattern ---
-    /** Wave pattern shape. Default: 'smooth' */
-    pattern?: PatternName
-    /** Custom SVG path string (used when pattern='custom') */
+    /**
+     * Wave pattern shape, or an array of weighted layers whose height fields
+     * are summed into one wave (see `composePatterns`). Default: 'smooth'
+     */
+    pattern?: PatternInput
+    /**
+     * Custom SVG path string, drawn when pattern='custom'. Use `importWaveSVG`
+     * to turn an exported SVG file into a path in the wave's coordinate frame
+     */
     customPath?: string
     /** Wave amplitude (0-1). Default: 0.5 */
     amplitude?: number
-    /** Number of wave peaks. Default: 1 */
+    /**
+     * Number of times the pattern repeats across the width. Default: 1
+     * Built-in patterns round to whole periods; values are clamped to the
+     * pattern's range (see PATTERN_FREQUENCY_RANGE), e.g. smooth [1, 20],
+     * flowing [1, 8], layered-organic [1, 6]. The minimum of 1 applies with
+     * `periodic` only; otherwise values down to 0.1 are accepted.
+     */
     frequency?: number
     /** Horizontal offset (0-1). Default: 0 */
     phase?: number
@@ -408,6 +752,21 @@ export interface WaveSectionProps {
     mirror?: boolean
     /** Seed for reproducible random organic patterns */
     seed?: number
+    /**
+     * Generate a seamlessly tileable wave. With `animate="flow"` or `"drift"`
+     * the wave scrolls continuously instead of morphing. Default: false
+     */
+    periodic?: boolean
+    /** Anchor points and interpolation for `pattern="spline"` */
+    spline?: SplineConfig
+    /** Octaves, lacunarity, persistence and time for `pattern="noise"` (seeded by `seed`) */
+    noise?: NoiseConfig
+    /**
+     * Points every wave edge is forced through, e.g. `[{ x: 0.5, y: 0.2, slope: 0 }]`
+     * for a flat dip behind a centered button. Kept through interlocking and
+     * path-morph animation frames
+     */
+    anchors?: WaveAnchor[]
 
     // --- Animation ---
     /** Animation preset or false to disable. Default: 'none' */
@@ -424,6 +783,15 @@ export interface WaveSectionProps {
     containerGradient?: GradientConfig
     /** Auto-generate gradient from adjacent section colors. Default: false */
     autoGradient?: boolean
+    /** Number of stops in auto gradients (2 or more), blended in `colorSpace`. Default: 3 */
+    gradientStops?: number
+    /**
+     * Color space auto gradients, transition bands and layer ramps blend in.
+     * Overrides the provider default. Default: 'srgb'
+     */
+    colorSpace?: ColorInterpolationSpace
+    /** Hue direction for `colorSpace` 'oklch'. Overrides the provider default. Default: 'shorter' */
+    hueInterpolation?: HueInterpolation
 
     // --- Effects ---
     /** Drop shadow on wave. Default: false */
@@ -442,6 +810,13 @@ export interface WaveSectionProps {
     layers?: number
     /** Opacity for stacked layers. Default: 0.3 */
     layerOpacity?: number
+    /**
+     * Step through this many nested waves between the two sections' colors,
+     * back to front, all inside the wave height. The front band is the next
+     * section's color. With `parallax` each band moves at its own speed.
+     * Takes precedence over `layers`. Default: 1
+     */
+    transitionBands?: number
 
     // --- Scroll & Interaction ---
     /** Scroll-linked animation: drive animation timeline from scroll position. Default: false */
@@ -509,6 +884,8 @@ export interface WaveProviderProps {
     defaults?: Partial<WaveDefaults>
     /** Enable debug mode. Pass true for minimal overlay, or a config object for enhanced mode. Default: false */
     debug?: boolean | Partial<DebugPanelConfig>
+    /** Pattern generators available only to WaveSections inside this provider */
+    patterns?: PatternLookup
     children: ReactNode
 }
 
@@ -527,10 +904,12 @@ export interface WaveRendererProps {
     fillGradient?: GradientConfig
     /** SVG gradient for the container area */
     containerGradient?: GradientConfig
-    /** Wave height in px */
+    /** Wave height in px (the band's width when vertical) */
     height: number
     /** Wave direction */
     direction: WaveDirection
+    /** Draw the wave as a vertical seam (paths are transposed). Default: 'horizontal' */
+    orientation?: WaveOrientation
     /** Animation config */
     animation?: AnimationConfig
     /** Shadow config */
@@ -565,18 +944,144 @@ export interface WaveRendererProps {
     pathBAnimId?: string
     /** Animation duration in seconds for path morph animations. Default: 4 */
     animationDuration?: number
+    /**
+     * Tile a periodic path (see `PatternConfig.periodic`) and scroll it one
+     * tile per `animationDuration`. Single-path mode only.
+     */
+    tileScroll?: boolean
+    /** Width the paths were generated for. Default: 1440 */
+    viewBoxWidth?: number
+    /** 'measure' keeps strokes uniform and reports the container width via `onMeasure`. Default: 'viewBox' */
+    fit?: WaveFit
+    /** Called with the container's width in px (its height when vertical, debounced) when `fit` is 'measure' */
+    onMeasure?: (width: number) => void
     /** Additional class */
     className?: string
 }
 
+// ============================================================
+// Radial Waves (WaveBlob)
+// ============================================================
+
+/** Options for `generateRadialPath` — a pattern wrapped around a circle or ellipse */
+export interface RadialPathOptions {
+    /** Built-in or registered pattern. Default: 'smooth' */
+    pattern?: PatternName
+    /** Outer radius; the shape is drawn in a `2 × radius` square. Default: 100 */
+    radius?: number
+    /** Vertical radius for ellipses. Default: `radius` */
+    radiusY?: number
+    /** Wave amplitude (0-1). Default: 0.5 */
+    amplitude?: number
+    /** Number of waves around the circle (rounded to whole periods by built-in patterns). Default: 6 */
+    frequency?: number
+    /** Offset around the circle (0-1 of one wave). Default: 0 */
+    phase?: number
+    /** Seed for organic and noise patterns */
+    seed?: number
+    /** Share of the radius the wave band occupies (0-1). Default: 0.2 */
+    depth?: number
+    /** Where the pattern starts, in degrees clockwise from 12 o'clock. Default: 0 */
+    rotation?: number
+    /** Anchor points for `pattern="spline"` */
+    spline?: SplineConfig
+    /** Fractal noise settings for `pattern="noise"` */
+    noise?: NoiseConfig
+    /** Path for `pattern="custom"` (wrapped once around the circle) */
+    customPath?: string
+    /** Scoped pattern generators checked before the global registry */
+    patterns?: PatternLookup
+}
+
+export interface WaveBlobProps extends RadialPathOptions {
+    /** Fill color. Default: '#6c5ce7' */
+    color?: string
+    /** SVG gradient fill. Overrides `color` */
+    gradient?: GradientConfig
+    /** Drop shadow. Default: false */
+    shadow?: boolean | ShadowConfig
+    /** Glow around the blob. Default: false */
+    glow?: boolean | GlowConfig
+    /** Outline along the wavy edge. Default: false */
+    stroke?: boolean | StrokeConfig
+    /** Texture displacement. Default: false */
+    texture?: boolean | TextureConfig
+    /** Inner shadow. Default: false */
+    innerShadow?: boolean | InnerShadowConfig
+    /** Path-morph animation (flow, morph, ripple, drift, breathe, undulate, ripple-out) or false. Default: false */
+    animate?: AnimationName | false
+    /** Animation duration in seconds. Default: 4 */
+    animationDuration?: number
+    /** Clip `children` to the blob outline (e.g. avatar images). Default: false */
+    clipContent?: boolean
+    /** Additional CSS classes */
+    className?: string
+    /** Inline styles for the wrapper (size defaults to `2 × radius` px) */
+    style?: CSSProperties
+    /** Accessible label. Without one the blob is decorative */
+    'aria-label'?: string
+    /** Content drawn on top of the blob, centered */
+    children?: ReactNode
+}
+
+// ============================================================
+// WaveCard Props
+// ============================================================
+
+/** A side of a `WaveCard` */
+export type WaveCardSide = 'top' | 'right' | 'bottom' | 'left'
+
+export interface WaveCardProps {
+    /** Wavy top edge: true for the default edge, or a per-edge config. Default: false */
+    top?: boolean | WaveEdgeConfig
+    /** Wavy right edge. Default: false */
+    right?: boolean | WaveEdgeConfig
+    /** Wavy bottom edge. Default: false */
+    bottom?: boolean | WaveEdgeConfig
+    /** Wavy left edge. Default: false */
+    left?: boolean | WaveEdgeConfig
+    /** Background color or gradient */
+    background?: string
+    /** Content padding in px inside each edge (edge heights are added on wavy sides). Default: 0 */
+    padding?: number
+    /** Lift/scale the card and slide its edges on hover. Default: false */
+    hover?: boolean | HoverConfig
+    /** HTML element type. Default: 'div' */
+    as?: ElementType
+    /** Additional CSS classes */
+    className?: string
+    /** Inline styles */
+    style?: CSSProperties
+    /** Accessible label */
+    'aria-label'?: string
+    children?: ReactNode
+}
+
 // ============================================================
 // Export & Devtools Types
 // ============================================================
 
+/**
+ * How `optimizePath` simplifies a path.
+ * - 'curve': refit the outline with as few cubic Béziers as the tolerance allows
+ * - 'polyline': Ramer-Douglas-Peucker on the flattened outline (lines only)
+ */
+export type PathOptimizeMode = 'curve' | 'polyline'
+
+/** Options for `optimizePath` */
+export interface OptimizePathOptions {
+    /** Simplification strategy. Default: 'curve' */
+    mode?: PathOptimizeMode
+    /** Maximum distance in path units between the original and optimized outline. Default: 1 */
+    tolerance?: number
+    /** Maximum decimal places in the output. Default: 2 */
+    precision?: number
+}
+
 /** Options for SVG export */
 export interface ExportSVGOptions {
-    /** Wave pattern. Default: 'smooth' */
-    pattern?: PatternName
+    /** Wave pattern or composed layers. Default: 'smooth' */
+    pattern?: PatternInput
     /** Wave height in px. Default: 120 */
     height?: number
     /** Wave amplitude (0-1). Default: 0.5 */
@@ -595,6 +1100,29 @@ export interface ExportSVGOptions {
     stroke?: StrokeConfig
     /** Shadow config */
     shadow?: ShadowConfig
+    /** Shrink the path with `optimizePath` (`true` uses its defaults). Default: false */
+    optimize?: boolean | OptimizePathOptions
+    /** Export two interlocked edges (see `generateInterlockPaths`), with an optional accent `band` between them */
+    separation?: Partial<WaveSeparationConfig>
+}
+
+/** Which edge an imported shape hangs from */
+export type ImportWaveAnchor = 'auto' | 'bottom' | 'top'
+
+/** Options for importing an SVG file as a wave shape */
+export interface ImportWaveSVGOptions {
+    /** Height of the output frame (the wave height in px). Default: 120 */
+    height?: number
+    /** Width of the output frame. Default: 1440 */
+    width?: number
+    /** `id` of the element to import. Default: the widest shape */
+    pathId?: string
+    /**
+     * Edge the shape is filled to. 'top' shapes (hanging from the top edge)
+     * are flipped so the wave fills downward like the built-ins; 'auto'
+     * picks the edge the shape touches. Default: 'auto'
+     */
+    anchor?: ImportWaveAnchor
 }
 
 /** Options for raster (PNG/WebP) export */
@@ -641,6 +1169,13 @@ export interface WavySectionAttributes {
     'separation-mode'?: InterlockMode
     intensity?: number
     gap?: number
+    'separation-samples'?: number
+    'band-color'?: string
+    'band-min-thickness'?: number
+    'band-max-thickness'?: number
+    'tab-count'?: number
+    'tab-size'?: number
+    'tab-seed'?: number
     'stroke-color'?: string
     'stroke-width'?: number
 }
@@ -0,0 +1,261 @@
+import type { WaveAnchor } from '../types'
+import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
+import { normalizePath, serializePath } from './path-geometry'
+import type { PathCommand, PathPoint } from './path-geometry'
+
+// ============================================================
+// Anchors — force a generated wave through given points
+// ============================================================
+
+/** Fewest cubic pieces along the wave, so the deformation stays smooth on long segments */
+const MIN_ANCHOR_PIECES = 32
+
+/** Bisection steps when locating an anchor on a segment (plenty for sub-pixel x) */
+const LOCATE_ITERATIONS = 40
+
+const EPSILON = 1e-6
+
+export interface ApplyAnchorsOptions {
+    /** Width the path was generated at. Default: 1440 */
+    width?: number
+    /** Height the path was generated at (the baseline). Default: 120 */
+    height?: number
+    /** Pattern frequency: each anchor reaches about one wave to either side. Default: 1 */
+    frequency?: number
+    /** Path is a periodic tile: the deformation wraps around, so the tile stays seamless. Default: false */
+    periodic?: boolean
+}
+
+/** A cubic segment of the wave, with lines lifted to cubics */
+interface WaveSegment {
+    points: [PathPoint, PathPoint, PathPoint, PathPoint]
+}
+
+/** Displacement knot: value and slope of the y offset at x */
+interface Knot {
+    x: number
+    value: number
+    slope: number
+}
+
+/** Position and velocity along a cubic */
+function evaluate([p0, p1, p2, p3]: WaveSegment['points'], t: number): { point: PathPoint; velocity: PathPoint } {
+    const mt = 1 - t
+    return {
+        point: {
+            x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+            y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y,
+        },
+        velocity: {
+            x: 3 * mt * mt * (p1.x - p0.x) + 6 * mt * t * (p2.x - p1.x) + 3 * t * t * (p3.x - p2.x),
+            y: 3 * mt * mt * (p1.y - p0.y) + 6 * mt * t * (p2.y - p1.y) + 3 * t * t * (p3.y - p2.y),
+        },
+    }
+}
+
+/** Parameter where the segment crosses `x`, or null if it never reaches it */
+function locate(points: WaveSegment['points'], x: number): number | null {
+    const x0 = points[0].x
+    const x3 = points[3].x
+    if (x < Math.min(x0, x3) - EPSILON || x > Math.max(x0, x3) + EPSILON) return null
+    const rising = x3 >= x0
+    let lo = 0
+    let hi = 1
+    for (let i = 0; i < LOCATE_ITERATIONS; i++) {
+        const mid = (lo + hi) / 2
+        const before = evaluate(points, mid).point.x < x
+        if (before === rising) lo = mid
+        else hi = mid
+    }
+    return (lo + hi) / 2
+}
+
+/**
+ * Knots of the y displacement: one per anchor, plus zero knots `reach` away
+ * wherever neighbouring anchors are far apart, so each anchor only bends the
+ * wave around it.
+ */
+function buildKnots(anchors: Knot[], reach: number): Knot[] {
+    const knots: Knot[] = []
+    const zero = (x: number): Knot => ({ x, value: 0, slope: 0 })
+    anchors.forEach((anchor, i) => {
+        if (i === 0) knots.push(zero(anchor.x - reach))
+        knots.push(anchor)
+        const next = anchors[i + 1]
+        if (!next) {
+            knots.push(zero(anchor.x + reach))
+        } else if (next.x - anchor.x >= 2 * reach) {
+            knots.push(zero(anchor.x + reach))
+            if (next.x - anchor.x > 2 * reach + EPSILON) knots.push(zero(next.x - reach))
+        }
+    })
+    return knots
+}
+
+/** Cubic Hermite interpolation of the knots; held flat beyond the first and last knot */
+function displacementAt(knots: Knot[], x: number): { value: number; slope: number } {
+    const first = knots[0]
+    const last = knots[knots.length - 1]
+    if (x <= first.x) return { value: first.value, slope: 0 }
+    if (x >= last.x) return { value: last.value, slope: 0 }
+
+    let i = 0
+    while (knots[i + 1].x < x) i++
+    const k0 = knots[i]
+    const k1 = knots[i + 1]
+    const span = k1.x - k0.x
+    if (span < EPSILON) return { value: k1.value, slope: k1.slope }
+
+    const s = (x - k0.x) / span
+    const s2 = s * s
+    const s3 = s2 * s
+    const m0 = k0.slope * span
+    const m1 = k1.slope * span
+    return {
+        value: (2 * s3 - 3 * s2 + 1) * k0.value + (s3 - 2 * s2 + s) * m0 + (-2 * s3 + 3 * s2) * k1.value + (s3 - s2) * m1,
+        slope: ((6 * s2 - 6 * s) * k0.value + (3 * s2 - 4 * s + 1) * m0 + (-6 * s2 + 6 * s) * k1.value + (3 * s2 - 2 * s) * m1) / span,
+    }
+}
+
+/**
+ * Deform a wave path so it passes through the given anchors.
+ *
+ * Each anchor bends the wave within about one wave length (capped at half
+ * the width) to either side — the rest of the pattern is untouched. Without
+ * a `slope` the wave keeps its own slope at the anchor. Periodic tiles are
+ * deformed periodically, so they still tile without a seam.
+ *
+ * The wave is rebuilt from a fixed number of cubic pieces per segment plus
+ * one per anchor, so frames that share a command structure (e.g. path-morph
+ * keyframes) still share one afterwards. The baseline corners and vertical
+ * frame edges stay where they are.
+ *
+ * @param path - Closed wave path in the library's frame (`M -20 h ... Z`)
+ * @param anchors - Points the wave must pass through
+ * @param options - Size and frequency the path was generated with
+ * @returns The deformed path, or the path unchanged when there is nothing to anchor
+ */
+export function applyAnchors(path: string, anchors: WaveAnchor[] | undefined, options: ApplyAnchorsOptions = {}): string {
+    const valid = (anchors ?? []).filter((anchor) => Number.isFinite(anchor.x) && Number.isFinite(anchor.y))
+    if (!path || valid.length === 0) return path
+
+    const width = options.width ?? DEFAULT_VIEWBOX_WIDTH
+    const height = options.height ?? 120
+    const periodic = options.periodic ?? false
+
+    let commands: PathCommand[]
+    try {
+        commands = normalizePath(path)
+    } catch {
+        return path
+    }
+    const last = commands.length - 1
+    const isFrame = commands.length >= 4
+        && commands[0].type === 'M'
+        && commands[last].type === 'Z'
+        && commands.slice(1, last).every(({ type }) => type === 'L' || type === 'C')
+    if (!isFrame) {
+        console.warn('[wavy-bavy] anchors need a single closed wave path; the path was left unanchored')
+        return path
+    }
+
+    // ── Split the outline into frame lines (kept straight) and wave segments ──
+    const endOf = ({ values: v }: PathCommand): PathPoint => ({ x: v[v.length - 2], y: v[v.length - 1] })
+    const starts: PathPoint[] = commands.map((_, i) => (i === 0 ? endOf(commands[0]) : endOf(commands[i - 1])))
+    const isFrameLine = (i: number) => {
+        const { type } = commands[i]
+        if (type !== 'L') return false
+        const from = starts[i]
+        const to = endOf(commands[i])
+        return Math.abs(to.x - from.x) < EPSILON
+            || (from.x <= EPSILON && to.x <= EPSILON)
+            || (from.x >= width - EPSILON && to.x >= width - EPSILON)
+    }
+    const segments = new Map<number, WaveSegment>()
+    for (let i = 1; i < last; i++) {
+        if (isFrameLine(i)) continue
+        const from = starts[i]
+        const { type, values: v } = commands[i]
+        if (type === 'C') {
+            segments.set(i, { points: [from, { x: v[0], y: v[1] }, { x: v[2], y: v[3] }, { x: v[4], y: v[5] }] })
+        } else {
+            const to = endOf(commands[i])
+            const at = (t: number) => ({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t })
+            segments.set(i, { points: [from, at(1 / 3), at(2 / 3), to] })
+        }
+    }
+    if (segments.size === 0) return path
+
+    // ── Locate each anchor on the wave and work out how far it has to move ──
+    const byX = new Map<number, WaveAnchor>()
+    for (const anchor of valid) byX.set(Math.max(0, Math.min(1, anchor.x)), anchor)
+    const splits = new Map<number, number[]>()
+    const targets: Knot[] = []
+    for (const [nx, anchor] of [...byX].sort((a, b) => a[0] - b[0])) {
+        const x = nx * width
+        for (const [index, segment] of segments) {
+            const t = locate(segment.points, x)
+            if (t === null) continue
+            const { point, velocity } = evaluate(segment.points, t)
+            const slope = Math.abs(velocity.x) > EPSILON ? velocity.y / velocity.x : 0
+            // Normalized rise over run → path units (y grows downwards)
+            const targetSlope = anchor.slope === undefined ? slope : (-anchor.slope * height) / width
+            targets.push({ x, value: height * (1 - anchor.y) - point.y, slope: targetSlope - slope })
+            splits.set(index, [...(splits.get(index) ?? []), t])
+            break
+        }
+    }
+    if (targets.length === 0) return path
+
+    const reach = Math.min(width / 2, width / Math.max(1, options.frequency ?? 1))
+    // Periodic tiles: repeat the anchors one tile to either side, so the deformation wraps
+    const knots = buildKnots(
+        periodic
+            ? [-width, 0, width].flatMap((shift) => targets.map((knot) => ({ ...knot, x: knot.x + shift })))
+            : targets,
+        reach,
+    )
+    const displace = (point: PathPoint): PathPoint => ({ x: point.x, y: point.y + displacementAt(knots, point.x).value })
+
+    // ── Rebuild: frame lines move their end points, wave segments become Hermite pieces ──
+    const piecesPerSegment = Math.max(1, Math.ceil(MIN_ANCHOR_PIECES / segments.size))
+    const result: PathCommand[] = [commands[0]]
+    for (let i = 1; i < last; i++) {
+        const segment = segments.get(i)
+        if (!segment) {
+            // The final line returns to the baseline corner, which stays put
+            const end = i === last - 1 ? endOf(commands[i]) : displace(endOf(commands[i]))
+            result.push({ type: 'L', values: [end.x, end.y] })
+            continue
+        }
+
+        const params = [...Array.from({ length: piecesPerSegment + 1 }, (_, k) => k / piecesPerSegment), ...(splits.get(i) ?? [])]
+            .sort((a, b) => a - b)
+        const deformed = (t: number) => {
+            const { point, velocity } = evaluate(segment.points, t)
+            const { value, slope } = displacementAt(knots, point.x)
+            return {
+                position: { x: point.x, y: point.y + value },
+                tangent: { x: velocity.x, y: velocity.y + slope * velocity.x },
+            }
+        }
+
+        let previous = deformed(params[0])
+        for (let k = 1; k < params.length; k++) {
+            const next = deformed(params[k])
+            const step = (params[k] - params[k - 1]) / 3
+            result.push({
+                type: 'C',
+                values: [
+                    previous.position.x + previous.tangent.x * step, previous.position.y + previous.tangent.y * step,
+                    next.position.x - next.tangent.x * step, next.position.y - next.tangent.y * step,
+                    next.position.x, next.position.y,
+                ],
+            })
+            previous = next
+        }
+    }
+    result.push(commands[last])
+
+    return serializePath(result)
+}
@@ -1,36 +1,49 @@
+import type { WaveCardSide } from '../types'
 import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
+import { flattenPath, createPathGeometry, formatNumber } from './path-geometry'
 
 // ============================================================
 // Clip-path Generator
 // ============================================================
 
+/** Flattening tolerance in viewBox units (~0.03% of the default width) */
+const CLIP_TOLERANCE = 0.5
+
+/**
+ * Points along the rendered outline of a path (curves flattened,
+ * control points excluded), in drawing order.
+ */
+function outlinePoints(path: string): Array<[number, number]> {
+    return flattenPath(path, { tolerance: CLIP_TOLERANCE })
+        .flatMap(({ points }) => points.map(({ x, y }): [number, number] => [x, y]))
+}
+
+/** Drop consecutive duplicates produced by rounding to percentages */
+function dedupe(points: string[]): string[] {
+    return points.filter((point, i) => i === 0 || point !== points[i - 1])
+}
+
 /**
  * Generate a CSS `clip-path: polygon(...)` value from an SVG wave path.
  * Used to clip background images to a wave shape.
  *
- * @param path - SVG path string (must use absolute coordinates)
+ * 'left' and 'right' are vertical edges: the (horizontal) path is
+ * transposed so the wave runs down the element's side.
+ *
+ * @param path - SVG path string
  * @param height - Total height of the viewBox
- * @param position - Whether the wave is at 'top' or 'bottom'
+ * @param position - Which edge the wave is on: 'top', 'bottom', 'left' or 'right'
+ * @param width - Width the path was generated for. Default: 1440
  * @returns CSS clip-path polygon string
  */
 export function generateClipPath(
     path: string,
     height: number,
-    position: 'top' | 'bottom' = 'bottom',
+    position: 'top' | 'bottom' | 'left' | 'right' = 'bottom',
+    width: number = DEFAULT_VIEWBOX_WIDTH,
 ): string {
-    const width = DEFAULT_VIEWBOX_WIDTH
-
-    // Extract all coordinate pairs from the SVG path
-    const coordRegex = /(-?\d+\.?\d*)\s+(-?\d+\.?\d*)/g
-    const points: Array<[number, number]> = []
-    let match: RegExpExecArray | null
-
-    while ((match = coordRegex.exec(path)) !== null) {
-        points.push([
-            parseFloat(match[1]),
-            parseFloat(match[2]),
-        ])
-    }
+
+    const points = outlinePoints(path)
 
     if (points.length === 0) return 'none'
 
@@ -41,6 +54,23 @@ export function generateClipPath(
         return `${px}% ${py}%`
     }
 
+    if (position === 'left' || position === 'right') {
+        // Vertical edge: wave depth along x, wave length along y
+        const transposed = (x: number, y: number): string => {
+            const px = ((y / height) * 100).toFixed(2)
+            const py = ((x / width) * 100).toFixed(2)
+            return `${px}% ${py}%`
+        }
+        // Wave at right: start top-left, trace wave downwards, end bottom-left (left mirrors it)
+        const side = position === 'right' ? '0%' : '100%'
+        const polygonPoints = [
+            `${side} 0%`,
+            ...points.map(([x, y]) => transposed(x, y)),
+            `${side} 100%`,
+        ]
+        return `polygon(${dedupe(polygonPoints).join(', ')})`
+    }
+
     // Build polygon based on position
     if (position === 'bottom') {
         // Wave at bottom: start top-left, trace wave, end top-right
@@ -49,7 +79,7 @@ export function generateClipPath(
             ...points.map(([x, y]) => toPercent(x, y)),
             '100% 0%',
         ]
-        return `polygon(${polygonPoints.join(', ')})`
+        return `polygon(${dedupe(polygonPoints).join(', ')})`
     } else {
         // Wave at top: start bottom-left, trace wave, end bottom-right
         const polygonPoints = [
@@ -57,20 +87,21 @@ export function generateClipPath(
             ...points.map(([x, y]) => toPercent(x, y)),
             '100% 100%',
         ]
-        return `polygon(${polygonPoints.join(', ')})`
+        return `polygon(${dedupe(polygonPoints).join(', ')})`
     }
 }
 
 /**
  * Generate a CSS `clip-path` with both top and bottom waves.
  * Useful for sections that have waves on both sides.
+ * `width` is the width both paths were generated for (default 1440).
  */
 export function generateDualClipPath(
     topPath: string,
     bottomPath: string,
     height: number,
+    width: number = DEFAULT_VIEWBOX_WIDTH,
 ): string {
-    const width = DEFAULT_VIEWBOX_WIDTH
 
     const toPercent = (x: number, y: number): string => {
         const px = ((x / width) * 100).toFixed(2)
@@ -78,21 +109,8 @@ export function generateDualClipPath(
         return `${px}% ${py}%`
     }
 
-    const coordRegex = /(-?\d+\.?\d*)\s+(-?\d+\.?\d*)/g
-
-    // Extract top wave points
-    const topPoints: Array<[number, number]> = []
-    let match: RegExpExecArray | null
-    while ((match = coordRegex.exec(topPath)) !== null) {
-        topPoints.push([parseFloat(match[1]), parseFloat(match[2])])
-    }
-
-    // Extract bottom wave points
-    coordRegex.lastIndex = 0
-    const bottomPoints: Array<[number, number]> = []
-    while ((match = coordRegex.exec(bottomPath)) !== null) {
-        bottomPoints.push([parseFloat(match[1]), parseFloat(match[2])])
-    }
+    const topPoints = outlinePoints(topPath)
+    const bottomPoints = outlinePoints(bottomPath)
 
     if (topPoints.length === 0 && bottomPoints.length === 0) return 'none'
 
@@ -107,5 +125,107 @@ export function generateDualClipPath(
         '0% 0%',
     ]
 
-    return `polygon(${polygonPoints.join(', ')})`
+    return `polygon(${dedupe(polygonPoints).join(', ')})`
+}
+
+/**
+ * Generate a CSS `clip-path: polygon(...)` value from a closed shape such
+ * as a radial wave (see `generateRadialPath`). Unlike `generateClipPath`,
+ * no edges are added — the outline itself is the polygon.
+ *
+ * @param path - Closed SVG path string
+ * @param width - Width of the box the path is drawn in (2 × radius)
+ * @param height - Height of the box the path is drawn in. Default: `width`
+ * @returns CSS clip-path polygon string
+ */
+export function generateRadialClipPath(path: string, width: number, height: number = width): string {
+    const points = outlinePoints(path)
+
+    if (points.length === 0) return 'none'
+
+    const polygonPoints = points.map(([x, y]) => `${((x / width) * 100).toFixed(2)}% ${((y / height) * 100).toFixed(2)}%`)
+    return `polygon(${dedupe(polygonPoints).join(', ')})`
+}
+
+/** One wavy side of a `generateCardClipPath` outline */
+export interface ClipPathEdge {
+    /** Wave path in the library frame (wave curve near y = 0, filled area below it) */
+    path: string
+    /** Height the path was generated for, in px */
+    height: number
+    /**
+     * Slide the wave along its side by this share of the side (0-1), wrapping
+     * around. Meant for periodic paths (generated with `periodic: true`). Default: 0
+     */
+    offset?: number
+}
+
+/** Corners each straight side runs between, clockwise from the top-left */
+const SIDE_CORNERS: Record<WaveCardSide, [string, string]> = {
+    top: ['0% 0%', '100% 0%'],
+    right: ['100% 0%', '100% 100%'],
+    bottom: ['100% 100%', '0% 100%'],
+    left: ['0% 100%', '0% 0%'],
+}
+
+/**
+ * Place a wave sample on a side. The side's wave is the top edge rotated
+ * clockwise into place, so depth is in px (`y`) and position along the side
+ * is a percentage (`along`).
+ */
+function placeOnSide(side: WaveCardSide, along: number, y: number): string {
+    const depth = `${formatNumber(y, 2)}px`
+    switch (side) {
+        case 'top':
+            return `${formatNumber(along, 2)}% ${depth}`
+        case 'right':
+            return `calc(100% - ${depth}) ${formatNumber(along, 2)}%`
+        case 'bottom':
+            return `${formatNumber(100 - along, 2)}% calc(100% - ${depth})`
+        case 'left':
+            return `${depth} ${formatNumber(100 - along, 2)}%`
+    }
+}
+
+/**
+ * Generate one CSS `clip-path: polygon(...)` for a box with independent
+ * wavy sides (e.g. a card with wavy top and bottom edges).
+ *
+ * Each edge path is generated like a top wave and rotated clockwise onto
+ * its side: wave depth stays in px while the position along the side is a
+ * percentage, so the clip fits any box size. Sides without an edge are
+ * straight. Every edge is sampled at `samples` evenly spaced points, so two
+ * clip-paths built from the same sides and sample count (e.g. with
+ * different offsets) have the same number of vertices and can be
+ * transitioned with CSS.
+ *
+ * @param edges - Wave path and height per side
+ * @param width - Width the paths were generated for. Default: 1440
+ * @param samples - Points sampled along each wavy side. Default: 48
+ * @returns CSS clip-path polygon string, or 'none' without edges
+ */
+export function generateCardClipPath(
+    edges: Partial<Record<WaveCardSide, ClipPathEdge>>,
+    width: number = DEFAULT_VIEWBOX_WIDTH,
+    samples: number = 48,
+): string {
+    const sides: WaveCardSide[] = ['top', 'right', 'bottom', 'left']
+    if (sides.every((side) => !edges[side]?.path)) return 'none'
+
+    const count = Math.max(2, Math.round(samples))
+    const polygonPoints = sides.flatMap((side) => {
+        const edge = edges[side]
+        if (!edge?.path) return SIDE_CORNERS[side]
+
+        const geometry = createPathGeometry(edge.path, { tolerance: CLIP_TOLERANCE })
+        const shift = (edge.offset ?? 0) * width
+        return Array.from({ length: count }, (_, i) => {
+            const x = (width * i) / (count - 1)
+            const sampleX = shift === 0 ? x : (((x + shift) % width) + width) % width
+            const y = Math.max(0, Math.min(edge.height, geometry.getYAtX(sampleX) ?? edge.height))
+            return placeOnSide(side, (x / width) * 100, y)
+        })
+    })
+
+    return `polygon(${dedupe(polygonPoints).join(', ')})`
 }
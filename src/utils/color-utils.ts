@@ -1,30 +1,19 @@
-import type { ParsedBackground, GradientConfig } from '../types'
+import type { ParsedBackground, GradientConfig, RgbaColor, ColorInterpolationOptions, ColorInterpolationSpace, AutoGradientOptions, BackgroundEdge } from '../types'
+import { parseColor, mixRgba } from './css-color'
+import type { CssColorSpace } from './css-color'
 
 // ============================================================
 // Color Parsing
 // ============================================================
 
 /**
- * Parse a hex color to RGB values
+ * Parse a color to RGB values. Takes hex with or without `#` and any other
+ * CSS color (named, rgb(), oklch(), color-mix(), ...) — alpha is dropped,
+ * see `parseColor`.
  */
 export function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
-    const clean = hex.replace('#', '')
-    const fullHex =
-        clean.length === 3
-            ? clean
-                .split('')
-                .map((c) => c + c)
-                .join('')
-            : clean
-
-    const result = /^([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(fullHex)
-    return result
-        ? {
-            r: parseInt(result[1], 16),
-            g: parseInt(result[2], 16),
-            b: parseInt(result[3], 16),
-        }
-        : null
+    const color = parseColor(/^[\da-f]+$/i.test(hex) ? `#${hex}` : hex)
+    return color ? { r: Math.round(color.r), g: Math.round(color.g), b: Math.round(color.b) } : null
 }
 
 /**
@@ -39,20 +28,48 @@ export function rgbToHex(r: number, g: number, b: number): string {
 }
 
 /**
- * Interpolate between two hex colors
- * @param color1 Start color (hex)
- * @param color2 End color (hex)
+ * Convert a parsed color to hex: `#rrggbb`, or `#rrggbbaa` when translucent
+ */
+export function rgbaToHex(color: RgbaColor): string {
+    const hex = rgbToHex(color.r, color.g, color.b)
+    const alpha = Math.round(color.alpha * 255)
+    return alpha === 255 ? hex : `${hex}${alpha.toString(16).padStart(2, '0')}`
+}
+
+/** `colorSpace` names as `color-mix()` spells them */
+const MIX_SPACES: Record<ColorInterpolationSpace, CssColorSpace> = {
+    'srgb': 'srgb',
+    'linear-srgb': 'srgb-linear',
+    'oklab': 'oklab',
+    'oklch': 'oklch',
+}
+
+/**
+ * Interpolate between two colors (any CSS color), with premultiplied alpha
+ * so fading into `transparent` doesn't darken
+ * @param color1 Start color
+ * @param color2 End color
  * @param factor Interpolation factor (0-1)
+ * @param options Color space to blend in (default 'srgb') and, for 'oklch', the hue direction
+ * @returns Hex color, or `color1` if either color can't be parsed
  */
-export function interpolateColors(color1: string, color2: string, factor: number): string {
-    const c1 = hexToRgb(color1)
-    const c2 = hexToRgb(color2)
+export function interpolateColors(color1: string, color2: string, factor: number, options: ColorInterpolationOptions = {}): string {
+    const c1 = parseColor(color1)
+    const c2 = parseColor(color2)
     if (!c1 || !c2) return color1
 
-    return rgbToHex(
-        c1.r + (c2.r - c1.r) * factor,
-        c1.g + (c2.g - c1.g) * factor,
-        c1.b + (c2.b - c1.b) * factor,
+    const { colorSpace = 'srgb', hueInterpolation = 'shorter' } = options
+    return rgbaToHex(mixRgba(c1, c2, factor, MIX_SPACES[colorSpace] ?? 'srgb', hueInterpolation))
+}
+
+/**
+ * Fill colors for `n` transition bands stepping from one color to another.
+ * The last band is `toColor` itself, so it meets the next section exactly.
+ */
+export function transitionBandColors(fromColor: string, toColor: string, bands: number, options: ColorInterpolationOptions = {}): string[] {
+    const count = Math.max(1, Math.floor(bands))
+    return Array.from({ length: count }, (_, i) =>
+        i === count - 1 ? toColor : interpolateColors(fromColor, toColor, (i + 1) / count, options),
     )
 }
 
@@ -60,16 +77,28 @@ export function interpolateColors(color1: string, color2: string, factor: number
 // Background Parsing
 // ============================================================
 
-/** Known CSS color keywords mapped to hex */
-const CSS_COLOR_KEYWORDS: Record<string, string> = {
-    white: '#ffffff',
-    black: '#000000',
-    transparent: '#000000',
-    red: '#ff0000',
-    green: '#008000',
-    blue: '#0000ff',
-    gray: '#808080',
-    grey: '#808080',
+/** Dominant color when a background has none we can read */
+const FALLBACK_COLOR = '#ffffff'
+
+/** First color stop of a gradient, e.g. `navy` in `linear-gradient(to right, navy 10%, oklch(0.7 0.1 200))` */
+function firstGradientColor(gradient: string): RgbaColor | null {
+    const open = gradient.indexOf('(')
+    if (open === -1) return null
+    let depth = 0
+    let token = ''
+    for (const char of gradient.slice(open + 1)) {
+        if (char === '(') depth++
+        if (char === ')') depth--
+        if (depth < 0 || (depth === 0 && (/\s/.test(char) || char === ','))) {
+            const color = token && parseColor(token)
+            if (color) return color
+            if (depth < 0) return null
+            token = ''
+            continue
+        }
+        token += char
+    }
+    return null
 }
 
 /**
@@ -78,105 +107,66 @@ const CSS_COLOR_KEYWORDS: Record<string, string> = {
  */
 export function parseBackground(value: string | undefined): ParsedBackground {
     if (!value) {
-        return { type: 'color', value: '#ffffff', dominantColor: '#ffffff' }
+        return { type: 'color', value: FALLBACK_COLOR, dominantColor: FALLBACK_COLOR }
     }
 
     const trimmed = value.trim()
 
     // URL-based (image)
     if (trimmed.startsWith('url(')) {
-        return { type: 'image', value: trimmed, dominantColor: '#ffffff' }
+        return { type: 'image', value: trimmed, dominantColor: FALLBACK_COLOR }
     }
 
-    // Gradient
-    if (
-        trimmed.includes('gradient(') ||
-        trimmed.includes('linear-gradient') ||
-        trimmed.includes('radial-gradient') ||
-        trimmed.includes('conic-gradient')
-    ) {
-        // Extract first color from gradient for wave matching
-        const colorMatch = trimmed.match(/#[0-9a-fA-F]{3,8}|rgb\([^)]+\)|rgba\([^)]+\)/)
-        const dominantColor = colorMatch ? normalizeColor(colorMatch[0]) : '#ffffff'
-        return { type: 'gradient', value: trimmed, dominantColor }
+    // Gradient — the first color stop is used for wave matching
+    if (trimmed.includes('gradient(')) {
+        const first = firstGradientColor(trimmed)
+        return { type: 'gradient', value: trimmed, dominantColor: first ? rgbaToHex(first) : FALLBACK_COLOR }
     }
 
-    // Named CSS color
-    if (CSS_COLOR_KEYWORDS[trimmed.toLowerCase()]) {
-        const hex = CSS_COLOR_KEYWORDS[trimmed.toLowerCase()]
-        return { type: 'color', value: hex, dominantColor: hex }
-    }
-
-    // Hex color
-    if (trimmed.startsWith('#')) {
-        const hex = normalizeColor(trimmed)
-        return { type: 'color', value: hex, dominantColor: hex }
-    }
-
-    // RGB/RGBA
-    if (trimmed.startsWith('rgb')) {
-        const hex = normalizeColor(trimmed)
-        return { type: 'color', value: trimmed, dominantColor: hex }
-    }
-
-    // HSL
-    if (trimmed.startsWith('hsl')) {
-        return { type: 'color', value: trimmed, dominantColor: '#888888' }
+    // Any CSS color: named, hex, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch(), color(), color-mix()
+    const color = parseColor(trimmed)
+    if (color) {
+        const hex = rgbaToHex(color)
+        return { type: 'color', value: trimmed.startsWith('#') ? hex : trimmed, dominantColor: hex }
     }
 
     // Fallback
-    return { type: 'color', value: trimmed, dominantColor: '#ffffff' }
+    return { type: 'color', value: trimmed, dominantColor: FALLBACK_COLOR }
 }
 
-/**
- * Normalize any CSS color string to hex.
- */
-function normalizeColor(color: string): string {
-    // Already hex
-    if (color.startsWith('#')) {
-        const clean = color.replace('#', '')
-        if (clean.length === 3) {
-            return `#${clean
-                .split('')
-                .map((c) => c + c)
-                .join('')}`
-        }
-        return `#${clean.slice(0, 6)}`
-    }
-
-    // RGB(A)
-    const rgbMatch = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/)
-    if (rgbMatch) {
-        return rgbToHex(parseInt(rgbMatch[1]), parseInt(rgbMatch[2]), parseInt(rgbMatch[3]))
-    }
-
-    return '#ffffff'
+/** The color a wave meeting `edge` of this background should match */
+export function backgroundEdgeColor(background: ParsedBackground, edge: BackgroundEdge): string {
+    return background.edgeColors?.[edge] ?? background.dominantColor
 }
 
 /**
- * Determine if a color is "dark" (for contrast decisions)
+ * Determine if a color is "dark" (for contrast decisions).
+ * Translucent colors are judged over white.
  */
-export function isDark(hex: string): boolean {
-    const rgb = hexToRgb(hex)
-    if (!rgb) return false
+export function isDark(color: string): boolean {
+    const rgba = parseColor(color)
+    if (!rgba) return false
+    const over = (channel: number) => channel * rgba.alpha + 255 * (1 - rgba.alpha)
     // Luminance formula
-    const luminance = (0.299 * rgb.r + 0.587 * rgb.g + 0.114 * rgb.b) / 255
+    const luminance = (0.299 * over(rgba.r) + 0.587 * over(rgba.g) + 0.114 * over(rgba.b)) / 255
     return luminance < 0.5
 }
 
 /**
  * Generate a gradient config that blends from one color to another.
- * Creates a 3-stop linear gradient: from → interpolated midpoint → to.
+ * Creates evenly spaced stops (3 by default: from → midpoint → to), the
+ * inner ones blended in `options.colorSpace`.
+ * Pass `angle` 180 for vertical wave edges (across the seam).
  */
-export function generateAutoGradient(fromColor: string, toColor: string): GradientConfig {
-    const midColor = interpolateColors(fromColor, toColor, 0.5)
+export function generateAutoGradient(fromColor: string, toColor: string, angle: number = 90, options: AutoGradientOptions = {}): GradientConfig {
+    const count = Math.max(2, Math.floor(options.stops ?? 3))
     return {
         type: 'linear',
-        angle: 90, // top to bottom
-        stops: [
-            { color: fromColor, offset: 0 },
-            { color: midColor, offset: 0.5 },
-            { color: toColor, offset: 1 },
-        ],
+        angle, // 90: top to bottom
+        stops: Array.from({ length: count }, (_, i) => {
+            const offset = i / (count - 1)
+            const color = i === 0 ? fromColor : i === count - 1 ? toColor : interpolateColors(fromColor, toColor, offset, options)
+            return { color, offset }
+        }),
     }
 }
@@ -0,0 +1,93 @@
+import type { PatternComponent, PatternGenerator, PatternInput, PatternLookup, PatternName } from '../types'
+import { sampledWavePath } from '../constants'
+import { generatePath } from './path-generator'
+import { createPathGeometry } from './path-geometry'
+
+// ============================================================
+// Pattern Composition
+// ============================================================
+
+/** Name under which inline compositions (a `pattern` array) are generated */
+export const COMPOSED_PATTERN = 'composed'
+
+/** Height-field samples per period of the busiest layer */
+const SAMPLES_PER_PERIOD = 48
+const MIN_SAMPLES = 96
+const MAX_SAMPLES = 256
+
+/**
+ * Combine weighted patterns into one generator by summing their height fields.
+ *
+ * Each layer is generated with the wave's config (overridden by its own
+ * `frequency`, `phase` and `seed`, without `anchors` or `mirror`) and sampled along the rendered curve; its
+ * displacement from the baseline, scaled by `weight`, is added to the others
+ * and the sum is clamped to the frame. The composite is redrawn as one smooth
+ * curve, so it can be registered or passed via `patterns` like any other
+ * generator and works with interlocking, clipping, exports and morphing.
+ *
+ * @example
+ * registerPattern('swell-chop', composePatterns([
+ *     { pattern: 'smooth' },
+ *     { pattern: 'organic', weight: 0.25, frequency: 6 },
+ * ]))
+ *
+ * @param components - Layers to sum (at least one)
+ * @param patterns - Scoped pattern generators checked before the global registry
+ */
+export function composePatterns(components: PatternComponent[], patterns?: PatternLookup): PatternGenerator {
+    if (components.length === 0) {
+        throw new Error('[wavy-bavy] composePatterns needs at least one component')
+    }
+
+    return (config) => {
+        const { width, height, periodic = false } = config
+
+        const layers = components.map((component) => {
+            const path = generatePath(component.pattern, {
+                ...config,
+                frequency: component.frequency ?? config.frequency,
+                phase: config.phase + (component.phase ?? 0),
+                seed: component.seed ?? config.seed,
+                // generatePath anchors and mirrors the composite as a whole
+                mirror: false,
+                anchors: undefined,
+            }, patterns)
+            return { geometry: createPathGeometry(path), weight: component.weight ?? 1 }
+        })
+
+        const busiest = Math.max(...components.map(({ frequency }) => Math.max(1, Math.round(frequency ?? config.frequency))))
+        const samples = Math.min(MAX_SAMPLES, Math.max(MIN_SAMPLES, busiest * SAMPLES_PER_PERIOD))
+        const step = width / samples
+
+        const yAt = (x: number) => {
+            // Periodic layers repeat every width; elsewhere stay within the -20/+20 overflow
+            const sampleX = periodic ? ((x % width) + width) % width : Math.max(-20, Math.min(width + 20, x))
+            // Displacements are measured up from the baseline (y = height)
+            const y = layers.reduce((sum, { geometry, weight }) => sum + weight * ((geometry.getYAtX(sampleX) ?? height) - height), height)
+            return Math.max(0, Math.min(height, y))
+        }
+
+        const points = Array.from({ length: samples + 3 }, (_, i) => {
+            const x = (i - 1) * step
+            return { x, y: yAt(x) }
+        })
+
+        return sampledWavePath(points, width, height, periodic)
+    }
+}
+
+/**
+ * Resolve a `pattern` value that may be an array of layers.
+ * Arrays become the `COMPOSED_PATTERN` name plus a lookup that includes the
+ * composed generator; plain names pass through unchanged.
+ */
+export function resolvePatternInput(
+    pattern: PatternInput,
+    patterns?: PatternLookup,
+): { pattern: PatternName; patterns?: PatternLookup } {
+    if (!Array.isArray(pattern)) return { pattern, patterns }
+    return {
+        pattern: COMPOSED_PATTERN as PatternName,
+        patterns: { ...patterns, [COMPOSED_PATTERN]: composePatterns(pattern, patterns) },
+    }
+}
@@ -0,0 +1,616 @@
+import type { RgbaColor } from '../types'
+
+// ============================================================
+// CSS color parsing — CSS Color 4/5 values to sRGB
+// ============================================================
+
+/** Color spaces understood by `color()` and `color-mix()` */
+export type CssColorSpace =
+    | 'srgb'
+    | 'srgb-linear'
+    | 'display-p3'
+    | 'a98-rgb'
+    | 'prophoto-rgb'
+    | 'rec2020'
+    | 'xyz'
+    | 'xyz-d50'
+    | 'xyz-d65'
+    | 'hsl'
+    | 'hwb'
+    | 'lab'
+    | 'lch'
+    | 'oklab'
+    | 'oklch'
+
+/** Hue interpolation methods for polar spaces in `color-mix()` */
+export type HueMethod = 'shorter' | 'longer' | 'increasing' | 'decreasing'
+
+type Vector = [number, number, number]
+type Matrix = [Vector, Vector, Vector]
+
+/**
+ * A color in the space it was written in. Missing (`none`) components are
+ * NaN, so `color-mix()` can take them from the other color.
+ */
+interface SpaceColor {
+    space: CssColorSpace
+    coords: Vector
+    alpha: number
+}
+
+/** The 148 CSS named colors */
+const NAMED_COLORS: Record<string, string> = {
+    aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+    beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+    blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+    chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+    cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+    darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+    darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+    darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+    deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+    firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+    ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+    greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+    indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+    lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+    lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+    lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+    lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+    magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+    mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+    mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+    navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+    orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+    paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+    pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+    red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+    sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+    skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+    springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+    tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+    whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+}
+
+// ============================================================
+// Color space conversions
+// ============================================================
+
+function multiply(m: Matrix, [x, y, z]: Vector): Vector {
+    return [
+        m[0][0] * x + m[0][1] * y + m[0][2] * z,
+        m[1][0] * x + m[1][1] * y + m[1][2] * z,
+        m[2][0] * x + m[2][1] * y + m[2][2] * z,
+    ]
+}
+
+function invert(m: Matrix): Matrix {
+    const [[a, b, c], [d, e, f], [g, h, i]] = m
+    const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g)
+    return [
+        [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+        [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+        [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+    ]
+}
+
+/** Apply a transfer curve to the magnitude, keeping the sign (extended range) */
+function signed(curve: (v: number) => number): (v: number) => number {
+    return (v) => Math.sign(v) * curve(Math.abs(v))
+}
+
+/** Bradford chromatic adaptation from D50 to D65 */
+const D50_TO_D65: Matrix = [
+    [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+    [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+    [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+]
+const D65_TO_D50 = invert(D50_TO_D65)
+
+/** D50 reference white, the white point of Lab and LCH */
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585]
+
+/** An RGB space: its transfer curve and linear-light matrix to XYZ */
+interface RgbSpace {
+    toLinear: (v: number) => number
+    fromLinear: (v: number) => number
+    toXyz: Matrix
+    fromXyz: Matrix
+    /** Matrix lands in D50 XYZ (ProPhoto) rather than D65 */
+    d50?: boolean
+}
+
+function rgbSpace(toLinear: (v: number) => number, fromLinear: (v: number) => number, toXyz: Matrix, d50?: boolean): RgbSpace {
+    return { toLinear: signed(toLinear), fromLinear: signed(fromLinear), toXyz, fromXyz: invert(toXyz), d50 }
+}
+
+const srgbToLinear = (v: number) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4)
+const srgbFromLinear = (v: number) => (v > 0.0031308 ? 1.055 * v ** (1 / 2.4) - 0.055 : 12.92 * v)
+const linear = (v: number) => v
+
+const SRGB_TO_XYZ: Matrix = [
+    [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+    [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+    [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+]
+
+/** Rec. 2020 transfer constants */
+const REC2020_ALPHA = 1.09929682680944
+const REC2020_BETA = 0.018053968510807
+
+const RGB_SPACES: Record<string, RgbSpace> = {
+    'srgb': rgbSpace(srgbToLinear, srgbFromLinear, SRGB_TO_XYZ),
+    'srgb-linear': rgbSpace(linear, linear, SRGB_TO_XYZ),
+    'display-p3': rgbSpace(srgbToLinear, srgbFromLinear, [
+        [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+        [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+        [0, 0.04511338185890264, 1.043944368900976],
+    ]),
+    'a98-rgb': rgbSpace((v) => v ** (563 / 256), (v) => v ** (256 / 563), [
+        [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+        [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+        [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+    ]),
+    'prophoto-rgb': rgbSpace((v) => (v <= 16 / 512 ? v / 16 : v ** 1.8), (v) => (v >= 1 / 512 ? v ** (1 / 1.8) : 16 * v), [
+        [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+        [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+        [0, 0, 0.8251046025104601],
+    ], true),
+    'rec2020': rgbSpace(
+        (v) => (v < REC2020_BETA * 4.5 ? v / 4.5 : ((v + REC2020_ALPHA - 1) / REC2020_ALPHA) ** (1 / 0.45)),
+        (v) => (v > REC2020_BETA ? REC2020_ALPHA * v ** 0.45 - (REC2020_ALPHA - 1) : 4.5 * v),
+        [
+            [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+            [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+            [0, 0.028072693049087428, 1.060985057710791],
+        ],
+    ),
+}
+
+/** OKLab: XYZ (D65) to cone response, and cube-rooted cone response to Lab */
+const XYZ_TO_LMS: Matrix = [
+    [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+    [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+    [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+]
+const LMS_TO_OKLAB: Matrix = [
+    [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+    [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+    [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+]
+const LMS_TO_XYZ = invert(XYZ_TO_LMS)
+const OKLAB_TO_LMS = invert(LMS_TO_OKLAB)
+
+/** CIE Lab constants */
+const LAB_EPSILON = 216 / 24389
+const LAB_KAPPA = 24389 / 27
+
+/** Below this chroma a polar color has no meaningful hue */
+const ACHROMATIC: Partial<Record<CssColorSpace, number>> = { lch: 0.02, oklch: 0.0002 }
+
+function has(record: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function normalizeHue(hue: number): number {
+    return ((hue % 360) + 360) % 360
+}
+
+function hslToSrgb([hue, s, l]: Vector): Vector {
+    const h = normalizeHue(hue)
+    const sat = s / 100
+    const light = l / 100
+    const channel = (n: number) => {
+        const k = (n + h / 30) % 12
+        return light - sat * Math.min(light, 1 - light) * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+    }
+    return [channel(0), channel(8), channel(4)]
+}
+
+function hwbToSrgb([hue, w, b]: Vector): Vector {
+    const white = w / 100
+    const black = b / 100
+    if (white + black >= 1) {
+        const gray = white / (white + black)
+        return [gray, gray, gray]
+    }
+    return hslToSrgb([hue, 100, 50]).map((v) => v * (1 - white - black) + white) as Vector
+}
+
+/** Hue (NaN when achromatic), lightness and the min/max channels of an sRGB color */
+function srgbHue([r, g, b]: Vector): { hue: number; max: number; min: number } {
+    const max = Math.max(r, g, b)
+    const min = Math.min(r, g, b)
+    const d = max - min
+    if (d === 0) return { hue: NaN, max, min }
+    const sector = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4
+    return { hue: sector * 60, max, min }
+}
+
+function srgbToHsl(rgb: Vector): Vector {
+    const { hue, max, min } = srgbHue(rgb)
+    const l = (max + min) / 2
+    const s = l <= 0 || l >= 1 ? 0 : (max - l) / Math.min(l, 1 - l)
+    return [hue, s * 100, l * 100]
+}
+
+function srgbToHwb(rgb: Vector): Vector {
+    const { hue, max, min } = srgbHue(rgb)
+    return [hue, min * 100, (1 - max) * 100]
+}
+
+function labToXyzD50([l, a, b]: Vector): Vector {
+    const fy = (l + 16) / 116
+    const fx = a / 500 + fy
+    const fz = fy - b / 200
+    const x = fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA
+    const y = l > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : l / LAB_KAPPA
+    const z = fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA
+    return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]]
+}
+
+function xyzD50ToLab(xyz: Vector): Vector {
+    const [fx, fy, fz] = xyz.map((v, i) => {
+        const t = v / D50_WHITE[i]
+        return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116
+    })
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+function polarToLab([l, c, h]: Vector): Vector {
+    const rad = (h * Math.PI) / 180
+    return [l, c * Math.cos(rad), c * Math.sin(rad)]
+}
+
+function labToPolar([l, a, b]: Vector): Vector {
+    return [l, Math.hypot(a, b), normalizeHue((Math.atan2(b, a) * 180) / Math.PI)]
+}
+
+/** Coordinates in `space` to XYZ (D65) */
+function toXyz(space: CssColorSpace, coords: Vector): Vector {
+    switch (space) {
+        case 'hsl': return toXyz('srgb', hslToSrgb(coords))
+        case 'hwb': return toXyz('srgb', hwbToSrgb(coords))
+        case 'lab': return multiply(D50_TO_D65, labToXyzD50(coords))
+        case 'lch': return toXyz('lab', polarToLab(coords))
+        case 'oklab': return multiply(LMS_TO_XYZ, multiply(OKLAB_TO_LMS, coords).map((v) => v ** 3) as Vector)
+        case 'oklch': return toXyz('oklab', polarToLab(coords))
+        case 'xyz':
+        case 'xyz-d65': return coords
+        case 'xyz-d50': return multiply(D50_TO_D65, coords)
+        default: {
+            const rgb = RGB_SPACES[space]
+            const xyz = multiply(rgb.toXyz, coords.map(rgb.toLinear) as Vector)
+            return rgb.d50 ? multiply(D50_TO_D65, xyz) : xyz
+        }
+    }
+}
+
+/** XYZ (D65) to coordinates in `space` */
+function fromXyz(space: CssColorSpace, xyz: Vector): Vector {
+    switch (space) {
+        case 'hsl': return srgbToHsl(fromXyz('srgb', xyz))
+        case 'hwb': return srgbToHwb(fromXyz('srgb', xyz))
+        case 'lab': return xyzD50ToLab(multiply(D65_TO_D50, xyz))
+        case 'lch': return labToPolar(fromXyz('lab', xyz))
+        case 'oklab': return multiply(LMS_TO_OKLAB, multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as Vector)
+        case 'oklch': return labToPolar(fromXyz('oklab', xyz))
+        case 'xyz':
+        case 'xyz-d65': return xyz
+        case 'xyz-d50': return multiply(D65_TO_D50, xyz)
+        default: {
+            const rgb = RGB_SPACES[space]
+            const linearRgb = multiply(rgb.fromXyz, rgb.d50 ? multiply(D65_TO_D50, xyz) : xyz)
+            return linearRgb.map(rgb.fromLinear) as Vector
+        }
+    }
+}
+
+/** Index of the hue component in polar spaces */
+function hueIndex(space: CssColorSpace): number | null {
+    if (space === 'hsl' || space === 'hwb') return 0
+    if (space === 'lch' || space === 'oklch') return 2
+    return null
+}
+
+/** A color's coordinates in another space; hues of gray colors become missing */
+function convert(color: SpaceColor, space: CssColorSpace): Vector {
+    if (color.space === space) return color.coords
+    const known = color.coords.map((v) => (Number.isNaN(v) ? 0 : v)) as Vector
+    // hsl and hwb are sRGB already — skip the round trip through XYZ
+    if (space === 'srgb' && color.space === 'hsl') return hslToSrgb(known)
+    if (space === 'srgb' && color.space === 'hwb') return hwbToSrgb(known)
+    const coords = fromXyz(space, toXyz(color.space, known))
+    if ((space === 'lch' || space === 'oklch') && coords[1] < (ACHROMATIC[space] ?? 0)) coords[2] = NaN
+    return coords
+}
+
+function clamp01(value: number): number {
+    return Math.min(1, Math.max(0, value))
+}
+
+/** Clip a color into sRGB (out-of-gamut channels are clamped) */
+function toRgba(color: SpaceColor): RgbaColor {
+    const [r, g, b] = convert(color, 'srgb').map((v) => clamp01(Number.isNaN(v) ? 0 : v) * 255)
+    return { r, g, b, alpha: Number.isNaN(color.alpha) ? 0 : clamp01(color.alpha) }
+}
+
+// ============================================================
+// color-mix()
+// ============================================================
+
+const HUE_METHODS: HueMethod[] = ['shorter', 'longer', 'increasing', 'decreasing']
+
+/** Move one hue by a turn so interpolating between them follows `method` */
+function fixHues(from: number, to: number, method: HueMethod): [number, number] {
+    const a = normalizeHue(from)
+    const b = normalizeHue(to)
+    const d = b - a
+    switch (method) {
+        case 'shorter':
+            if (d > 180) return [a + 360, b]
+            if (d < -180) return [a, b + 360]
+            break
+        case 'longer':
+            if (d > 0 && d < 180) return [a + 360, b]
+            if (d > -180 && d <= 0) return [a, b + 360]
+            break
+        case 'increasing':
+            if (d < 0) return [a, b + 360]
+            break
+        case 'decreasing':
+            if (d > 0) return [a + 360, b]
+            break
+    }
+    return [a, b]
+}
+
+/**
+ * Interpolate two colors in `space` with premultiplied alpha; `amount` is
+ * the weight of `to`. A component missing from one color takes the other's.
+ */
+function mix(from: SpaceColor, to: SpaceColor, space: CssColorSpace, amount: number, method: HueMethod): SpaceColor {
+    const a = convert(from, space)
+    const b = convert(to, space)
+    const fill = (x: number, y: number) => (Number.isNaN(x) ? y : x)
+    const alphaA = fill(from.alpha, to.alpha)
+    const alphaB = fill(to.alpha, from.alpha)
+    const alpha = alphaA + (alphaB - alphaA) * amount
+    const hue = hueIndex(space)
+
+    const coords = a.map((_, i) => {
+        const x = fill(a[i], b[i])
+        const y = fill(b[i], a[i])
+        if (i === hue) {
+            if (Number.isNaN(x)) return NaN
+            const [start, end] = fixHues(x, y, method)
+            return normalizeHue(start + (end - start) * amount)
+        }
+        const premultiplied = x * alphaA + (y * alphaB - x * alphaA) * amount
+        return alpha === 0 ? x + (y - x) * amount : premultiplied / alpha
+    }) as Vector
+    return { space, coords, alpha }
+}
+
+/** Resolve the two mix percentages per CSS Color 5; null when both are zero */
+function mixWeights(p1: number | undefined, p2: number | undefined): { amount: number; alphaScale: number } | null {
+    const first = p1 ?? (p2 === undefined ? 50 : 100 - p2)
+    const second = p2 ?? 100 - first
+    const sum = first + second
+    if (sum <= 0) return null
+    return { amount: second / sum, alphaScale: Math.min(1, sum / 100) }
+}
+
+function parseColorMix(args: string[]): SpaceColor | null {
+    const groups = splitOn(args, ',')
+    if (groups.length !== 3) return null
+    const [method, ...parts] = groups
+    const space = method[1] as CssColorSpace
+    if (method[0] !== 'in' || !isColorSpace(space)) return null
+    let hueMethod: HueMethod = 'shorter'
+    if (method.length === 4 && method[3] === 'hue' && hueIndex(space) !== null) {
+        if (!HUE_METHODS.includes(method[2] as HueMethod)) return null
+        hueMethod = method[2] as HueMethod
+    } else if (method.length !== 2) {
+        return null
+    }
+
+    const colors: SpaceColor[] = []
+    const percents: (number | undefined)[] = []
+    for (const part of parts) {
+        if (part.length < 1 || part.length > 2) return null
+        const percentToken = part.find((token) => token.endsWith('%') && parseComponent(token)?.unit === '%')
+        const colorToken = part.find((token) => token !== percentToken)
+        const color = colorToken ? parseSpaceColor(colorToken) : null
+        if (!color || (part.length === 2 && !percentToken)) return null
+        const percent = percentToken ? parseComponent(percentToken)!.value : undefined
+        if (percent !== undefined && (percent < 0 || percent > 100)) return null
+        colors.push(color)
+        percents.push(percent)
+    }
+
+    const weights = mixWeights(percents[0], percents[1])
+    if (!weights) return null
+    const mixed = mix(colors[0], colors[1], space, weights.amount, hueMethod)
+    return { ...mixed, alpha: mixed.alpha * weights.alphaScale }
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+interface Component {
+    value: number
+    unit: '' | '%' | 'deg' | 'none'
+}
+
+const ANGLE_UNITS: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 }
+
+/** Number, percentage, angle (in degrees) or `none` */
+function parseComponent(token: string): Component | null {
+    if (token === 'none') return { value: NaN, unit: 'none' }
+    const match = /^([+-]?(?:\d*\.)?\d+(?:e[+-]?\d+)?)(%|[a-z]+)?$/.exec(token)
+    if (!match) return null
+    const value = parseFloat(match[1])
+    const unit = match[2]
+    if (!unit) return { value, unit: '' }
+    if (unit === '%') return { value, unit: '%' }
+    const scale = ANGLE_UNITS[unit]
+    return scale === undefined ? null : { value: value * scale, unit: 'deg' }
+}
+
+/** A channel: numbers times `numberScale`, percentages so 100% is `percentScale` */
+function channel(token: string, percentScale: number, numberScale = 1): number | null {
+    const component = parseComponent(token)
+    if (!component || component.unit === 'deg') return null
+    if (component.unit === '%') return (component.value / 100) * percentScale
+    return component.value * numberScale
+}
+
+/** A hue in degrees: a number or an angle */
+function hue(token: string): number | null {
+    const component = parseComponent(token)
+    if (!component || component.unit === '%') return null
+    return component.value
+}
+
+function alphaOf(token: string | undefined): number | null {
+    if (token === undefined) return 1
+    const value = channel(token, 1)
+    return value === null ? null : Number.isNaN(value) ? NaN : clamp01(value)
+}
+
+/** Split a token list on a separator token */
+function splitOn(tokens: string[], separator: string): string[][] {
+    const groups: string[][] = [[]]
+    for (const token of tokens) {
+        if (token === separator) groups.push([])
+        else groups[groups.length - 1].push(token)
+    }
+    return groups
+}
+
+/** Split function arguments into top-level tokens; commas and slashes are tokens of their own */
+function tokenize(body: string): string[] | null {
+    const tokens: string[] = []
+    let depth = 0
+    let current = ''
+    for (const char of body) {
+        if (char === '(') depth++
+        if (char === ')' && --depth < 0) return null
+        if (depth === 0 && (/\s/.test(char) || char === ',' || char === '/')) {
+            if (current) tokens.push(current)
+            if (char === ',' || char === '/') tokens.push(char)
+            current = ''
+            continue
+        }
+        current += char
+    }
+    if (depth !== 0) return null
+    if (current) tokens.push(current)
+    return tokens
+}
+
+/** Three channels and an optional alpha, in legacy comma or modern space-separated syntax */
+function channelsOf(tokens: string[]): { channels: string[]; alpha?: string } | null {
+    if (tokens.includes(',')) {
+        const groups = splitOn(tokens, ',')
+        if ((groups.length !== 3 && groups.length !== 4) || groups.some((group) => group.length !== 1)) return null
+        return { channels: groups.slice(0, 3).map(([token]) => token), alpha: groups[3]?.[0] }
+    }
+    const [channels, alpha, ...rest] = splitOn(tokens, '/')
+    if (channels.length !== 3 || rest.length > 0 || (alpha && alpha.length !== 1)) return null
+    return { channels, alpha: alpha?.[0] }
+}
+
+function isColorSpace(space: string): space is CssColorSpace {
+    return has(RGB_SPACES, space) || hueIndex(space as CssColorSpace) !== null
+        || ['xyz', 'xyz-d50', 'xyz-d65', 'lab', 'oklab'].includes(space)
+}
+
+function parseHex(hex: string): SpaceColor | null {
+    if (!/^[\da-f]+$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null
+    const full = hex.length <= 4 ? hex.split('').map((c) => c + c).join('') : hex
+    const byte = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16) / 255
+    return { space: 'srgb', coords: [byte(0), byte(1), byte(2)], alpha: full.length === 8 ? byte(3) : 1 }
+}
+
+/** `rgb()`, `hsl()` and friends: how each channel reads, in the function's own space */
+const CHANNEL_FUNCTIONS: Record<string, { space: CssColorSpace; read: (channels: string[]) => (number | null)[] }> = {
+    rgb: { space: 'srgb', read: ([r, g, b]) => [channel(r, 1, 1 / 255), channel(g, 1, 1 / 255), channel(b, 1, 1 / 255)] },
+    hsl: { space: 'hsl', read: ([h, s, l]) => [hue(h), channel(s, 100), channel(l, 100)] },
+    hwb: { space: 'hwb', read: ([h, w, b]) => [hue(h), channel(w, 100), channel(b, 100)] },
+    lab: { space: 'lab', read: ([l, a, b]) => [channel(l, 100), channel(a, 125), channel(b, 125)] },
+    lch: { space: 'lch', read: ([l, c, h]) => [channel(l, 100), channel(c, 150), hue(h)] },
+    oklab: { space: 'oklab', read: ([l, a, b]) => [channel(l, 1), channel(a, 0.4), channel(b, 0.4)] },
+    oklch: { space: 'oklch', read: ([l, c, h]) => [channel(l, 1), channel(c, 0.4), hue(h)] },
+}
+CHANNEL_FUNCTIONS.rgba = CHANNEL_FUNCTIONS.rgb
+CHANNEL_FUNCTIONS.hsla = CHANNEL_FUNCTIONS.hsl
+
+/** Lightness can't go below 0 and chroma can't be negative */
+function clampCoords(space: CssColorSpace, coords: Vector): Vector {
+    const [a, b, c] = coords
+    if (space === 'lab' || space === 'lch') return [Math.min(100, Math.max(0, a)), space === 'lch' ? Math.max(0, b) : b, c]
+    if (space === 'oklab' || space === 'oklch') return [clamp01(a), space === 'oklch' ? Math.max(0, b) : b, c]
+    return coords
+}
+
+function parseFunction(name: string, args: string[]): SpaceColor | null {
+    if (name === 'color-mix') return parseColorMix(args)
+
+    let space: CssColorSpace
+    let channels: (number | null)[]
+    let alphaToken: string | undefined
+    if (name === 'color') {
+        const [spaceToken, ...rest] = args
+        const parts = channelsOf(rest)
+        if (!parts || !isColorSpace(spaceToken) || hueIndex(spaceToken) !== null || spaceToken === 'lab' || spaceToken === 'oklab') return null
+        space = spaceToken
+        channels = parts.channels.map((token) => channel(token, 1))
+        alphaToken = parts.alpha
+    } else {
+        const fn = has(CHANNEL_FUNCTIONS, name) ? CHANNEL_FUNCTIONS[name] : undefined
+        const parts = channelsOf(args)
+        if (!fn || !parts) return null
+        space = fn.space
+        channels = fn.read(parts.channels)
+        alphaToken = parts.alpha
+    }
+
+    const alpha = alphaOf(alphaToken)
+    if (alpha === null || channels.some((value) => value === null)) return null
+    return { space, coords: clampCoords(space, channels as Vector), alpha }
+}
+
+function parseSpaceColor(value: string): SpaceColor | null {
+    const input = value.trim().toLowerCase()
+    if (input === 'transparent') return { space: 'srgb', coords: [0, 0, 0], alpha: 0 }
+    if (input.startsWith('#')) return parseHex(input.slice(1))
+    if (has(NAMED_COLORS, input)) return parseHex(NAMED_COLORS[input])
+
+    const fn = /^([a-z-]+)\(([\s\S]*)\)$/.exec(input)
+    const args = fn && tokenize(fn[2])
+    return fn && args ? parseFunction(fn[1], args) : null
+}
+
+/**
+ * Parse any CSS Color 4/5 value — the 148 named colors and `transparent`,
+ * 3/4/6/8-digit hex, `rgb()`, `hsl()`, `hwb()`, `lab()`, `lch()`,
+ * `oklab()`, `oklch()`, `color()` and `color-mix()` — to sRGB with alpha.
+ * Colors outside sRGB are clipped. Returns null for anything else
+ * (including `currentColor` and `var()`, which need the page to resolve).
+ */
+export function parseColor(value: string): RgbaColor | null {
+    const color = parseSpaceColor(value)
+    return color && toRgba(color)
+}
+
+/**
+ * Blend two parsed colors in `space` with premultiplied alpha — what
+ * `color-mix()` does. `amount` is the weight of `to` (0-1).
+ */
+export function mixRgba(from: RgbaColor, to: RgbaColor, amount: number, space: CssColorSpace = 'srgb', hue: HueMethod = 'shorter'): RgbaColor {
+    const asSpaceColor = ({ r, g, b, alpha }: RgbaColor): SpaceColor => ({ space: 'srgb', coords: [r / 255, g / 255, b / 255], alpha })
+    return toRgba(mix(asSpaceColor(from), asSpaceColor(to), space, amount, hue))
+}
@@ -0,0 +1,187 @@
+import type { BackgroundEdge, EdgeColors, EdgeSampling } from '../types'
+import { rgbaToHex } from './color-utils'
+
+// ============================================================
+// Image edge colors — what a photo looks like where a wave meets it
+// ============================================================
+
+/** RGBA pixels row by row, as canvases (`ImageData`) and most image decoders return them */
+export interface ImagePixels {
+    data: ArrayLike<number>
+    width: number
+    height: number
+}
+
+export interface EdgeColorOptions {
+    /** Default: 'dominant' */
+    mode?: EdgeSampling
+    /** Share of the image sampled at each edge (0-0.5). Default: 0.05 */
+    strip?: number
+}
+
+const DEFAULT_STRIP = 0.05
+
+/** Longest side images are scaled down to before sampling, in px */
+const SAMPLE_SIZE = 64
+
+/** Low bits dropped from each channel when bucketing pixels for the dominant color */
+const QUANTIZE_SHIFT = 4
+
+/** Pixels with less alpha (0-255) than this don't count */
+const MIN_ALPHA = 8
+
+const EDGES: BackgroundEdge[] = ['top', 'right', 'bottom', 'left']
+
+/**
+ * Downscaled pixels per image URL, shared by every section (and sampling
+ * mode) using it. Only loads in flight or read back are kept — failures are
+ * dropped so the next use tries again.
+ */
+const pixelCache = new Map<string, Promise<ImagePixels | null>>()
+
+/** The first `url()` in a background value, unquoted */
+export function backgroundImageUrl(value: string): string | null {
+    const start = value.search(/url\(/i)
+    if (start === -1) return null
+    const rest = value.slice(start + 4)
+    const quoted = /^\s*(['"])(.*?)\1\s*\)/.exec(rest)
+    if (quoted) return quoted[2] || null
+
+    // Unquoted URLs run to the paren closing url(, so `url(/a(1).png)` stays whole
+    let end = 0
+    for (let open = 1; end < rest.length; end++) {
+        if (rest[end] === '(') open++
+        if (rest[end] === ')' && --open === 0) break
+    }
+    if (end === rest.length) return null
+    return rest.slice(0, end).trim() || null
+}
+
+/** One color for a block of pixels, or undefined when they're all transparent */
+function blockColor(pixels: ImagePixels, x0: number, y0: number, x1: number, y1: number, mode: EdgeSampling): string | undefined {
+    // Alpha-weighted channel sums per bucket — a single bucket when averaging
+    const buckets = new Map<number, { r: number; g: number; b: number; alpha: number; count: number }>()
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            const i = (y * pixels.width + x) * 4
+            const a = pixels.data[i + 3]
+            if (a < MIN_ALPHA) continue
+            const r = pixels.data[i]
+            const g = pixels.data[i + 1]
+            const b = pixels.data[i + 2]
+            const key = mode === 'average'
+                ? 0
+                : ((r >> QUANTIZE_SHIFT) << 16) | ((g >> QUANTIZE_SHIFT) << 8) | (b >> QUANTIZE_SHIFT)
+            const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, alpha: 0, count: 0 }
+            bucket.r += r * a
+            bucket.g += g * a
+            bucket.b += b * a
+            bucket.alpha += a
+            bucket.count++
+            buckets.set(key, bucket)
+        }
+    }
+
+    let best: { r: number; g: number; b: number; alpha: number; count: number } | undefined
+    for (const bucket of buckets.values()) {
+        if (!best || bucket.alpha > best.alpha) best = bucket
+    }
+    if (!best) return undefined
+    return rgbaToHex({
+        r: best.r / best.alpha,
+        g: best.g / best.alpha,
+        b: best.b / best.alpha,
+        alpha: best.alpha / best.count / 255,
+    })
+}
+
+/**
+ * Color of each edge strip of an image: its most common color (pixels
+ * bucketed by their high bits, then averaged within the biggest bucket) or,
+ * with `mode: 'average'`, the mean of the whole strip. Transparent pixels
+ * are skipped; an edge with nothing opaque is left out.
+ *
+ * Pure — runs anywhere pixels can be decoded, so servers can precompute
+ * `edgeColor` for `<WaveSection>`.
+ */
+export function extractEdgeColors(pixels: ImagePixels, options: EdgeColorOptions = {}): EdgeColors {
+    const { width, height } = pixels
+    const mode = options.mode ?? 'dominant'
+    const strip = Math.min(0.5, Math.max(0, options.strip ?? DEFAULT_STRIP))
+    const rows = Math.max(1, Math.round(height * strip))
+    const columns = Math.max(1, Math.round(width * strip))
+    const colors: EdgeColors = {}
+    if (width < 1 || height < 1) return colors
+
+    const blocks: Record<BackgroundEdge, [number, number, number, number]> = {
+        top: [0, 0, width, rows],
+        right: [width - columns, 0, width, height],
+        bottom: [0, height - rows, width, height],
+        left: [0, 0, columns, height],
+    }
+    for (const edge of EDGES) {
+        const color = blockColor(pixels, ...blocks[edge], mode)
+        if (color) colors[edge] = color
+    }
+    return colors
+}
+
+/** Load an image and read it back, scaled down, through an offscreen canvas */
+function loadPixels(url: string): Promise<ImagePixels | null> {
+    return new Promise((resolve) => {
+        const image = new Image()
+        // Cross-origin images can only be read back when served with CORS headers
+        image.crossOrigin = 'anonymous'
+        image.onload = () => {
+            const { naturalWidth, naturalHeight } = image
+            const context = naturalWidth && naturalHeight
+                ? document.createElement('canvas').getContext('2d', { willReadFrequently: true })
+                : null
+            if (!context) {
+                resolve(null)
+                return
+            }
+            const scale = Math.min(1, SAMPLE_SIZE / Math.max(naturalWidth, naturalHeight))
+            const width = Math.max(1, Math.round(naturalWidth * scale))
+            const height = Math.max(1, Math.round(naturalHeight * scale))
+            context.canvas.width = width
+            context.canvas.height = height
+            try {
+                context.drawImage(image, 0, 0, width, height)
+                resolve(context.getImageData(0, 0, width, height))
+            } catch {
+                console.warn(`[wavy-bavy] Could not read the pixels of "${url}" (serve it with CORS headers, or set edgeColor)`)
+                resolve(null)
+            }
+        }
+        image.onerror = () => {
+            console.warn(`[wavy-bavy] Could not load background image "${url}" to sample its edge colors`)
+            resolve(null)
+        }
+        image.src = url
+    })
+}
+
+/**
+ * Load an image once per URL and sample its edge colors (see
+ * `extractEdgeColors`). Resolves to null without a DOM, or when the image
+ * fails to load or can't be read back — then it's loaded again next time.
+ */
+export function sampleImageEdgeColors(url: string, options: EdgeColorOptions = {}): Promise<EdgeColors | null> {
+    if (typeof Image === 'undefined' || typeof document === 'undefined') return Promise.resolve(null)
+    let pixels = pixelCache.get(url)
+    if (!pixels) {
+        const loading = loadPixels(url).then((data) => {
+            if (!data && pixelCache.get(url) === loading) pixelCache.delete(url)
+            return data
+        })
+        pixelCache.set(url, loading)
+        pixels = loading
+    }
+    return pixels.then((data) => (data ? extractEdgeColors(data, options) : null))
+}
+
+/** Forget every sampled image (they're loaded again on next use) */
+export function clearImageColorCache(): void {
+    pixelCache.clear()
+}
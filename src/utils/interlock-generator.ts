@@ -1,6 +1,19 @@
 import { generatePath } from './path-generator'
-import type { PatternName, DualPathResult, InterlockMode } from '../types'
-import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
+import { createPathGeometry } from './path-geometry'
+import { applyAnchors } from './anchors'
+import { generateMeshedEdges, isMeshMode, type MeshMode } from './interlock-tabs'
+import type { PatternName, PatternLookup, DualPathResult, DualPathValidation, InterlockMode, InterlockTabConfig, SplineConfig, NoiseConfig, WaveAnchor, WaveBandConfig } from '../types'
+import { DEFAULT_VIEWBOX_WIDTH, DEFAULT_BAND_MIN_THICKNESS } from '../constants'
+
+/** Samples along each edge when rebuilding interlocked paths */
+const DEFAULT_SAMPLES = 20
+
+/** Samples `validateDualPath` checks by default */
+const DEFAULT_VALIDATION_SAMPLES = 200
+
+/** Flattening tolerance for validation, and the slack allowed for it when comparing separations */
+const VALIDATION_FLATTEN_TOLERANCE = 0.01
+const SEPARATION_TOLERANCE = 0.05
 
 /**
  * Generate a deterministic seed from section position.
@@ -21,61 +34,64 @@ export interface InterlockOptions {
     gap?: number
     phase?: number
     mirror?: boolean
+    /** Anchors for the 'spline' pattern */
+    spline?: SplineConfig
+    /** Fractal noise settings for the 'noise' pattern */
+    noise?: NoiseConfig
+    /** Path for the 'custom' pattern */
+    customPath?: string
+    /** Points both paths are pinned to, `gap / 2` above and below, so the edges meet there */
+    anchors?: WaveAnchor[]
+    /** Samples along each edge; more keeps finer pattern detail. Default: 20 */
+    samples?: number
+    /** Accent band between the edges: keeps pathB within its thickness bounds below pathA */
+    band?: WaveBandConfig
+    /** Tab count, size and seed for the 'puzzle' and 'zipper' modes */
+    tabs?: InterlockTabConfig
+    /** Width to generate the paths at. Default: 1440 */
+    width?: number
+    /** Scoped pattern generators checked before the global registry */
+    patterns?: PatternLookup
 }
 
 /**
- * Sample Y values from an SVG path at evenly spaced X positions.
- * Parses the path's control points and interpolates between them.
+ * Sample positions across the width: `samples` evenly spaced, plus one at
+ * each anchor, so the edges can be pinned exactly there.
  */
-function samplePathY(path: string, width: number, samples: number): number[] {
-    const nums = path.match(/-?\d+\.?\d*/g)?.map(Number) ?? []
-    const points: Array<{ x: number; y: number }> = []
-
-    for (let i = 0; i < nums.length - 1; i += 2) {
-        points.push({ x: nums[i], y: nums[i + 1] })
-    }
-
-    if (points.length < 2) return new Array(samples).fill(0)
-
-    const wavePoints = points.filter(p => p.x >= -20 && p.x <= width + 20)
-    if (wavePoints.length < 2) return new Array(samples).fill(0)
-
-    wavePoints.sort((a, b) => a.x - b.x)
-
-    const result: number[] = []
-    for (let i = 0; i < samples; i++) {
-        const targetX = (i / (samples - 1)) * width
-        let left = wavePoints[0]
-        let right = wavePoints[wavePoints.length - 1]
-        for (let j = 0; j < wavePoints.length - 1; j++) {
-            if (wavePoints[j].x <= targetX && wavePoints[j + 1].x >= targetX) {
-                left = wavePoints[j]
-                right = wavePoints[j + 1]
-                break
-            }
-        }
-        const t = right.x === left.x ? 0 : (targetX - left.x) / (right.x - left.x)
-        result.push(left.y + t * (right.y - left.y))
+function sampleXs(width: number, samples: number, anchors: WaveAnchor[] = []): number[] {
+    const xs = Array.from({ length: samples }, (_, i) => (i / (samples - 1)) * width)
+    for (const { x, y } of anchors) {
+        if (!Number.isFinite(x) || !Number.isFinite(y)) continue
+        const anchorX = Math.max(0, Math.min(1, x)) * width
+        if (xs.every((existing) => Math.abs(existing - anchorX) > 1e-6)) xs.push(anchorX)
     }
+    return xs.sort((a, b) => a - b)
+}
 
-    return result
+/**
+ * Sample Y values from an SVG path at the given X positions.
+ * Samples the flattened outline, so values lie on the rendered curve.
+ */
+function samplePathY(path: string, xs: number[]): number[] {
+    const geometry = createPathGeometry(path)
+    if (geometry.polylines.length === 0) return new Array(xs.length).fill(0)
+    return xs.map((x) => geometry.getYAtX(x) ?? 0)
 }
 
 /**
- * Build an SVG path from sampled Y values.
+ * Build an SVG path from Y values sampled at `xs` (the last at the full width).
  * Creates a smooth cubic bezier curve through the sample points,
  * closed at the bottom with the full height.
  */
-function buildPathFromSamples(ys: number[], width: number, height: number): string {
-    const samples = ys.length
-    const segmentWidth = width / (samples - 1)
+function buildPathFromSamples(ys: number[], xs: number[], height: number): string {
+    const width = xs[xs.length - 1]
     const parts: string[] = [`M -20 ${height}`, `L -20 ${ys[0]}`]
 
-    for (let i = 0; i < samples - 1; i++) {
-        const x0 = i * segmentWidth
-        const x1 = (i + 1) * segmentWidth
-        const cp1x = x0 + segmentWidth * 0.4
-        const cp2x = x1 - segmentWidth * 0.4
+    for (let i = 0; i < ys.length - 1; i++) {
+        const x0 = xs[i]
+        const x1 = xs[i + 1]
+        const cp1x = x0 + (x1 - x0) * 0.4
+        const cp2x = x1 - (x1 - x0) * 0.4
         parts.push(`C ${cp1x} ${ys[i]}, ${cp2x} ${ys[i + 1]}, ${x1} ${ys[i + 1]}`)
     }
 
@@ -83,6 +99,121 @@ function buildPathFromSamples(ys: number[], width: number, height: number): stri
     return parts.join(' ')
 }
 
+/** Sample count from an option: a whole number, at least 2 */
+function resolveSamples(samples: number | undefined): number {
+    if (samples === undefined || !Number.isFinite(samples)) return DEFAULT_SAMPLES
+    return Math.max(2, Math.round(samples))
+}
+
+/** Distance bounds from pathA down to pathB */
+interface SeparationBounds {
+    min: number
+    max: number
+}
+
+/**
+ * Separation bounds for a gap and an optional accent band: the band is at
+ * least `minThickness` (and never thinner than the gap) and at most
+ * `maxThickness`.
+ */
+export function resolveSeparationBounds(gap: number, band?: WaveBandConfig): SeparationBounds {
+    const min = Math.max(0, gap, band ? band.minThickness ?? DEFAULT_BAND_MIN_THICKNESS : 0)
+    const max = band?.maxThickness ?? Infinity
+    if (max < min) {
+        console.warn(`[wavy-bavy] band maxThickness ${max} is below its minimum thickness ${min}; using ${min}`)
+        return { min, max: min }
+    }
+    return { min, max }
+}
+
+/**
+ * Move samples so pathB stays between `min` and `max` below pathA. Pairs
+ * out of bounds move evenly around their midpoint.
+ *
+ * Both paths are rebuilt with the same x per sample and control points
+ * that blend between neighbouring samples, so the bounds hold along the
+ * whole curve, not just at the samples.
+ */
+function enforceSeparation(pathAYs: number[], pathBYs: number[], { min, max }: SeparationBounds): void {
+    for (let i = 0; i < pathAYs.length; i++) {
+        const separation = pathBYs[i] - pathAYs[i]
+        if (separation >= min && separation <= max) continue
+        const target = separation < min ? min : max
+        const midY = (pathAYs[i] + pathBYs[i]) / 2
+        pathAYs[i] = midY - target / 2
+        pathBYs[i] = midY + target / 2
+    }
+}
+
+interface PinOptions {
+    xs: number[]
+    bounds: SeparationBounds
+    width: number
+    height: number
+    frequencyA: number
+    frequencyB: number
+}
+
+/**
+ * Bend both edges through their anchors — pathA `min / 2` above each of
+ * its anchors, pathB `min / 2` below each of its own, so where they share
+ * one they meet the minimum separation apart — then enforce the bounds
+ * again. Anchors both edges can't honour (e.g. pathA's below pathB's)
+ * give way to the separation.
+ */
+function pinToAnchors(
+    pathAYs: number[],
+    pathBYs: number[],
+    anchorsA: WaveAnchor[] | undefined,
+    anchorsB: WaveAnchor[] | undefined,
+    { xs, bounds, width, height, frequencyA, frequencyB }: PinOptions,
+): void {
+    if (!anchorsA?.length && !anchorsB?.length) return
+    const pin = (ys: number[], anchors: WaveAnchor[] | undefined, offset: number, frequency: number) => {
+        const shifted = anchors?.map((anchor) => ({ ...anchor, y: anchor.y + offset / height }))
+        const anchored = applyAnchors(buildPathFromSamples(ys, xs, height), shifted, { width, height, frequency })
+        ys.splice(0, ys.length, ...samplePathY(anchored, xs))
+    }
+    pin(pathAYs, anchorsA, bounds.min / 2, frequencyA)
+    pin(pathBYs, anchorsB, -bounds.min / 2, frequencyB)
+    enforceSeparation(pathAYs, pathBYs, bounds)
+}
+
+export interface MeshAlongPathOptions {
+    mode: MeshMode
+    gap: number
+    band?: WaveBandConfig
+    intensity: number
+    tabs?: InterlockTabConfig
+    seed: number
+    samples?: number
+    width: number
+    height: number
+}
+
+/**
+ * Puzzle or zipper edges meshing along a base path, `gap` (or the band's
+ * minimum thickness) apart. Used per frame by `generateDualPathMorphKeyframes`.
+ */
+export function meshAlongPath(basePath: string, options: MeshAlongPathOptions): { pathA: string; pathB: string } {
+    const { mode, gap, band, intensity, tabs, seed, width, height } = options
+    const geometry = createPathGeometry(basePath)
+    return generateMeshedEdges({
+        mode,
+        baseY: (x) => geometry.getYAtX(x) ?? height,
+        width,
+        height,
+        gap: resolveSeparationBounds(gap, band).min,
+        intensity,
+        tabs,
+        seed,
+        samples: resolveSamples(options.samples),
+    })
+}
+
+/** Modes that offset copies of one curve */
+type OffsetMode = Exclude<InterlockMode, MeshMode>
+
 /**
  * Pseudo-random number generator (deterministic from seed).
  */
@@ -99,7 +230,9 @@ function seededRandom(seed: number, index: number): number {
  * 2. Sample Y values along the base path
  * 3. Offset samples up/down based on intensity and mode
  * 4. Add independent variation to each path via seeded randomness
- * 5. Rebuild smooth SVG paths from the offset samples
+ * 5. Keep pathB at least `gap` (and within the `band` thickness) below pathA at every sample
+ * 6. Pin both paths back to `anchors`, `gap / 2` either side, and keep the separation
+ * 7. Rebuild smooth SVG paths from the offset samples
  */
 export function generateInterlockPaths(options: InterlockOptions): DualPathResult {
     const {
@@ -113,30 +246,44 @@ export function generateInterlockPaths(options: InterlockOptions): DualPathResul
         gap = 0,
         phase = 0,
         mirror = false,
+        spline,
+        noise,
+        customPath,
+        anchors,
+        band,
+        tabs,
+        width = DEFAULT_VIEWBOX_WIDTH,
+        patterns,
     } = options
 
-    const width = DEFAULT_VIEWBOX_WIDTH
-    const samples = 20
+    const samples = resolveSamples(options.samples)
 
     // 1. Generate base path
-    const basePath = generatePath(pattern === 'custom' ? 'smooth' : pattern, {
-        width, height, amplitude, frequency, phase, mirror, seed,
-    })
+    const basePath = generatePath(pattern === 'custom' && !customPath ? 'smooth' : pattern, {
+        width, height, amplitude, frequency, phase, mirror, seed, spline, noise, customPath, anchors,
+    }, patterns)
 
     // Flush mode: both paths are identical (single edge, no interlock)
     if (mode === 'flush') {
         return { pathA: basePath, pathB: basePath, baseCurve: basePath }
     }
 
+    // Puzzle and zipper modes: tabs along the base curve, both edges fitting around them
+    if (isMeshMode(mode)) {
+        const edges = meshAlongPath(basePath, { mode, gap, band, intensity, tabs, seed, samples, width, height })
+        return { ...edges, baseCurve: basePath }
+    }
+
     // 2. Sample the base curve
-    const baseYs = samplePathY(basePath, width, samples)
+    const xs = sampleXs(width, samples, anchors)
+    const baseYs = samplePathY(basePath, xs)
 
     // 3. Calculate offsets based on mode and intensity
     const maxOffset = height * amplitude * intensity * 0.5
     const halfGap = gap / 2
 
     // Mode multipliers
-    const modeFactors: Record<InterlockMode, { a: number; b: number }> = {
+    const modeFactors: Record<OffsetMode, { a: number; b: number }> = {
         interlock: { a: -1, b: 1 },
         overlap: { a: -1.3, b: 0.7 },
         apart: { a: -0.6, b: 1.4 },
@@ -149,7 +296,7 @@ export function generateInterlockPaths(options: InterlockOptions): DualPathResul
     const pathAYs: number[] = []
     const pathBYs: number[] = []
 
-    for (let i = 0; i < samples; i++) {
+    for (let i = 0; i < xs.length; i++) {
         const baseY = baseYs[i]
         const varA = (seededRandom(seed + 1, i) - 0.5) * maxOffset * 0.3
         const varB = (seededRandom(seed + 2, i) - 0.5) * maxOffset * 0.3
@@ -158,19 +305,36 @@ export function generateInterlockPaths(options: InterlockOptions): DualPathResul
         pathBYs.push(baseY + factors.b * maxOffset + varB + halfGap)
     }
 
-    // 5. Rebuild paths
-    const pathA = buildPathFromSamples(pathAYs, width, height)
-    const pathB = buildPathFromSamples(pathBYs, width, height)
+    // 5. Never let the edges cross or close the gap
+    const bounds = resolveSeparationBounds(gap, band)
+    enforceSeparation(pathAYs, pathBYs, bounds)
+
+    // 6. Offsets move the edges off the anchors, so bend them back
+    pinToAnchors(pathAYs, pathBYs, anchors, anchors, { xs, bounds, width, height, frequencyA: frequency, frequencyB: frequency })
+
+    // 7. Rebuild paths
+    const pathA = buildPathFromSamples(pathAYs, xs, height)
+    const pathB = buildPathFromSamples(pathBYs, xs, height)
 
     return { pathA, pathB, baseCurve: basePath }
 }
 
 export interface CrossBoundaryOptions {
-    upperConfig: { pattern: PatternName; height: number; amplitude: number; frequency: number; phase?: number; mirror?: boolean; seed?: number }
-    lowerConfig: { pattern: PatternName; height: number; amplitude: number; frequency: number; phase?: number; mirror?: boolean; seed?: number }
+    upperConfig: { pattern: PatternName; height: number; amplitude: number; frequency: number; phase?: number; mirror?: boolean; seed?: number; spline?: SplineConfig; noise?: NoiseConfig; customPath?: string; anchors?: WaveAnchor[] }
+    lowerConfig: { pattern: PatternName; height: number; amplitude: number; frequency: number; phase?: number; mirror?: boolean; seed?: number; spline?: SplineConfig; noise?: NoiseConfig; customPath?: string; anchors?: WaveAnchor[] }
     mode?: InterlockMode
     intensity?: number
     gap?: number
+    /** Samples along each edge; more keeps finer pattern detail. Default: 20 */
+    samples?: number
+    /** Accent band between the edges: keeps pathB within its thickness bounds below pathA */
+    band?: WaveBandConfig
+    /** Tab count, size and seed for the 'puzzle' and 'zipper' modes */
+    tabs?: InterlockTabConfig
+    /** Width to generate the paths at. Default: 1440 */
+    width?: number
+    /** Scoped pattern generators checked before the global registry */
+    patterns?: PatternLookup
 }
 
 /**
@@ -181,7 +345,10 @@ export interface CrossBoundaryOptions {
  * 1. Use max(upper.height, lower.height) as shared height
  * 2. Generate independent paths from each config
  * 3. Sample Y values, compute midline, preserve each curve's character
- * 4. Apply mode multipliers and rebuild smooth paths
+ * 4. Apply mode multipliers and keep pathB at least `gap` (and within the
+ *    `band` thickness) below pathA
+ * 5. Pin each path back to its config's `anchors` (`gap / 2` off them) without
+ *    giving up the separation, and rebuild smooth paths
  */
 export function generateCrossBoundaryPaths(options: CrossBoundaryOptions): DualPathResult {
     const {
@@ -190,15 +357,18 @@ export function generateCrossBoundaryPaths(options: CrossBoundaryOptions): DualP
         mode = 'interlock',
         intensity = 0.5,
         gap = 0,
+        band,
+        tabs,
+        width = DEFAULT_VIEWBOX_WIDTH,
+        patterns,
     } = options
 
-    const width = DEFAULT_VIEWBOX_WIDTH
-    const samples = 20
+    const samples = resolveSamples(options.samples)
     const sharedHeight = Math.max(upperConfig.height, lowerConfig.height)
 
     // Generate independent paths from each config
-    const upperPattern = upperConfig.pattern === 'custom' ? 'smooth' : upperConfig.pattern
-    const lowerPattern = lowerConfig.pattern === 'custom' ? 'smooth' : lowerConfig.pattern
+    const upperPattern = upperConfig.pattern === 'custom' && !upperConfig.customPath ? 'smooth' : upperConfig.pattern
+    const lowerPattern = lowerConfig.pattern === 'custom' && !lowerConfig.customPath ? 'smooth' : lowerConfig.pattern
 
     const pathUpper = generatePath(upperPattern, {
         width,
@@ -208,7 +378,11 @@ export function generateCrossBoundaryPaths(options: CrossBoundaryOptions): DualP
         phase: upperConfig.phase ?? 0,
         mirror: upperConfig.mirror ?? false,
         seed: upperConfig.seed,
-    })
+        spline: upperConfig.spline,
+        noise: upperConfig.noise,
+        customPath: upperConfig.customPath,
+        anchors: upperConfig.anchors,
+    }, patterns)
 
     const pathLower = generatePath(lowerPattern, {
         width,
@@ -218,22 +392,39 @@ export function generateCrossBoundaryPaths(options: CrossBoundaryOptions): DualP
         phase: lowerConfig.phase ?? 0,
         mirror: lowerConfig.mirror ?? false,
         seed: lowerConfig.seed,
-    })
+        spline: lowerConfig.spline,
+        noise: lowerConfig.noise,
+        customPath: lowerConfig.customPath,
+        anchors: lowerConfig.anchors,
+    }, patterns)
 
     // Flush mode: return raw paths unmodified
     if (mode === 'flush') {
         return { pathA: pathUpper, pathB: pathLower, baseCurve: pathUpper }
     }
 
+    // Puzzle and zipper modes: tabs along the midline of both curves
+    if (isMeshMode(mode)) {
+        const evenXs = sampleXs(width, samples)
+        const upperYs = samplePathY(pathUpper, evenXs)
+        const lowerYs = samplePathY(pathLower, evenXs)
+        const midline = buildPathFromSamples(upperYs.map((y, i) => (y + lowerYs[i]) / 2), evenXs, sharedHeight)
+        const edges = meshAlongPath(midline, {
+            mode, gap, band, intensity, tabs, seed: upperConfig.seed ?? lowerConfig.seed ?? 42, samples, width, height: sharedHeight,
+        })
+        return { ...edges, baseCurve: pathUpper }
+    }
+
     // Sample Y values from each path
-    const upperYs = samplePathY(pathUpper, width, samples)
-    const lowerYs = samplePathY(pathLower, width, samples)
+    const xs = sampleXs(width, samples, [...(upperConfig.anchors ?? []), ...(lowerConfig.anchors ?? [])])
+    const upperYs = samplePathY(pathUpper, xs)
+    const lowerYs = samplePathY(pathLower, xs)
 
     // Compute midline and preserve each curve's character
     const halfGap = gap / 2
     const maxOffset = sharedHeight * Math.max(upperConfig.amplitude, lowerConfig.amplitude) * intensity * 0.5
 
-    const modeFactors: Record<InterlockMode, { a: number; b: number }> = {
+    const modeFactors: Record<OffsetMode, { a: number; b: number }> = {
         interlock: { a: -1, b: 1 },
         overlap: { a: -1.3, b: 0.7 },
         apart: { a: -0.6, b: 1.4 },
@@ -244,7 +435,7 @@ export function generateCrossBoundaryPaths(options: CrossBoundaryOptions): DualP
     const pathAYs: number[] = []
     const pathBYs: number[] = []
 
-    for (let i = 0; i < samples; i++) {
+    for (let i = 0; i < xs.length; i++) {
         const midY = (upperYs[i] + lowerYs[i]) / 2
         const deviationA = (upperYs[i] - midY) * 0.7
         const deviationB = (lowerYs[i] - midY) * 0.7
@@ -253,9 +444,107 @@ export function generateCrossBoundaryPaths(options: CrossBoundaryOptions): DualP
         pathBYs.push(midY + deviationB + factors.b * maxOffset + halfGap)
     }
 
-    // Rebuild smooth paths
-    const pathA = buildPathFromSamples(pathAYs, width, sharedHeight)
-    const pathB = buildPathFromSamples(pathBYs, width, sharedHeight)
+    // Differing patterns can swap sides where their curves cross
+    const bounds = resolveSeparationBounds(gap, band)
+    enforceSeparation(pathAYs, pathBYs, bounds)
+
+    // Each path bent back to its own config's anchors
+    pinToAnchors(pathAYs, pathBYs, upperConfig.anchors, lowerConfig.anchors, {
+        xs, bounds, width, height: sharedHeight, frequencyA: upperConfig.frequency, frequencyB: lowerConfig.frequency,
+    })
+
+    const pathA = buildPathFromSamples(pathAYs, xs, sharedHeight)
+    const pathB = buildPathFromSamples(pathBYs, xs, sharedHeight)
 
     return { pathA, pathB, baseCurve: pathUpper }
 }
+
+
+export interface ConstrainDualPathOptions {
+    /** Smallest distance from pathA down to pathB. Default: 0 */
+    minSeparation?: number
+    /** Largest distance from pathA down to pathB. Default: unlimited */
+    maxSeparation?: number
+    /** Samples along each edge. Default: 20 */
+    samples?: number
+    /** Width the paths were generated at. Default: 1440 */
+    width?: number
+    /** Height the paths were generated at (the baseline). Default: 120 */
+    height?: number
+}
+
+/**
+ * Rebuild two edges from samples, with pathB kept between `minSeparation`
+ * and `maxSeparation` below pathA. Every pair rebuilt with the same sample
+ * count shares one path structure, so dual-path morph frames stay
+ * morphable (see `generateDualPathMorphKeyframes`).
+ */
+export function constrainDualPath(pathA: string, pathB: string, options: ConstrainDualPathOptions = {}): { pathA: string; pathB: string } {
+    const { minSeparation = 0, maxSeparation = Infinity, width = DEFAULT_VIEWBOX_WIDTH, height = 120 } = options
+    const xs = sampleXs(width, resolveSamples(options.samples))
+    const pathAYs = samplePathY(pathA, xs)
+    const pathBYs = samplePathY(pathB, xs)
+    enforceSeparation(pathAYs, pathBYs, { min: minSeparation, max: Math.max(minSeparation, maxSeparation) })
+    return {
+        pathA: buildPathFromSamples(pathAYs, xs, height),
+        pathB: buildPathFromSamples(pathBYs, xs, height),
+    }
+}
+
+export interface ValidateDualPathOptions {
+    /** Smallest allowed distance from pathA down to pathB, e.g. the `gap`. Default: 0 */
+    minSeparation?: number
+    /** Largest allowed distance, e.g. a band's `maxThickness`. Default: unlimited */
+    maxSeparation?: number
+    /** Evenly spaced x positions to check. Default: 200 */
+    samples?: number
+    /** Width the paths were generated at. Default: 1440 */
+    width?: number
+}
+
+/**
+ * Check that pathB stays below pathA across the whole width — where it
+ * doesn't, the two section colors swap in slices — and, with
+ * `maxSeparation`, that an accent band never gets too thick.
+ *
+ * Paths from `generateInterlockPaths` and `generateCrossBoundaryPaths`
+ * always pass with `minSeparation: gap`, `anchors` included. Useful for
+ * paths you build or post-process yourself.
+ *
+ * @example
+ * ```ts
+ * const result = generateCrossBoundaryPaths({ upperConfig, lowerConfig, gap: 8 })
+ * validateDualPath(result, { minSeparation: 8 }).valid // true
+ * ```
+ */
+export function validateDualPath(result: DualPathResult, options: ValidateDualPathOptions = {}): DualPathValidation {
+    const { minSeparation = 0, maxSeparation = Infinity, width = DEFAULT_VIEWBOX_WIDTH } = options
+    const samples = Math.max(2, Math.round(options.samples ?? DEFAULT_VALIDATION_SAMPLES))
+    const geometryA = createPathGeometry(result.pathA, { tolerance: VALIDATION_FLATTEN_TOLERANCE })
+    const geometryB = createPathGeometry(result.pathB, { tolerance: VALIDATION_FLATTEN_TOLERANCE })
+
+    let smallest = Infinity
+    let smallestX = 0
+    let largest = -Infinity
+    const violations: number[] = []
+    for (let i = 0; i < samples; i++) {
+        const x = (i / (samples - 1)) * width
+        const yA = geometryA.getYAtX(x)
+        const yB = geometryB.getYAtX(x)
+        if (yA === null || yB === null) continue
+        const separation = yB - yA
+        if (separation < smallest) {
+            smallest = separation
+            smallestX = x
+        }
+        largest = Math.max(largest, separation)
+        if (separation < minSeparation - SEPARATION_TOLERANCE || separation > maxSeparation + SEPARATION_TOLERANCE) {
+            violations.push(x)
+        }
+    }
+
+    if (smallest === Infinity) {
+        return { valid: false, minSeparation: NaN, minSeparationX: NaN, maxSeparation: NaN, violations: [] }
+    }
+    return { valid: violations.length === 0, minSeparation: smallest, minSeparationX: smallestX, maxSeparation: largest, violations }
+}
@@ -0,0 +1,265 @@
+import { formatNumber } from './path-geometry'
+import type { InterlockTabConfig } from '../types'
+
+// ============================================================
+// Meshed edges — jigsaw tabs and zipper teeth
+// ============================================================
+
+/** Separation modes whose edges mesh with tabs instead of offsetting one curve */
+export type MeshMode = 'puzzle' | 'zipper'
+
+/** Tabs across the width unless `tabs.count` is set */
+const DEFAULT_TAB_COUNT: Record<MeshMode, number> = { puzzle: 6, zipper: 12 }
+
+/** Share of its slot a tab spans unless `tabs.size` is set */
+const DEFAULT_TAB_SIZE = 0.6
+
+/** Segments per quarter turn when sampling tab arcs */
+const ARC_STEPS_PER_QUARTER = 4
+
+/** Jigsaw tab footprint, fillet radius, head center height and overall height per unit of head radius */
+const PUZZLE_FOOTPRINT = 2 * Math.sqrt(1.5 ** 2 - 1)
+const PUZZLE_FILLET = 0.5
+const PUZZLE_HEAD_CENTER = 1.5
+const PUZZLE_HEIGHT = PUZZLE_HEAD_CENTER + 1
+
+/** Smallest cos(half turn) an offset corner is mitered at — longer miters are cut short */
+const MITER_LIMIT = 0.25
+
+/** Zipper corner radius per unit of tooth width */
+const ZIPPER_CORNER = 0.2
+
+export function isMeshMode(mode: string): mode is MeshMode {
+    return mode === 'puzzle' || mode === 'zipper'
+}
+
+export interface MeshEdgesOptions {
+    mode: MeshMode
+    /** Y of the shared center line at `x` */
+    baseY: (x: number) => number
+    width: number
+    height: number
+    /** Distance between the two edges, measured along the edge normal */
+    gap: number
+    /** How far the center line is pulled towards mid-height (0-1), making room for tabs */
+    intensity: number
+    tabs?: InterlockTabConfig
+    /** Seed used when `tabs.seed` isn't set */
+    seed: number
+    /** Samples of the center line across the width, shared out between the tabs */
+    samples: number
+}
+
+interface Point {
+    x: number
+    y: number
+}
+
+/** A point in a tab's local frame: u along the footprint, v away from the center line */
+interface LocalPoint {
+    u: number
+    v: number
+}
+
+/** Samples of an arc in a tab's local frame, from one angle to another */
+function arcPoints(cu: number, cv: number, radius: number, from: number, to: number): LocalPoint[] {
+    const steps = Math.max(1, Math.ceil((Math.abs(to - from) / (Math.PI / 2)) * ARC_STEPS_PER_QUARTER))
+    const points: LocalPoint[] = []
+    for (let i = 0; i <= steps; i++) {
+        const angle = from + ((to - from) * i) / steps
+        points.push({ u: cu + radius * Math.cos(angle), v: cv + radius * Math.sin(angle) })
+    }
+    return points
+}
+
+/** Join profile pieces that share their end points */
+function joinPieces(pieces: LocalPoint[][]): LocalPoint[] {
+    return pieces.flatMap((piece, i) => (i === 0 ? piece : piece.slice(1)))
+}
+
+/**
+ * Jigsaw tab over a footprint of length `length`: a round head on a narrow
+ * neck, blended into the center line by two fillets. Built from tangent
+ * arcs only, with radii that keep both offsets free of loops.
+ */
+function puzzleProfile(length: number): LocalPoint[] {
+    const r = length / PUZZLE_FOOTPRINT
+    const f = r * PUZZLE_FILLET
+    const hc = r * PUZZLE_HEAD_CENTER
+    const d = length / 2
+    const theta = Math.atan2(hc - f, d)
+    return joinPieces([
+        arcPoints(0, f, f, -Math.PI / 2, theta),
+        arcPoints(d, hc, r, Math.PI + theta, -theta),
+        arcPoints(length, f, f, Math.PI - theta, (3 * Math.PI) / 2),
+    ])
+}
+
+/** Zipper tooth: a rounded rectangle `length` wide and `toothHeight` tall */
+function zipperProfile(length: number, toothHeight: number): LocalPoint[] {
+    const c = Math.min(length * ZIPPER_CORNER, toothHeight / 2)
+    return joinPieces([
+        arcPoints(0, c, c, -Math.PI / 2, 0),
+        arcPoints(2 * c, toothHeight - c, c, Math.PI, Math.PI / 2),
+        arcPoints(length - 2 * c, toothHeight - c, c, Math.PI / 2, 0),
+        arcPoints(length, c, c, Math.PI, (3 * Math.PI) / 2),
+    ])
+}
+
+/** Height of the smallest jigsaw tab whose fillets stay rounder than half the gap and whose neck stays wider than the gap */
+function minimumPuzzleHeight(gap: number): number {
+    return (gap * 1.5 + 2) * PUZZLE_HEIGHT
+}
+
+/** Widest footprint whose tab fits in `room` */
+function fittedFootprint(mode: MeshMode, room: number): number {
+    if (mode === 'puzzle') return (room / PUZZLE_HEIGHT) * PUZZLE_FOOTPRINT
+    // Zipper teeth are cut to the room, but stay taller than their two corners
+    return room / (2 * ZIPPER_CORNER)
+}
+
+/** Narrowest footprint whose offsets stay free of loops at this gap */
+function minimumFootprint(mode: MeshMode, gap: number): number {
+    if (mode === 'puzzle') return (minimumPuzzleHeight(gap) / PUZZLE_HEIGHT) * PUZZLE_FOOTPRINT
+    return (gap / 2 + 1) / ZIPPER_CORNER
+}
+
+/** Zipper tooth height: 0.8 of its width, cut to the room but taller than its corners */
+function zipperHeight(footprint: number, room: number): number {
+    return Math.max(2 * footprint * ZIPPER_CORNER, Math.min(footprint * 0.8, room))
+}
+
+/**
+ * Pseudo-random number generator (deterministic from seed).
+ */
+function seededRandom(seed: number, index: number): number {
+    const x = Math.sin(seed * 9301 + index * 49297) * 10000
+    return x - Math.floor(x)
+}
+
+/**
+ * The shared center line of two meshing edges: the base curve with a tab
+ * (puzzle) or tooth (zipper) in every slot. Tabs are shrunk to fit the wave
+ * height, but never below what the gap needs for the offsets to stay
+ * clean — a tab without that much room is left flat. Every call with the same count and samples returns the same number
+ * of points, so morph frames share one path structure.
+ */
+function meshCenterLine(options: MeshEdgesOptions): Point[] {
+    const { mode, width, height, gap, tabs = {} } = options
+    const pull = Math.min(1, Math.max(0, options.intensity))
+    const baseY = (x: number) => {
+        const y = options.baseY(x)
+        return y + (height / 2 - y) * pull
+    }
+    const count = Math.max(1, Math.round(tabs.count ?? DEFAULT_TAB_COUNT[mode]))
+    const samplesPerGap = Math.max(1, Math.round(options.samples / (count + 1)))
+    const size = Math.min(1, Math.max(0.2, tabs.size ?? DEFAULT_TAB_SIZE))
+    const seed = tabs.seed ?? options.seed
+    const slot = width / count
+    // Distance from the center line to the frame edge a tab points at, less the offset
+    const roomAt = (xs: number[], up: boolean) =>
+        Math.min(...xs.map((x) => (up ? baseY(x) : height - baseY(x)))) - gap / 2
+
+    const points: Point[] = []
+    const addGap = (fromX: number, toX: number, first: boolean) => {
+        // Interior points only — the tabs own their end points
+        for (let i = first ? 0 : 1; i <= samplesPerGap; i++) {
+            const x = fromX + ((toX - fromX) * i) / (samplesPerGap + 1)
+            points.push({ x, y: baseY(x) })
+        }
+    }
+
+    let previousEnd = 0
+    for (let k = 0; k < count; k++) {
+        const center = (k + 0.5) * slot
+        let up = mode === 'zipper' ? k % 2 === 0 : seededRandom(seed, k) < 0.5
+        // A jigsaw tab can point either way — turn it towards the room it needs
+        if (mode === 'puzzle' && roomAt([center], up) < minimumPuzzleHeight(gap)) up = roomAt([center], true) > roomAt([center], false)
+        const jitter = mode === 'puzzle' ? 0.85 + seededRandom(seed + 1, k) * 0.15 : 1
+
+        // Footprint along x: the requested share of the slot, shrunk until the tab
+        // fits between the center line under its footprint and the frame
+        let footprint = Math.min(slot * size * jitter, slot * 0.95)
+        for (let pass = 0; pass < 2; pass++) {
+            footprint = Math.min(footprint, fittedFootprint(mode, roomAt([center - footprint / 2, center, center + footprint / 2], up)))
+        }
+        footprint = Math.min(slot * 0.95, Math.max(footprint, minimumFootprint(mode, gap)))
+        const room = roomAt([center - footprint / 2, center, center + footprint / 2], up)
+        const toothHeight = mode === 'zipper' ? zipperHeight(footprint, room) : 0
+        // Too little room for the smallest tab this gap allows: keep the points, flat
+        const flat = fittedFootprint(mode, room) < footprint * 0.999
+
+        const startX = center - footprint / 2
+        const endX = center + footprint / 2
+        addGap(previousEnd, startX, k === 0)
+        previousEnd = endX
+
+        // Lay the profile along the chord between its end points on the center line
+        const startY = baseY(startX)
+        const chordX = footprint
+        const chordY = baseY(endX) - startY
+        const chord = Math.hypot(chordX, chordY)
+        const tx = chordX / chord
+        const ty = chordY / chord
+        const side = up ? 1 : -1
+        const tab = mode === 'puzzle' ? puzzleProfile(chord) : zipperProfile(chord, toothHeight)
+        const profile = flat ? tab.map((_, i) => ({ u: (chord * i) / (tab.length - 1), v: 0 })) : tab
+        for (const { u, v } of profile) {
+            // Local "up" is the left normal of the chord: (ty, -tx) in screen coordinates
+            points.push({ x: startX + u * tx + side * v * ty, y: startY + u * ty - side * v * tx })
+        }
+    }
+    addGap(previousEnd, width, false)
+    points.push({ x: width, y: baseY(width) })
+
+    return points
+}
+
+/**
+ * Move a polyline `distance` to its left (up, for a left-to-right edge).
+ * Every segment moves exactly `distance` along its normal and neighbours
+ * meet at their miter point, so the offset stays parallel even at corners.
+ */
+function offsetPolyline(points: Point[], distance: number): Point[] {
+    const normals = points.slice(1).map((p, i) => {
+        const dx = p.x - points[i].x
+        const dy = p.y - points[i].y
+        const length = Math.hypot(dx, dy) || 1
+        return { x: dy / length, y: -dx / length }
+    })
+    return points.map((p, i) => {
+        const before = normals[Math.max(0, i - 1)]
+        const after = normals[Math.min(normals.length - 1, i)]
+        const mx = before.x + after.x
+        const my = before.y + after.y
+        // cos of half the turn; the limit keeps hairpin corners from spiking
+        const cosHalf = Math.max(MITER_LIMIT, Math.hypot(mx, my) / 2)
+        const length = Math.hypot(mx, my) || 1
+        const scale = distance / cosHalf / length
+        return { x: p.x + mx * scale, y: p.y + my * scale }
+    })
+}
+
+/** Close an edge into the standard wave frame down to the baseline */
+function buildEdgePath(points: { x: number; y: number }[], width: number, height: number): string {
+    const parts = [`M -20 ${height}`, `L -20 ${formatNumber(points[0].y)}`]
+    for (const { x, y } of points) parts.push(`L ${formatNumber(x)} ${formatNumber(y)}`)
+    parts.push(`L ${width + 20} ${formatNumber(points[points.length - 1].y)}`, `L ${width + 20} ${height}`, 'Z')
+    return parts.join(' ')
+}
+
+/**
+ * Two edges that mesh like jigsaw pieces ('puzzle') or zipper teeth
+ * ('zipper'): both are the same tabbed center line, moved `gap / 2` up and
+ * down along its normals, so they fit into each other exactly `gap` apart.
+ * Tabs can overhang (a jigsaw head is wider than its neck), so the paths
+ * aren't functions of x.
+ */
+export function generateMeshedEdges(options: MeshEdgesOptions): { pathA: string; pathB: string } {
+    const { width, height, gap } = options
+    const center = meshCenterLine(options)
+    return {
+        pathA: buildEdgePath(offsetPolyline(center, gap / 2), width, height),
+        pathB: buildEdgePath(offsetPolyline(center, -gap / 2), width, height),
+    }
+}
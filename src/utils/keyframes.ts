@@ -1,5 +1,9 @@
-import type { PatternName } from '../types'
+import type { PatternName, PatternLookup, SplineConfig, NoiseConfig, WaveAnchor, WaveSeparationConfig } from '../types'
 import { generatePath } from './path-generator'
+import { matchPathStructure } from './path-morph'
+import { constrainDualPath, meshAlongPath, resolveSeparationBounds } from './interlock-generator'
+import { isMeshMode } from './interlock-tabs'
+import { DEFAULT_VIEWBOX_WIDTH, DEFAULT_SEPARATION } from '../constants'
 
 // ============================================================
 // Pure CSS Keyframe Generators (no React dependency)
@@ -104,31 +108,78 @@ export interface PathKeyframeOptions {
     phaseRange: number
     amplitudeVariation: number
     pattern: PatternName
-    config: { height: number; amplitude: number; frequency: number; phase?: number; seed?: number }
+    config: {
+        /** Width to generate frames at. Default: 1440 */
+        width?: number
+        height: number
+        amplitude: number
+        frequency: number
+        phase?: number
+        seed?: number
+        /** Generate tileable frames (e.g. for wrapping around a circle) */
+        periodic?: boolean
+        /** Anchors for the 'spline' pattern */
+        spline?: SplineConfig
+        /** Fractal noise settings for the 'noise' pattern */
+        noise?: NoiseConfig
+        /** Path for the 'custom' pattern */
+        customPath?: string
+        /** Points every frame is forced through */
+        anchors?: WaveAnchor[]
+        /** Scoped pattern generators checked before the global registry */
+        patterns?: PatternLookup
+    }
+}
+
+/** Noise time travelled per cycle, per unit of animation phase range (rounded to whole lattice cells) */
+const NOISE_LOOP_PER_PHASE = 4
+
+/**
+ * Pattern config for one animation frame at loop position `t` (0-1).
+ * Noise waves travel once around a time loop (the field repeats along
+ * time, so the last frame meets the first without reversing); other
+ * patterns swing their phase back and forth.
+ */
+function frameConfig(
+    config: Omit<PathKeyframeOptions['config'], 'patterns'>,
+    pattern: PatternName,
+    t: number,
+    phaseRange: number,
+    amplitudeVariation: number,
+): Omit<PathKeyframeOptions['config'], 'patterns'> {
+    const swing = Math.sin(t * Math.PI * 2)
+    const amplitude = config.amplitude * (1 + swing * amplitudeVariation)
+    if (pattern === 'noise') {
+        const loop = Math.max(1, Math.round(phaseRange * NOISE_LOOP_PER_PHASE))
+        const time = (config.noise?.time ?? 0) + t * loop
+        return { ...config, amplitude, noise: { ...config.noise, time, loop } }
+    }
+    return { ...config, amplitude, phase: (config.phase ?? 0) + swing * phaseRange }
 }
 
 /**
  * Generate an array of SVG path strings for keyframe interpolation.
- * Each frame shifts phase and varies amplitude. First and last frame are identical (loopable).
+ * Each frame shifts phase (or advances noise time) and varies amplitude.
+ * First and last frame are identical (loopable). Frames are brought to one
+ * command structure (see matchPathStructure) so `d: path()` can tween them.
  */
 export function generatePathKeyframes(options: PathKeyframeOptions): string[] {
     const { frameCount, phaseRange, amplitudeVariation, pattern, config } = options
+    const { patterns, ...patternConfig } = config
     const frames: string[] = []
 
     for (let i = 0; i < frameCount; i++) {
         // Loop: 0 and last frame are identical
         const t = i === frameCount - 1 ? 0 : i / (frameCount - 1)
-        const phaseShift = Math.sin(t * Math.PI * 2) * phaseRange
-        const ampFactor = 1 + Math.sin(t * Math.PI * 2) * amplitudeVariation
-
-        frames.push(generatePath(pattern === 'custom' ? 'smooth' : pattern, {
-            ...config,
-            phase: (config.phase ?? 0) + phaseShift,
-            amplitude: config.amplitude * ampFactor,
-        }))
+
+        frames.push(generatePath(
+            pattern === 'custom' && !config.customPath ? 'smooth' : pattern,
+            frameConfig(patternConfig, pattern, t, phaseRange, amplitudeVariation),
+            patterns,
+        ))
     }
 
-    return frames
+    return matchPathStructure(frames)
 }
 
 /**
@@ -230,7 +281,13 @@ export function ripplePathMorphKeyframes(id: string, basePath: string, pattern:
 
 /**
  * Generate coordinated path-morphing keyframes for dual-path interlock mode.
- * Both paths use identical phase/amplitude parameters per frame to stay in sync.
+ * Both paths use identical phase/amplitude parameters per frame to stay in sync,
+ * and each path's frames share one command structure.
+ *
+ * Every frame pair is rebuilt so pathB stays at least `gap` below pathA
+ * (and, with `separation.band`, the accent band keeps its thickness bounds)
+ * while it morphs. With the 'puzzle' and 'zipper' modes, every frame is
+ * tabbed, so the edges keep meshing. 'flush' frames are left as generated.
  */
 export function generateDualPathMorphKeyframes(
     idA: string,
@@ -240,6 +297,7 @@ export function generateDualPathMorphKeyframes(
     animName: string,
     pattern: PatternName,
     config: Partial<PathKeyframeOptions['config']>,
+    separation?: Partial<Pick<WaveSeparationConfig, 'mode' | 'intensity' | 'gap' | 'band' | 'samples' | 'tabs'>>,
 ): { cssA: string; cssB: string } {
     const gen = PATH_MORPH_GENERATORS[animName]
     if (!gen) return { cssA: '', cssB: '' }
@@ -256,7 +314,7 @@ export function generateDualPathMorphKeyframes(
     }
 
     const params = paramMap[animName] ?? { frameCount: 5, phaseRange: 0.3, amplitudeVariation: 0.05 }
-    const cfg = { height: 120, amplitude: 0.5, frequency: 1, ...config }
+    const { patterns, ...cfg } = { height: 120, amplitude: 0.5, frequency: 1, ...config }
 
     // Generate frames for both paths using identical t values
     const framesA: string[] = []
@@ -264,28 +322,77 @@ export function generateDualPathMorphKeyframes(
 
     for (let i = 0; i < params.frameCount; i++) {
         const t = i === params.frameCount - 1 ? 0 : i / (params.frameCount - 1)
-        const phaseShift = Math.sin(t * Math.PI * 2) * params.phaseRange
-        const ampFactor = 1 + Math.sin(t * Math.PI * 2) * params.amplitudeVariation
 
-        const frameConfig = {
-            ...cfg,
-            phase: (cfg.phase ?? 0) + phaseShift,
-            amplitude: cfg.amplitude * ampFactor,
-        }
+        const frame = frameConfig(cfg, pattern, t, params.phaseRange, params.amplitudeVariation)
+        const framePattern = pattern === 'custom' && !frame.customPath ? 'smooth' : pattern
+
+        framesA.push(generatePath(framePattern, frame, patterns))
+        framesB.push(generatePath(framePattern, {
+            ...frame,
+            seed: (frame.seed ?? 0) + 1000, // Different seed for path B but same anim params
+        }, patterns))
+    }
 
-        framesA.push(generatePath(pattern === 'custom' ? 'smooth' : pattern, frameConfig))
-        framesB.push(generatePath(pattern === 'custom' ? 'smooth' : pattern, {
-            ...frameConfig,
-            seed: (frameConfig.seed ?? 0) + 1000, // Different seed for path B but same anim params
-        }))
+    if (separation?.mode && isMeshMode(separation.mode)) {
+        // Tabs ride on each frame of the shared edge, so both sides keep meshing
+        for (let i = 0; i < framesA.length; i++) {
+            const edges = meshAlongPath(framesA[i], {
+                mode: separation.mode,
+                gap: separation.gap ?? 0,
+                band: separation.band,
+                intensity: separation.intensity ?? DEFAULT_SEPARATION.intensity,
+                tabs: separation.tabs,
+                seed: cfg.seed ?? 42,
+                samples: separation.samples,
+                width: cfg.width ?? DEFAULT_VIEWBOX_WIDTH,
+                height: cfg.height,
+            })
+            framesA[i] = edges.pathA
+            framesB[i] = edges.pathB
+        }
+    } else if (separation?.mode !== 'flush') {
+        // Without this the edges sit on top of each other, or cross and swap colors
+        const { min, max } = resolveSeparationBounds(separation?.gap ?? 0, separation?.band)
+        for (let i = 0; i < framesA.length; i++) {
+            const constrained = constrainDualPath(framesA[i], framesB[i], {
+                minSeparation: min,
+                maxSeparation: max,
+                samples: separation?.samples,
+                width: cfg.width,
+                height: cfg.height,
+            })
+            framesA[i] = constrained.pathA
+            framesB[i] = constrained.pathB
+        }
     }
 
     return {
-        cssA: buildPathKeyframesCSS(idA, framesA),
-        cssB: buildPathKeyframesCSS(idB, framesB),
+        cssA: buildPathKeyframesCSS(idA, matchPathStructure(framesA)),
+        cssB: buildPathKeyframesCSS(idB, matchPathStructure(framesB)),
     }
 }
 
+// ============================================================
+// Tile Scroll Keyframes (periodic paths)
+// ============================================================
+
+/** Animations that scroll a tiled periodic path instead of morphing it */
+export const TILE_SCROLL_ANIMATIONS: ReadonlySet<string> = new Set(['flow', 'drift'])
+
+/**
+ * Scroll a tiled periodic path (see tilePeriodicPath) left by one tile.
+ * The path repeats every `width` units, so the loop has no visible seam.
+ * Use with a linear timing function. Pass axis 'y' for transposed
+ * (vertical) paths, which scroll upwards instead.
+ */
+export function tileScrollKeyframes(id: string, width: number = DEFAULT_VIEWBOX_WIDTH, axis: 'x' | 'y' = 'x'): string {
+    const translate = axis === 'y' ? 'translateY' : 'translateX'
+    return `@keyframes ${id} {
+  from { transform: ${translate}(0); }
+  to   { transform: ${translate}(-${width}px); }
+}`
+}
+
 // ============================================================
 // Path Morph Registry (d: path() interpolation)
 // ============================================================
@@ -0,0 +1,108 @@
+// ============================================================
+// Seeded Gradient Noise
+// ============================================================
+
+/**
+ * 2D gradient noise function returning values in roughly [-1, 1].
+ * Pass `periodX` / `periodY` to make the noise repeat every that many
+ * units along x / y.
+ */
+export type Noise2D = (x: number, y: number, periodX?: number, periodY?: number) => number
+
+/** Options for fractal (multi-octave) noise */
+export interface FractalNoiseOptions {
+    /** Number of noise layers summed together */
+    octaves: number
+    /** Frequency multiplier between octaves */
+    lacunarity: number
+    /** Amplitude multiplier between octaves */
+    persistence: number
+    /** Repeat every `period` units along x (octave frequencies round to whole repeats) */
+    period?: number
+    /** Repeat every `periodY` units along y, rounded the same way */
+    periodY?: number
+}
+
+const GRADIENTS: ReadonlyArray<readonly [number, number]> = [
+    [1, 1], [-1, 1], [1, -1], [-1, -1],
+    [1, 0], [-1, 0], [0, 1], [0, -1],
+]
+
+/** Deterministic 32-bit PRNG (mulberry32) */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10)
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+
+/**
+ * Create seeded 2D Perlin noise. The same seed always yields the same field;
+ * different seeds shuffle the gradient lattice independently.
+ */
+export function createNoise2D(seed: number = 0): Noise2D {
+    const random = createRandom(Math.floor(seed * 2654435761))
+    const perm = Array.from({ length: 256 }, (_, i) => i)
+    for (let i = 255; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        ;[perm[i], perm[j]] = [perm[j], perm[i]]
+    }
+    const table = [...perm, ...perm]
+
+    const wrap = (i: number, period: number | undefined) => (period ? ((i % period) + period) % period : i) & 255
+
+    return (x, y, periodX, periodY) => {
+        const x0 = Math.floor(x)
+        const y0 = Math.floor(y)
+        const fx = x - x0
+        const fy = y - y0
+
+        const corner = (i: number, j: number, dx: number, dy: number) => {
+            const [gx, gy] = GRADIENTS[table[table[wrap(i, periodX)] + wrap(j, periodY)] & 7]
+            return gx * dx + gy * dy
+        }
+
+        const u = fade(fx)
+        return lerp(
+            lerp(corner(x0, y0, fx, fy), corner(x0 + 1, y0, fx - 1, fy), u),
+            lerp(corner(x0, y0 + 1, fx, fy - 1), corner(x0 + 1, y0 + 1, fx - 1, fy - 1), u),
+            fade(fy),
+        )
+    }
+}
+
+/**
+ * Sum octaves of `noise`, each `lacunarity` times finer and `persistence`
+ * times weaker than the last. The result is normalized to the range of a
+ * single octave.
+ */
+export function fractalNoise(noise: Noise2D, x: number, y: number, options: FractalNoiseOptions): number {
+    const { octaves, lacunarity, persistence, period, periodY } = options
+    let amplitude = 1
+    let frequency = 1
+    let sum = 0
+    let total = 0
+
+    for (let octave = 0; octave < octaves; octave++) {
+        // Periodic noise needs a whole number of lattice cells per repeat
+        const octavePeriod = period ? Math.max(1, Math.round(period * frequency)) : undefined
+        const scale = period && octavePeriod ? octavePeriod / period : frequency
+        const octavePeriodY = periodY ? Math.max(1, Math.round(periodY * frequency)) : undefined
+        const scaleY = periodY && octavePeriodY ? octavePeriodY / periodY : frequency
+        // Offset each octave along y so the layers are uncorrelated and never
+        // sit on a lattice row (where Perlin noise is zero at every integer x)
+        sum += amplitude * noise(x * scale, y * scaleY + (octave + 0.5) * 31.7, octavePeriod, octavePeriodY)
+        total += amplitude
+        amplitude *= persistence
+        frequency *= lacunarity
+    }
+
+    return total > 0 ? sum / total : 0
+}
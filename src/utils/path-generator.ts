@@ -1,5 +1,10 @@
-import type { PatternConfig, PatternName } from '../types'
+import type { PatternConfig, PatternName, PatternLookup } from '../types'
 import { PATTERN_REGISTRY, DEFAULT_VIEWBOX_WIDTH } from '../constants'
+import { getPatternNames, resolvePatternGenerator } from './pattern-registry'
+import { fitCustomPath } from './svg-import'
+import { applyAnchors } from './anchors'
+import { isShapeExpression, resolveShapeExpression } from './shape-expression'
+import { parsePath, toAbsoluteCommands, normalizePath, serializePath, formatNumber } from './path-geometry'
 
 // ============================================================
 // Path Generation
@@ -8,13 +13,15 @@ import { PATTERN_REGISTRY, DEFAULT_VIEWBOX_WIDTH } from '../constants'
 /**
  * Generate an SVG path string for a given pattern.
  *
- * @param pattern - Pattern name or custom generator
+ * @param pattern - Built-in or registered pattern name, or a shape expression (see `parseShapeExpression`)
  * @param config - Partial config (defaults are applied)
+ * @param patterns - Scoped pattern generators checked before the global registry
  * @returns SVG path string
  */
 export function generatePath(
     pattern: PatternName,
     config: Partial<PatternConfig> = {},
+    patterns?: PatternLookup,
 ): string {
     const fullConfig: PatternConfig = {
         width: config.width ?? DEFAULT_VIEWBOX_WIDTH,
@@ -24,125 +31,208 @@ export function generatePath(
         phase: config.phase ?? 0,
         mirror: config.mirror ?? false,
         seed: config.seed,
+        periodic: config.periodic ?? false,
+        spline: config.spline,
+        noise: config.noise,
+        customPath: config.customPath,
+        anchors: config.anchors,
     }
-
-    // Custom path passthrough
-    if (pattern === 'custom') {
-        return '' // Custom paths are handled by the customPath prop
-    }
+    // Anchors deform the finished wave, after mirroring
+    const anchored = (path: string) => applyAnchors(path, fullConfig.anchors, fullConfig)
 
     // Layered generates multiple paths — use smooth as base
     if (pattern === 'layered') {
-        return PATTERN_REGISTRY['smooth'](fullConfig)
+        return anchored(PATTERN_REGISTRY['smooth'](fullConfig))
     }
 
-    const generator = PATTERN_REGISTRY[pattern]
-    if (!generator) {
-        const available = Object.keys(PATTERN_REGISTRY).join(', ')
-        console.warn(`[wavy-bavy] Unknown pattern "${pattern}", falling back to "smooth". Available patterns: ${available}`)
-        return PATTERN_REGISTRY['smooth'](fullConfig)
+    let path: string
+    if (pattern === 'custom') {
+        // Without a customPath there is nothing to draw
+        if (!fullConfig.customPath) return ''
+        try {
+            path = fitCustomPath(fullConfig.customPath, fullConfig.width, fullConfig.height)
+        } catch (error) {
+            // A bad customPath must not take the page down with it
+            console.warn(`${(error as Error).message} in customPath\nFalling back to "smooth".`)
+            path = PATTERN_REGISTRY['smooth'](fullConfig)
+        }
+    } else {
+        const generator = resolvePatternGenerator(pattern, patterns) ?? resolveShapeExpression(pattern, patterns)
+        if (!generator) {
+            // Invalid expressions have already warned with their parse error
+            if (!isShapeExpression(pattern)) {
+                const available = getPatternNames(patterns).join(', ')
+                console.warn(`[wavy-bavy] Unknown pattern "${pattern}", falling back to "smooth". Available patterns: ${available}`)
+            }
+            return anchored(PATTERN_REGISTRY['smooth'](fullConfig))
+        }
+        path = generator(fullConfig)
     }
 
-    const path = generator(fullConfig)
-
     // Apply mirror transform
     if (fullConfig.mirror) {
-        return mirrorPath(path, fullConfig.width)
+        return anchored(mirrorPath(path, fullConfig.width))
     }
 
-    return path
+    return anchored(path)
 }
 
 /**
  * Flip a wave path vertically (for "up" direction waves).
  * Transforms a downward wave into an upward wave by inverting Y coordinates.
  *
- * Handles M, L, C, S, Q, T, and A commands.
- * Relative commands (m, l, c, s, q, t) negate Y; arc commands invert sweep flag.
+ * Handles every path command. Relative commands negate Y; arc commands
+ * invert the sweep flag. Command letters (and thus relative/absolute form)
+ * are preserved.
  */
 export function flipPathVertically(path: string, height: number): string {
-    // Tokenize the path into commands + coordinate groups
-    return path.replace(
-        /([MLCSQTAHVZmlcsqtahvz])([^MLCSQTAHVZmlcsqtahvz]*)/g,
-        (_match, cmd: string, args: string) => {
-            const nums = args.trim().split(/[\s,]+/).filter(Boolean).map(Number)
-            if (nums.length === 0 || nums.some(isNaN)) return `${cmd}${args}`
-
-            const upper = cmd.toUpperCase()
-            const isRelative = cmd !== upper
-
-            switch (upper) {
-                case 'M':
-                case 'L':
-                case 'T':
-                    // (x, y) pairs
-                    for (let i = 1; i < nums.length; i += 2) {
-                        nums[i] = isRelative ? -nums[i] : height - nums[i]
-                    }
-                    break
-
-                case 'H':
-                    // Horizontal — no Y to flip
-                    break
-
-                case 'V':
-                    // Vertical — single Y value
-                    for (let i = 0; i < nums.length; i++) {
-                        nums[i] = isRelative ? -nums[i] : height - nums[i]
-                    }
-                    break
-
-                case 'C':
-                    // Cubic Bézier: (x1, y1, x2, y2, x, y)
-                    for (let i = 0; i < nums.length; i++) {
-                        if (i % 2 === 1) {
-                            nums[i] = isRelative ? -nums[i] : height - nums[i]
-                        }
-                    }
-                    break
-
-                case 'S':
-                case 'Q':
-                    // Smooth cubic / Quadratic: (x2, y2, x, y) or (x1, y1, x, y)
-                    for (let i = 0; i < nums.length; i++) {
-                        if (i % 2 === 1) {
-                            nums[i] = isRelative ? -nums[i] : height - nums[i]
-                        }
-                    }
-                    break
-
-                case 'A':
-                    // Arc: (rx, ry, rotation, large-arc, sweep, x, y)
-                    for (let g = 0; g < nums.length; g += 7) {
-                        // Invert sweep flag (index 4 within each group)
-                        nums[g + 4] = nums[g + 4] === 1 ? 0 : 1
-                        // Flip end Y (index 6)
-                        nums[g + 6] = isRelative ? -nums[g + 6] : height - nums[g + 6]
-                    }
-                    break
-
-                case 'Z':
-                    break
+    return parsePath(path).map(({ type, values }, index) => {
+        const nums = values.slice()
+        const upper = type.toUpperCase()
+        // A leading relative moveto is absolute per spec
+        const isRelative = type !== upper && index > 0
+        const flipY = (y: number) => (isRelative ? -y : height - y)
+
+        switch (upper) {
+            case 'M':
+            case 'L':
+            case 'T':
+            case 'C':
+            case 'S':
+            case 'Q':
+                // (x, y) pairs — flip every Y
+                for (let i = 1; i < nums.length; i += 2) nums[i] = flipY(nums[i])
+                break
+
+            case 'V':
+                // Vertical — single Y value
+                nums[0] = flipY(nums[0])
+                break
+
+            case 'A':
+                // Arc: (rx, ry, rotation, large-arc, sweep, x, y)
+                nums[4] = nums[4] === 1 ? 0 : 1
+                nums[6] = flipY(nums[6])
+                break
+
+            // H (no Y) and Z (no args) are unchanged
+        }
+
+        return `${type}${nums.map((n) => formatNumber(n)).join(' ')}`
+    }).join(' ')
+}
+
+/**
+ * Swap the X and Y axes of a path (reflect across the diagonal), turning a
+ * horizontal wave edge into a vertical one: the area above the wave ends up
+ * left of it, the area below ends up right of it.
+ *
+ * Handles every path command. H and V swap; arcs swap radii axes, mirror
+ * their rotation and invert the sweep flag (the reflection reverses the
+ * winding). Command letters keep their relative/absolute case.
+ */
+export function transposePath(path: string): string {
+    return parsePath(path).map(({ type, values }) => {
+        const nums = values.slice()
+        const upper = type.toUpperCase()
+        let letter = type
+
+        switch (upper) {
+            case 'H':
+            case 'V': {
+                // Horizontal ↔ vertical, keeping the relative/absolute case
+                const swapped = upper === 'H' ? 'V' : 'H'
+                letter = type === upper ? swapped : swapped.toLowerCase()
+                break
             }
+            case 'A':
+                // Arc: (rx, ry, rotation, large-arc, sweep, x, y)
+                nums[2] = 90 - nums[2]
+                nums[4] = nums[4] === 1 ? 0 : 1
+                ;[nums[5], nums[6]] = [nums[6], nums[5]]
+                break
+            case 'Z':
+                break
+            default:
+                // (x, y) pairs — swap every pair
+                for (let i = 0; i + 1 < nums.length; i += 2) [nums[i], nums[i + 1]] = [nums[i + 1], nums[i]]
+        }
 
-            return `${cmd}${nums.join(' ')}`
-        },
-    )
+        return `${letter}${nums.map((n) => formatNumber(n)).join(' ')}`
+    }).join(' ')
 }
 
 /**
- * Mirror a path horizontally
+ * Mirror a path horizontally around the center of the viewBox.
+ * Arc sweep flags are inverted so arcs keep bulging the same way.
  */
 function mirrorPath(path: string, width: number): string {
-    // For mirroring, we reverse the path direction
-    // Simple approach: reflect X coordinates around center
-    return path.replace(
-        /(-?\d+\.?\d*)\s+(-?\d+\.?\d*)/g,
-        (_match, x: string, y: string) => {
-            const mirroredX = width - parseFloat(x)
-            return `${mirroredX} ${y}`
-        },
-    )
+    const mirrored = toAbsoluteCommands(parsePath(path)).map(({ type, values }) => {
+        const nums = values.slice()
+
+        switch (type) {
+            case 'H':
+                nums[0] = width - nums[0]
+                break
+            case 'A':
+                nums[4] = nums[4] === 1 ? 0 : 1
+                nums[5] = width - nums[5]
+                break
+            case 'V':
+            case 'Z':
+                break
+            default:
+                // (x, y) pairs — reflect every X
+                for (let i = 0; i < nums.length; i += 2) nums[i] = width - nums[i]
+        }
+
+        return { type, values: nums }
+    })
+
+    return serializePath(mirrored)
+}
+
+/**
+ * Repeat a periodic path (generated with `periodic: true`) side by side so it
+ * can scroll horizontally by one full tile and loop without a seam.
+ * The result spans x = -width to 3 × width and keeps the library's path frame.
+ *
+ * @param path - Periodic path: `M -20 {h} L -20 {y'} L 0 {y} [tile...] L {w + 20} {y''} L {w + 20} {h} Z`
+ * @param width - Tile width. Default: 1440
+ * @returns Tiled path, or null if the path is not a periodic tile
+ */
+export function tilePeriodicPath(path: string, width: number = DEFAULT_VIEWBOX_WIDTH): string | null {
+    let commands
+    try {
+        commands = normalizePath(path)
+    } catch {
+        return null
+    }
+    if (commands.length < 7 || commands[0].type !== 'M' || commands[commands.length - 1].type !== 'Z') return null
+
+    const height = commands[0].values[1]
+    const endOf = (values: number[]) => values.slice(-2)
+    const [startX, startY] = endOf(commands[2].values)
+    const tile = commands.slice(3, -3)
+    const [endX, endY] = endOf(tile[tile.length - 1].values)
+
+    // The tile must span exactly one width (either direction — mirrored tiles run right to left)
+    const step = endX - startX
+    if (Math.abs(Math.abs(step) - width) > 0.01 || Math.abs(endY - startY) > 0.01) return null
+
+    const offsets = step > 0 ? [-width, 0, width, 2 * width] : [2 * width, width, 0, -width]
+    const shifted = offsets.flatMap((offset) => tile.map(({ type, values }) => ({
+        type,
+        values: values.map((v, i) => (i % 2 === 0 ? v + offset : v)),
+    })))
+
+    return serializePath([
+        { type: 'M', values: [startX + offsets[0], height] },
+        { type: 'L', values: [startX + offsets[0], startY] },
+        ...shifted,
+        { type: 'L', values: [endX + offsets[offsets.length - 1], height] },
+        { type: 'Z', values: [] },
+    ])
 }
 
 /**
@@ -152,12 +242,14 @@ function mirrorPath(path: string, width: number): string {
  * @param basePattern - The base pattern to layer
  * @param layers - Number of layers
  * @param config - Base config
+ * @param patterns - Scoped pattern generators checked before the global registry
  * @returns Array of path strings
  */
 export function generateLayeredPaths(
     basePattern: PatternName,
     layers: number,
     config: Partial<PatternConfig> = {},
+    patterns?: PatternLookup,
 ): string[] {
     const paths: string[] = []
 
@@ -167,8 +259,52 @@ export function generateLayeredPaths(
             amplitude: (config.amplitude ?? 0.5) * (1 - i * 0.15),
             phase: (config.phase ?? 0) + i * 0.2,
         }
-        paths.push(generatePath(basePattern === 'layered' ? 'smooth' : basePattern, layerConfig))
+        paths.push(generatePath(basePattern === 'layered' ? 'smooth' : basePattern, layerConfig, patterns))
     }
 
     return paths
 }
+
+/**
+ * Generate nested waves that step down through one boundary, back to front.
+ * Band `i` of `n` is drawn `(n - i) / n` as tall on the same baseline, so the
+ * back band fills the whole height and each band in front of it sits lower.
+ * Every band shifts its phase and seed so the edges don't run parallel.
+ *
+ * @param basePattern - The pattern every band is drawn with
+ * @param bands - Number of bands (whole number, at least 1)
+ * @param config - Base config; `height` is the boundary height shared by all bands
+ * @param patterns - Scoped pattern generators checked before the global registry
+ * @returns Array of path strings, back band first
+ */
+export function generateTransitionBands(
+    basePattern: PatternName,
+    bands: number,
+    config: Partial<PatternConfig> = {},
+    patterns?: PatternLookup,
+): string[] {
+    const count = Math.max(1, Math.floor(bands))
+    const height = config.height ?? 120
+    const paths: string[] = []
+
+    for (let i = 0; i < count; i++) {
+        const bandHeight = (height * (count - i)) / count
+        const path = generatePath(basePattern, {
+            ...config,
+            height: bandHeight,
+            phase: (config.phase ?? 0) + i * 0.25,
+            ...(config.seed !== undefined && { seed: config.seed + i }),
+        }, patterns)
+        paths.push(i === 0 ? path : shiftPathDown(path, height - bandHeight))
+    }
+
+    return paths
+}
+
+/** Move every point of a path `offset` units down */
+function shiftPathDown(path: string, offset: number): string {
+    return serializePath(normalizePath(path).map(({ type, values }) => ({
+        type,
+        values: values.map((v, i) => (i % 2 === 1 ? v + offset : v)),
+    })))
+}
@@ -0,0 +1,598 @@
+// ============================================================
+// SVG Path Geometry — parsing, normalization, flattening, sampling
+// ============================================================
+
+/** A point in path coordinates */
+export interface PathPoint {
+    x: number
+    y: number
+}
+
+/** Axis-aligned bounding box of a path */
+export interface PathBounds {
+    minX: number
+    minY: number
+    maxX: number
+    maxY: number
+    width: number
+    height: number
+}
+
+/** A single path command. `type` keeps the original letter (case = absolute/relative). */
+export interface PathCommand {
+    type: string
+    values: number[]
+}
+
+/** A flattened subpath */
+export interface PathPolyline {
+    points: PathPoint[]
+    /** Whether the subpath was closed with Z */
+    closed: boolean
+}
+
+/** Options for flattening curves into polylines */
+export interface FlattenOptions {
+    /** Maximum distance in path units between the curve and its polyline. Default: 0.25 */
+    tolerance?: number
+}
+
+/** Pre-computed geometry for repeated queries against one path */
+export interface PathGeometry {
+    /** Flattened subpaths */
+    readonly polylines: PathPolyline[]
+    /** Total arc length (sum of all subpaths) */
+    readonly length: number
+    /** Bounding box of the flattened outline */
+    readonly bounds: PathBounds
+    /**
+     * Y coordinate where the outline crosses `x`.
+     * 'top' returns the smallest Y (the wave edge of library-generated paths),
+     * 'bottom' the largest. Returns null when the outline never reaches `x`.
+     */
+    getYAtX(x: number, edge?: 'top' | 'bottom'): number | null
+    /** Point at a given distance along the outline (clamped to [0, length]) */
+    getPointAtLength(length: number): PathPoint
+}
+
+/** Number of arguments consumed per repetition of each command */
+const ARG_COUNTS: Record<string, number> = {
+    M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0,
+}
+
+const DEFAULT_TOLERANCE = 0.25
+const MAX_SUBDIVISION_DEPTH = 16
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse an SVG path string into commands.
+ *
+ * Supports every command (M L H V C S Q T A Z, absolute and relative),
+ * implicit repetitions (extra pairs after M become L), compact number
+ * syntax (`1.5.5`, `-1-2`, exponents) and compact arc flags (`a1 1 0 01 5 5`).
+ *
+ * @throws Error when the path contains unexpected characters
+ */
+export function parsePath(d: string): PathCommand[] {
+    const commands: PathCommand[] = []
+    let i = 0
+    const len = d.length
+
+    const skipSeparators = () => {
+        while (i < len && /[\s,]/.test(d[i])) i++
+    }
+
+    const readNumber = (): number | null => {
+        skipSeparators()
+        const match = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(d.slice(i))
+        if (!match) return null
+        i += match[0].length
+        return parseFloat(match[0])
+    }
+
+    const readFlag = (): number | null => {
+        skipSeparators()
+        if (d[i] === '0' || d[i] === '1') return Number(d[i++])
+        return null
+    }
+
+    skipSeparators()
+    while (i < len) {
+        const letter = d[i]
+        const upper = letter.toUpperCase()
+        if (!(upper in ARG_COUNTS)) {
+            throw new Error(`[wavy-bavy] Invalid path data at index ${i}: unexpected "${letter}"`)
+        }
+        i++
+
+        const argCount = ARG_COUNTS[upper]
+        if (argCount === 0) {
+            commands.push({ type: letter, values: [] })
+            skipSeparators()
+            continue
+        }
+
+        let repeat = 0
+        for (;;) {
+            const values: number[] = []
+            for (let k = 0; k < argCount; k++) {
+                const isFlag = upper === 'A' && (k === 3 || k === 4)
+                const value = isFlag ? readFlag() : readNumber()
+                if (value === null) break
+                values.push(value)
+            }
+
+            if (values.length === 0) break
+            if (values.length < argCount) {
+                throw new Error(`[wavy-bavy] Invalid path data: "${letter}" expects ${argCount} arguments`)
+            }
+
+            // Extra coordinate pairs after a moveto are implicit linetos
+            const type = repeat > 0 && upper === 'M' ? (letter === 'm' ? 'l' : 'L') : letter
+            commands.push({ type, values })
+            repeat++
+            skipSeparators()
+        }
+
+        if (repeat === 0) {
+            throw new Error(`[wavy-bavy] Invalid path data: "${letter}" is missing arguments`)
+        }
+    }
+
+    return commands
+}
+
+/**
+ * Convert commands to absolute coordinates, keeping each command's type
+ * (H stays H, A stays A, ...). Useful for transforms that must preserve arcs.
+ */
+export function toAbsoluteCommands(commands: PathCommand[]): PathCommand[] {
+    const result: PathCommand[] = []
+    let cx = 0
+    let cy = 0
+    let startX = 0
+    let startY = 0
+
+    commands.forEach((cmd, index) => {
+        const upper = cmd.type.toUpperCase()
+        // A leading relative moveto is treated as absolute (per spec)
+        const isRelative = cmd.type !== upper && index > 0
+        const v = cmd.values.slice()
+
+        switch (upper) {
+            case 'M':
+            case 'L':
+            case 'T':
+                if (isRelative) { v[0] += cx; v[1] += cy }
+                cx = v[0]; cy = v[1]
+                if (upper === 'M') { startX = cx; startY = cy }
+                break
+            case 'H':
+                if (isRelative) v[0] += cx
+                cx = v[0]
+                break
+            case 'V':
+                if (isRelative) v[0] += cy
+                cy = v[0]
+                break
+            case 'C':
+                if (isRelative) { v[0] += cx; v[1] += cy; v[2] += cx; v[3] += cy; v[4] += cx; v[5] += cy }
+                cx = v[4]; cy = v[5]
+                break
+            case 'S':
+            case 'Q':
+                if (isRelative) { v[0] += cx; v[1] += cy; v[2] += cx; v[3] += cy }
+                cx = v[2]; cy = v[3]
+                break
+            case 'A':
+                if (isRelative) { v[5] += cx; v[6] += cy }
+                cx = v[5]; cy = v[6]
+                break
+            case 'Z':
+                cx = startX; cy = startY
+                break
+        }
+
+        result.push({ type: upper, values: v })
+    })
+
+    return result
+}
+
+/**
+ * Normalize a path to absolute `M`, `L`, `C` and `Z` commands only.
+ * H/V become L; S, Q and T become cubics; arcs are approximated by cubics.
+ */
+export function normalizePath(path: string | PathCommand[]): PathCommand[] {
+    const absolute = toAbsoluteCommands(typeof path === 'string' ? parsePath(path) : path)
+    const result: PathCommand[] = []
+    let cx = 0
+    let cy = 0
+    let startX = 0
+    let startY = 0
+    // Reflection points for S and T
+    let lastCubicCtrl: PathPoint | null = null
+    let lastQuadCtrl: PathPoint | null = null
+
+    for (const { type, values: v } of absolute) {
+        let cubicCtrl: PathPoint | null = null
+        let quadCtrl: PathPoint | null = null
+
+        switch (type) {
+            case 'M':
+                result.push({ type: 'M', values: [v[0], v[1]] })
+                cx = startX = v[0]
+                cy = startY = v[1]
+                break
+            case 'L':
+                result.push({ type: 'L', values: [v[0], v[1]] })
+                cx = v[0]; cy = v[1]
+                break
+            case 'H':
+                result.push({ type: 'L', values: [v[0], cy] })
+                cx = v[0]
+                break
+            case 'V':
+                result.push({ type: 'L', values: [cx, v[0]] })
+                cy = v[0]
+                break
+            case 'C':
+                result.push({ type: 'C', values: v.slice(0, 6) })
+                cubicCtrl = { x: v[2], y: v[3] }
+                cx = v[4]; cy = v[5]
+                break
+            case 'S': {
+                const x1 = lastCubicCtrl ? 2 * cx - lastCubicCtrl.x : cx
+                const y1 = lastCubicCtrl ? 2 * cy - lastCubicCtrl.y : cy
+                result.push({ type: 'C', values: [x1, y1, v[0], v[1], v[2], v[3]] })
+                cubicCtrl = { x: v[0], y: v[1] }
+                cx = v[2]; cy = v[3]
+                break
+            }
+            case 'Q':
+                result.push({ type: 'C', values: quadToCubic(cx, cy, v[0], v[1], v[2], v[3]) })
+                quadCtrl = { x: v[0], y: v[1] }
+                cx = v[2]; cy = v[3]
+                break
+            case 'T': {
+                const qx: number = lastQuadCtrl ? 2 * cx - lastQuadCtrl.x : cx
+                const qy: number = lastQuadCtrl ? 2 * cy - lastQuadCtrl.y : cy
+                result.push({ type: 'C', values: quadToCubic(cx, cy, qx, qy, v[0], v[1]) })
+                quadCtrl = { x: qx, y: qy }
+                cx = v[0]; cy = v[1]
+                break
+            }
+            case 'A':
+                for (const segment of arcToCubics(cx, cy, v[0], v[1], v[2], v[3], v[4], v[5], v[6])) {
+                    result.push({ type: 'C', values: segment })
+                }
+                cx = v[5]; cy = v[6]
+                break
+            case 'Z':
+                result.push({ type: 'Z', values: [] })
+                cx = startX; cy = startY
+                break
+        }
+
+        lastCubicCtrl = cubicCtrl
+        lastQuadCtrl = quadCtrl
+    }
+
+    return result
+}
+
+/**
+ * Serialize commands back into a path string in the library's style
+ * (`M x y`, `C x1 y1, x2 y2, x y`, `Z`).
+ *
+ * @param precision - Maximum decimal places. Default: 3
+ */
+export function serializePath(commands: PathCommand[], precision: number = 3): string {
+    return commands.map(({ type, values }) => {
+        if (values.length === 0) return type
+        const nums = values.map((n) => formatNumber(n, precision))
+        const upper = type.toUpperCase()
+        if (upper === 'C' || upper === 'S' || upper === 'Q') {
+            const pairs: string[] = []
+            for (let k = 0; k < nums.length; k += 2) pairs.push(`${nums[k]} ${nums[k + 1]}`)
+            return `${type} ${pairs.join(', ')}`
+        }
+        return `${type} ${nums.join(' ')}`
+    }).join(' ')
+}
+
+/**
+ * Format a number with bounded precision and no trailing zeros or "-0".
+ */
+export function formatNumber(n: number, precision: number = 3): string {
+    const rounded = Number(n.toFixed(precision))
+    return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+// ============================================================
+// Curve conversion
+// ============================================================
+
+function quadToCubic(x0: number, y0: number, qx: number, qy: number, x: number, y: number): number[] {
+    return [
+        x0 + (2 / 3) * (qx - x0), y0 + (2 / 3) * (qy - y0),
+        x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y),
+        x, y,
+    ]
+}
+
+/**
+ * Approximate an SVG elliptical arc with cubic Béziers (≤ 90° each).
+ * Follows the endpoint → center parameterization from the SVG spec (F.6.5).
+ */
+function arcToCubics(
+    x1: number, y1: number,
+    rxIn: number, ryIn: number, rotation: number,
+    largeArc: number, sweep: number,
+    x2: number, y2: number,
+): number[][] {
+    if (x1 === x2 && y1 === y2) return []
+    let rx = Math.abs(rxIn)
+    let ry = Math.abs(ryIn)
+    if (rx === 0 || ry === 0) return [[x1, y1, x2, y2, x2, y2]]
+
+    const phi = (rotation * Math.PI) / 180
+    const cosPhi = Math.cos(phi)
+    const sinPhi = Math.sin(phi)
+
+    // Step 1: transformed midpoint
+    const dx = (x1 - x2) / 2
+    const dy = (y1 - y2) / 2
+    const x1p = cosPhi * dx + sinPhi * dy
+    const y1p = -sinPhi * dx + cosPhi * dy
+
+    // Scale up radii that are too small
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry)
+    if (lambda > 1) {
+        const s = Math.sqrt(lambda)
+        rx *= s
+        ry *= s
+    }
+
+    // Step 2: transformed center
+    const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p
+    const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p
+    const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den))
+    const cxp = coef * ((rx * y1p) / ry)
+    const cyp = coef * (-(ry * x1p) / rx)
+
+    // Step 3: center
+    const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2
+    const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2
+
+    // Step 4: angles
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+        Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+    const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry)
+    let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry)
+    if (!sweep && delta > 0) delta -= 2 * Math.PI
+    if (sweep && delta < 0) delta += 2 * Math.PI
+
+    const segmentCount = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)))
+    const step = delta / segmentCount
+    const k = (4 / 3) * Math.tan(step / 4)
+
+    const pointAt = (t: number) => ({
+        x: cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi,
+        y: cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi,
+    })
+    const derivAt = (t: number) => ({
+        x: -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi,
+        y: -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi,
+    })
+
+    const segments: number[][] = []
+    for (let s = 0; s < segmentCount; s++) {
+        const t1 = theta1 + s * step
+        const t2 = t1 + step
+        const p1 = pointAt(t1)
+        const p2 = s === segmentCount - 1 ? { x: x2, y: y2 } : pointAt(t2)
+        const d1 = derivAt(t1)
+        const d2 = derivAt(t2)
+        segments.push([
+            p1.x + k * d1.x, p1.y + k * d1.y,
+            p2.x - k * d2.x, p2.y - k * d2.y,
+            p2.x, p2.y,
+        ])
+    }
+    return segments
+}
+
+// ============================================================
+// Flattening
+// ============================================================
+
+function distanceToLine(p: PathPoint, a: PathPoint, b: PathPoint): number {
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSq = dx * dx + dy * dy
+    if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y)
+    return Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / Math.sqrt(lengthSq)
+}
+
+function flattenCubic(
+    p0: PathPoint, p1: PathPoint, p2: PathPoint, p3: PathPoint,
+    tolerance: number, out: PathPoint[], depth: number,
+): void {
+    const flat = Math.max(distanceToLine(p1, p0, p3), distanceToLine(p2, p0, p3)) <= tolerance
+    if (flat || depth >= MAX_SUBDIVISION_DEPTH) {
+        out.push(p3)
+        return
+    }
+
+    // de Casteljau split at t = 0.5
+    const mid = (a: PathPoint, b: PathPoint) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+    const p01 = mid(p0, p1)
+    const p12 = mid(p1, p2)
+    const p23 = mid(p2, p3)
+    const p012 = mid(p01, p12)
+    const p123 = mid(p12, p23)
+    const center = mid(p012, p123)
+
+    flattenCubic(p0, p01, p012, center, tolerance, out, depth + 1)
+    flattenCubic(center, p123, p23, p3, tolerance, out, depth + 1)
+}
+
+/**
+ * Flatten a path into polylines using adaptive subdivision, so every
+ * point lies on the rendered curve (control points are never emitted).
+ */
+export function flattenPath(path: string | PathCommand[], options: FlattenOptions = {}): PathPolyline[] {
+    const tolerance = Math.max(1e-3, options.tolerance ?? DEFAULT_TOLERANCE)
+    const polylines: PathPolyline[] = []
+    let current: PathPolyline | null = null
+    let cursor: PathPoint = { x: 0, y: 0 }
+
+    // Drawing without a moveto starts a polyline at the cursor (the subpath start after Z)
+    const continuePolyline = (): PathPolyline => {
+        if (!current) {
+            current = { points: [cursor], closed: false }
+            polylines.push(current)
+        }
+        return current
+    }
+
+    for (const { type, values: v } of normalizePath(path)) {
+        switch (type) {
+            case 'M':
+                cursor = { x: v[0], y: v[1] }
+                current = { points: [cursor], closed: false }
+                polylines.push(current)
+                break
+            case 'L': {
+                const polyline = continuePolyline()
+                cursor = { x: v[0], y: v[1] }
+                polyline.points.push(cursor)
+                break
+            }
+            case 'C': {
+                const polyline = continuePolyline()
+                const end = { x: v[4], y: v[5] }
+                flattenCubic(cursor, { x: v[0], y: v[1] }, { x: v[2], y: v[3] }, end, tolerance, polyline.points, 0)
+                cursor = end
+                break
+            }
+            case 'Z':
+                if (current) {
+                    current.closed = true
+                    cursor = current.points[0]
+                    // Drawing continues from the subpath start after Z
+                    current = null
+                }
+                break
+        }
+    }
+
+    return polylines
+}
+
+// ============================================================
+// Measurement
+// ============================================================
+
+/** Segments of a polyline, including the closing segment when closed */
+function polylineSegments(polyline: PathPolyline): Array<[PathPoint, PathPoint]> {
+    const { points, closed } = polyline
+    const segments: Array<[PathPoint, PathPoint]> = []
+    for (let k = 0; k < points.length - 1; k++) segments.push([points[k], points[k + 1]])
+    if (closed && points.length > 1) segments.push([points[points.length - 1], points[0]])
+    return segments
+}
+
+/**
+ * Pre-compute geometry for a path. Prefer this over the standalone helpers
+ * when querying the same path many times (e.g. sampling).
+ */
+export function createPathGeometry(path: string | PathCommand[], options: FlattenOptions = {}): PathGeometry {
+    const polylines = flattenPath(path, options)
+    const segments = polylines.flatMap(polylineSegments)
+    const lengths = segments.map(([a, b]) => Math.hypot(b.x - a.x, b.y - a.y))
+    const totalLength = lengths.reduce((sum, l) => sum + l, 0)
+
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (const polyline of polylines) {
+        for (const p of polyline.points) {
+            if (p.x < minX) minX = p.x
+            if (p.y < minY) minY = p.y
+            if (p.x > maxX) maxX = p.x
+            if (p.y > maxY) maxY = p.y
+        }
+    }
+    const bounds: PathBounds = isFinite(minX)
+        ? { minX, minY, maxX, maxY, width: maxX - minX, height: maxY - minY }
+        : { minX: 0, minY: 0, maxX: 0, maxY: 0, width: 0, height: 0 }
+
+    return {
+        polylines,
+        length: totalLength,
+        bounds,
+
+        getYAtX(x: number, edge: 'top' | 'bottom' = 'top'): number | null {
+            let result: number | null = null
+            const pick = (y: number) => {
+                if (result === null) result = y
+                else result = edge === 'top' ? Math.min(result, y) : Math.max(result, y)
+            }
+            for (const [a, b] of segments) {
+                const lo = Math.min(a.x, b.x)
+                const hi = Math.max(a.x, b.x)
+                if (x < lo || x > hi) continue
+                if (a.x === b.x) {
+                    pick(a.y)
+                    pick(b.y)
+                } else {
+                    pick(a.y + ((x - a.x) / (b.x - a.x)) * (b.y - a.y))
+                }
+            }
+            return result
+        },
+
+        getPointAtLength(length: number): PathPoint {
+            if (segments.length === 0) return polylines[0]?.points[0] ?? { x: 0, y: 0 }
+            let remaining = Math.max(0, Math.min(totalLength, length))
+            for (let k = 0; k < segments.length; k++) {
+                if (remaining <= lengths[k] || k === segments.length - 1) {
+                    const [a, b] = segments[k]
+                    const t = lengths[k] === 0 ? 0 : Math.min(1, remaining / lengths[k])
+                    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }
+                }
+                remaining -= lengths[k]
+            }
+            return segments[segments.length - 1][1]
+        },
+    }
+}
+
+/**
+ * Y coordinate of the path outline at `x`. For library-generated wave paths
+ * the default 'top' edge is the wave curve itself.
+ */
+export function getYAtX(path: string, x: number, edge: 'top' | 'bottom' = 'top'): number | null {
+    return createPathGeometry(path).getYAtX(x, edge)
+}
+
+/** Point at a distance along the path outline */
+export function getPointAtLength(path: string, length: number): PathPoint {
+    return createPathGeometry(path).getPointAtLength(length)
+}
+
+/** Total arc length of the path outline */
+export function getPathLength(path: string): number {
+    return createPathGeometry(path).length
+}
+
+/** Bounding box of the rendered path (curves included, control points excluded) */
+export function getPathBounds(path: string): PathBounds {
+    return createPathGeometry(path).bounds
+}
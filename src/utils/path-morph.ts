@@ -0,0 +1,277 @@
+import type { PathCommand, PathPoint } from './path-geometry'
+import { parsePath, toAbsoluteCommands, normalizePath, serializePath } from './path-geometry'
+
+// ============================================================
+// Morph Normalization — matching command structures
+// ============================================================
+
+type Cubic = [PathPoint, PathPoint, PathPoint, PathPoint]
+
+interface MorphSegment {
+    /** Straight line (control points on the chord) */
+    line: boolean
+    points: Cubic
+    /** Lengths at t = i / LENGTH_STEPS, for mapping arc length to t */
+    lengths: number[]
+}
+
+interface MorphSubpath {
+    start: PathPoint
+    segments: MorphSegment[]
+    closed: boolean
+    length: number
+}
+
+/** Chords used to measure each cubic */
+const LENGTH_STEPS = 24
+/** Breakpoints closer than this (as a fraction of the subpath length) are merged */
+const BREAKPOINT_EPSILON = 1e-6
+
+function lerp(a: PathPoint, b: PathPoint, t: number): PathPoint {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }
+}
+
+function cubicPoint([p0, p1, p2, p3]: Cubic, t: number): PathPoint {
+    const mt = 1 - t
+    const a = mt * mt * mt
+    const b = 3 * mt * mt * t
+    const c = 3 * mt * t * t
+    const d = t * t * t
+    return { x: a * p0.x + b * p1.x + c * p2.x + d * p3.x, y: a * p0.y + b * p1.y + c * p2.y + d * p3.y }
+}
+
+/** Split a cubic at t (de Casteljau) */
+function splitCubic([p0, p1, p2, p3]: Cubic, t: number): [Cubic, Cubic] {
+    const a = lerp(p0, p1, t)
+    const b = lerp(p1, p2, t)
+    const c = lerp(p2, p3, t)
+    const ab = lerp(a, b, t)
+    const bc = lerp(b, c, t)
+    const mid = lerp(ab, bc, t)
+    return [[p0, a, ab, mid], [mid, bc, c, p3]]
+}
+
+function createSegment(points: Cubic, line: boolean): MorphSegment {
+    const lengths = [0]
+    let previous = points[0]
+    for (let i = 1; i <= LENGTH_STEPS; i++) {
+        const point = line ? lerp(points[0], points[3], i / LENGTH_STEPS) : cubicPoint(points, i / LENGTH_STEPS)
+        lengths.push(lengths[i - 1] + Math.hypot(point.x - previous.x, point.y - previous.y))
+        previous = point
+    }
+    return { line, points, lengths }
+}
+
+function lineSegment(from: PathPoint, to: PathPoint): MorphSegment {
+    return createSegment([from, lerp(from, to, 1 / 3), lerp(from, to, 2 / 3), to], true)
+}
+
+function segmentLength(segment: MorphSegment): number {
+    return segment.lengths[LENGTH_STEPS]
+}
+
+/** Curve parameter at a fraction of the segment's arc length */
+function paramAtFraction(segment: MorphSegment, fraction: number): number {
+    const { lengths } = segment
+    const target = fraction * lengths[LENGTH_STEPS]
+    if (target <= 0) return 0
+    if (target >= lengths[LENGTH_STEPS]) return 1
+    let i = 1
+    while (lengths[i] < target) i++
+    const span = lengths[i] - lengths[i - 1]
+    return (i - 1 + (span > 0 ? (target - lengths[i - 1]) / span : 0)) / LENGTH_STEPS
+}
+
+/** Part of a segment between two fractions of its arc length */
+function subSegment(segment: MorphSegment, from: number, to: number): Cubic {
+    const t0 = paramAtFraction(segment, from)
+    const t1 = paramAtFraction(segment, to)
+    if (t1 <= t0) {
+        const point = cubicPoint(segment.points, t0)
+        return [point, point, point, point]
+    }
+    const head = t1 < 1 ? splitCubic(segment.points, t1)[0] : segment.points
+    return t0 > 0 ? splitCubic(head, t0 / t1)[1] : head
+}
+
+/** Break a path into subpaths of line and cubic segments (closing segments stay implicit) */
+function toSubpaths(path: string): MorphSubpath[] {
+    const subpaths: MorphSubpath[] = []
+    let cursor: PathPoint = { x: 0, y: 0 }
+    let drawing = false
+
+    // Subpath being drawn; drawing after Z (without M) starts a new one at the cursor
+    const current = (): MorphSubpath => {
+        if (!drawing) {
+            subpaths.push({ start: cursor, segments: [], closed: false, length: 0 })
+            drawing = true
+        }
+        return subpaths[subpaths.length - 1]
+    }
+
+    for (const { type, values: v } of normalizePath(path)) {
+        switch (type) {
+            case 'M':
+                cursor = { x: v[0], y: v[1] }
+                drawing = false
+                current()
+                break
+            case 'L': {
+                const end = { x: v[0], y: v[1] }
+                current().segments.push(lineSegment(cursor, end))
+                cursor = end
+                break
+            }
+            case 'C': {
+                const end = { x: v[4], y: v[5] }
+                current().segments.push(createSegment([cursor, { x: v[0], y: v[1] }, { x: v[2], y: v[3] }, end], false))
+                cursor = end
+                break
+            }
+            case 'Z':
+                if (drawing) {
+                    const subpath = current()
+                    subpath.closed = true
+                    cursor = subpath.start
+                    drawing = false
+                }
+                break
+        }
+    }
+
+    for (const subpath of subpaths) {
+        subpath.length = subpath.segments.reduce((sum, segment) => sum + segmentLength(segment), 0)
+        // Zero-length segments carry no geometry and would collapse onto a neighbour's breakpoint
+        subpath.segments = subpath.segments.filter((segment) => segmentLength(segment) > BREAKPOINT_EPSILON * subpath.length)
+    }
+
+    return subpaths
+}
+
+/** Arc-length fractions where a subpath's segments meet */
+function breakpoints(subpath: MorphSubpath): number[] {
+    const result: number[] = []
+    let travelled = 0
+    for (const segment of subpath.segments.slice(0, -1)) {
+        travelled += segmentLength(segment)
+        result.push(travelled / subpath.length)
+    }
+    return result
+}
+
+/** Pieces of a subpath between consecutive arc-length fractions */
+function slice(subpath: MorphSubpath | undefined, fallback: PathPoint, fractions: number[]): Array<{ line: boolean; points: Cubic }> {
+    const pieces: Array<{ line: boolean; points: Cubic }> = []
+    if (!subpath || subpath.segments.length === 0) {
+        const point = subpath?.start ?? fallback
+        for (let k = 1; k < fractions.length; k++) pieces.push({ line: true, points: [point, point, point, point] })
+        return pieces
+    }
+
+    // Segment boundaries as fractions of the subpath length
+    const bounds = [0, ...breakpoints(subpath), 1]
+    let index = 0
+    for (let k = 1; k < fractions.length; k++) {
+        const from = fractions[k - 1]
+        const to = fractions[k]
+        const middle = (from + to) / 2
+        while (index < subpath.segments.length - 1 && bounds[index + 1] <= middle) index++
+
+        const segment = subpath.segments[index]
+        const start = bounds[index]
+        const span = bounds[index + 1] - start
+        const clamp = (f: number) => Math.max(0, Math.min(1, (f - start) / span))
+        pieces.push({ line: segment.line, points: subSegment(segment, clamp(from), clamp(to)) })
+    }
+    return pieces
+}
+
+/** Command type sequence, ignoring absolute/relative (as CSS path interpolation does) */
+function structureOf(path: string): string {
+    return parsePath(path).map(({ type }) => type.toUpperCase()).join('')
+}
+
+/**
+ * Make paths structurally compatible for CSS `d: path()` interpolation,
+ * which only tweens between paths with identical command lists.
+ *
+ * Paths that already share one command structure are returned unchanged.
+ * Otherwise every path is resampled into the same sequence of commands:
+ * each subpath is cut at the arc-length fractions where any of the paths
+ * has a segment boundary, so piece k of every path covers the same share of
+ * its subpath's length (point correspondence by arc length). Cuts fall only
+ * inside original segments, so the geometry is unchanged. A piece is drawn
+ * with `L` when it is straight in every path and with `C` otherwise, which
+ * keeps the library's `M … L x y Z` frame intact. Subpaths missing from a
+ * path collapse to a point.
+ *
+ * @param paths - SVG path strings (frames of one animation)
+ * @returns Paths with one shared command structure, in the same order
+ */
+export function matchPathStructure(paths: string[]): string[] {
+    if (paths.length < 2) return paths
+    const structure = structureOf(paths[0])
+    if (paths.every((path) => structureOf(path) === structure)) return paths
+
+    const parsed = paths.map(toSubpaths)
+    const subpathCount = Math.max(...parsed.map((subpaths) => subpaths.length))
+    const results: PathCommand[][] = paths.map(() => [])
+
+    for (let s = 0; s < subpathCount; s++) {
+        const subpaths = parsed.map((subpathsOfPath) => subpathsOfPath[s])
+
+        const cuts = subpaths
+            .flatMap((subpath) => (subpath && subpath.segments.length > 0 ? breakpoints(subpath) : []))
+            .sort((a, b) => a - b)
+            .filter((f, i, all) => i === 0 || f - all[i - 1] > BREAKPOINT_EPSILON)
+        const fractions = [0, ...cuts.filter((f) => f > BREAKPOINT_EPSILON && f < 1 - BREAKPOINT_EPSILON), 1]
+
+        const pieces = subpaths.map((subpath, p) => {
+            const previous = parsed[p][parsed[p].length - 1]
+            const fallback = previous?.segments[previous.segments.length - 1]?.points[3] ?? previous?.start ?? { x: 0, y: 0 }
+            return slice(subpath, fallback, fractions)
+        })
+        const closed = subpaths.some((subpath) => subpath?.closed)
+
+        pieces.forEach((piecesOfPath, p) => {
+            const commands = results[p]
+            commands.push({ type: 'M', values: [piecesOfPath[0].points[0].x, piecesOfPath[0].points[0].y] })
+            piecesOfPath.forEach(({ points: [, c1, c2, end] }, k) => {
+                const straight = pieces.every((other) => other[k].line)
+                commands.push(straight
+                    ? { type: 'L', values: [end.x, end.y] }
+                    : { type: 'C', values: [c1.x, c1.y, c2.x, c2.y, end.x, end.y] })
+            })
+            if (closed) commands.push({ type: 'Z', values: [] })
+        })
+    }
+
+    return results.map((commands) => serializePath(commands))
+}
+
+/**
+ * Interpolate between two arbitrary paths, e.g. two different patterns or a
+ * pattern and a custom path. Both are brought to one command structure with
+ * `matchPathStructure`, then every coordinate is blended.
+ *
+ * @param pathA - Path at t = 0
+ * @param pathB - Path at t = 1
+ * @param t - Progress, usually 0–1 (values outside extrapolate)
+ * @returns Interpolated SVG path string
+ */
+export function morphBetween(pathA: string, pathB: string, t: number): string {
+    const [a, b] = matchPathStructure([pathA, pathB])
+    // Compatible paths may mix absolute and relative commands
+    const commandsA = toAbsoluteCommands(parsePath(a))
+    const commandsB = toAbsoluteCommands(parsePath(b))
+
+    return serializePath(commandsA.map(({ type, values }, i) => ({
+        type,
+        values: values.map((value, k) => {
+            const target = commandsB[i].values[k]
+            // Arc flags cannot be blended
+            const isFlag = type.toUpperCase() === 'A' && (k === 3 || k === 4)
+            return isFlag ? (t < 0.5 ? value : target) : value + (target - value) * t
+        }),
+    })))
+}
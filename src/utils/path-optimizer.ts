@@ -1,12 +1,29 @@
 // ============================================================
-// SVG Path Optimizer — Ramer-Douglas-Peucker Algorithm
+// SVG Path Optimizer — Ramer-Douglas-Peucker and Bézier curve fitting
 // ============================================================
 
-interface Point {
-    x: number
-    y: number
+import type { OptimizePathOptions } from '../types'
+import { flattenPath, parsePath, normalizePath, serializePath, formatNumber } from './path-geometry'
+import type { PathCommand, PathPoint as Point } from './path-geometry'
+
+type Cubic = [Point, Point, Point, Point]
+
+interface FitSegment {
+    line: boolean
+    points: Cubic
 }
 
+/** Turns sharper than this (radians) between segments are kept as corners */
+const CORNER_ANGLE = Math.PI / 12
+/** Newton-Raphson passes before a curve is split */
+const MAX_REPARAMETERIZE = 8
+/** Recursion limit for splitting a run */
+const MAX_FIT_DEPTH = 24
+/** Minimum samples per cubic segment */
+const MIN_CURVE_SAMPLES = 8
+/** Maximum samples per run (sample spacing grows for long runs) */
+const MAX_RUN_SAMPLES = 1024
+
 /**
  * Perpendicular distance from point to line segment (p1→p2).
  */
@@ -55,51 +72,326 @@ function rdpSimplify(points: Point[], epsilon: number): Point[] {
 }
 
 /**
- * Parse coordinate pairs from an SVG path string.
- * Extracts all (x, y) pairs in order of appearance.
+ * Points along the rendered outline of an SVG path, in drawing order.
+ * Curves are flattened first so Bézier control points never leak in.
  */
 function extractPoints(path: string): Point[] {
-    const points: Point[] = []
-    const regex = /(-?\d+\.?\d*)\s*[,\s]\s*(-?\d+\.?\d*)/g
-    let match: RegExpExecArray | null
-
-    while ((match = regex.exec(path)) !== null) {
-        points.push({ x: parseFloat(match[1]), y: parseFloat(match[2]) })
-    }
-
-    return points
+    return flattenPath(path).flatMap(({ points }) => points)
 }
 
 /**
  * Rebuild a simplified SVG path from points.
  * Uses M (move to) for the first point, L (line to) for subsequent points, and Z to close.
  */
-function rebuildPath(points: Point[]): string {
+function rebuildPath(points: Point[], precision: number): string {
     if (points.length === 0) return ''
 
-    const parts = [`M ${points[0].x} ${points[0].y}`]
+    const format = (point: Point) => `${formatNumber(point.x, precision)} ${formatNumber(point.y, precision)}`
+    const parts = [`M ${format(points[0])}`]
     for (let i = 1; i < points.length; i++) {
-        parts.push(`L ${points[i].x} ${points[i].y}`)
+        parts.push(`L ${format(points[i])}`)
     }
     parts.push('Z')
 
     return parts.join(' ')
 }
 
+// ============================================================
+// Curve Fitting (Schneider, "An Algorithm for Automatically Fitting Digitized Curves")
+// ============================================================
+
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y })
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y })
+const scale = (a: Point, k: number): Point => ({ x: a.x * k, y: a.y * k })
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+function normalize(v: Point): Point {
+    const length = Math.hypot(v.x, v.y)
+    return length > 0 ? scale(v, 1 / length) : v
+}
+
+function bezierPoint([p0, p1, p2, p3]: Cubic, t: number): Point {
+    const mt = 1 - t
+    const a = mt * mt * mt
+    const b = 3 * mt * mt * t
+    const c = 3 * mt * t * t
+    const d = t * t * t
+    return { x: a * p0.x + b * p1.x + c * p2.x + d * p3.x, y: a * p0.y + b * p1.y + c * p2.y + d * p3.y }
+}
+
+/** First and second derivatives of a cubic at t */
+function bezierDerivatives([p0, p1, p2, p3]: Cubic, t: number): [Point, Point] {
+    const mt = 1 - t
+    const d1 = add(add(scale(sub(p1, p0), 3 * mt * mt), scale(sub(p2, p1), 6 * mt * t)), scale(sub(p3, p2), 3 * t * t))
+    const d2 = add(scale(add(sub(p2, scale(p1, 2)), p0), 6 * mt), scale(add(sub(p3, scale(p2, 2)), p1), 6 * t))
+    return [d1, d2]
+}
+
+/** Distance from a point to the segment a→b */
+function segmentDistance(point: Point, a: Point, b: Point): number {
+    const ab = sub(b, a)
+    const lengthSq = dot(ab, ab)
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, dot(sub(point, a), ab) / lengthSq)) : 0
+    return distance(point, add(a, scale(ab, t)))
+}
+
+/** Direction a segment leaves its start point in */
+function startTangent([p0, p1, p2, p3]: Cubic): Point {
+    return normalize(sub([p1, p2, p3].find((p) => distance(p, p0) > 1e-9) ?? p3, p0))
+}
+
+/** Direction a segment arrives at its end point from */
+function endTangent([p0, p1, p2, p3]: Cubic): Point {
+    return normalize(sub(p3, [p2, p1, p0].find((p) => distance(p, p3) > 1e-9) ?? p0))
+}
+
+/** Parameters proportional to the distance travelled along the points */
+function chordLengthParameterize(points: Point[]): number[] {
+    const u = [0]
+    for (let i = 1; i < points.length; i++) u.push(u[i - 1] + distance(points[i], points[i - 1]))
+    const total = u[u.length - 1]
+    return u.map((value) => (total > 0 ? value / total : 0))
+}
+
 /**
- * Optimize an SVG path by reducing the number of points using the
- * Ramer-Douglas-Peucker algorithm.
+ * Least-squares cubic through the points with fixed end tangents.
+ * `rightTangent` points backwards from the last point.
+ */
+function generateBezier(points: Point[], u: number[], leftTangent: Point, rightTangent: Point): Cubic {
+    const first = points[0]
+    const last = points[points.length - 1]
+    let c00 = 0
+    let c01 = 0
+    let c11 = 0
+    let x0 = 0
+    let x1 = 0
+
+    points.forEach((point, i) => {
+        const t = u[i]
+        const mt = 1 - t
+        const a0 = scale(leftTangent, 3 * mt * mt * t)
+        const a1 = scale(rightTangent, 3 * mt * t * t)
+        c00 += dot(a0, a0)
+        c01 += dot(a0, a1)
+        c11 += dot(a1, a1)
+        const rest = sub(point, bezierPoint([first, first, last, last], t))
+        x0 += dot(a0, rest)
+        x1 += dot(a1, rest)
+    })
+
+    const det = c00 * c11 - c01 * c01
+    let alphaLeft = det !== 0 ? (x0 * c11 - x1 * c01) / det : 0
+    let alphaRight = det !== 0 ? (c00 * x1 - c01 * x0) / det : 0
+
+    // Degenerate or backwards handles fall back to the Wu/Barsky heuristic
+    const chord = distance(first, last)
+    if (alphaLeft < 1e-6 * chord || alphaRight < 1e-6 * chord) {
+        alphaLeft = alphaRight = chord / 3
+    }
+
+    return [first, add(first, scale(leftTangent, alphaLeft)), add(last, scale(rightTangent, alphaRight)), last]
+}
+
+/** One Newton-Raphson step towards each point's closest parameter */
+function reparameterize(bezier: Cubic, points: Point[], u: number[]): number[] {
+    return points.map((point, i) => {
+        const offset = sub(bezierPoint(bezier, u[i]), point)
+        const [d1, d2] = bezierDerivatives(bezier, u[i])
+        const denominator = dot(d1, d1) + dot(offset, d2)
+        if (denominator === 0) return u[i]
+        return Math.max(0, Math.min(1, u[i] - dot(offset, d1) / denominator))
+    })
+}
+
+/** Largest point-to-curve distance and the interior index where it occurs */
+function maxError(bezier: Cubic, points: Point[], u: number[]): [number, number] {
+    let error = 0
+    let index = Math.floor(points.length / 2)
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = distance(bezierPoint(bezier, u[i]), points[i])
+        if (d > error) {
+            error = d
+            index = i
+        }
+    }
+    return [error, index]
+}
+
+/** Fit the points with as few segments as the tolerance allows */
+function fitPoints(
+    points: Point[],
+    leftTangent: Point,
+    rightTangent: Point,
+    tolerance: number,
+    out: FitSegment[],
+    depth: number = 0,
+): void {
+    const first = points[0]
+    const last = points[points.length - 1]
+
+    // Straight runs stay lines
+    if (points.every((point) => segmentDistance(point, first, last) <= tolerance)) {
+        out.push({ line: true, points: [first, first, last, last] })
+        return
+    }
+
+    let u = chordLengthParameterize(points)
+    let bezier = generateBezier(points, u, leftTangent, rightTangent)
+    let [error, split] = maxError(bezier, points, u)
+    if (error <= tolerance || depth >= MAX_FIT_DEPTH || points.length < 3) {
+        out.push({ line: false, points: bezier })
+        return
+    }
+
+    // Close misses are usually a parameterization problem, not a shape problem
+    if (error <= tolerance * 4) {
+        for (let i = 0; i < MAX_REPARAMETERIZE; i++) {
+            u = reparameterize(bezier, points, u)
+            bezier = generateBezier(points, u, leftTangent, rightTangent)
+            ;[error, split] = maxError(bezier, points, u)
+            if (error <= tolerance) {
+                out.push({ line: false, points: bezier })
+                return
+            }
+        }
+    }
+
+    // Split at the worst point with a shared tangent so the join stays smooth
+    let center = normalize(sub(points[split - 1], points[split + 1]))
+    if (center.x === 0 && center.y === 0) center = normalize(sub(points[split - 1], points[split]))
+    fitPoints(points.slice(0, split + 1), leftTangent, center, tolerance, out, depth + 1)
+    fitPoints(points.slice(split), scale(center, -1), rightTangent, tolerance, out, depth + 1)
+}
+
+/** Line and cubic segments of each subpath of a path */
+function toSubpaths(path: string): Array<{ start: Point; segments: Cubic[]; closed: boolean }> {
+    const subpaths: Array<{ start: Point; segments: Cubic[]; closed: boolean }> = []
+    let cursor: Point = { x: 0, y: 0 }
+
+    const current = () => {
+        if (subpaths.length === 0 || subpaths[subpaths.length - 1].closed) {
+            subpaths.push({ start: cursor, segments: [], closed: false })
+        }
+        return subpaths[subpaths.length - 1]
+    }
+
+    for (const { type, values: v } of normalizePath(path)) {
+        if (type === 'M') {
+            cursor = { x: v[0], y: v[1] }
+            subpaths.push({ start: cursor, segments: [], closed: false })
+        } else if (type === 'L') {
+            const end = { x: v[0], y: v[1] }
+            if (distance(cursor, end) > 1e-9) current().segments.push([cursor, cursor, end, end])
+            cursor = end
+        } else if (type === 'C') {
+            const end = { x: v[4], y: v[5] }
+            const segment: Cubic = [cursor, { x: v[0], y: v[1] }, { x: v[2], y: v[3] }, end]
+            if (segment.some((point) => distance(point, cursor) > 1e-9)) current().segments.push(segment)
+            cursor = end
+        } else if (type === 'Z' && subpaths.length > 0) {
+            const subpath = subpaths[subpaths.length - 1]
+            subpath.closed = true
+            cursor = subpath.start
+        }
+    }
+
+    return subpaths
+}
+
+/** Points along a run of cubics, dense enough to fit against */
+function sampleRun(run: Cubic[], maxSpacing: number): Point[] {
+    const points = [run[0][0]]
+    for (const segment of run) {
+        // Control polygon length bounds the arc length
+        const length = distance(segment[0], segment[1]) + distance(segment[1], segment[2]) + distance(segment[2], segment[3])
+        const steps = Math.max(MIN_CURVE_SAMPLES, Math.ceil(length / maxSpacing))
+        for (let i = 1; i <= steps; i++) points.push(bezierPoint(segment, i / steps))
+    }
+    return points
+}
+
+/**
+ * Refit every subpath. Subpaths are cut into runs of lines and runs of
+ * curves; curve runs are also cut at corners (turns sharper than
+ * CORNER_ANGLE) so peaks stay sharp. Line runs are simplified with
+ * Ramer-Douglas-Peucker, curve runs are refitted with cubics.
+ */
+function fitCurves(path: string, tolerance: number): PathCommand[] {
+    const commands: PathCommand[] = []
+    const cosCorner = Math.cos(CORNER_ANGLE)
+    const isLine = (segment: Cubic) => segment[1] === segment[0] && segment[2] === segment[3]
+
+    for (const { start, segments, closed } of toSubpaths(path)) {
+        if (segments.length === 0) continue
+        commands.push({ type: 'M', values: [start.x, start.y] })
+
+        const runs: Cubic[][] = [[segments[0]]]
+        for (let i = 1; i < segments.length; i++) {
+            const previous = segments[i - 1]
+            const segment = segments[i]
+            const joined = isLine(previous) === isLine(segment)
+                && (isLine(segment) || dot(endTangent(previous), startTangent(segment)) >= cosCorner)
+            if (joined) runs[runs.length - 1].push(segment)
+            else runs.push([segment])
+        }
+
+        for (const run of runs) {
+            if (isLine(run[0])) {
+                const vertices = rdpSimplify([run[0][0], ...run.map((segment) => segment[3])], tolerance)
+                for (const { x, y } of vertices.slice(1)) commands.push({ type: 'L', values: [x, y] })
+                continue
+            }
+
+            const runLength = run.reduce((sum, [p0, , , p3]) => sum + distance(p0, p3), 0)
+            const points = sampleRun(run, Math.max(tolerance, runLength / MAX_RUN_SAMPLES))
+            const fitted: FitSegment[] = []
+            fitPoints(points, startTangent(run[0]), scale(endTangent(run[run.length - 1]), -1), tolerance, fitted)
+
+            for (const { line, points: [, c1, c2, end] } of fitted) {
+                commands.push(line
+                    ? { type: 'L', values: [end.x, end.y] }
+                    : { type: 'C', values: [c1.x, c1.y, c2.x, c2.y, end.x, end.y] })
+            }
+        }
+
+        if (closed) commands.push({ type: 'Z', values: [] })
+    }
+
+    return commands
+}
+
+/**
+ * Optimize an SVG path for size.
+ *
+ * 'curve' mode (the default for an options object) refits the outline with
+ * the fewest cubic Béziers that stay within `tolerance` of it, keeping
+ * corners sharp, so smooth waves stay smooth and can still be morphed.
+ * 'polyline' mode (used when a number is passed, for compatibility) runs
+ * Ramer-Douglas-Peucker on the flattened outline and rebuilds it with lines.
  *
  * @param path - SVG path string
- * @param epsilon - Tolerance in px. Higher = more simplification. Default: 1
+ * @param options - Options, or the polyline tolerance in px. Higher = more simplification. Default: 1
  * @returns Simplified SVG path string
  */
-export function optimizePath(path: string, epsilon: number = 1): string {
-    if (epsilon <= 0) return path
+export function optimizePath(path: string, options: number | OptimizePathOptions = 1): string {
+    const {
+        mode = 'curve',
+        tolerance = 1,
+        precision = 2,
+    }: OptimizePathOptions = typeof options === 'number' ? { mode: 'polyline', tolerance: options } : options
+    if (tolerance <= 0) return path
+
+    if (mode === 'curve') {
+        const fitted = serializePath(fitCurves(path, tolerance), precision)
+        // Compact input (e.g. quadratic curves) can already beat the refit
+        const rounded = serializePath(parsePath(path), precision)
+        return fitted.length < rounded.length ? fitted : rounded
+    }
 
     const points = extractPoints(path)
     if (points.length <= 2) return path
 
-    const simplified = rdpSimplify(points, epsilon)
-    return rebuildPath(simplified)
+    const simplified = rdpSimplify(points, tolerance)
+    return rebuildPath(simplified, precision)
 }
@@ -0,0 +1,196 @@
+import type { PatternGenerator, PatternLookup, PatternMeta, PatternName, PatternInfo, PatternParam, BuiltInPatternName } from '../types'
+import { PATTERN_REGISTRY, PATTERN_CATALOG, DEFAULT_FREQUENCY_RANGE } from '../constants'
+
+// ============================================================
+// Pattern Registration
+// ============================================================
+
+/** Names that are handled specially by generatePath and cannot be registered */
+const RESERVED_PATTERN_NAMES = new Set(['custom', 'layered'])
+
+/** Pattern names shipped with the library */
+const BUILT_IN_PATTERN_NAMES = new Set(Object.keys(PATTERN_REGISTRY))
+
+/** Assumed for patterns without metadata, so nothing they are given is reported as ignored */
+const ALL_PATTERN_PARAMS: PatternParam[] = ['amplitude', 'frequency', 'phase', 'seed', 'spline', 'noise', 'customPath']
+
+/** User-registered generators, checked before the built-ins (which stay untouched) */
+const registeredPatterns = new Map<string, PatternGenerator>()
+
+/** Metadata for user-registered patterns */
+const registeredMeta = new Map<string, PatternMeta>()
+
+/** Listeners notified whenever the global registry changes */
+const registryListeners = new Set<() => void>()
+
+function notifyRegistryChange(): void {
+    registryListeners.forEach((listener) => listener())
+}
+
+/** Own-property lookup, so names like "toString" never reach Object.prototype */
+function ownGenerator(lookup: PatternLookup | undefined, name: string): PatternGenerator | undefined {
+    return lookup && Object.prototype.hasOwnProperty.call(lookup, name) ? lookup[name] : undefined
+}
+
+/**
+ * Register a custom pattern generator globally.
+ *
+ * Registered patterns work anywhere a built-in pattern name is accepted —
+ * `WaveSection`, `generatePath`, interlocking, path-morph animations, the
+ * pattern gallery, `<wavy-section>` and the Tailwind plugin.
+ *
+ * Generators must return a closed path in the library's coordinate frame:
+ * `M -20 {height} L -20 {y} [curves...] L {width + 20} {height} Z`.
+ *
+ * @param name - Pattern name (add it to `CustomPatterns` for type safety)
+ * @param generator - Function producing an SVG path from a `PatternConfig`
+ * @param meta - Optional descriptive metadata
+ * @returns Cleanup function that unregisters the pattern
+ *
+ * @example
+ * ```ts
+ * declare module 'wavy-bavy' {
+ *   interface CustomPatterns { brand: true }
+ * }
+ *
+ * registerPattern('brand', ({ width, height, amplitude }) => `M -20 ${height} ...`)
+ * ```
+ */
+export function registerPattern(name: string, generator: PatternGenerator, meta: PatternMeta = {}): () => void {
+    if (!name) {
+        throw new Error('[wavy-bavy] registerPattern requires a non-empty pattern name')
+    }
+    if (RESERVED_PATTERN_NAMES.has(name) || BUILT_IN_PATTERN_NAMES.has(name)) {
+        throw new Error(`[wavy-bavy] Cannot register pattern "${name}": the name is reserved by a built-in pattern`)
+    }
+    if (typeof generator !== 'function') {
+        throw new Error(`[wavy-bavy] registerPattern("${name}") expects a generator function`)
+    }
+
+    if (registeredPatterns.has(name)) {
+        console.warn(`[wavy-bavy] Pattern "${name}" is already registered and will be replaced`)
+    }
+
+    registeredPatterns.set(name, generator)
+    registeredMeta.set(name, meta)
+    notifyRegistryChange()
+
+    return () => {
+        // Only remove if this registration is still the active one
+        if (registeredPatterns.get(name) === generator) unregisterPattern(name)
+    }
+}
+
+/**
+ * Remove a previously registered custom pattern.
+ * Built-in patterns cannot be removed.
+ *
+ * @returns true if a pattern was removed
+ */
+export function unregisterPattern(name: string): boolean {
+    if (!registeredPatterns.delete(name)) return false
+
+    registeredMeta.delete(name)
+    notifyRegistryChange()
+    return true
+}
+
+/**
+ * Remove every registered custom pattern, leaving the built-ins.
+ * Meant for tests and hot reloading.
+ */
+export function resetPatternRegistry(): void {
+    if (registeredPatterns.size === 0) return
+    registeredPatterns.clear()
+    registeredMeta.clear()
+    notifyRegistryChange()
+}
+
+/**
+ * Check whether a pattern name resolves to a generator, either in the
+ * given scoped lookup or the global registry.
+ */
+export function hasPattern(name: string, patterns?: PatternLookup): boolean {
+    return resolvePatternGenerator(name, patterns) !== undefined
+}
+
+/**
+ * List every pattern name available to generatePath: built-ins, globally
+ * registered patterns and (optionally) a scoped lookup.
+ */
+export function getPatternNames(patterns?: PatternLookup): PatternName[] {
+    const names = new Set([...Object.keys(PATTERN_REGISTRY), ...registeredPatterns.keys(), ...Object.keys(patterns ?? {})])
+    return [...names] as PatternName[]
+}
+
+/**
+ * Get the metadata a pattern was registered with.
+ * Returns undefined for built-ins and unknown names.
+ */
+export function getPatternMeta(name: string): PatternMeta | undefined {
+    return registeredMeta.get(name)
+}
+
+/**
+ * Get everything known about a pattern: label, description, the config
+ * fields it responds to, recommended ranges and animation behaviour.
+ *
+ * Built-ins (including 'layered' and 'custom') read from `PATTERN_CATALOG`,
+ * registered patterns from the metadata passed to `registerPattern`.
+ * Scoped patterns shadow both and, having no metadata, get the defaults.
+ *
+ * @param name - Pattern name
+ * @param patterns - Scoped pattern generators checked before the global registry
+ * @returns Resolved info, or undefined for unknown names
+ */
+export function getPatternInfo(name: string, patterns?: PatternLookup): PatternInfo | undefined {
+    const isScoped = !!ownGenerator(patterns, name)
+    const isRegistered = !isScoped && registeredPatterns.has(name)
+    const isBuiltIn = !isScoped && !isRegistered && Object.prototype.hasOwnProperty.call(PATTERN_CATALOG, name)
+    if (!isScoped && !isRegistered && !isBuiltIn && !ownGenerator(PATTERN_REGISTRY, name)) return undefined
+
+    const meta: PatternMeta = isBuiltIn
+        ? PATTERN_CATALOG[name as BuiltInPatternName]
+        : isScoped ? {} : registeredMeta.get(name) ?? {}
+
+    return {
+        name: name as PatternName,
+        label: meta.label ?? name,
+        description: meta.description ?? '',
+        builtIn: isBuiltIn,
+        params: meta.params ?? ALL_PATTERN_PARAMS,
+        frequencyRange: meta.frequencyRange ?? DEFAULT_FREQUENCY_RANGE,
+        amplitudeRange: meta.amplitudeRange ?? [0, 1],
+        morphSafe: meta.morphSafe ?? false,
+        periodic: meta.periodic ?? false,
+    }
+}
+
+/**
+ * List info for every pattern available to generatePath (see
+ * `getPatternNames`), in registry order.
+ */
+export function listPatterns(patterns?: PatternLookup): PatternInfo[] {
+    return getPatternNames(patterns).flatMap((name) => getPatternInfo(name, patterns) ?? [])
+}
+
+/**
+ * Resolve a pattern name to its generator: scoped patterns first, then
+ * registered ones, then the built-ins.
+ */
+export function resolvePatternGenerator(name: string, patterns?: PatternLookup): PatternGenerator | undefined {
+    return ownGenerator(patterns, name) ?? registeredPatterns.get(name) ?? ownGenerator(PATTERN_REGISTRY, name)
+}
+
+/**
+ * Subscribe to global registry changes (register/unregister/reset).
+ * Used by consumers that cache rendered output, like `<wavy-section>`.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribePatternRegistry(listener: () => void): () => void {
+    registryListeners.add(listener)
+    return () => {
+        registryListeners.delete(listener)
+    }
+}
@@ -0,0 +1,239 @@
+import type { PatternConfig, RadialPathOptions } from '../types'
+import { DEFAULT_VIEWBOX_WIDTH } from '../constants'
+import { generatePath } from './path-generator'
+import { normalizePath, serializePath } from './path-geometry'
+import type { PathCommand, PathPoint } from './path-geometry'
+
+// ============================================================
+// Radial Waves — patterns wrapped around a circle or ellipse
+// ============================================================
+
+/** Height of the straight band patterns are generated in before wrapping */
+export const RADIAL_BAND_HEIGHT = 120
+
+/** Fewest cubic pieces around the outline, so low-frequency shapes stay round */
+const MIN_RADIAL_PIECES = 32
+
+/** Tolerance when checking that a path follows the periodic frame */
+const FRAME_EPSILON = 0.01
+
+interface BandSegment {
+    /** Start, controls and end in band coordinates (lines have controls on the chord) */
+    points: [PathPoint, PathPoint, PathPoint, PathPoint]
+}
+
+interface BandContour {
+    start: PathPoint
+    segments: BandSegment[]
+    /** Band x that maps to the start angle */
+    x0: number
+    /** Band x distance covering one full turn */
+    span: number
+}
+
+/**
+ * Pattern config used to generate the straight band that gets wrapped:
+ * a periodic tile 1440 wide and 120 high, so the seam closes smoothly.
+ *
+ * @param options - Radial options (defaults are applied)
+ * @returns Partial pattern config for `generatePath` or path-morph keyframes
+ */
+export function radialPatternConfig(options: RadialPathOptions = {}): Partial<PatternConfig> {
+    return {
+        width: DEFAULT_VIEWBOX_WIDTH,
+        height: RADIAL_BAND_HEIGHT,
+        amplitude: options.amplitude ?? 0.5,
+        frequency: options.frequency ?? 6,
+        phase: options.phase ?? 0,
+        seed: options.seed,
+        periodic: true,
+        spline: options.spline,
+        noise: options.noise,
+        customPath: options.customPath,
+    }
+}
+
+/** Lift a normalized segment into cubic form */
+function toBandSegment(from: PathPoint, { type, values: v }: PathCommand): BandSegment {
+    if (type === 'C') {
+        return { points: [from, { x: v[0], y: v[1] }, { x: v[2], y: v[3] }, { x: v[4], y: v[5] }] }
+    }
+    const to = { x: v[0], y: v[1] }
+    const at = (t: number) => ({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t })
+    return { points: [from, at(1 / 3), at(2 / 3), to] }
+}
+
+/**
+ * The wave curve of a band path. Periodic paths (`M -20 h L -20 y' L 0 y
+ * [tile] L w+20 y'' L w+20 h Z`) contribute exactly their tile, so the start
+ * and end meet at the seam. Other paths contribute everything between the
+ * baseline edges, spread over their own x range.
+ */
+function extractBandContour(path: string): BandContour | null {
+    let commands: PathCommand[]
+    try {
+        commands = normalizePath(path)
+    } catch {
+        return null
+    }
+    if (commands.length < 4 || commands[0].type !== 'M') return null
+
+    const endOf = (command: PathCommand): PathPoint => {
+        const v = command.values
+        return { x: v[v.length - 2], y: v[v.length - 1] }
+    }
+    const isDrawing = (command: PathCommand) => command.type === 'L' || command.type === 'C'
+
+    const tile = commands.slice(3, -3)
+    const isPeriodic = commands.length >= 7
+        && commands[commands.length - 1].type === 'Z'
+        && tile.length > 0
+        && tile.every(isDrawing)
+        && Math.abs(endOf(commands[2]).x) < FRAME_EPSILON
+        && Math.abs(endOf(tile[tile.length - 1]).x - DEFAULT_VIEWBOX_WIDTH) < FRAME_EPSILON
+
+    let start: PathPoint
+    let drawn: PathCommand[]
+    if (isPeriodic) {
+        start = endOf(commands[2])
+        drawn = tile
+    } else {
+        // Contour between the baseline edges, up to the first break in the subpath
+        start = endOf(commands[1])
+        drawn = []
+        for (const command of commands.slice(2, -2)) {
+            if (!isDrawing(command)) break
+            drawn.push(command)
+        }
+    }
+    if (drawn.length === 0) return null
+
+    const segments: BandSegment[] = []
+    let cursor = start
+    for (const command of drawn) {
+        const segment = toBandSegment(cursor, command)
+        segments.push(segment)
+        cursor = segment.points[3]
+    }
+
+    const x0 = isPeriodic ? 0 : start.x
+    const span = isPeriodic ? DEFAULT_VIEWBOX_WIDTH : cursor.x - start.x
+    if (!(span > 0)) return null
+
+    return { start, segments, x0, span }
+}
+
+/**
+ * Wrap a band path (a wave generated at width 1440, height 120) around an
+ * ellipse. Band x becomes the angle — one band width is one full turn,
+ * starting at `rotation` and running clockwise — and band y becomes the
+ * distance inwards from the outer radius, scaled so the band's full height
+ * is `depth` of the radius. Crests point outwards and the filled side of the
+ * wave is the inside of the shape.
+ *
+ * Every band segment becomes the same number of cubics, so frames that share
+ * a command structure still share one after wrapping (and can be tweened).
+ *
+ * @param path - Band path, usually generated with `radialPatternConfig`
+ * @param options - Radius, depth and rotation (pattern options are ignored)
+ * @returns Closed path in a `2 × radius` by `2 × radiusY` box, or '' if the path has no wave curve
+ */
+export function wrapRadialPath(path: string, options: RadialPathOptions = {}): string {
+    const contour = extractBandContour(path)
+    if (!contour) return ''
+
+    const rx = options.radius ?? 100
+    const ry = options.radiusY ?? rx
+    const depth = Math.max(0, Math.min(1, options.depth ?? 0.2))
+    const rotation = ((options.rotation ?? 0) * Math.PI) / 180
+    const angleRate = (2 * Math.PI) / contour.span
+    const radialRate = depth / RADIAL_BAND_HEIGHT
+
+    // Band point → position on the ellipse, and the Jacobian columns at that point
+    const map = ({ x, y }: PathPoint) => {
+        const theta = rotation - Math.PI / 2 + (x - contour.x0) * angleRate
+        const scale = Math.max(0, 1 - radialRate * y)
+        const cos = Math.cos(theta)
+        const sin = Math.sin(theta)
+        return {
+            point: { x: rx + rx * scale * cos, y: ry + ry * scale * sin },
+            dx: { x: -rx * scale * sin * angleRate, y: ry * scale * cos * angleRate },
+            dy: { x: -rx * cos * radialRate, y: -ry * sin * radialRate },
+        }
+    }
+
+    const piecesPerSegment = Math.max(1, Math.ceil(MIN_RADIAL_PIECES / contour.segments.length))
+    const origin = map(contour.start).point
+    const commands: PathCommand[] = [{ type: 'M', values: [origin.x, origin.y] }]
+
+    for (const { points: [p0, p1, p2, p3] } of contour.segments) {
+        // Band position and velocity along the cubic
+        const at = (t: number) => {
+            const mt = 1 - t
+            return {
+                point: {
+                    x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+                    y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y,
+                },
+                velocity: {
+                    x: 3 * mt * mt * (p1.x - p0.x) + 6 * mt * t * (p2.x - p1.x) + 3 * t * t * (p3.x - p2.x),
+                    y: 3 * mt * mt * (p1.y - p0.y) + 6 * mt * t * (p2.y - p1.y) + 3 * t * t * (p3.y - p2.y),
+                },
+            }
+        }
+        // Position and tangent of the wrapped curve (chain rule through the Jacobian)
+        const wrapped = (t: number) => {
+            const { point, velocity } = at(t)
+            const { point: position, dx, dy } = map(point)
+            return {
+                position,
+                tangent: { x: dx.x * velocity.x + dy.x * velocity.y, y: dx.y * velocity.x + dy.y * velocity.y },
+            }
+        }
+
+        // Hermite → Bézier: each piece matches the wrapped curve's ends and tangents
+        let previous = wrapped(0)
+        for (let k = 1; k <= piecesPerSegment; k++) {
+            const next = wrapped(k / piecesPerSegment)
+            const step = 1 / (3 * piecesPerSegment)
+            commands.push({
+                type: 'C',
+                values: [
+                    previous.position.x + previous.tangent.x * step, previous.position.y + previous.tangent.y * step,
+                    next.position.x - next.tangent.x * step, next.position.y - next.tangent.y * step,
+                    next.position.x, next.position.y,
+                ],
+            })
+            previous = next
+        }
+    }
+
+    commands.push({ type: 'Z', values: [] })
+    return serializePath(commands, 2)
+}
+
+/**
+ * Generate a closed wavy circle or ellipse from any registered pattern.
+ * The pattern is generated as a periodic band and wrapped around the
+ * center (see `wrapRadialPath`), so the outline has no seam.
+ *
+ * @example
+ * ```ts
+ * generateRadialPath({ pattern: 'organic', radius: 80, amplitude: 0.6, frequency: 5, seed: 3 })
+ * ```
+ *
+ * @param options - Pattern, radius and wave options
+ * @returns Closed SVG path in a `2 × radius` by `2 × radiusY` box
+ */
+export function generateRadialPath(options: RadialPathOptions = {}): string {
+    const band = generatePath(options.pattern ?? 'smooth', radialPatternConfig(options), options.patterns)
+    return wrapRadialPath(band, options)
+}
+
+/**
+ * Wrap every `d: path("...")` in a keyframes block, so path-morph
+ * animations generated for band paths drive radial shapes.
+ */
+export function wrapRadialKeyframes(css: string, options: RadialPathOptions = {}): string {
+    return css.replace(/d:\s*path\("([^"]+)"\)/g, (_: string, pathStr: string) => `d: path("${wrapRadialPath(pathStr, options)}")`)
+}
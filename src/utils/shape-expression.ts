@@ -0,0 +1,347 @@
+import type { PatternGenerator, PatternLookup, PatternName, ShapeExpression, ShapeFilter, ShapeTerm } from '../types'
+import { sampledWavePath } from '../constants'
+import { generatePath } from './path-generator'
+import { createPathGeometry } from './path-geometry'
+
+// ============================================================
+// Shape Expressions — `sine(f=2,a=0.4) + noise(seed=7,a=0.1) | mirror`
+// ============================================================
+
+/** Names that only exist inside expressions, and the pattern they stand for */
+const SHAPE_ALIASES: Record<string, PatternName> = { sine: 'smooth' }
+
+/** Term parameters: accepted spellings → `ShapeTerm` field, and the spelling `toExpression` writes */
+const TERM_PARAMS: Record<string, keyof Omit<ShapeTerm, 'pattern'>> = {
+    f: 'frequency', freq: 'frequency', frequency: 'frequency',
+    a: 'amplitude', amp: 'amplitude', amplitude: 'amplitude',
+    p: 'phase', phase: 'phase',
+    s: 'seed', seed: 'seed',
+}
+const TERM_PARAM_ORDER: Array<[keyof Omit<ShapeTerm, 'pattern'>, string]> = [
+    ['frequency', 'f'], ['amplitude', 'a'], ['phase', 'p'], ['seed', 'seed'],
+]
+
+/** Filters and their positional arguments */
+const FILTER_ARGS: Record<ShapeFilter['type'], string[]> = {
+    mirror: [],
+    clamp: ['min', 'max'],
+    scale: ['factor'],
+    offset: ['amount'],
+}
+
+/** Height-field samples per period of the busiest term */
+const SAMPLES_PER_PERIOD = 48
+const MIN_SAMPLES = 96
+const MAX_SAMPLES = 256
+
+/** Own-property lookup, so names like "constructor" are not found on the prototype */
+function lookup<T>(record: Record<string, T>, key: string): T | undefined {
+    return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined
+}
+
+/** Parsed pattern strings, so re-renders don't re-parse */
+const parseCache = new Map<string, ShapeExpression>()
+const MAX_CACHED = 100
+
+// ── Tokenizer ──
+
+type TokenType = 'ident' | 'number' | '(' | ')' | ',' | '=' | '+' | '|' | 'end'
+
+interface Token {
+    type: TokenType
+    text: string
+    /** 0-based offset into the source */
+    offset: number
+}
+
+const IDENT = /[A-Za-z_][A-Za-z0-9_-]*/y
+const NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y
+
+/** Error pointing at a column of the source, with the line and a caret underneath */
+function parseError(source: string, offset: number, message: string): Error {
+    return new Error(`[wavy-bavy] Invalid shape expression: ${message} at column ${offset + 1}\n  ${source}\n  ${' '.repeat(offset)}^`)
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    let offset = 0
+    while (offset < source.length) {
+        const char = source[offset]
+        if (/\s/.test(char)) {
+            offset++
+            continue
+        }
+        if ('(),=+|'.includes(char)) {
+            tokens.push({ type: char as TokenType, text: char, offset })
+            offset++
+            continue
+        }
+        const token = (['number', 'ident'] as const).reduce<Token | null>((found, type) => {
+            if (found) return found
+            const pattern = type === 'number' ? NUMBER : IDENT
+            pattern.lastIndex = offset
+            const match = pattern.exec(source)
+            return match ? { type, text: match[0], offset } : null
+        }, null)
+        if (!token) throw parseError(source, offset, `unexpected character "${char}"`)
+        tokens.push(token)
+        offset += token.text.length
+    }
+    tokens.push({ type: 'end', text: '', offset: source.length })
+    return tokens
+}
+
+// ── Parser ──
+
+/**
+ * Parse a shape expression into its terms and filters.
+ *
+ * Grammar: one or more pattern terms joined by `+`, then any number of
+ * `| filter` stages. Terms are a pattern name (built-in, registered, or
+ * `sine` for `smooth`) with optional `name=value` params — `f` (frequency),
+ * `a` (amplitude multiplier), `p` (phase, in waves) and `seed`. Filters are
+ * `mirror`, `clamp(min,max)`, `scale(factor)` and `offset(amount)`, working
+ * on the height above the baseline (0-1).
+ *
+ * @example
+ * ```ts
+ * parseShapeExpression('sine(f=2,a=0.4) + noise(seed=7,a=0.1) | mirror | clamp(0.1,0.9)')
+ * ```
+ *
+ * @throws Error naming the column of the first problem, e.g. an unknown parameter or a missing `)`
+ */
+export function parseShapeExpression(source: string): ShapeExpression {
+    const tokens = tokenize(source)
+    let index = 0
+    const peek = () => tokens[index]
+    const describe = (token: Token) => (token.type === 'end' ? 'end of expression' : `"${token.text}"`)
+    const expect = (type: TokenType, what: string): Token => {
+        const token = peek()
+        if (token.type !== type) throw parseError(source, token.offset, `expected ${what} but found ${describe(token)}`)
+        index++
+        return token
+    }
+    const number = (what: string): number => {
+        const token = expect('number', what)
+        const value = Number(token.text)
+        if (!Number.isFinite(value)) throw parseError(source, token.offset, `${what} must be a finite number`)
+        return value
+    }
+
+    const parseTerm = (): ShapeTerm => {
+        const name = expect('ident', 'a pattern name')
+        const term: ShapeTerm = { pattern: (lookup(SHAPE_ALIASES, name.text) ?? name.text) as PatternName }
+        if (peek().type !== '(') return term
+        index++
+        while (peek().type !== ')') {
+            const param = expect('ident', 'a parameter name')
+            const field = lookup(TERM_PARAMS, param.text)
+            if (!field) {
+                throw parseError(source, param.offset, `unknown parameter "${param.text}" (use f, a, p or seed)`)
+            }
+            if (term[field] !== undefined) throw parseError(source, param.offset, `duplicate parameter "${param.text}"`)
+            expect('=', `"=" after "${param.text}"`)
+            const valueOffset = peek().offset
+            const value = number(`a number for "${param.text}"`)
+            if (field === 'frequency' && !(value > 0)) throw parseError(source, valueOffset, 'frequency must be greater than 0')
+            term[field] = value
+            if (peek().type !== ')') expect(',', '"," or ")"')
+        }
+        index++
+        return term
+    }
+
+    const parseFilter = (): ShapeFilter => {
+        const name = expect('ident', 'a filter name')
+        const argNames = lookup<string[]>(FILTER_ARGS, name.text)
+        if (!argNames) {
+            throw parseError(source, name.offset, `unknown filter "${name.text}" (use ${Object.keys(FILTER_ARGS).join(', ')})`)
+        }
+        const args: number[] = []
+        if (peek().type === '(') {
+            index++
+            while (peek().type !== ')') {
+                if (args.length === argNames.length) {
+                    throw parseError(source, peek().offset, `${name.text} takes ${argNames.length || 'no'} argument${argNames.length === 1 ? '' : 's'}`)
+                }
+                args.push(number(`a number for ${name.text}`))
+                if (peek().type !== ')') expect(',', '"," or ")"')
+            }
+            index++
+        }
+        if (args.length !== argNames.length) {
+            throw parseError(source, name.offset, `${name.text} needs ${argNames.length} argument${argNames.length === 1 ? '' : 's'} (${argNames.join(', ')})`)
+        }
+
+        switch (name.text as ShapeFilter['type']) {
+            case 'mirror':
+                return { type: 'mirror' }
+            case 'clamp':
+                if (args[0] > args[1]) throw parseError(source, name.offset, 'clamp min must not exceed max')
+                return { type: 'clamp', min: args[0], max: args[1] }
+            case 'scale':
+                return { type: 'scale', factor: args[0] }
+            case 'offset':
+                return { type: 'offset', amount: args[0] }
+        }
+    }
+
+    const terms: ShapeTerm[] = [parseTerm()]
+    while (peek().type === '+') {
+        index++
+        terms.push(parseTerm())
+    }
+    const filters: ShapeFilter[] = []
+    while (peek().type === '|') {
+        index++
+        filters.push(parseFilter())
+    }
+    if (peek().type !== 'end') {
+        throw parseError(source, peek().offset, `expected "+", "|" or end of expression but found ${describe(peek())}`)
+    }
+
+    return { terms, filters }
+}
+
+// ── Serializer ──
+
+/**
+ * Write a parsed (or hand-built) expression back as text, in canonical
+ * form: `sine(f=2,a=0.4) + noise(a=0.1,seed=7) | mirror | clamp(0.1,0.9)`.
+ * `parseShapeExpression(toExpression(expression))` returns an equal expression.
+ *
+ * @throws Error when the expression has no terms
+ */
+export function toExpression(expression: ShapeExpression): string {
+    if (expression.terms.length === 0) {
+        throw new Error('[wavy-bavy] toExpression needs at least one term')
+    }
+    const aliasOf = (pattern: PatternName) => Object.keys(SHAPE_ALIASES).find((alias) => SHAPE_ALIASES[alias] === pattern) ?? pattern
+
+    const terms = expression.terms.map((term) => {
+        const params = TERM_PARAM_ORDER
+            .filter(([field]) => term[field] !== undefined)
+            .map(([field, name]) => `${name}=${String(term[field])}`)
+        return params.length > 0 ? `${aliasOf(term.pattern)}(${params.join(',')})` : aliasOf(term.pattern)
+    })
+    const filters = (expression.filters ?? []).map((filter) => {
+        switch (filter.type) {
+            case 'mirror':
+                return 'mirror'
+            case 'clamp':
+                return `clamp(${filter.min},${filter.max})`
+            case 'scale':
+                return `scale(${filter.factor})`
+            case 'offset':
+                return `offset(${filter.amount})`
+        }
+    })
+
+    return [terms.join(' + '), ...filters].join(' | ')
+}
+
+// ── Compiler ──
+
+/**
+ * Whether a pattern string is meant as a shape expression rather than a
+ * plain pattern name: it uses expression syntax or an expression-only name.
+ */
+export function isShapeExpression(pattern: string): boolean {
+    return /[()+|=]/.test(pattern) || lookup(SHAPE_ALIASES, pattern.trim()) !== undefined
+}
+
+/**
+ * Compile a shape expression into a pattern generator.
+ *
+ * Terms are generated as periodic tiles at the wave's config (amplitude
+ * multiplied by `a`, frequency replaced by `f`, seed replaced by `seed`),
+ * shifted by `p` waves plus the wave's phase, and their heights above the
+ * baseline are added up. Filters then run left to right and the result is
+ * drawn as one smooth curve, so the generator works with interlocking,
+ * clipping, exports and path-morph animations like any other pattern.
+ *
+ * @param expression - Expression text or a parsed expression
+ * @param patterns - Scoped pattern generators checked before the global registry
+ */
+export function compileShapeExpression(expression: string | ShapeExpression, patterns?: PatternLookup): PatternGenerator {
+    const { terms, filters = [] } = typeof expression === 'string' ? parseShapeExpression(expression) : expression
+    if (terms.length === 0) {
+        throw new Error('[wavy-bavy] a shape expression needs at least one term')
+    }
+
+    return (config) => {
+        const { width, height, periodic = false } = config
+
+        const layers = terms.map((term) => {
+            const frequency = term.frequency ?? config.frequency
+            const path = generatePath(term.pattern, {
+                ...config,
+                amplitude: config.amplitude * (term.amplitude ?? 1),
+                frequency,
+                // Phase is applied below as a shift, so every pattern honours it
+                phase: 0,
+                seed: term.seed ?? config.seed,
+                periodic: true,
+                mirror: false,
+                anchors: undefined,
+            }, patterns)
+            const shift = ((config.phase + (term.phase ?? 0)) * width) / Math.max(1, Math.round(frequency))
+            return { geometry: createPathGeometry(path), shift }
+        })
+
+        // Summed height above the baseline (0-1), then each filter in turn
+        let field = (x: number) => layers.reduce((sum, { geometry, shift }) => {
+            const sampleX = ((((x + shift) % width) + width) % width)
+            return sum + (height - (geometry.getYAtX(sampleX) ?? height)) / height
+        }, 0)
+        for (const filter of filters) {
+            const previous = field
+            switch (filter.type) {
+                case 'mirror':
+                    field = (x) => previous(width - x)
+                    break
+                case 'clamp':
+                    field = (x) => Math.max(filter.min, Math.min(filter.max, previous(x)))
+                    break
+                case 'scale':
+                    field = (x) => previous(x) * filter.factor
+                    break
+                case 'offset':
+                    field = (x) => previous(x) + filter.amount
+                    break
+            }
+        }
+
+        const busiest = Math.max(...terms.map(({ frequency }) => Math.max(1, Math.round(frequency ?? config.frequency))))
+        const samples = Math.min(MAX_SAMPLES, Math.max(MIN_SAMPLES, busiest * SAMPLES_PER_PERIOD))
+        const step = width / samples
+        const points = Array.from({ length: samples + 3 }, (_, i) => {
+            const x = (i - 1) * step
+            const level = Math.max(0, Math.min(1, field(x)))
+            return { x, y: height * (1 - level) }
+        })
+
+        return sampledWavePath(points, width, height, periodic)
+    }
+}
+
+/**
+ * Generator for a pattern string that is a shape expression (see
+ * `isShapeExpression`). Invalid expressions warn with the parse error and
+ * return undefined, so callers fall back like they do for unknown names.
+ */
+export function resolveShapeExpression(pattern: string, patterns?: PatternLookup): PatternGenerator | undefined {
+    if (!isShapeExpression(pattern)) return undefined
+    try {
+        let expression = parseCache.get(pattern)
+        if (!expression) {
+            expression = parseShapeExpression(pattern)
+            if (parseCache.size >= MAX_CACHED) parseCache.clear()
+            parseCache.set(pattern, expression)
+        }
+        return compileShapeExpression(expression, patterns)
+    } catch (error) {
+        console.warn(`${(error as Error).message}\nFalling back to "smooth".`)
+        return undefined
+    }
+}
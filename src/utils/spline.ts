@@ -0,0 +1,237 @@
+import type { SplinePoint, SplineInterpolation } from '../types'
+
+// ============================================================
+// Spline Interpolation
+// ============================================================
+
+/** Cubic Bézier segment: start point, two control points, end point */
+export type CubicSegment = [SplinePoint, SplinePoint, SplinePoint, SplinePoint]
+
+const EPSILON = 1e-6
+
+/**
+ * Offset a control point from `anchor` along (dx, dy), shortened if needed so
+ * it stays within `reach` horizontally.
+ */
+function controlPoint(anchor: SplinePoint, dx: number, dy: number, reach: number): SplinePoint {
+    const scale = Math.abs(dx) > reach ? reach / Math.abs(dx) : 1
+    return { x: anchor.x + dx * scale, y: anchor.y + dy * scale }
+}
+
+/**
+ * Cardinal (Catmull-Rom) spline through `points`, as cubic Bézier segments.
+ * Tension 0 is the classic Catmull-Rom curve; 1 collapses to straight lines.
+ * The end tangents treat the missing neighbour as the endpoint itself.
+ *
+ * Control points stay within a third of their segment's width, so unevenly
+ * spaced anchors (sorted by x) never make the curve loop back on itself.
+ */
+export function cardinalSegments(points: SplinePoint[], tension: number = 0): CubicSegment[] {
+    const k = (1 - Math.max(0, Math.min(1, tension))) / 6
+    const last = points.length - 1
+    const segments: CubicSegment[] = []
+
+    for (let i = 0; i < last; i++) {
+        const p0 = points[Math.max(0, i - 1)]
+        const p1 = points[i]
+        const p2 = points[i + 1]
+        const p3 = points[Math.min(last, i + 2)]
+        const reach = Math.abs(p2.x - p1.x) / 3
+        segments.push([
+            p1,
+            controlPoint(p1, (p2.x - p0.x) * k, (p2.y - p0.y) * k, reach),
+            controlPoint(p2, -(p3.x - p1.x) * k, -(p3.y - p1.y) * k, reach),
+            p2,
+        ])
+    }
+
+    return segments
+}
+
+/**
+ * Monotone cubic spline (Fritsch–Carlson) through `points`, as cubic Bézier
+ * segments. Points must have strictly increasing x. The curve never leaves
+ * the vertical range of the two anchors each segment connects.
+ */
+export function monotoneSegments(points: SplinePoint[]): CubicSegment[] {
+    const n = points.length
+    if (n < 2) return []
+
+    const secants: number[] = []
+    for (let i = 0; i < n - 1; i++) {
+        secants.push((points[i + 1].y - points[i].y) / (points[i + 1].x - points[i].x))
+    }
+
+    const tangents = points.map((_, i) => {
+        if (i === 0) return secants[0]
+        if (i === n - 1) return secants[n - 2]
+        const before = secants[i - 1]
+        const after = secants[i]
+        // Local extremum: flatten so the curve cannot overshoot
+        return before * after <= 0 ? 0 : (before + after) / 2
+    })
+
+    // Limit tangents that would overshoot inside a segment
+    for (let i = 0; i < n - 1; i++) {
+        const secant = secants[i]
+        if (secant === 0) {
+            tangents[i] = 0
+            tangents[i + 1] = 0
+            continue
+        }
+        const a = tangents[i] / secant
+        const b = tangents[i + 1] / secant
+        const magnitude = a * a + b * b
+        if (magnitude > 9) {
+            const scale = 3 / Math.sqrt(magnitude)
+            tangents[i] = scale * a * secant
+            tangents[i + 1] = scale * b * secant
+        }
+    }
+
+    const segments: CubicSegment[] = []
+    for (let i = 0; i < n - 1; i++) {
+        const p1 = points[i]
+        const p2 = points[i + 1]
+        const third = (p2.x - p1.x) / 3
+        segments.push([
+            p1,
+            { x: p1.x + third, y: p1.y + tangents[i] * third },
+            { x: p2.x - third, y: p2.y - tangents[i + 1] * third },
+            p2,
+        ])
+    }
+
+    return segments
+}
+
+/** Interpolate `points` (strictly increasing x) with the given mode */
+export function interpolateSpline(
+    points: SplinePoint[],
+    interpolation: SplineInterpolation = 'catmull-rom',
+    tension: number = 0,
+): CubicSegment[] {
+    return interpolation === 'monotone' ? monotoneSegments(points) : cardinalSegments(points, tension)
+}
+
+function cubicAt(a: number, b: number, c: number, d: number, t: number): number {
+    const mt = 1 - t
+    return mt * mt * mt * a + 3 * mt * mt * t * b + 3 * mt * t * t * c + t * t * t * d
+}
+
+const lerp = (a: SplinePoint, b: SplinePoint, t: number): SplinePoint => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+})
+
+/** Split a segment at parameter t (de Casteljau) */
+function splitSegment([p0, p1, p2, p3]: CubicSegment, t: number): [CubicSegment, CubicSegment] {
+    const a = lerp(p0, p1, t)
+    const b = lerp(p1, p2, t)
+    const c = lerp(p2, p3, t)
+    const ab = lerp(a, b, t)
+    const bc = lerp(b, c, t)
+    const mid = lerp(ab, bc, t)
+    return [[p0, a, ab, mid], [mid, bc, c, p3]]
+}
+
+/** Parameter at which a segment reaches `x`. Assumes x increases along the segment */
+function paramAtX([p0, p1, p2, p3]: CubicSegment, x: number): number {
+    let lo = 0
+    let hi = 1
+    for (let i = 0; i < 40; i++) {
+        const mid = (lo + hi) / 2
+        if (cubicAt(p0.x, p1.x, p2.x, p3.x, mid) < x) lo = mid
+        else hi = mid
+    }
+    return (lo + hi) / 2
+}
+
+/** Keep the parts of `segments` between x = from and x = to, splitting the segments that straddle them */
+function cropSegments(segments: CubicSegment[], from: number, to: number): CubicSegment[] {
+    const out: CubicSegment[] = []
+    for (const segment of segments) {
+        const start = segment[0].x
+        const end = segment[3].x
+        if (end <= from + EPSILON || start >= to - EPSILON) continue
+        let piece = segment
+        if (start < from - EPSILON) piece = splitSegment(piece, paramAtX(piece, from))[1]
+        if (end > to + EPSILON) piece = splitSegment(piece, paramAtX(piece, to))[0]
+        out.push(piece)
+    }
+    return out
+}
+
+// ============================================================
+// Repeating Wave Splines
+// ============================================================
+
+export interface SplineWaveOptions {
+    /** Whole periods across the width */
+    periods: number
+    /** Horizontal shift, in periods */
+    phase: number
+    /** Make every period start and end at the same height and slope */
+    periodic: boolean
+    interpolation: SplineInterpolation
+    tension: number
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v))
+const byX = (a: SplinePoint, b: SplinePoint) => a.x - b.x
+
+/** Position within a period; x = 1 wraps to 0 */
+function wrap(x: number): number {
+    const w = x - Math.floor(x)
+    return w > 1 - EPSILON ? 0 : w
+}
+
+/** Drop points that share an x with the point before them */
+function dedupeX<T extends SplinePoint>(points: T[]): T[] {
+    return points.filter((p, i) => i === 0 || p.x - points[i - 1].x > EPSILON)
+}
+
+/**
+ * Interpolate normalized anchors repeated once per period and shifted by
+ * `phase`. Returns segments (x in periods, y normalized) running exactly
+ * from x = 0 to x = `periods`.
+ *
+ * Copies of the anchors beyond the visible range supply tangents, so each
+ * repeat flows into the next like any other pair of anchors; the segments
+ * crossing x = 0 and x = `periods` are split there. Where two copies meet at
+ * the same x (an anchor at x = 1 and the next period's x = 0), the one inside
+ * the visible periods wins. Periodic mode treats the anchors as a loop
+ * instead: x = 1 is the same place as x = 0.
+ *
+ * The segment count depends only on the anchors and `periods` — never on
+ * `phase` — so phase-shifted frames share one command structure and CSS
+ * `d: path()` animations can interpolate between them. Short results (no
+ * anchor copy straddles either end) have their last segment split in half.
+ */
+export function splineWaveSegments(points: SplinePoint[], options: SplineWaveOptions): CubicSegment[] {
+    const { periods, phase, periodic, interpolation, tension } = options
+    const anchors = points.map(({ x, y }) => ({ x: clamp01(x), y: clamp01(y) })).sort(byX)
+    const perPeriod = dedupeX(anchors.map(({ x }) => ({ x: wrap(x), y: 0 })).sort(byX)).length
+    const reach = Math.ceil(Math.abs(phase)) + 1
+
+    let sequence: SplinePoint[]
+    if (periodic) {
+        const cycle = dedupeX(anchors.map(({ x, y }) => ({ x: wrap(x + phase), y })).sort(byX))
+        sequence = []
+        for (let k = -1; k <= periods; k++) {
+            for (const { x, y } of cycle) sequence.push({ x: x + k, y })
+        }
+    } else {
+        const copies: Array<SplinePoint & { inside: boolean }> = []
+        for (let k = -reach; k < periods + reach; k++) {
+            for (const { x, y } of anchors) copies.push({ x: x + k + phase, y, inside: k >= 0 && k < periods })
+        }
+        // Stable sort: at equal x, visible copies first, then in period order
+        copies.sort((a, b) => (Math.abs(a.x - b.x) > EPSILON ? a.x - b.x : Number(b.inside) - Number(a.inside)))
+        sequence = dedupeX(copies).map(({ x, y }) => ({ x, y }))
+    }
+
+    const segments = cropSegments(interpolateSpline(sequence, interpolation, tension), 0, periods)
+    while (segments.length < periods * perPeriod + 1) segments.push(...splitSegment(segments.pop()!, 0.5))
+    return segments
+}
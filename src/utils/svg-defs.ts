@@ -0,0 +1,107 @@
+import type { GradientConfig, WaveBandConfig, WaveBandPattern } from '../types'
+
+// ============================================================
+// SVG defs — gradients and band fills as plain data
+// ============================================================
+
+/**
+ * An SVG element as plain data, so React (`renderSvgNode`), the web
+ * component and the SVG exporter (`serializeSvgNode`) draw the same defs.
+ */
+export interface SvgNode {
+    tag: string
+    /** SVG attribute names as written in markup (`stop-color`, not `stopColor`) */
+    attrs: Record<string, string | number>
+    children?: SvgNode[]
+}
+
+/** Tile size of band patterns unless set, in px */
+const DEFAULT_PATTERN_SIZE = 8
+
+/** Stripes lean this way unless an angle is set */
+const DEFAULT_STRIPE_ANGLE = 45
+
+/**
+ * Gradient definition: `<linearGradient>` (angle → x1/y1/x2/y2) or a
+ * centered `<radialGradient>`.
+ */
+export function gradientNode(config: GradientConfig, id: string): SvgNode {
+    const stops: SvgNode[] = config.stops.map((stop) => ({
+        tag: 'stop',
+        attrs: { offset: `${stop.offset * 100}%`, 'stop-color': stop.color },
+    }))
+    if (config.type === 'radial') {
+        return { tag: 'radialGradient', attrs: { id, cx: '50%', cy: '50%', r: '50%' }, children: stops }
+    }
+    // Linear gradient — convert angle to SVG x1/y1/x2/y2
+    const rad = ((config.angle ?? 0) * Math.PI) / 180
+    return {
+        tag: 'linearGradient',
+        attrs: {
+            id,
+            x1: `${50 - Math.cos(rad) * 50}%`,
+            y1: `${50 + Math.sin(rad) * 50}%`,
+            x2: `${50 + Math.cos(rad) * 50}%`,
+            y2: `${50 - Math.sin(rad) * 50}%`,
+        },
+        children: stops,
+    }
+}
+
+/** Repeating `<pattern>` tile of stripes, dots or grid lines */
+export function bandPatternNode(pattern: WaveBandPattern, id: string): SvgNode {
+    const size = pattern.size ?? DEFAULT_PATTERN_SIZE
+    const angle = pattern.angle ?? (pattern.type === 'stripes' ? DEFAULT_STRIPE_ANGLE : 0)
+    const children: SvgNode[] = []
+    if (pattern.background) {
+        children.push({ tag: 'rect', attrs: { width: size, height: size, fill: pattern.background } })
+    }
+    switch (pattern.type) {
+        case 'stripes':
+            children.push({ tag: 'rect', attrs: { width: size / 2, height: size, fill: pattern.color } })
+            break
+        case 'dots':
+            children.push({ tag: 'circle', attrs: { cx: size / 2, cy: size / 2, r: size / 4, fill: pattern.color } })
+            break
+        case 'grid': {
+            const line = Math.max(1, size / 8)
+            children.push(
+                { tag: 'rect', attrs: { width: size, height: line, fill: pattern.color } },
+                { tag: 'rect', attrs: { width: line, height: size, fill: pattern.color } },
+            )
+            break
+        }
+    }
+    return {
+        tag: 'pattern',
+        attrs: {
+            id,
+            patternUnits: 'userSpaceOnUse',
+            width: size,
+            height: size,
+            ...(angle !== 0 && { patternTransform: `rotate(${angle})` }),
+        },
+        children,
+    }
+}
+
+/**
+ * Paint for an accent band: a color as is, or a `url(#id)` reference
+ * plus the gradient/pattern def it points at.
+ */
+export function bandFill(fill: WaveBandConfig['fill'], id: string): { paint: string; def?: SvgNode } {
+    if (typeof fill === 'string') return { paint: fill }
+    const def = 'stops' in fill ? gradientNode(fill, id) : bandPatternNode(fill, id)
+    return { paint: `url(#${id})`, def }
+}
+
+function escapeAttribute(value: string | number): string {
+    return String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+/** SVG markup for a node and its children */
+export function serializeSvgNode(node: SvgNode): string {
+    const attrs = Object.entries(node.attrs).map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('')
+    const children = (node.children ?? []).map(serializeSvgNode).join('')
+    return children ? `<${node.tag}${attrs}>${children}</${node.tag}>` : `<${node.tag}${attrs} />`
+}
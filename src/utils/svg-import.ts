@@ -0,0 +1,388 @@
+import type { ImportWaveSVGOptions, ImportWaveAnchor } from '../types'
+import type { PathCommand, PathPoint } from './path-geometry'
+import { normalizePath, serializePath, createPathGeometry } from './path-geometry'
+import { DEFAULT_VIEWBOX_WIDTH, sampledWavePath } from '../constants'
+
+// ============================================================
+// SVG Import — arbitrary shapes into the wave frame
+// ============================================================
+
+/** 2D affine transform [a, b, c, d, e, f] as in SVG `matrix()` */
+type Matrix = [number, number, number, number, number, number]
+
+interface ImportedShape {
+    id?: string
+    commands: PathCommand[]
+}
+
+interface EdgeSegment {
+    line: boolean
+    points: [PathPoint, PathPoint, PathPoint, PathPoint]
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+/** Elements whose children are never rendered directly */
+const NON_RENDERED = new Set(['defs', 'clipPath', 'mask', 'symbol', 'pattern', 'marker', 'linearGradient', 'radialGradient', 'filter'])
+
+/** Samples across the width when the outline has to be traced instead of copied */
+const TRACE_SAMPLES = 256
+
+function multiply([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix {
+    return [
+        a1 * a2 + c1 * b2,
+        b1 * a2 + d1 * b2,
+        a1 * c2 + c1 * d2,
+        b1 * c2 + d1 * d2,
+        a1 * e2 + c1 * f2 + e1,
+        b1 * e2 + d1 * f2 + f1,
+    ]
+}
+
+function numbers(list: string): number[] {
+    return list.trim().split(/[\s,]+/).filter(Boolean).map(Number)
+}
+
+/** Parse an SVG `transform` attribute into one matrix */
+function parseTransform(transform: string | undefined): Matrix {
+    let matrix = IDENTITY
+    if (!transform) return matrix
+
+    for (const [, name, args] of transform.matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+        const v = numbers(args)
+        let step: Matrix = IDENTITY
+        switch (name) {
+            case 'matrix':
+                if (v.length === 6) step = v as Matrix
+                break
+            case 'translate':
+                step = [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0]
+                break
+            case 'scale':
+                step = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0]
+                break
+            case 'rotate': {
+                const angle = ((v[0] ?? 0) * Math.PI) / 180
+                const cos = Math.cos(angle)
+                const sin = Math.sin(angle)
+                const [cx = 0, cy = 0] = v.slice(1)
+                step = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy])
+                break
+            }
+            case 'skewX':
+                step = [1, 0, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 1, 0, 0]
+                break
+            case 'skewY':
+                step = [1, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]
+                break
+        }
+        matrix = multiply(matrix, step)
+    }
+    return matrix
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {}
+    for (const [, name, , double, single] of source.matchAll(/([^\s=/]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        attributes[name] = double ?? single
+    }
+    return attributes
+}
+
+/** Apply a transform to normalized (absolute M/L/C/Z) commands */
+function transformCommands(commands: PathCommand[], [a, b, c, d, e, f]: Matrix): PathCommand[] {
+    return commands.map(({ type, values }) => {
+        const out = values.slice()
+        for (let i = 0; i < out.length; i += 2) {
+            out[i] = a * values[i] + c * values[i + 1] + e
+            out[i + 1] = b * values[i] + d * values[i + 1] + f
+        }
+        return { type, values: out }
+    })
+}
+
+/** Path data for a shape element, or undefined for elements that are not imported */
+function shapePathData(name: string, attributes: Record<string, string>): string | undefined {
+    if (name === 'path') return attributes.d
+    if ((name === 'polygon' || name === 'polyline') && attributes.points) {
+        const v = numbers(attributes.points)
+        const pairs: string[] = []
+        for (let i = 0; i + 1 < v.length; i += 2) pairs.push(`${v[i]} ${v[i + 1]}`)
+        return `M ${pairs.join(' L ')}${name === 'polygon' ? ' Z' : ''}`
+    }
+    return undefined
+}
+
+/**
+ * Read the rendered shapes (paths, polygons, polylines) from an SVG
+ * document with every ancestor transform applied, plus the root viewBox.
+ */
+function readSVG(svg: string): { shapes: ImportedShape[]; viewBox?: [number, number, number, number] } {
+    const shapes: ImportedShape[] = []
+    const stack: Array<{ name: string; matrix: Matrix; hidden: boolean }> = []
+    let viewBox: [number, number, number, number] | undefined
+
+    const source = svg.replace(/<!--[\s\S]*?-->/g, '').replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+    for (const [, closing, name, attributeSource, selfClosing] of source.matchAll(/<(\/?)([a-zA-Z][\w:.-]*)([^>]*?)(\/?)>/g)) {
+        if (closing) {
+            // Pop back to the matching element (tolerates unclosed children)
+            const index = stack.map((element) => element.name).lastIndexOf(name)
+            if (index >= 0) stack.length = index
+            continue
+        }
+
+        const attributes = parseAttributes(attributeSource)
+        const parent = stack[stack.length - 1]
+        const matrix = multiply(parent?.matrix ?? IDENTITY, parseTransform(attributes.transform))
+        const hidden = (parent?.hidden ?? false) || NON_RENDERED.has(name) || attributes.display === 'none'
+
+        if (name === 'svg' && !parent) {
+            const box = attributes.viewBox ? numbers(attributes.viewBox) : []
+            if (box.length === 4 && box[2] > 0 && box[3] > 0) {
+                viewBox = box as [number, number, number, number]
+            } else if (parseFloat(attributes.width) > 0 && parseFloat(attributes.height) > 0) {
+                viewBox = [0, 0, parseFloat(attributes.width), parseFloat(attributes.height)]
+            }
+        }
+
+        const d = hidden ? undefined : shapePathData(name, attributes)
+        if (d) shapes.push({ id: attributes.id, commands: transformCommands(normalizePath(d), matrix) })
+
+        if (!selfClosing) stack.push({ name, matrix, hidden })
+    }
+
+    return { shapes, viewBox }
+}
+
+// ============================================================
+// Wave Frame Fitting
+// ============================================================
+
+/** Subpaths of normalized commands */
+function splitSubpaths(commands: PathCommand[]): PathCommand[][] {
+    const subpaths: PathCommand[][] = []
+    for (const command of commands) {
+        if (command.type === 'M' || subpaths.length === 0) subpaths.push([])
+        subpaths[subpaths.length - 1].push(command)
+    }
+    return subpaths
+}
+
+function pointsOf(commands: PathCommand[]): PathPoint[] {
+    return commands.flatMap(({ values }) => {
+        const points: PathPoint[] = []
+        for (let i = 0; i + 1 < values.length; i += 2) points.push({ x: values[i], y: values[i + 1] })
+        return points
+    })
+}
+
+/** Segments of one subpath, including the closing line when it is closed */
+function edgeSegments(subpath: PathCommand[]): EdgeSegment[] {
+    const segments: EdgeSegment[] = []
+    let start: PathPoint = { x: 0, y: 0 }
+    let cursor = start
+    for (const { type, values: v } of subpath) {
+        if (type === 'M') {
+            start = cursor = { x: v[0], y: v[1] }
+        } else if (type === 'L') {
+            const end = { x: v[0], y: v[1] }
+            segments.push({ line: true, points: [cursor, cursor, end, end] })
+            cursor = end
+        } else if (type === 'C') {
+            const end = { x: v[4], y: v[5] }
+            segments.push({ line: false, points: [cursor, { x: v[0], y: v[1] }, { x: v[2], y: v[3] }, end] })
+            cursor = end
+        } else if (type === 'Z' && (cursor.x !== start.x || cursor.y !== start.y)) {
+            segments.push({ line: true, points: [cursor, cursor, start, start] })
+            cursor = start
+        }
+    }
+    return segments
+}
+
+/**
+ * The wave edge of a closed outline: everything except its flat base and
+ * vertical sides, as one left-to-right run of segments. Returns null when the
+ * outline is not a single x-monotone edge (it then gets traced instead).
+ */
+function waveEdge(subpath: PathCommand[]): EdgeSegment[] | null {
+    const closed = subpath.some(({ type }) => type === 'Z')
+    const segments = edgeSegments(subpath)
+    if (segments.length === 0) return null
+
+    let edge = segments
+    if (closed) {
+        const points = pointsOf(subpath)
+        const minX = Math.min(...points.map(({ x }) => x))
+        const maxX = Math.max(...points.map(({ x }) => x))
+        const maxY = Math.max(...points.map(({ y }) => y))
+        const tolerance = Math.max(1e-6, (maxX - minX) * 1e-4)
+
+        const isBoundary = ({ points: p }: EdgeSegment) => {
+            const onBase = p.every(({ y }) => y >= maxY - tolerance)
+            const onSide = p.every(({ x }) => Math.abs(x - p[0].x) <= tolerance) &&
+                (Math.abs(p[0].x - minX) <= tolerance || Math.abs(p[0].x - maxX) <= tolerance)
+            return onBase || onSide
+        }
+
+        // Rotate so the cycle starts right after a boundary segment, then take the one run of edge segments
+        const first = segments.findIndex(isBoundary)
+        if (first < 0) return null
+        const rotated = [...segments.slice(first + 1), ...segments.slice(0, first + 1)]
+        const runStart = rotated.findIndex((segment) => !isBoundary(segment))
+        if (runStart < 0) return null
+        let runEnd = runStart
+        while (runEnd < rotated.length && !isBoundary(rotated[runEnd])) runEnd++
+        if (rotated.slice(runEnd).some((segment) => !isBoundary(segment))) return null
+        edge = rotated.slice(runStart, runEnd)
+    }
+
+    // Orient left to right
+    if (edge[0].points[0].x > edge[edge.length - 1].points[3].x) {
+        edge = edge.slice().reverse().map(({ line, points: [p0, p1, p2, p3] }) => ({ line, points: [p3, p2, p1, p0] }))
+    }
+
+    const width = edge[edge.length - 1].points[3].x - edge[0].points[0].x
+    const tolerance = Math.max(1e-6, width * 1e-4)
+    if (edge.some(({ points: [start, , , end] }) => end.x < start.x - tolerance)) return null
+    return edge
+}
+
+/** Draw a wave edge inside the library's frame: M -20 {h} L -20 {y} … L {w + 20} {h} Z */
+function framePath(edge: EdgeSegment[], width: number, height: number): string {
+    const start = edge[0].points[0]
+    const end = edge[edge.length - 1].points[3]
+    const commands: PathCommand[] = [
+        { type: 'M', values: [-20, height] },
+        { type: 'L', values: [-20, start.y] },
+    ]
+    if (start.x > -20) commands.push({ type: 'L', values: [start.x, start.y] })
+    for (const { line, points: [, c1, c2, p] } of edge) {
+        commands.push(line
+            ? { type: 'L', values: [p.x, p.y] }
+            : { type: 'C', values: [c1.x, c1.y, c2.x, c2.y, p.x, p.y] })
+    }
+    if (end.x < width + 20) commands.push({ type: 'L', values: [width + 20, end.y] })
+    commands.push({ type: 'L', values: [width + 20, height] }, { type: 'Z', values: [] })
+    return serializePath(commands)
+}
+
+/** Trace the top of an outline the edge extraction cannot handle (holes, loops, several humps on the base) */
+function traceTopEdge(commands: PathCommand[], width: number, height: number): string {
+    const geometry = createPathGeometry(commands)
+    const { minX, maxX } = geometry.bounds
+    const step = width / TRACE_SAMPLES
+    const points = Array.from({ length: TRACE_SAMPLES + 3 }, (_, i) => {
+        const x = (i - 1) * step
+        const y = geometry.getYAtX(Math.max(minX, Math.min(maxX, x)), 'top') ?? height
+        return { x, y: Math.max(0, Math.min(height, y)) }
+    })
+    return sampledWavePath(points, width, height, false)
+}
+
+/**
+ * Turn outline commands, already in frame coordinates (0…width × 0…height),
+ * into a wave path in the library's frame. The widest subpath is used.
+ */
+function fitOutline(commands: PathCommand[], width: number, height: number, anchor: ImportWaveAnchor): string {
+    const subpaths = splitSubpaths(commands).filter((subpath) => subpath.length > 1)
+    if (subpaths.length === 0) {
+        throw new Error('[wavy-bavy] Wave shape has no drawable segments')
+    }
+
+    const spanOf = (subpath: PathCommand[]) => {
+        const xs = pointsOf(subpath).map(({ x }) => x)
+        return Math.max(...xs) - Math.min(...xs)
+    }
+    let outline = subpaths.reduce((widest, subpath) => (spanOf(subpath) > spanOf(widest) ? subpath : widest))
+
+    const ys = pointsOf(outline).map(({ y }) => y)
+    const tolerance = height * 0.01
+    const touchesTop = Math.min(...ys) <= tolerance
+    const touchesBottom = Math.max(...ys) >= height - tolerance
+    if (anchor === 'top' || (anchor === 'auto' && touchesTop && !touchesBottom)) {
+        outline = outline.map(({ type, values }) => ({
+            type,
+            values: values.map((v, i) => (i % 2 === 1 ? height - v : v)),
+        }))
+    }
+
+    const edge = waveEdge(outline)
+    return edge ? framePath(edge, width, height) : traceTopEdge(outline, width, height)
+}
+
+/**
+ * Fit a `customPath` into the wave frame for the 'custom' pattern.
+ * The path is stretched horizontally from `sourceWidth` to `width`, and
+ * closed paths are scaled vertically so their base sits at `height`.
+ *
+ * @param sourceWidth - Width the path was drawn for. Default: read from the
+ * path — paths in the library's frame (`M -20 {h} …`, as `importWaveSVG`
+ * returns them) span it plus 20 on either side, others end at their
+ * right-most point
+ * @throws Error when the path data is invalid or draws nothing
+ */
+export function fitCustomPath(path: string, width: number, height: number, sourceWidth?: number): string {
+    let commands = normalizePath(path)
+    const points = pointsOf(commands)
+    if (points.length === 0) {
+        throw new Error('[wavy-bavy] Wave shape has no drawable segments')
+    }
+
+    if (sourceWidth === undefined) {
+        const maxX = Math.max(...points.map(({ x }) => x))
+        sourceWidth = points[0].x === -20 ? maxX - 20 : maxX
+    }
+    const scaleX = sourceWidth > 0 ? width / sourceWidth : 1
+
+    const closed = commands.some(({ type }) => type === 'Z')
+    const base = Math.max(...points.map(({ y }) => y))
+    const scaleY = closed && base > 0 ? height / base : 1
+
+    if (Math.abs(scaleX - 1) > 1e-9 || Math.abs(scaleY - 1) > 1e-9) {
+        commands = transformCommands(commands, [scaleX, 0, 0, scaleY, 0, 0])
+    }
+    return fitOutline(commands, width, height, 'bottom')
+}
+
+/**
+ * Import a wave shape from an SVG document (e.g. a Figma or Illustrator
+ * export) for use as `customPath`.
+ *
+ * Picks the shape with `pathId` (or the widest shape), applies every
+ * transform above it, and maps the root viewBox onto `width × height`.
+ * The wave edge is the shape's outline minus its flat base and vertical
+ * sides; shapes hanging from the top edge are flipped. The result follows
+ * the library's path frame (`M -20 {h} … L {w + 20} {h} Z`), closed along
+ * the bottom edge.
+ *
+ * @example
+ * const customPath = importWaveSVG(svgFile, { height: 160 })
+ * <WaveSection pattern="custom" customPath={customPath} height={160} />
+ *
+ * @throws Error when the document has no shape (or none with `pathId`)
+ */
+export function importWaveSVG(svg: string, options: ImportWaveSVGOptions = {}): string {
+    const { height = 120, width = DEFAULT_VIEWBOX_WIDTH, pathId, anchor = 'auto' } = options
+    const { shapes, viewBox } = readSVG(svg)
+
+    let shape: ImportedShape | undefined
+    if (pathId !== undefined) {
+        shape = shapes.find(({ id }) => id === pathId)
+        if (!shape) throw new Error(`[wavy-bavy] importWaveSVG: no shape with id "${pathId}"`)
+    } else {
+        const widthOf = ({ commands }: ImportedShape) => createPathGeometry(commands).bounds.width
+        shape = shapes.reduce<ImportedShape | undefined>((widest, candidate) =>
+            (!widest || widthOf(candidate) > widthOf(widest) ? candidate : widest), undefined)
+        if (!shape) throw new Error('[wavy-bavy] importWaveSVG: no <path>, <polygon> or <polyline> found')
+    }
+
+    // Map the viewBox (or the shape's own bounds) onto the wave frame
+    const bounds = createPathGeometry(shape.commands).bounds
+    const [boxX, boxY, boxWidth, boxHeight] = viewBox ?? [bounds.minX, bounds.minY, bounds.width || 1, bounds.height || 1]
+    const scaleX = width / boxWidth
+    const scaleY = height / boxHeight
+    const commands = transformCommands(shape.commands, [scaleX, 0, 0, scaleY, -boxX * scaleX, -boxY * scaleY])
+
+    return fitOutline(commands, width, height, anchor)
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useRef, useState, useEffect, useCallback, type RefCallback } from 'react'
+
+// ============================================================
+// useElementWidth — ResizeObserver width tracking hook
+// ============================================================
+
+export interface UseElementWidthOptions {
+    /** Delay in ms before a resize is reported. The first measurement is immediate. Default: 100 */
+    debounce?: number
+    /** Skip observing. Default: false */
+    disabled?: boolean
+    /** Which side of the content box to report (e.g. 'height' for vertical waves). Default: 'width' */
+    dimension?: 'width' | 'height'
+}
+
+/**
+ * Hook: useElementWidth
+ *
+ * Observes an element's content width with ResizeObserver. Widths are
+ * rounded to whole pixels and resizes are debounced, so continuous window
+ * dragging only triggers one update.
+ *
+ * SSR-safe: returns null when ResizeObserver is unavailable, before the
+ * first measurement, and while the element has no width (e.g. hidden).
+ * Attaching the ref to another element, or switching `dimension`, starts
+ * over from null with an immediate first measurement.
+ *
+ * @param options - Debounce and disable options
+ * @returns [ref, width] — attach ref to the target element
+ */
+export function useElementWidth(
+    options: UseElementWidthOptions = {},
+): [RefCallback<HTMLElement>, number | null] {
+    const { debounce = 100, disabled = false, dimension = 'width' } = options
+    const [width, setWidth] = useState<number | null>(null)
+    const observerRef = useRef<ResizeObserver | null>(null)
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const measuredRef = useRef(false)
+    const targetRef = useRef<{ node: HTMLElement; dimension: 'width' | 'height' } | null>(null)
+
+    const disconnect = useCallback(() => {
+        observerRef.current?.disconnect()
+        observerRef.current = null
+        if (timerRef.current !== null) {
+            clearTimeout(timerRef.current)
+            timerRef.current = null
+        }
+    }, [])
+
+    const setRef: RefCallback<HTMLElement> = useCallback(
+        (node: HTMLElement | null) => {
+            disconnect()
+            if (!node) return
+            const target = targetRef.current
+            if (target && (target.node !== node || target.dimension !== dimension)) {
+                // A new element or side: the last measurement no longer applies
+                measuredRef.current = false
+                setWidth(null)
+            }
+            targetRef.current = { node, dimension }
+            if (disabled || typeof ResizeObserver === 'undefined') return
+
+            const report = (next: number) => {
+                const rounded = Math.round(next)
+                setWidth(rounded > 0 ? rounded : null)
+            }
+
+            observerRef.current = new ResizeObserver(([entry]) => {
+                if (!entry) return
+                const next = entry.contentRect[dimension]
+                if (!measuredRef.current) {
+                    measuredRef.current = true
+                    report(next)
+                    return
+                }
+                if (timerRef.current !== null) clearTimeout(timerRef.current)
+                timerRef.current = setTimeout(() => {
+                    timerRef.current = null
+                    report(next)
+                }, debounce)
+            })
+            observerRef.current.observe(node)
+        },
+        [debounce, disabled, dimension, disconnect],
+    )
+
+    // Cleanup on unmount
+    useEffect(() => disconnect, [disconnect])
+
+    return [setRef, disabled ? null : width]
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { EdgeColors, EdgeSampling, ParsedBackground } from '../types'
+import { backgroundImageUrl, sampleImageEdgeColors } from './image-colors'
+
+/**
+ * Hook: useImageEdgeColors
+ *
+ * Samples an image background's edge colors after mount (see
+ * `sampleImageEdgeColors` — each URL is loaded once). Returns undefined
+ * for other backgrounds, while the image loads, when it can't be read,
+ * and when `enabled` is false.
+ *
+ * SSR-safe: returns undefined when there is no DOM.
+ */
+export function useImageEdgeColors(
+    background: ParsedBackground,
+    mode: EdgeSampling = 'dominant',
+    enabled = true,
+): EdgeColors | undefined {
+    const url = enabled && background.type === 'image' ? backgroundImageUrl(background.value) : null
+    // Keyed by what was sampled, so a new image never shows the last one's colors
+    const [sampled, setSampled] = useState<{ key: string; colors: EdgeColors } | null>(null)
+    const key = `${mode} ${url}`
+
+    useEffect(() => {
+        if (!url) return
+        let cancelled = false
+        sampleImageEdgeColors(url, { mode }).then((colors) => {
+            if (!cancelled && colors) setSampled({ key, colors })
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [url, mode, key])
+
+    return url && sampled?.key === key ? sampled.colors : undefined
+}
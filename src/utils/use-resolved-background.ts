@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect, useState, type RefObject } from 'react'
+import type { ParsedBackground } from '../types'
+import { parseBackground } from './color-utils'
+import { parseColor } from './css-color'
+
+// ============================================================
+// Runtime background resolution — var(), currentColor, classes
+// ============================================================
+
+/** Nested var() lookups followed before giving up (guards against cycles) */
+const MAX_VAR_DEPTH = 16
+
+const COLOR_SCHEME_QUERY = '(prefers-color-scheme: dark)'
+
+/** Attributes theme switches change on the section or an ancestor */
+const THEME_ATTRIBUTES = ['class', 'style', 'data-theme', 'data-color-scheme']
+
+/**
+ * Whether a background can only be known in the page: `var()`,
+ * `currentColor`, or no value at all (the background comes from a class).
+ */
+export function needsRuntimeBackground(value: string | undefined): boolean {
+    return value === undefined || /var\(|currentcolor/i.test(value)
+}
+
+/** Replace every `var(--name, fallback)` with the custom property's computed value */
+function substituteVars(value: string, style: CSSStyleDeclaration): string {
+    let result = value
+    for (let depth = 0; depth < MAX_VAR_DEPTH; depth++) {
+        const start = result.search(/var\(/i)
+        if (start === -1) return result
+        // Find the matching close paren
+        let end = start + 4
+        for (let open = 1; end < result.length && open > 0; end++) {
+            if (result[end] === '(') open++
+            if (result[end] === ')') open--
+        }
+        const inner = result.slice(start + 4, end - 1)
+        const comma = inner.indexOf(',')
+        const name = (comma === -1 ? inner : inner.slice(0, comma)).trim()
+        const fallback = comma === -1 ? '' : inner.slice(comma + 1).trim()
+        const replacement = style.getPropertyValue(name).trim() || fallback
+        result = result.slice(0, start) + replacement + result.slice(end)
+    }
+    return result
+}
+
+/** A computed background the color parser can read (not `none` or a system color) */
+function isResolved(value: string): boolean {
+    if (!value || value === 'none' || /var\(|currentcolor/i.test(value)) return false
+    return value.includes('gradient(') || value.startsWith('url(') || parseColor(value) !== null
+}
+
+/**
+ * Resolve a section's background against the page: `var()` and
+ * `currentColor` are substituted from the element's computed style; without
+ * a value, the computed background (set by classes) is read instead. The
+ * result keeps the raw `value`; only the type and dominant color are
+ * resolved. A missing or fully transparent class background keeps the
+ * default (white) dominant color.
+ */
+export function resolveBackground(value: string | undefined, element: HTMLElement): ParsedBackground {
+    const style = window.getComputedStyle(element)
+    if (value === undefined) {
+        const image = style.backgroundImage
+        const css = image && image !== 'none' ? image : style.backgroundColor
+        if (!isResolved(css) || parseColor(css)?.alpha === 0) return parseBackground(undefined)
+        return parseBackground(css)
+    }
+
+    let css = substituteVars(value, style)
+    if (parseColor(style.color)) css = css.replace(/currentcolor/gi, style.color)
+    return { ...parseBackground(css), value }
+}
+
+function isSameBackground(a: ParsedBackground, b: ParsedBackground): boolean {
+    return a.type === b.type && a.value === b.value && a.dominantColor === b.dominantColor
+}
+
+/**
+ * Hook: useResolvedBackground
+ *
+ * For backgrounds only the page can resolve (see `needsRuntimeBackground`),
+ * reads the element's computed style after mount and again — at most once
+ * per animation frame — whenever `class`, `style`, `data-theme` or
+ * `data-color-scheme` changes on the element or any ancestor (theme
+ * switches), or the preferred color scheme changes. Returns `parsed` until
+ * then, and always for plain colors, which are never observed.
+ *
+ * SSR-safe: returns `parsed` when there is no DOM.
+ */
+export function useResolvedBackground(
+    value: string | undefined,
+    parsed: ParsedBackground,
+    ref: RefObject<HTMLElement | null>,
+): ParsedBackground {
+    const [resolved, setResolved] = useState<ParsedBackground | null>(null)
+    const dynamic = needsRuntimeBackground(value)
+
+    useEffect(() => {
+        const element = ref.current
+        if (!dynamic || !element || typeof window === 'undefined') {
+            setResolved(null)
+            return
+        }
+
+        const resolve = () => {
+            const next = resolveBackground(value, element)
+            setResolved((current) => (current && isSameBackground(current, next) ? current : next))
+        }
+        resolve()
+
+        // Reading computed style forces a style recalc, so a burst of changes resolves once
+        let frame: number | null = null
+        const scheduleResolve = () => {
+            if (frame !== null) return
+            frame = requestAnimationFrame(() => {
+                frame = null
+                resolve()
+            })
+        }
+
+        // Theme switches toggle classes, data attributes or inline custom properties somewhere up the tree
+        const observer = typeof MutationObserver !== 'undefined' ? new MutationObserver(scheduleResolve) : null
+        for (let node: HTMLElement | null = element; node; node = node.parentElement) {
+            observer?.observe(node, { attributes: true, attributeFilter: THEME_ATTRIBUTES })
+        }
+        const scheme = typeof window.matchMedia === 'function' ? window.matchMedia(COLOR_SCHEME_QUERY) : null
+        scheme?.addEventListener('change', scheduleResolve)
+
+        return () => {
+            observer?.disconnect()
+            scheme?.removeEventListener('change', scheduleResolve)
+            if (frame !== null) cancelAnimationFrame(frame)
+        }
+    }, [value, dynamic, ref])
+
+    return (dynamic && resolved) || parsed
+}
@@ -19,12 +19,13 @@
  * @module wavy-bavy/web-component
  */
 
-import { generatePath } from './utils/path-generator'
-import { KEYFRAME_GENERATORS, PATH_MORPH_GENERATORS } from './utils/keyframes'
-import { DEFAULT_VIEWBOX_WIDTH } from './constants'
+import { generatePath, flipPathVertically, tilePeriodicPath } from './utils/path-generator'
+import { KEYFRAME_GENERATORS, PATH_MORPH_GENERATORS, TILE_SCROLL_ANIMATIONS, generateDualPathMorphKeyframes, tileScrollKeyframes } from './utils/keyframes'
+import { DEFAULT_VIEWBOX_WIDTH, DEFAULT_BAND_MIN_THICKNESS } from './constants'
 import { generateInterlockPaths } from './utils/interlock-generator'
 import { createScrollTracker } from './utils/scroll-tracker'
-import type { PatternName, AnimationName, InterlockMode, ScrollTracker } from './types'
+import { subscribePatternRegistry } from './utils/pattern-registry'
+import type { PatternName, AnimationName, InterlockMode, InterlockTabConfig, ScrollTracker, WaveBandConfig } from './types'
 
 const SVG_NS = 'http://www.w3.org/2000/svg'
 
@@ -41,9 +42,17 @@ const OBSERVED_ATTRIBUTES = [
     'phase',
     'mirror',
     'seed',
+    'periodic',
     'separation-mode',
     'intensity',
     'gap',
+    'separation-samples',
+    'band-color',
+    'band-min-thickness',
+    'band-max-thickness',
+    'tab-count',
+    'tab-size',
+    'tab-seed',
     'stroke-color',
     'stroke-width',
 ] as const
@@ -67,6 +76,7 @@ class WavySectionElement extends HTMLElement {
     private _motionHandler: (() => void) | null = null
     private _scrollTracker: ScrollTracker | null = null
     private _rafId: number | null = null
+    private _unsubscribePatterns: (() => void) | null = null
 
     constructor() {
         super()
@@ -78,12 +88,16 @@ class WavySectionElement extends HTMLElement {
     connectedCallback(): void {
         this._setupReducedMotion()
         this._setupScrollTracker()
+        // Re-render when custom patterns are registered after this element upgraded
+        this._unsubscribePatterns = subscribePatternRegistry(() => this._render())
         this._render()
     }
 
     disconnectedCallback(): void {
         this._teardownReducedMotion()
         this._teardownScrollTracker()
+        this._unsubscribePatterns?.()
+        this._unsubscribePatterns = null
     }
 
     attributeChangedCallback(_name: string, _oldVal: string | null, _newVal: string | null): void {
@@ -105,6 +119,11 @@ class WavySectionElement extends HTMLElement {
         return isNaN(n) ? fallback : n
     }
 
+    private _getOptionalNumAttr(name: ObservedAttribute): number | undefined {
+        const n = this._getNumAttr(name, NaN)
+        return isNaN(n) ? undefined : n
+    }
+
     private _getBoolAttr(name: ObservedAttribute, fallback: boolean): boolean {
         const raw = this.getAttribute(name)
         if (raw === null) return fallback
@@ -158,7 +177,7 @@ class WavySectionElement extends HTMLElement {
 
     // ── SVG builder (safe DOM APIs, no innerHTML) ───────────────
 
-    private _buildWaveSvg(path: string, fillColor: string, height: number, direction: 'down' | 'up', animStyle: string, pathB?: string, strokeColor?: string, strokeWidth?: number, morphKeyframesCSS?: string, morphAnimIdA?: string, morphAnimIdB?: string): SVGSVGElement {
+    private _buildWaveSvg(path: string, fillColor: string, height: number, direction: 'down' | 'up', animStyle: string, pathB?: string, strokeColor?: string, strokeWidth?: number, morphKeyframesCSS?: string, morphAnimIdA?: string, morphAnimIdB?: string, tileAnimId?: string, bandColor?: string | null): SVGSVGElement {
         const svg = document.createElementNS(SVG_NS, 'svg')
         svg.setAttribute('xmlns', SVG_NS)
         svg.setAttribute('viewBox', `0 0 ${DEFAULT_VIEWBOX_WIDTH} ${height}`)
@@ -176,11 +195,19 @@ class WavySectionElement extends HTMLElement {
         }
 
         const pathEl = document.createElementNS(SVG_NS, 'path')
-        pathEl.setAttribute('d', path)
-        pathEl.setAttribute('fill', fillColor)
+        // Dual-path accent band: Path A's area shows between the two edges
+        pathEl.setAttribute('fill', pathB && bandColor ? bandColor : fillColor)
 
-        if (direction === 'up') {
-            pathEl.setAttribute('transform', `scale(1, -1) translate(0, -${height})`)
+        if (tileAnimId) {
+            // The scroll animation owns the CSS transform, so flip the geometry instead
+            pathEl.setAttribute('d', direction === 'up' ? flipPathVertically(path, height) : path)
+            const dur = this._getNumAttr('animation-duration', 10)
+            pathEl.style.animation = `${tileAnimId} ${dur}s linear infinite`
+        } else {
+            pathEl.setAttribute('d', path)
+            if (direction === 'up') {
+                pathEl.setAttribute('transform', `scale(1, -1) translate(0, -${height})`)
+            }
         }
 
         if (morphAnimIdA) {
@@ -245,11 +272,27 @@ class WavySectionElement extends HTMLElement {
         const mirror = this._getBoolAttr('mirror', false)
         const seedRaw = this.getAttribute('seed')
         const seed = seedRaw !== null ? parseFloat(seedRaw) : undefined
+        const periodic = this._getBoolAttr('periodic', false)
 
         // Separation attributes
         const separationMode = this._getAttr('separation-mode', '') as InterlockMode | ''
         const intensity = this._getNumAttr('intensity', 0.5)
         const gap = this._getNumAttr('gap', 0)
+        const samplesRaw = this.getAttribute('separation-samples')
+        const samples = samplesRaw !== null ? parseFloat(samplesRaw) : undefined
+        const bandColor = this.getAttribute('band-color')
+        const band: WaveBandConfig | undefined = bandColor
+            ? {
+                  fill: bandColor,
+                  minThickness: this._getNumAttr('band-min-thickness', DEFAULT_BAND_MIN_THICKNESS),
+                  maxThickness: this._getNumAttr('band-max-thickness', Infinity),
+              }
+            : undefined
+        const tabs: InterlockTabConfig = {
+            count: this._getOptionalNumAttr('tab-count'),
+            size: this._getOptionalNumAttr('tab-size'),
+            seed: this._getOptionalNumAttr('tab-seed'),
+        }
         const strokeColor = this.getAttribute('stroke-color') ?? undefined
         const strokeWidth = this._getNumAttr('stroke-width', 1)
 
@@ -269,6 +312,9 @@ class WavySectionElement extends HTMLElement {
                 mode: separationMode as InterlockMode,
                 seed,
                 gap,
+                samples,
+                band,
+                tabs,
                 phase,
                 mirror,
             })
@@ -283,6 +329,7 @@ class WavySectionElement extends HTMLElement {
                 phase,
                 mirror,
                 seed,
+                periodic,
             })
         }
 
@@ -296,15 +343,32 @@ class WavySectionElement extends HTMLElement {
         let morphKeyframesCSS: string | undefined
         let morphAnimIdA: string | undefined
         let morphAnimIdB: string | undefined
-
-        if (shouldAnimate && isPathMorphAnim) {
+        let tileAnimId: string | undefined
+
+        // Periodic single-path waves scroll as a seamless tile instead of morphing
+        const tiledPath = shouldAnimate && periodic && !pathB && TILE_SCROLL_ANIMATIONS.has(animateName)
+            ? tilePeriodicPath(path)
+            : null
+
+        if (tiledPath) {
+            path = tiledPath
+            tileAnimId = 'wavy-wc-tile'
+            morphKeyframesCSS = tileScrollKeyframes(tileAnimId)
+        } else if (shouldAnimate && isPathMorphAnim) {
             const gen = PATH_MORPH_GENERATORS[animateName]
             if (gen) {
                 morphAnimIdA = `wavy-wc-morph-a-${animateName}`
                 morphAnimIdB = pathB ? `wavy-wc-morph-b-${animateName}` : undefined
-                const cssA = gen(morphAnimIdA, path, pattern, { height, amplitude, frequency })
-                const cssB = pathB && morphAnimIdB ? gen(morphAnimIdB, pathB, pattern, { height, amplitude, frequency }) : ''
-                morphKeyframesCSS = cssA + (cssB ? '\n' + cssB : '')
+                if (pathB && morphAnimIdB) {
+                    // Coordinated frames, so an accent band keeps its thickness while both edges morph
+                    const { cssA, cssB } = generateDualPathMorphKeyframes(
+                        morphAnimIdA, morphAnimIdB, path, pathB, animateName, pattern,
+                        { height, amplitude, frequency, seed }, { mode: separationMode || undefined, intensity, gap, band, samples, tabs },
+                    )
+                    morphKeyframesCSS = cssA + '\n' + cssB
+                } else {
+                    morphKeyframesCSS = gen(morphAnimIdA, path, pattern, { height, amplitude, frequency })
+                }
             }
         } else if (shouldAnimate && isTransformAnim) {
             const animId = `wavy-wc-${animateName}`
@@ -353,7 +417,7 @@ class WavySectionElement extends HTMLElement {
         if (wavePosition === 'top' || wavePosition === 'both') {
             const topDiv = document.createElement('div')
             topDiv.className = 'wavy-top'
-            topDiv.appendChild(this._buildWaveSvg(path, fillColor, height, 'up', animStyle, pathB, strokeColor, strokeWidth, morphKeyframesCSS, morphAnimIdA, morphAnimIdB))
+            topDiv.appendChild(this._buildWaveSvg(path, fillColor, height, 'up', animStyle, pathB, strokeColor, strokeWidth, morphKeyframesCSS, morphAnimIdA, morphAnimIdB, tileAnimId, bandColor))
             this._shadow.appendChild(topDiv)
         }
 
@@ -368,7 +432,7 @@ class WavySectionElement extends HTMLElement {
         if (wavePosition === 'bottom' || wavePosition === 'both') {
             const bottomDiv = document.createElement('div')
             bottomDiv.className = 'wavy-bottom'
-            bottomDiv.appendChild(this._buildWaveSvg(path, fillColor, height, 'down', animStyle, pathB, strokeColor, strokeWidth, morphKeyframesCSS, morphAnimIdA, morphAnimIdB))
+            bottomDiv.appendChild(this._buildWaveSvg(path, fillColor, height, 'down', animStyle, pathB, strokeColor, strokeWidth, morphKeyframesCSS, morphAnimIdA, morphAnimIdB, tileAnimId, bandColor))
             this._shadow.appendChild(bottomDiv)
         }
     }
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest'
+import { applyAnchors } from '../src/utils/anchors'
+import { generatePath, tilePeriodicPath } from '../src/utils/path-generator'
+import { generateCrossBoundaryPaths, generateInterlockPaths, validateDualPath } from '../src/utils/interlock-generator'
+import { generatePathKeyframes } from '../src/utils/keyframes'
+import { createPathGeometry, normalizePath, parsePath } from '../src/utils/path-geometry'
+
+const BUILT_INS = ['smooth', 'organic', 'sharp', 'mountain', 'flowing', 'ribbon', 'layered-organic', 'spline', 'noise'] as const
+
+function yAt(path: string, x: number): number {
+    return createPathGeometry(path).getYAtX(x)!
+}
+
+function structureOf(path: string): string {
+    return parsePath(path).map(({ type }) => type).join('')
+}
+
+describe('applyAnchors', () => {
+    it('forces every built-in pattern through the anchor', () => {
+        for (const pattern of BUILT_INS) {
+            for (const periodic of [false, true]) {
+                const path = generatePath(pattern, { frequency: 3, seed: 3, periodic, anchors: [{ x: 0.5, y: 0.2 }] })
+                // y = 0.2 of the way up from the baseline of a 120-high wave
+                expect(yAt(path, 720), `${pattern} periodic=${periodic}`).toBeCloseTo(96, 1)
+            }
+        }
+    })
+
+    it('honours several anchors and maps y from the baseline', () => {
+        const path = generatePath('organic', { seed: 7, frequency: 4, anchors: [{ x: 0.25, y: 1 }, { x: 0.75, y: 0 }] })
+        expect(yAt(path, 360)).toBeCloseTo(0, 1)
+        expect(yAt(path, 1080)).toBeCloseTo(120, 1)
+    })
+
+    it('applies the requested slope', () => {
+        const flat = generatePath('smooth', { frequency: 2, anchors: [{ x: 0.4, y: 0.5, slope: 0 }] })
+        expect(yAt(flat, 578) - yAt(flat, 574)).toBeCloseTo(0, 1)
+
+        // Normalized slope 3: rises three wave heights per full width (y grows downwards)
+        const rising = createPathGeometry(generatePath('smooth', { frequency: 2, anchors: [{ x: 0.4, y: 0.5, slope: 3 }] }), { tolerance: 0.01 })
+        expect((rising.getYAtX(578)! - rising.getYAtX(574)!) / 4).toBeCloseTo((-3 * 120) / 1440, 2)
+    })
+
+    it('leaves the wave alone beyond the anchor reach', () => {
+        const base = generatePath('organic', { frequency: 6, seed: 2 })
+        const anchored = generatePath('organic', { frequency: 6, seed: 2, anchors: [{ x: 0.5, y: 0.9 }] })
+        // Reach is one wave (240) at frequency 6
+        for (const x of [100, 300, 1140, 1300]) {
+            expect(Math.abs(yAt(anchored, x) - yAt(base, x)), `x=${x}`).toBeLessThan(0.5)
+        }
+        expect(Math.abs(yAt(anchored, 720) - yAt(base, 720))).toBeGreaterThan(1)
+    })
+
+    it('keeps the baseline corners and the closed frame', () => {
+        const path = generatePath('sharp', { frequency: 4, anchors: [{ x: 0.1, y: 0.9 }] })
+        const commands = normalizePath(path)
+        expect(commands[0].values).toEqual([-20, 120])
+        expect(commands[commands.length - 2].values).toEqual([1460, 120])
+        expect(commands[commands.length - 1].type).toBe('Z')
+    })
+
+    it('keeps periodic tiles seamless', () => {
+        const path = generatePath('smooth', { frequency: 2, periodic: true, anchors: [{ x: 0.05, y: 0.9 }] })
+        expect(yAt(path, 72)).toBeCloseTo(12, 1)
+        expect(yAt(path, 0)).toBeCloseTo(yAt(path, 1440), 1)
+        expect(tilePeriodicPath(path)).not.toBeNull()
+    })
+
+    it('gives frames with a shared structure one structure after anchoring', () => {
+        const anchors = [{ x: 0.3, y: 0.7 }, { x: 0.6, y: 0.1 }]
+        const a = generatePath('noise', { seed: 1, frequency: 3, anchors })
+        const b = generatePath('noise', { seed: 1, frequency: 3, noise: { time: 0.8 }, anchors })
+        expect(structureOf(a)).toBe(structureOf(b))
+    })
+
+    it('returns the path unchanged without anchors', () => {
+        const path = generatePath('organic', { seed: 5 })
+        expect(applyAnchors(path, undefined)).toBe(path)
+        expect(applyAnchors(path, [])).toBe(path)
+        expect(generatePath('organic', { seed: 5, anchors: [] })).toBe(path)
+    })
+
+    it('warns and leaves paths outside the wave frame alone', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const path = 'M 0 0 L 100 0 M 0 50 L 100 50'
+        expect(applyAnchors(path, [{ x: 0.5, y: 0.5 }])).toBe(path)
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('[wavy-bavy] anchors'))
+        spy.mockRestore()
+    })
+})
+
+describe('anchors across interlocking and animation', () => {
+    const anchors = [{ x: 0.5, y: 0.25, slope: 0 }]
+
+    it('generateCrossBoundaryPaths bends both paths through their anchors', () => {
+        const { pathA, pathB } = generateCrossBoundaryPaths({
+            upperConfig: { pattern: 'organic', height: 120, amplitude: 0.6, frequency: 3, seed: 4, anchors },
+            lowerConfig: { pattern: 'smooth', height: 80, amplitude: 0.5, frequency: 2, anchors },
+            mode: 'interlock',
+            intensity: 0.8,
+        })
+        // Shared height is the taller edge
+        expect(yAt(pathA, 720)).toBeCloseTo(90, 1)
+        expect(yAt(pathB, 720)).toBeCloseTo(90, 1)
+    })
+
+    it('generateCrossBoundaryPaths only anchors the side that asks for it', () => {
+        const { pathB } = generateCrossBoundaryPaths({
+            upperConfig: { pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 2, anchors },
+            lowerConfig: { pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 2 },
+        })
+        expect(Math.abs(yAt(pathB, 720) - 90)).toBeGreaterThan(1)
+    })
+
+    it('generateInterlockPaths keeps both edges on the anchors', () => {
+        const { pathA, pathB } = generateInterlockPaths({
+            pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 2, intensity: 0.6, mode: 'interlock', anchors,
+        })
+        expect(yAt(pathA, 720)).toBeCloseTo(90, 1)
+        expect(yAt(pathB, 720)).toBeCloseTo(90, 1)
+    })
+
+    it('generateInterlockPaths pins the edges gap / 2 either side of the anchors', () => {
+        const result = generateInterlockPaths({
+            pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 2, intensity: 0.6, mode: 'interlock', gap: 6, anchors,
+        })
+        expect(yAt(result.pathA, 720)).toBeCloseTo(87, 1)
+        expect(yAt(result.pathB, 720)).toBeCloseTo(93, 1)
+        expect(validateDualPath(result, { minSeparation: 6 }).valid).toBe(true)
+    })
+
+    it('generateCrossBoundaryPaths keeps the separation when the anchors would cross', () => {
+        const result = generateCrossBoundaryPaths({
+            upperConfig: { pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 2, anchors: [{ x: 0.5, y: 0.2 }] },
+            lowerConfig: { pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 2, anchors: [{ x: 0.5, y: 0.8 }] },
+            mode: 'interlock',
+            gap: 6,
+        })
+        expect(validateDualPath(result, { minSeparation: 6 }).valid).toBe(true)
+    })
+
+    it('generateCrossBoundaryPaths keeps the separation around shared anchors', () => {
+        const result = generateCrossBoundaryPaths({
+            upperConfig: { pattern: 'organic', height: 120, amplitude: 0.6, frequency: 3, seed: 4, anchors },
+            lowerConfig: { pattern: 'flowing', height: 120, amplitude: 0.5, frequency: 2, anchors },
+            mode: 'overlap',
+            intensity: 0.8,
+            gap: 8,
+        })
+        expect(validateDualPath(result, { minSeparation: 8 }).valid).toBe(true)
+        expect(yAt(result.pathA, 720)).toBeCloseTo(86, 1)
+        expect(yAt(result.pathB, 720)).toBeCloseTo(94, 1)
+    })
+
+    it('every path-morph frame passes through the anchors', () => {
+        for (const pattern of ['flowing', 'noise'] as const) {
+            const frames = generatePathKeyframes({
+                basePath: '', frameCount: 5, phaseRange: 0.4, amplitudeVariation: 0.1, pattern,
+                config: { height: 120, amplitude: 0.5, frequency: 3, seed: 2, anchors },
+            })
+            for (const frame of frames) expect(yAt(frame, 720), pattern).toBeCloseTo(90, 1)
+            expect(new Set(frames.map(structureOf)).size).toBe(1)
+        }
+    })
+})
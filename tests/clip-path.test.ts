@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { generateClipPath, generateDualClipPath } from '../src/utils/clip-path'
+import { generateClipPath, generateDualClipPath, generateRadialClipPath, generateCardClipPath } from '../src/utils/clip-path'
+import { generateRadialPath } from '../src/utils/radial-path'
 import { generatePath } from '../src/utils/path-generator'
 
 describe('generateClipPath', () => {
@@ -27,6 +28,20 @@ describe('generateClipPath', () => {
         expect(clip).toContain('0% 0%')
     })
 
+    it('runs the wave down the side for left and right positions', () => {
+        const path = 'M -20 120 L -20 60 L 0 60 L 1440 90 L 1460 90 L 1460 120 Z'
+        const right = generateClipPath(path, 120, 'right')
+        expect(right).toMatch(/^polygon\(0% 0%, /)
+        expect(right).toMatch(/, 0% 100%\)$/)
+        // Wave depth (y) maps to x, wave length (x) maps to y
+        expect(right).toContain('50.00% 0.00%')
+        expect(right).toContain('75.00% 100.00%')
+
+        const left = generateClipPath(path, 120, 'left')
+        expect(left).toMatch(/^polygon\(100% 0%, /)
+        expect(left).toMatch(/, 100% 100%\)$/)
+    })
+
     it('produces percentage-based values', () => {
         const path = generatePath('smooth', { height: 120 })
         const clip = generateClipPath(path, 120)
@@ -49,3 +64,80 @@ describe('generateDualClipPath', () => {
         expect(generateDualClipPath('', '', 120)).toBe('none')
     })
 })
+
+describe('generateRadialClipPath', () => {
+    it('traces the closed outline without adding edges', () => {
+        const path = generateRadialPath({ radius: 50 })
+        const clip = generateRadialClipPath(path, 100)
+        expect(clip).toMatch(/^polygon\(/)
+        expect(clip).not.toContain('0% 0%')
+        const points = clip.slice(8, -1).split(', ').map((p) => p.split(' ').map(parseFloat))
+        for (const [x, y] of points) {
+            expect(x).toBeGreaterThanOrEqual(0)
+            expect(x).toBeLessThanOrEqual(100)
+            expect(y).toBeGreaterThanOrEqual(0)
+            expect(y).toBeLessThanOrEqual(100)
+        }
+        // Starts at 12 o'clock
+        expect(points[0][0]).toBeCloseTo(50, 0)
+    })
+
+    it('uses the height for ellipses', () => {
+        const clip = generateRadialClipPath(generateRadialPath({ radius: 100, radiusY: 50 }), 200, 100)
+        expect(clip).toMatch(/^polygon\(/)
+        expect(clip).not.toMatch(/\d{3,}\.\d+%/)
+    })
+
+    it('returns "none" for empty path', () => {
+        expect(generateRadialClipPath('', 100)).toBe('none')
+    })
+})
+
+describe('generateCardClipPath', () => {
+    const edge = (offset = 0) => ({ path: generatePath('smooth', { height: 24, frequency: 3, periodic: true }), height: 24, offset })
+
+    it('returns "none" without edges', () => {
+        expect(generateCardClipPath({})).toBe('none')
+    })
+
+    it('keeps straight sides on their corners', () => {
+        const clip = generateCardClipPath({ top: edge() }, 1440, 10)
+        expect(clip).toMatch(/^polygon\(0% [\d.]+px, /)
+        // Right, bottom and left sides are straight
+        expect(clip).toContain('100% 0%, 100% 100%, 0% 100%, 0% 0%')
+    })
+
+    it('uses px depths and percentage positions on every side', () => {
+        const clip = generateCardClipPath({ top: edge(), right: edge(), bottom: edge(), left: edge() }, 1440, 8)
+        expect(clip).toMatch(/calc\(100% - [\d.]+px\) \d/) // right
+        expect(clip).toMatch(/% calc\(100% - [\d.]+px\)/) // bottom
+        expect(clip).toMatch(/, [\d.]+px [\d.]+%/) // left
+        expect(clip).not.toContain('0% 0%')
+    })
+
+    it('samples each wavy side at a fixed count so clip-paths can transition', () => {
+        const count = (clip: string) => clip.split(', ').length
+        const a = generateCardClipPath({ top: edge(0), bottom: edge(0) }, 1440, 30)
+        const b = generateCardClipPath({ top: edge(0.1), bottom: edge(0.1) }, 1440, 30)
+        expect(a).not.toBe(b)
+        expect(count(a)).toBe(count(b))
+        expect(count(a)).toBe(30 + 30 + 4)
+    })
+
+    it('wraps offsets around the side', () => {
+        // A full-side offset lands back on the original wave
+        expect(generateCardClipPath({ top: edge(1) }, 1440, 24)).toBe(generateCardClipPath({ top: edge(0) }, 1440, 24))
+        // Half a wave (frequency 3) swaps crests and troughs
+        const depths = (clip: string) => [...clip.matchAll(/ ([\d.]+)px/g)].map((m) => parseFloat(m[1]))
+        const resting = depths(generateCardClipPath({ top: edge(0) }, 1440, 25))
+        const shifted = depths(generateCardClipPath({ top: edge(0.5 / 3) }, 1440, 25))
+        expect(shifted[0]).toBeCloseTo(resting[4], 0)
+    })
+
+    it('keeps depths within the edge height', () => {
+        const clip = generateCardClipPath({ top: { path: generatePath('organic', { height: 40, amplitude: 1, seed: 2 }), height: 40 } })
+        const depths = [...clip.matchAll(/ ([\d.]+)px/g)].map((m) => parseFloat(m[1]))
+        expect(depths.length).toBe(48)
+        expect(Math.max(...depths)).toBeLessThanOrEqual(40)
+    })
+})
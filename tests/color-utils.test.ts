@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { hexToRgb, rgbToHex, interpolateColors, parseBackground, isDark } from '../src/utils/color-utils'
+import { hexToRgb, rgbToHex, rgbaToHex, interpolateColors, transitionBandColors, parseBackground, backgroundEdgeColor, isDark, generateAutoGradient } from '../src/utils/color-utils'
 
 // ============================================================
 // hexToRgb
@@ -21,6 +21,12 @@ describe('hexToRgb', () => {
         expect(hexToRgb('ff0000')).toEqual({ r: 255, g: 0, b: 0 })
     })
 
+    it('parses any CSS color, dropping alpha', () => {
+        expect(hexToRgb('navy')).toEqual({ r: 0, g: 0, b: 128 })
+        expect(hexToRgb('#ff000080')).toEqual({ r: 255, g: 0, b: 0 })
+        expect(hexToRgb('oklch(62.8% 0.2577 29.23)')).toEqual({ r: 255, g: 0, b: 0 })
+    })
+
     it('returns null for invalid input', () => {
         expect(hexToRgb('notacolor')).toBeNull()
         expect(hexToRgb('')).toBeNull()
@@ -49,6 +55,14 @@ describe('rgbToHex', () => {
     })
 })
 
+describe('rgbaToHex', () => {
+    it('adds an alpha byte only when translucent', () => {
+        expect(rgbaToHex({ r: 255, g: 0, b: 0, alpha: 1 })).toBe('#ff0000')
+        expect(rgbaToHex({ r: 255, g: 0, b: 0, alpha: 0.5 })).toBe('#ff000080')
+        expect(rgbaToHex({ r: 0, g: 0, b: 0, alpha: 0 })).toBe('#00000000')
+    })
+})
+
 // ============================================================
 // interpolateColors
 // ============================================================
@@ -69,6 +83,88 @@ describe('interpolateColors', () => {
     it('returns color1 when one color is invalid', () => {
         expect(interpolateColors('#ff0000', 'invalid', 0.5)).toBe('#ff0000')
     })
+
+    it('blends any CSS colors', () => {
+        expect(interpolateColors('navy', 'hsl(0 0% 100%)', 0.5)).toBe('#8080c0')
+        expect(interpolateColors('rgb(255 0 0)', 'color(srgb 0 0 1)', 0.5)).toBe('#800080')
+    })
+
+    it('blends in the chosen color space', () => {
+        expect(interpolateColors('#0000ff', '#ffff00', 0.5)).toBe('#808080')
+        expect(interpolateColors('#0000ff', '#ffff00', 0.5, { colorSpace: 'linear-srgb' })).toBe('#bcbcbc')
+        expect(interpolateColors('#0000ff', '#ffff00', 0.5, { colorSpace: 'oklab' })).toBe('#6cabc7')
+        expect(interpolateColors('#0000ff', '#ffff00', 0.5, { colorSpace: 'oklch' })).toBe('#00cfbd')
+    })
+
+    it('goes the long way round the hue wheel in OKLCH when asked', () => {
+        expect(interpolateColors('#0000ff', '#ffff00', 0.5, { colorSpace: 'oklch', hueInterpolation: 'longer' })).toBe('#ff3185')
+        // Hue direction means nothing outside OKLCH
+        expect(interpolateColors('#0000ff', '#ffff00', 0.5, { colorSpace: 'oklab', hueInterpolation: 'longer' })).toBe('#6cabc7')
+    })
+
+    it('keeps the hue of the chromatic end when blending from gray in OKLCH', () => {
+        const mid = hexToRgb(interpolateColors('#ffffff', '#0000ff', 0.5, { colorSpace: 'oklch' }))!
+        expect(mid.b).toBeGreaterThan(mid.r)
+        expect(mid.b).toBeGreaterThan(mid.g)
+    })
+
+    it('fades into transparent without darkening', () => {
+        expect(interpolateColors('#ff0000', 'transparent', 0.5)).toBe('#ff000080')
+        expect(interpolateColors('transparent', 'transparent', 0.5)).toBe('#00000000')
+    })
+})
+
+// ============================================================
+// transitionBandColors
+// ============================================================
+
+describe('transitionBandColors', () => {
+    it('steps evenly and ends on the target color', () => {
+        expect(transitionBandColors('#ffffff', '#000000', 4)).toEqual(['#bfbfbf', '#808080', '#404040', '#000000'])
+    })
+
+    it('steps in the chosen color space', () => {
+        expect(transitionBandColors('#0000ff', '#ffff00', 2, { colorSpace: 'oklch' })).toEqual(['#00cfbd', '#ffff00'])
+    })
+
+    it('keeps the target color as written for the front band', () => {
+        expect(transitionBandColors('#ffffff', 'transparent', 2)).toEqual(['#ffffff80', 'transparent'])
+        expect(transitionBandColors('#ffffff', '#000', 1)).toEqual(['#000'])
+    })
+})
+
+// ============================================================
+// generateAutoGradient
+// ============================================================
+
+describe('generateAutoGradient', () => {
+    it('blends from one color to the other through a midpoint', () => {
+        expect(generateAutoGradient('#000000', '#ffffff')).toEqual({
+            type: 'linear',
+            angle: 90,
+            stops: [
+                { color: '#000000', offset: 0 },
+                { color: '#808080', offset: 0.5 },
+                { color: '#ffffff', offset: 1 },
+            ],
+        })
+    })
+
+    it('spaces any number of stops evenly, blended in the chosen color space', () => {
+        const gradient = generateAutoGradient('#0000ff', '#ffff00', 180, { stops: 5, colorSpace: 'oklch' })
+        expect(gradient.angle).toBe(180)
+        expect(gradient.stops.map((stop) => stop.offset)).toEqual([0, 0.25, 0.5, 0.75, 1])
+        expect(gradient.stops[0].color).toBe('#0000ff')
+        expect(gradient.stops[2].color).toBe('#00cfbd')
+        expect(gradient.stops[4].color).toBe('#ffff00')
+    })
+
+    it('keeps at least the two end stops', () => {
+        expect(generateAutoGradient('red', 'blue', 90, { stops: 1 }).stops).toEqual([
+            { color: 'red', offset: 0 },
+            { color: 'blue', offset: 1 },
+        ])
+    })
 })
 
 // ============================================================
@@ -119,6 +215,33 @@ describe('parseBackground', () => {
     it('handles hsl colors', () => {
         const result = parseBackground('hsl(0, 100%, 50%)')
         expect(result.type).toBe('color')
+        expect(result.dominantColor).toBe('#ff0000')
+    })
+
+    it('reads every named color and modern color function', () => {
+        expect(parseBackground('navy')).toEqual({ type: 'color', value: 'navy', dominantColor: '#000080' })
+        expect(parseBackground('RebeccaPurple').dominantColor).toBe('#663399')
+        expect(parseBackground('hwb(120 0% 50%)').dominantColor).toBe('#008000')
+        expect(parseBackground('lab(54.29 80.8 69.89)').dominantColor).toBe('#ff0000')
+        expect(parseBackground('oklch(0.628 0.2577 29.23)').dominantColor).toBe('#ff0000')
+        expect(parseBackground('color-mix(in srgb, red, blue)').dominantColor).toBe('#800080')
+    })
+
+    it('keeps alpha in the dominant color', () => {
+        expect(parseBackground('transparent').dominantColor).toBe('#00000000')
+        expect(parseBackground('rgb(0 0 255 / 50%)').dominantColor).toBe('#0000ff80')
+        expect(parseBackground('#0f08').dominantColor).toBe('#00ff0088')
+    })
+
+    it('takes the first color stop of a gradient in any notation', () => {
+        expect(parseBackground('linear-gradient(to right, navy 10%, white)').dominantColor).toBe('#000080')
+        expect(parseBackground('radial-gradient(circle at 20% 30%, oklch(0.628 0.2577 29.23), blue)').dominantColor).toBe('#ff0000')
+        expect(parseBackground('repeating-linear-gradient(45deg, rgb(0, 128, 0) 0 10px, white 10px 20px)').dominantColor).toBe('#008000')
+    })
+
+    it('falls back to white for values it cannot read', () => {
+        expect(parseBackground('var(--brand)').dominantColor).toBe('#ffffff')
+        expect(parseBackground('linear-gradient(to right, var(--a), var(--b))').dominantColor).toBe('#ffffff')
     })
 })
 
@@ -126,6 +249,18 @@ describe('parseBackground', () => {
 // isDark
 // ============================================================
 
+describe('backgroundEdgeColor', () => {
+    it('prefers the edge color over the dominant color', () => {
+        const background = { ...parseBackground('url(/hero.jpg)'), edgeColors: { top: '#ff0000' } }
+        expect(backgroundEdgeColor(background, 'top')).toBe('#ff0000')
+        expect(backgroundEdgeColor(background, 'bottom')).toBe('#ffffff')
+    })
+
+    it('uses the dominant color without edge colors', () => {
+        expect(backgroundEdgeColor(parseBackground('#1a1a2e'), 'left')).toBe('#1a1a2e')
+    })
+})
+
 describe('isDark', () => {
     it('black is dark', () => {
         expect(isDark('#000000')).toBe(true)
@@ -146,4 +281,15 @@ describe('isDark', () => {
     it('returns false for invalid hex', () => {
         expect(isDark('invalid')).toBe(false)
     })
+
+    it('reads any CSS color', () => {
+        expect(isDark('navy')).toBe(true)
+        expect(isDark('oklch(0.95 0.02 90)')).toBe(false)
+    })
+
+    it('judges translucent colors over white', () => {
+        expect(isDark('transparent')).toBe(false)
+        expect(isDark('rgb(0 0 0 / 20%)')).toBe(false)
+        expect(isDark('rgb(0 0 0 / 80%)')).toBe(true)
+    })
 })
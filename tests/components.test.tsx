@@ -6,8 +6,17 @@ import { WaveSection } from '../src/components/WaveSection'
 import { WaveRenderer } from '../src/components/WaveRenderer'
 import { WaveLayer } from '../src/components/WaveLayer'
 import { WaveSectionCSS } from '../src/components/WaveSectionCSS'
-import { generatePath } from '../src/utils/path-generator'
-import { DEFAULT_STROKE, DEFAULT_BLUR, DEFAULT_TEXTURE, DEFAULT_INNER_SHADOW, DEFAULT_HOVER, DEFAULT_PARALLAX, DEFAULT_SCROLL_ANIMATION } from '../src/constants'
+import { WaveBlob } from '../src/components/WaveBlob'
+import { WaveCard } from '../src/components/WaveCard'
+import { generatePath, transposePath } from '../src/utils/path-generator'
+import { createPathGeometry } from '../src/utils/path-geometry'
+import { generateRadialPath } from '../src/utils/radial-path'
+import { resolvePatternInput } from '../src/utils/compose-patterns'
+import { autoSeed, generateInterlockPaths, validateDualPath } from '../src/utils/interlock-generator'
+import { interpolateColors, generateAutoGradient } from '../src/utils/color-utils'
+import { clearImageColorCache } from '../src/utils/image-colors'
+import { DEFAULT_STROKE, DEFAULT_BLUR, DEFAULT_TEXTURE, DEFAULT_INNER_SHADOW, DEFAULT_HOVER, DEFAULT_PARALLAX, DEFAULT_SCROLL_ANIMATION, DEFAULT_SEPARATION } from '../src/constants'
+import type { WaveBandConfig } from '../src/types'
 
 // ============================================================
 // WaveProvider
@@ -40,6 +49,23 @@ describe('WaveProvider', () => {
         )
         expect(screen.queryByText(/wavy-bavy debug/)).toBeNull()
     })
+
+    it('makes provider-scoped patterns available to WaveSections', () => {
+        const brand = ({ width, height }: { width: number; height: number }) =>
+            `M -20 ${height} L -20 40 L 333 33 L ${width + 20} 40 L ${width + 20} ${height} Z`
+        render(
+            <WaveProvider patterns={{ brand }}>
+                <WaveSection background="#ffffff" pattern={'brand' as any}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const ds = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d') ?? '')
+        expect(ds.some(d => d.includes('L 333 33'))).toBe(true)
+    })
 })
 
 // ============================================================
@@ -273,6 +299,60 @@ describe('WaveRenderer', () => {
     })
 })
 
+describe('WaveRenderer (tileScroll)', () => {
+    it('tiles a periodic path and scrolls every area path', () => {
+        const periodicPath = generatePath('smooth', { height: 120, periodic: true })
+        render(
+            <WaveRenderer
+                path={periodicPath}
+                fillColor="#ff0000"
+                containerColor="#ffffff"
+                height={120}
+                direction="down"
+                animationDuration={6}
+                tileScroll
+            />,
+        )
+        const paths = document.querySelectorAll('path')
+        expect(paths[1]?.getAttribute('d')).toMatch(/^M -1440 /)
+        paths.forEach(p => expect(p.getAttribute('style')).toContain('6s linear infinite'))
+        expect(document.querySelector('style')?.textContent).toContain('translateX(-1440px)')
+    })
+
+    it('WaveSection scrolls periodic flow waves instead of morphing them', () => {
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" periodic animate="flow">
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const css = Array.from(document.querySelectorAll('svg style')).map(el => el.textContent).join('\n')
+        expect(css).toContain('translateX(-1440px)')
+        expect(css).not.toContain('d: path(')
+    })
+
+    it('warns and renders statically for non-periodic paths', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        render(
+            <WaveRenderer
+                path={generatePath('smooth', { height: 120 })}
+                fillColor="#ff0000"
+                containerColor="#ffffff"
+                height={120}
+                direction="down"
+                tileScroll
+            />,
+        )
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('tileScroll requires a periodic path'))
+        expect(document.querySelector('path')?.getAttribute('style')).toBeNull()
+        spy.mockRestore()
+    })
+})
+
 // ============================================================
 // WaveLayer
 // ============================================================
@@ -334,6 +414,79 @@ describe('WaveLayer', () => {
     })
 })
 
+describe('WaveLayer (color space)', () => {
+    const paths = [
+        generatePath('smooth', { height: 120 }),
+        generatePath('smooth', { height: 120, amplitude: 0.4 }),
+        generatePath('smooth', { height: 120, amplitude: 0.3 }),
+    ]
+
+    function layerFills() {
+        return Array.from(document.querySelectorAll('.wavy-bavy-wave')).map((wave) =>
+            Array.from(wave.querySelectorAll('path')).map((p) => p.getAttribute('fill')).filter((fill) => fill !== 'transparent').pop(),
+        )
+    }
+
+    it('fades layers with opacity in sRGB', () => {
+        render(<WaveLayer paths={paths} fillColor="#0000ff" containerColor="#ffff00" height={120} direction="down" baseOpacity={0.5} />)
+        const layers = Array.from(document.querySelectorAll('.wavy-bavy-wave')).map((wave) => (wave.parentElement as HTMLElement).style.opacity)
+        expect(layers).toEqual(['1', '0.4', '0.3'])
+        expect(layerFills()).toEqual(['#0000ff', '#0000ff', '#0000ff'])
+    })
+
+    it('blends the ramp in OKLCH and paints the base wave last', () => {
+        render(<WaveLayer paths={paths} fillColor="#0000ff" containerColor="#ffff00" height={120} direction="down" baseOpacity={0.5} colorSpace="oklch" />)
+        const layers = Array.from(document.querySelectorAll('.wavy-bavy-wave')).map((wave) => (wave.parentElement as HTMLElement).style.opacity)
+        expect(layers).toEqual(['1', '1', '1'])
+        expect(layerFills()).toEqual([
+            interpolateColors('#ffff00', '#0000ff', 0.3, { colorSpace: 'oklch' }),
+            interpolateColors('#ffff00', '#0000ff', 0.4, { colorSpace: 'oklch' }),
+            '#0000ff',
+        ])
+        // The backmost layer carries the container color
+        const back = document.querySelector('.wavy-bavy-wave')!
+        expect(Array.from(back.querySelectorAll('path')).map((p) => p.getAttribute('fill'))).toContain('#ffff00')
+    })
+})
+
+describe('WaveSection (color space)', () => {
+    function stopColors(html: string): string[] {
+        return Array.from(html.matchAll(/stop-color="([^"]+)"/g), (match) => match[1])
+    }
+
+    function renderGradient(provider: Record<string, unknown>, section: Record<string, unknown> = {}) {
+        return render(
+            <WaveProvider defaults={provider}>
+                <WaveSection background="#0000ff" autoGradient wavePosition="bottom" {...section}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#ffff00" wavePosition="none">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+    }
+
+    it('blends auto gradients in the provider color space', () => {
+        const { container } = renderGradient({ colorSpace: 'oklch' })
+        expect(stopColors(container.innerHTML)).toContain('#00cfbd')
+        expect(stopColors(container.innerHTML)).not.toContain('#808080')
+    })
+
+    it('lets a section override the color space, hue direction and stop count', () => {
+        const { container } = renderGradient({ colorSpace: 'oklab' }, { colorSpace: 'oklch', hueInterpolation: 'longer', gradientStops: 4 })
+        const stops = stopColors(container.innerHTML)
+        // Fill and container gradients, four stops each
+        expect(stops).toHaveLength(8)
+        expect(stops.slice(0, 4)).toEqual(generateAutoGradient('#0000ff', '#ffff00', 90, { colorSpace: 'oklch', hueInterpolation: 'longer', stops: 4 }).stops.map((stop) => stop.color))
+    })
+
+    it('keeps sRGB blending by default', () => {
+        const { container } = renderGradient({})
+        expect(stopColors(container.innerHTML)).toContain('#808080')
+    })
+})
+
 // ============================================================
 // WaveRenderer — Stroke effects
 // ============================================================
@@ -429,6 +582,157 @@ describe('WaveRenderer (stroke)', () => {
 // WaveRenderer — Blur effects
 // ============================================================
 
+describe('WaveRenderer (band)', () => {
+    const { pathA, pathB } = generateInterlockPaths({
+        pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 2, intensity: 0.5, mode: 'interlock',
+    })
+    const renderBand = (band: WaveBandConfig) => render(
+        <WaveRenderer
+            path={pathA}
+            pathB={pathB}
+            fillColor="#ff0000"
+            containerColor="#ffffff"
+            height={120}
+            direction="down"
+            separation={{ ...DEFAULT_SEPARATION, band }}
+        />,
+    )
+
+    it('paints the strip between the edges with the band color', () => {
+        renderBand({ fill: '#ffcc00' })
+        const paths = document.querySelectorAll('path')
+        // paths[0] = top area, paths[1] = Path A area (the band), paths[2] = Path B area
+        expect(paths[1]?.getAttribute('fill')).toBe('#ffcc00')
+        expect(paths[2]?.getAttribute('fill')).toBe('#ff0000')
+    })
+
+    it('references a gradient band from the defs', () => {
+        renderBand({ fill: { type: 'linear', stops: [{ offset: 0, color: '#f00' }, { offset: 1, color: '#00f' }] } })
+        // jsdom doesn't match camelCase SVG tags with querySelector, so check the markup
+        const html = document.querySelector('svg')!.innerHTML
+        const id = html.match(/<linearGradient id="([^"]+)"/)?.[1]
+        expect(id).toBeTruthy()
+        expect(html).toContain('stop-color="#f00"')
+        expect(document.querySelectorAll('path')[1]?.getAttribute('fill')).toBe(`url(#${id})`)
+    })
+
+    it('references a pattern band from the defs', () => {
+        renderBand({ fill: { type: 'stripes', color: '#000', background: '#fff', size: 6 } })
+        const pattern = document.querySelector('pattern')
+        expect(pattern).toBeTruthy()
+        expect(pattern!.getAttribute('patternUnits')).toBe('userSpaceOnUse')
+        expect(pattern!.getAttribute('patternTransform')).toBe('rotate(45)')
+        expect(pattern!.querySelectorAll('rect')).toHaveLength(2)
+        expect(document.querySelectorAll('path')[1]?.getAttribute('fill')).toBe(`url(#${pattern!.id})`)
+    })
+
+    it('ignores the band without a second path', () => {
+        render(
+            <WaveRenderer
+                path={pathA}
+                fillColor="#ff0000"
+                containerColor="#ffffff"
+                height={120}
+                direction="down"
+                separation={{ ...DEFAULT_SEPARATION, band: { fill: '#ffcc00' } }}
+            />,
+        )
+        const fills = Array.from(document.querySelectorAll('path')).map((p) => p.getAttribute('fill'))
+        expect(fills).not.toContain('#ffcc00')
+    })
+
+    it('WaveSection meshes puzzle tabs from separation.tabs', () => {
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" seed={5} separation={{ mode: 'puzzle', gap: 6, tabs: { count: 4 } }}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const expected = generateInterlockPaths({
+            pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 1, intensity: 0.5, mode: 'puzzle', seed: 5, gap: 6, tabs: { count: 4 }, phase: 0, mirror: false,
+        })
+        // The renderer extends the closing frame, so compare the edges themselves
+        const edgeOf = (d: string) => d.split(' L ').slice(2, -2).join(' L ')
+        const edges = Array.from(document.querySelectorAll('path')).map((p) => edgeOf(p.getAttribute('d') ?? ''))
+        expect(edges).toContain(edgeOf(expected.pathA))
+        expect(edges).toContain(edgeOf(expected.pathB))
+    })
+
+    it('WaveSection starts seed-less puzzle animations on the still edge', () => {
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" animate="flow" separation={{ mode: 'puzzle', gap: 6 }}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const still = generateInterlockPaths({
+            pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 1, intensity: 0.5, mode: 'puzzle', gap: 6, seed: autoSeed(0, 0),
+        })
+        const css = Array.from(document.querySelectorAll('svg style')).map((el) => el.textContent).join('\n')
+        const firstFrame = css.split('@keyframes wavy-morph-a-0-bottom ')[1].match(/d:\s*path\("([^"]+)"\)/)![1]
+        const frame = createPathGeometry(firstFrame)
+        const edge = createPathGeometry(still.pathA)
+        for (let x = 40; x < 1440; x += 80) {
+            expect(frame.getYAtX(x), `x = ${x}`).toBeCloseTo(edge.getYAtX(x)!, 1)
+        }
+    })
+
+    it('WaveSection keeps the band within its thickness while morphing', () => {
+        const band = { fill: '#ffcc00', minThickness: 6, maxThickness: 14 }
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" separation={{ band }} animate="morph">
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const bandPath = Array.from(document.querySelectorAll('path')).find((p) => p.getAttribute('fill') === '#ffcc00')
+        expect(bandPath).toBeTruthy()
+        const css = Array.from(document.querySelectorAll('svg style')).map((el) => el.textContent).join('\n')
+        const framesOf = (id: string) => [...css.split(`@keyframes ${id} `)[1].split('@keyframes')[0].matchAll(/d:\s*path\("([^"]+)"\)/g)].map((m) => m[1])
+        const framesA = framesOf('wavy-morph-a-0-bottom')
+        const framesB = framesOf('wavy-morph-b-0-bottom')
+        expect(framesA.length).toBeGreaterThan(1)
+        framesA.forEach((frameA, i) => {
+            const validation = validateDualPath({ pathA: frameA, pathB: framesB[i], baseCurve: frameA }, { minSeparation: 6, maxSeparation: 14 })
+            expect(validation.valid, `frame ${i}`).toBe(true)
+        })
+    })
+})
+
+describe('WaveSection (morph keyframes)', () => {
+    it('morphs from the section\'s own wave config, mirror included', () => {
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" animate="flow" mirror height={120} amplitude={0.5} frequency={2}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const css = Array.from(document.querySelectorAll('svg style')).map((el) => el.textContent).join('\n')
+        const firstFrame = css.split('@keyframes wavy-morph-a-0-bottom ')[1].match(/d:\s*path\("([^"]+)"\)/)![1]
+        const frame = createPathGeometry(firstFrame)
+        const still = createPathGeometry(generatePath('smooth', { height: 120, amplitude: 0.5, frequency: 2, mirror: true }))
+        for (const x of [100, 500, 900, 1300]) {
+            expect(frame.getYAtX(x)).toBeCloseTo(still.getYAtX(x)!, 1)
+        }
+    })
+})
+
 describe('WaveRenderer (blur)', () => {
     const path = generatePath('smooth', { height: 120 })
 
@@ -682,6 +986,16 @@ describe('WaveSectionCSS', () => {
         expect(section?.style.clipPath).toContain('polygon(')
     })
 
+    it('clips to a custom path', () => {
+        render(
+            <WaveSectionCSS background="#ffffff" pattern="custom" customPath="M 0 120 L 0 40 L 1440 80 L 1440 120 Z">
+                <p>Content</p>
+            </WaveSectionCSS>,
+        )
+        const section = document.querySelector('.wavy-bavy-section-css') as HTMLElement
+        expect(section?.style.clipPath).toContain('polygon(')
+    })
+
     it('applies background color', () => {
         render(
             <WaveSectionCSS background="#ff0000">
@@ -979,6 +1293,207 @@ describe('WaveLayer (parallax)', () => {
     })
 })
 
+// ── Transition bands ──
+
+describe('WaveSection (transition bands)', () => {
+    function renderBands(props: Record<string, unknown> = {}) {
+        return render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" transitionBands={4} {...props}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+    }
+
+    it('steps the bottom wave through colors from this section to the next', () => {
+        renderBands()
+        const waveFills = Array.from(document.querySelectorAll('.wavy-bavy-wave')).map((wave) =>
+            Array.from(wave.querySelectorAll('path')).map((p) => p.getAttribute('fill')).filter((fill) => fill !== 'transparent').pop(),
+        )
+        expect(waveFills).toEqual(['#bfbfbf', '#808080', '#404040', '#000000'])
+    })
+
+    it('draws every band opaque inside the wave height', () => {
+        renderBands()
+        const layers = Array.from(document.querySelectorAll('.wavy-bavy-wave')).map((wave) => wave.parentElement as HTMLElement)
+        expect(layers.map((layer) => layer.style.opacity)).toEqual(['1', '1', '1', '1'])
+        for (const svg of Array.from(document.querySelectorAll('.wavy-bavy-wave svg'))) {
+            expect(svg.getAttribute('viewBox')).toBe('-20 0 1480 120')
+        }
+    })
+
+    it('takes precedence over layers', () => {
+        renderBands({ layers: 2 })
+        expect(document.querySelectorAll('.wavy-bavy-wave').length).toBe(4)
+    })
+
+    it('moves each band at its own parallax speed', () => {
+        renderBands({ parallax: { speed: 0.5 } })
+        const viewBoxes = Array.from(document.querySelectorAll('.wavy-bavy-wave svg')).map((svg) => svg.getAttribute('viewBox'))
+        expect(new Set(viewBoxes).size).toBe(4)
+    })
+})
+
+describe('WaveSection (runtime backgrounds)', () => {
+    let themeStyles: HTMLStyleElement
+
+    beforeEach(() => {
+        themeStyles = document.createElement('style')
+        themeStyles.textContent = 'section { --surface-2: #112233 } .dark section { --surface-2: #eeeeee } .brand { background-color: rgb(26, 26, 46) }'
+        document.head.appendChild(themeStyles)
+    })
+
+    afterEach(() => {
+        themeStyles.remove()
+    })
+
+    /** Fill of the section's own bottom wave (the next section's color) */
+    function bottomWaveFill(): string | null | undefined {
+        const wave = document.querySelector('.wavy-bavy-wave')
+        return Array.from(wave?.querySelectorAll('path') ?? []).map((p) => p.getAttribute('fill')).filter((fill) => fill !== 'transparent').pop()
+    }
+
+    function renderPair(next: Record<string, unknown>) {
+        return render(
+            <div>
+                <WaveProvider>
+                    <WaveSection background="#ffffff" wavePosition="bottom">
+                        <p>Section 1</p>
+                    </WaveSection>
+                    <WaveSection wavePosition="none" {...next}>
+                        <p>Section 2</p>
+                    </WaveSection>
+                </WaveProvider>
+            </div>,
+        )
+    }
+
+    it('recolors neighbours with the resolved var() color', () => {
+        renderPair({ background: 'var(--surface-2)' })
+        expect(bottomWaveFill()).toBe('#112233')
+        // The section keeps the var() so the browser follows theme changes itself
+        expect((document.querySelectorAll('section')[1] as HTMLElement).style.backgroundColor).toBe('var(--surface-2)')
+    })
+
+    it('follows theme switches', async () => {
+        const { container } = renderPair({ background: 'var(--surface-2)' })
+        await act(async () => {
+            (container.firstChild as HTMLElement).className = 'dark'
+            // Re-resolving waits for the next animation frame
+            await new Promise((resolve) => requestAnimationFrame(resolve))
+        })
+        expect(bottomWaveFill()).toBe('#eeeeee')
+    })
+
+    it('reads class-provided backgrounds without painting over them', () => {
+        renderPair({ className: 'brand' })
+        expect(bottomWaveFill()).toBe('#1a1a2e')
+        expect((document.querySelectorAll('section')[1] as HTMLElement).style.backgroundColor).toBe('')
+    })
+
+    it('uses the text color for currentColor', () => {
+        renderPair({ background: 'currentColor', style: { color: 'rgb(0, 128, 0)' } })
+        expect(bottomWaveFill()).toBe('#008000')
+    })
+})
+
+describe('WaveSection (image edge colors)', () => {
+    let loads: string[]
+
+    beforeEach(() => {
+        loads = []
+        // A 4×4 photo: red along the top, blue below
+        const data = new Uint8ClampedArray(64)
+        for (let i = 0; i < 16; i++) data.set(i < 4 ? [255, 0, 0, 255] : [0, 0, 255, 255], i * 4)
+        vi.stubGlobal('Image', class {
+            naturalWidth = 4
+            naturalHeight = 4
+            crossOrigin: string | null = null
+            onload: (() => void) | null = null
+            set src(url: string) {
+                loads.push(url)
+                setTimeout(() => this.onload?.())
+            }
+        })
+        vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+            return { canvas: this, drawImage: () => {}, getImageData: () => ({ data, width: 4, height: 4 }) } as unknown as CanvasRenderingContext2D
+        })
+    })
+
+    afterEach(() => {
+        clearImageColorCache()
+        vi.unstubAllGlobals()
+        vi.restoreAllMocks()
+    })
+
+    function bottomWaveFill(): string | null | undefined {
+        const wave = document.querySelector('.wavy-bavy-wave')
+        return Array.from(wave?.querySelectorAll('path') ?? []).map((p) => p.getAttribute('fill')).filter((fill) => fill !== 'transparent').pop()
+    }
+
+    function renderPair(next: Record<string, unknown>) {
+        return render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" wavePosition="bottom">
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection wavePosition="none" {...next}>
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+    }
+
+    async function imageLoaded() {
+        await act(async () => {
+            await new Promise((resolve) => setTimeout(resolve, 10))
+        })
+    }
+
+    it('matches the wave above a photo to its top edge once sampled', async () => {
+        renderPair({ backgroundImage: '/hero.jpg' })
+        expect(bottomWaveFill()).toBe('#ffffff')
+        await imageLoaded()
+        expect(bottomWaveFill()).toBe('#ff0000')
+        expect(loads).toEqual(['/hero.jpg'])
+    })
+
+    it('uses an edgeColor string without loading the image', async () => {
+        renderPair({ backgroundImage: '/hero.jpg', edgeColor: '#336699' })
+        await imageLoaded()
+        expect(bottomWaveFill()).toBe('#336699')
+        expect(loads).toEqual([])
+    })
+
+    it('prefers precomputed edge colors over sampled ones', async () => {
+        renderPair({ backgroundImage: '/hero.jpg', edgeColor: { top: '#123456' } })
+        expect(bottomWaveFill()).toBe('#123456')
+        await imageLoaded()
+        expect(bottomWaveFill()).toBe('#123456')
+    })
+
+    it('puts the photo\'s bottom edge behind its own wave', async () => {
+        render(
+            <WaveProvider>
+                <WaveSection backgroundImage="/hero.jpg" wavePosition="bottom" edgeSampling="average">
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#ffffff" wavePosition="none">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        await imageLoaded()
+        // The photo's bottom edge is the container color behind this section's own wave
+        const fills = Array.from(document.querySelectorAll('.wavy-bavy-wave path, .wavy-bavy-wave rect')).map((el) => el.getAttribute('fill'))
+        expect(fills).toContain('#0000ff')
+    })
+})
+
 // ── Scroll-linked animation ──
 
 describe('WaveSection (scroll-linked animation)', () => {
@@ -1086,4 +1601,450 @@ describe('WaveSection (feature composition)', () => {
         const section = document.querySelector('.wavy-bavy-section')
         expect(section).not.toBeNull()
     })
+
+    it('spline anchors reach the rendered and morphing paths', () => {
+        const spline = { points: [{ x: 0, y: 0 }, { x: 0.4, y: 1 }, { x: 1, y: 0.2 }] }
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" pattern="spline" spline={spline} animate="morph">
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const expected = generatePath('spline', { height: 120, amplitude: 0.5, spline })
+        // The renderer re-frames the area path but keeps the curve
+        const curve = expected.slice(expected.indexOf('C'), expected.lastIndexOf(' L 1460'))
+        const areaPaths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d'))
+        expect(areaPaths.some(d => d?.includes(curve))).toBe(true)
+        const css = Array.from(document.querySelectorAll('svg style')).map(el => el.textContent).join('\n')
+        expect(css).toContain(`d: path("${expected}")`)
+    })
+
+    it('anchors reach the rendered and morphing paths', () => {
+        const anchors = [{ x: 0.5, y: 0.1, slope: 0 }]
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" anchors={anchors} animate="morph">
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const expected = generatePath('smooth', { height: 120, amplitude: 0.5, anchors })
+        const curve = expected.slice(expected.indexOf('C'), expected.lastIndexOf(' L 1460'))
+        const areaPaths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d'))
+        expect(areaPaths.some(d => d?.includes(curve))).toBe(true)
+        const css = Array.from(document.querySelectorAll('svg style')).map(el => el.textContent).join('\n')
+        expect(css).toContain(`d: path("${expected}")`)
+    })
+
+    it('renders a shape expression pattern', () => {
+        const pattern = 'sine(f=2) + noise(a=0.1,seed=3) | clamp(0.1,0.9)'
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" pattern={pattern}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const expected = generatePath(pattern, { height: 120, amplitude: 0.5 })
+        const curve = expected.slice(expected.indexOf('C'), expected.lastIndexOf(' L 1460'))
+        const areaPaths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d'))
+        expect(areaPaths.some(d => d?.includes(curve))).toBe(true)
+    })
+
+    it('renders a pattern array as one composed wave', () => {
+        const layers = [{ pattern: 'smooth' as const }, { pattern: 'sharp' as const, weight: 0.5, frequency: 4 }]
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" pattern={layers}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const { pattern, patterns } = resolvePatternInput(layers)
+        const expected = generatePath(pattern, { height: 120, amplitude: 0.5 }, patterns)
+        const curve = expected.slice(expected.indexOf('C'), expected.lastIndexOf(' L 1460'))
+        const areaPaths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d'))
+        expect(areaPaths.some(d => d?.includes(curve))).toBe(true)
+    })
+    it('renders customPath for the custom pattern on both edges', () => {
+        const customPath = 'M -20 120 L -20 40 L 0 40 C 480 0, 960 110, 1440 60 L 1460 60 L 1460 120 Z'
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff">
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#000000" pattern="custom" customPath={customPath} wavePosition="both" mirror>
+                    <p>Section 2</p>
+                </WaveSection>
+                <WaveSection background="#ffffff" wavePosition="none">
+                    <p>Section 3</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        const expected = generatePath('custom', { customPath, mirror: true })
+        const curve = expected.slice(expected.indexOf('C'), expected.lastIndexOf(' L -20'))
+        const areaPaths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d'))
+        expect(areaPaths.filter(d => d?.includes(curve)).length).toBeGreaterThanOrEqual(2)
+        // Previously the custom pattern rendered the smooth wave instead
+        const smooth = generatePath('smooth', { mirror: true })
+        const smoothCurve = smooth.slice(smooth.indexOf('Q'), smooth.lastIndexOf(' L -20'))
+        expect(areaPaths.some(d => d?.includes(smoothCurve))).toBe(false)
+    })
+})
+
+// ============================================================
+// Measured Fit
+// ============================================================
+
+describe('fit="measure"', () => {
+    class ImmediateResizeObserver {
+        constructor(private callback: ResizeObserverCallback) {}
+        observe = () => this.callback([{ contentRect: { width: 375 } } as ResizeObserverEntry], this as unknown as ResizeObserver)
+        unobserve = vi.fn()
+        disconnect = vi.fn()
+    }
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    const renderSections = () => render(
+        <WaveProvider>
+            <WaveSection background="#ffffff" fit="measure" stroke={DEFAULT_STROKE}>
+                <p>Section 1</p>
+            </WaveSection>
+            <WaveSection background="#000000" wavePosition="none">
+                <p>Section 2</p>
+            </WaveSection>
+        </WaveProvider>,
+    )
+
+    it('regenerates paths at the measured width', () => {
+        vi.stubGlobal('ResizeObserver', ImmediateResizeObserver)
+        renderSections()
+
+        const svg = document.querySelector('svg')!
+        expect(svg.getAttribute('viewBox')).toBe('-20 0 415 120')
+        const expected = generatePath('smooth', { width: 375 })
+        const curve = expected.slice(expected.indexOf('Q'), expected.lastIndexOf(' L '))
+        const paths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d'))
+        expect(paths.some(d => d?.includes(curve))).toBe(true)
+    })
+
+    it('maps one path unit to one pixel, in line with the clip-path', () => {
+        vi.stubGlobal('ResizeObserver', ImmediateResizeObserver)
+        render(
+            <WaveProvider>
+                <WaveSection backgroundImage="/hero.jpg" fit="measure" clipImage>
+                    <p>Hero</p>
+                </WaveSection>
+                <WaveSection background="#000000" wavePosition="none">
+                    <p>Next</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+
+        // The svg is 40px wider than the 375px container, shifted 20px left
+        const svg = document.querySelector('svg')!
+        expect(svg.style.width).toBe('calc(100% + 40px)')
+        expect(svg.style.marginLeft).toBe('-20px')
+        const [minX, , boxWidth] = svg.getAttribute('viewBox')!.split(' ').map(Number)
+        const toPx = (x: number) => -20 + ((x - minX) / boxWidth) * (375 + 40)
+
+        // Each clip-path point (a percentage of the 375px section) sits where the svg draws that wave point
+        const clip = screen.getByText('Hero').closest('section')!.style.clipPath
+        const wave = createPathGeometry(document.querySelectorAll('path')[1].getAttribute('d')!)
+        const points = Array.from(clip.matchAll(/(-?[\d.]+)% (-?[\d.]+)%/g), ([, x, y]) => [Number(x), Number(y)])
+            .filter(([x, y]) => x > 0 && x < 100 && y < 100)
+        expect(points.length).toBeGreaterThan(5)
+        for (const [x, y] of points) {
+            const pathX = (x / 100) * 375
+            expect(toPx(pathX)).toBeCloseTo(pathX, 6)
+            expect(wave.getYAtX(pathX)).toBeCloseTo((y / 100) * 120, 0)
+        }
+    })
+
+    it('keeps strokes uniform with vector-effect', () => {
+        vi.stubGlobal('ResizeObserver', ImmediateResizeObserver)
+        renderSections()
+
+        const stroked = document.querySelector('path[stroke]')!
+        expect(stroked.getAttribute('vector-effect')).toBe('non-scaling-stroke')
+    })
+
+    it('falls back to viewBox scaling without ResizeObserver', () => {
+        vi.stubGlobal('ResizeObserver', undefined)
+        renderSections()
+
+        expect(document.querySelector('svg')!.getAttribute('viewBox')).toBe('-20 0 1480 120')
+    })
+})
+
+// ============================================================
+// Vertical Orientation
+// ============================================================
+
+describe('vertical orientation', () => {
+    const renderPanels = (props: Partial<React.ComponentProps<typeof WaveSection>> = {}) => render(
+        <WaveProvider>
+            <div style={{ display: 'flex' }}>
+                <WaveSection background="#ff0000" orientation="vertical" {...props}>
+                    <p>Left panel</p>
+                </WaveSection>
+                <WaveSection background="#0000ff" orientation="vertical" wavePosition="none">
+                    <p>Right panel</p>
+                </WaveSection>
+            </div>
+        </WaveProvider>,
+    )
+
+    it('draws a transposed wave in a band as wide as the wave height', () => {
+        renderPanels({ height: 80 })
+
+        const wave = document.querySelector('.wavy-bavy-wave') as HTMLElement
+        expect(wave.style.width).toBe('80px')
+        expect(wave.style.alignSelf).toBe('stretch')
+        expect(document.querySelector('svg')!.getAttribute('viewBox')).toBe('0 -20 80 1480')
+
+        // The wave edge runs down the seam: x is the depth, y the wave length
+        const expected = transposePath(generatePath('smooth', { height: 80 }))
+        const curve = expected.slice(expected.indexOf('C'), expected.lastIndexOf(' L'))
+        const paths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d'))
+        expect(paths.some(d => d?.includes(curve))).toBe(true)
+    })
+
+    it('colors the left side with this section and the right side with the next', () => {
+        renderPanels()
+        const fills = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('fill'))
+        expect(fills).toEqual(['#ff0000', '#0000ff'])
+    })
+
+    it('treats wavePosition left/right as vertical edges', () => {
+        render(
+            <WaveProvider>
+                <WaveSection background="#ff0000" wavePosition="right">
+                    <p>Left panel</p>
+                </WaveSection>
+                <WaveSection background="#0000ff" wavePosition="none">
+                    <p>Right panel</p>
+                </WaveSection>
+            </WaveProvider>,
+        )
+        expect(document.querySelector('svg')!.getAttribute('viewBox')).toMatch(/^0 -20 /)
+    })
+
+    it('runs auto gradients across the seam', () => {
+        renderPanels({ autoGradient: true })
+        // The horizontal 90° gradient transposed to 180°: it varies along x only
+        const html = document.querySelector('svg')!.innerHTML
+        expect(html).toMatch(/x1="100%" y1="50[.\d]*%" x2="0%" y2="(50|49)[.\d]*%"/)
+    })
+
+    it('transposes interlocked dual paths', () => {
+        renderPanels({ separation: { mode: 'interlock', gap: 8, intensity: 0.5, strokeColor: '#000' } })
+        const paths = Array.from(document.querySelectorAll('path')).map(p => p.getAttribute('d') ?? '')
+        // Area paths start at the transposed frame corner (x = depth, y = -20)
+        expect(paths.filter(d => /^M-?[\d.]+ -20 /.test(d)).length).toBeGreaterThanOrEqual(3)
+        expect(paths.filter(d => d && document.querySelector(`path[d="${d}"]`)?.getAttribute('stroke') === '#000')).toHaveLength(2)
+    })
+
+    it('clips background images along the right edge', () => {
+        renderPanels({ clipImage: true })
+        const section = screen.getByText('Left panel').closest('section') as HTMLElement
+        expect(section.style.clipPath).toMatch(/^polygon\(0% 0%, /)
+        expect(section.style.clipPath).toMatch(/0% 100%\)$/)
+    })
+
+    it('sizes responsive heights as band widths', () => {
+        renderPanels({ height: { sm: 40, lg: 90 } })
+        const css = Array.from(document.querySelectorAll('style')).map(s => s.textContent).join('\n')
+        expect(css).toContain('width: 40px')
+        expect(css).toContain('width: 90px')
+        expect(css).not.toContain('height: 40px')
+    })
+})
+
+// ============================================================
+// WaveBlob
+// ============================================================
+
+describe('WaveBlob', () => {
+    const originalMatchMedia = window.matchMedia
+
+    afterEach(() => {
+        Object.defineProperty(window, 'matchMedia', { writable: true, configurable: true, value: originalMatchMedia })
+        vi.restoreAllMocks()
+    })
+
+    it('renders the radial path in a 2 × radius box', () => {
+        const { container } = render(<WaveBlob pattern="organic" radius={40} seed={2} frequency={5} />)
+        const wrapper = container.firstElementChild as HTMLElement
+        expect(wrapper.className).toContain('wavy-bavy-blob')
+        expect(wrapper.style.width).toBe('80px')
+        expect(wrapper.style.height).toBe('80px')
+        const svg = container.querySelector('svg')!
+        expect(svg.getAttribute('viewBox')).toBe('0 0 80 80')
+        expect(svg.getAttribute('aria-hidden')).toBe('true')
+        expect(container.querySelector('path')!.getAttribute('d')).toBe(
+            generateRadialPath({ pattern: 'organic', radius: 40, seed: 2, frequency: 5 }),
+        )
+    })
+
+    it('sizes ellipses with radiusY', () => {
+        const { container } = render(<WaveBlob radius={60} radiusY={30} />)
+        expect(container.querySelector('svg')!.getAttribute('viewBox')).toBe('0 0 120 60')
+    })
+
+    it('fills with a solid color or a gradient', () => {
+        const { container, rerender } = render(<WaveBlob color="#ff0066" />)
+        expect(container.querySelector('path')!.getAttribute('fill')).toBe('#ff0066')
+
+        rerender(<WaveBlob gradient={{ type: 'radial', stops: [{ offset: 0, color: '#fff' }, { offset: 1, color: '#000' }] }} />)
+        expect(container.querySelector('path')!.getAttribute('fill')).toMatch(/^url\(#wave-blob-grad-/)
+        expect(container.querySelector('svg')!.innerHTML).toContain('radialGradient')
+    })
+
+    it('applies shadow, glow and texture through one filter', () => {
+        const { container } = render(<WaveBlob shadow glow texture color="#123456" />)
+        const path = container.querySelector('path')!
+        expect(path.getAttribute('filter')).toMatch(/^url\(#wave-blob-filter-/)
+        const html = container.querySelector('svg')!.innerHTML
+        expect(html).toContain('feDropShadow')
+        expect(html).toContain('feTurbulence')
+        // A currentColor glow takes the blob's color
+        expect(html).toContain('flood-color="#123456"')
+    })
+
+    it('draws the stroke along the outline', () => {
+        const { container } = render(<WaveBlob stroke={{ ...DEFAULT_STROKE, fill: false, color: '#000' }} />)
+        const [area, outline] = Array.from(container.querySelectorAll('path'))
+        expect(area.getAttribute('fill')).toBe('none')
+        expect(outline.getAttribute('stroke')).toBe('#000')
+        expect(outline.getAttribute('d')).toBe(area.getAttribute('d'))
+    })
+
+    it('injects wrapped path-morph keyframes', () => {
+        const { container } = render(<WaveBlob animate="morph" animationDuration={6} />)
+        const css = container.querySelector('style')!.textContent ?? ''
+        expect(css).toMatch(/@keyframes wavy-blob-/)
+        const frames = [...css.matchAll(/d: path\("([^"]+)"\)/g)].map((m) => m[1])
+        expect(frames.length).toBeGreaterThan(2)
+        expect(frames.every((d) => /^M [\d.]+ [\d.]+ C .* Z$/.test(d))).toBe(true)
+        expect(container.querySelector('path')!.style.animation).toMatch(/wavy-blob-.* 6s ease-in-out infinite/)
+    })
+
+    it('skips the animation when reduced motion is preferred', () => {
+        Object.defineProperty(window, 'matchMedia', {
+            writable: true,
+            configurable: true,
+            value: () => ({ matches: true, addEventListener: () => {}, removeEventListener: () => {} }),
+        })
+        const { container } = render(<WaveBlob animate="morph" />)
+        expect(container.querySelector('style')).toBeNull()
+        expect(container.querySelector('path')!.style.animation).toBe('')
+    })
+
+    it('warns about animations that are not path morphs', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const { container } = render(<WaveBlob animate="pulse" />)
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('"pulse" is ignored'))
+        expect(container.querySelector('style')).toBeNull()
+    })
+
+    it('clips children to the outline with clipContent', () => {
+        render(
+            <WaveBlob radius={50} clipContent aria-label="Avatar">
+                <span>JD</span>
+            </WaveBlob>,
+        )
+        const content = screen.getByText('JD').parentElement as HTMLElement
+        expect(content.style.clipPath).toMatch(/^polygon\(/)
+        expect(screen.getByRole('img', { name: 'Avatar' })).toBeDefined()
+    })
+})
+
+// ============================================================
+// WaveCard
+// ============================================================
+
+describe('WaveCard', () => {
+    it('renders children in a clipped box', () => {
+        render(<WaveCard top bottom background="#fff"><p>Card body</p></WaveCard>)
+        const card = screen.getByText('Card body').parentElement as HTMLElement
+        expect(card.className).toContain('wavy-bavy-card')
+        expect(card.style.clipPath).toMatch(/^polygon\(/)
+        expect(card.style.backgroundColor).toBe('rgb(255, 255, 255)')
+    })
+
+    it('is unclipped without wavy sides', () => {
+        render(<WaveCard><p>Plain</p></WaveCard>)
+        expect((screen.getByText('Plain').parentElement as HTMLElement).style.clipPath).toBe('none')
+    })
+
+    it('pads content by each wavy side height', () => {
+        render(
+            <WaveCard top={{ height: 32 }} left={{ height: 16, pattern: 'sharp' }} padding={10}>
+                <p>Padded</p>
+            </WaveCard>,
+        )
+        const card = screen.getByText('Padded').parentElement as HTMLElement
+        expect(card.style.paddingTop).toBe('42px')
+        expect(card.style.paddingLeft).toBe('26px')
+        expect(card.style.paddingRight).toBe('10px')
+        expect(card.style.paddingBottom).toBe('10px')
+    })
+
+    it('uses the default edge for sides set to true', () => {
+        render(<WaveCard right><p>Right</p></WaveCard>)
+        const card = screen.getByText('Right').parentElement as HTMLElement
+        expect(card.style.paddingRight).toBe('24px')
+        expect(card.style.clipPath).toContain('calc(100% - ')
+    })
+
+    it('renders as a custom element', () => {
+        render(<WaveCard as="article" top aria-label="Plan"><p>Article</p></WaveCard>)
+        const card = screen.getByText('Article').parentElement as HTMLElement
+        expect(card.tagName).toBe('ARTICLE')
+        expect(card.getAttribute('aria-label')).toBe('Plan')
+    })
+
+    it('lifts and morphs its edges on hover', () => {
+        render(<WaveCard top bottom hover><p>Hover me</p></WaveCard>)
+        const card = screen.getByText('Hover me').parentElement as HTMLElement
+        const resting = card.style.clipPath
+        expect(card.style.transition).toContain('clip-path')
+
+        fireEvent.mouseEnter(card)
+        expect(card.style.transform).toContain('translateY(-4px)')
+        expect(card.style.transform).toContain('scale(1.02)')
+        expect(card.style.clipPath).not.toBe(resting)
+        // Same vertex count, so the clip-path transition interpolates
+        expect(card.style.clipPath.split(', ').length).toBe(resting.split(', ').length)
+
+        fireEvent.mouseLeave(card)
+        expect(card.style.clipPath).toBe(resting)
+        expect(card.style.transform).toBe('')
+    })
+
+    it('keeps edges still on hover when morph is 0', () => {
+        render(<WaveCard top hover={{ morph: 0, lift: -2 }}><p>Still</p></WaveCard>)
+        const card = screen.getByText('Still').parentElement as HTMLElement
+        const resting = card.style.clipPath
+        fireEvent.mouseEnter(card)
+        expect(card.style.clipPath).toBe(resting)
+        expect(card.style.transform).toContain('translateY(-2px)')
+    })
 })
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import { composePatterns, resolvePatternInput, COMPOSED_PATTERN } from '../src/utils/compose-patterns'
+import { generatePath, tilePeriodicPath } from '../src/utils/path-generator'
+import { createPathGeometry } from '../src/utils/path-geometry'
+import { applyAnchors } from '../src/utils/anchors'
+import { generateInterlockPaths } from '../src/utils/interlock-generator'
+import { generatePathKeyframes } from '../src/utils/keyframes'
+import { exportWaveAsSVG } from '../src/devtools/export-svg'
+
+const XS = Array.from({ length: 29 }, (_, i) => i * 50)
+
+function heights(path: string): number[] {
+    const geometry = createPathGeometry(path)
+    return XS.map(x => geometry.getYAtX(x) ?? NaN)
+}
+
+describe('composePatterns', () => {
+    it('reproduces a single layer', () => {
+        const composed = generatePath('x', { seed: 3 }, { x: composePatterns([{ pattern: 'organic' }]) })
+        const original = heights(generatePath('organic', { seed: 3 }))
+        heights(composed).forEach((y, i) => expect(Math.abs(y - original[i])).toBeLessThan(0.5))
+    })
+
+    it('sums the weighted displacements of its layers', () => {
+        const composed = heights(generatePath('x', { frequency: 2, amplitude: 0.2 }, {
+            x: composePatterns([{ pattern: 'smooth' }, { pattern: 'sharp', weight: 3, phase: 0.25 }]),
+        }))
+        const smooth = heights(generatePath('smooth', { frequency: 2, amplitude: 0.2 }))
+        const sharp = heights(generatePath('sharp', { frequency: 2, amplitude: 0.2, phase: 0.25 }))
+        composed.forEach((y, i) => expect(Math.abs(y - (120 + (smooth[i] - 120) + 3 * (sharp[i] - 120)))).toBeLessThan(2))
+    })
+
+    it('gives each layer its own frequency', () => {
+        const composed = heights(generatePath('x', { amplitude: 0.3 }, {
+            x: composePatterns([{ pattern: 'smooth', frequency: 1 }, { pattern: 'smooth', frequency: 6 }]),
+        }))
+        const slow = heights(generatePath('smooth', { frequency: 1, amplitude: 0.3 }))
+        const fast = heights(generatePath('smooth', { frequency: 6, amplitude: 0.3 }))
+        composed.forEach((y, i) => expect(Math.abs(y - (slow[i] + fast[i] - 120))).toBeLessThan(2))
+    })
+
+    it('scales a single layer by its weight', () => {
+        const composed = heights(generatePath('x', {}, { x: composePatterns([{ pattern: 'smooth', weight: 0.5 }]) }))
+        const smooth = heights(generatePath('smooth'))
+        composed.forEach((y, i) => expect(Math.abs(y - (120 + (smooth[i] - 120) / 2))).toBeLessThan(2))
+    })
+
+    it('keeps the main swell when a light chop is added', () => {
+        const swell = heights(generatePath('smooth', { amplitude: 0.4 }))
+        const composed = heights(generatePath('x', { amplitude: 0.4 }, {
+            x: composePatterns([{ pattern: 'smooth' }, { pattern: 'smooth', weight: 0.1, frequency: 8 }]),
+        }))
+        const chop = heights(generatePath('smooth', { amplitude: 0.4, frequency: 8 }))
+        // The swell keeps its full height; the chop rides on it at a tenth of its own
+        composed.forEach((y, i) => expect(Math.abs(y - (swell[i] + 0.1 * (chop[i] - 120)))).toBeLessThan(1))
+    })
+
+    it('keeps the library path frame and stays inside the viewBox', () => {
+        const path = generatePath('x', { amplitude: 1 }, {
+            x: composePatterns([{ pattern: 'mountain' }, { pattern: 'noise', frequency: 5, seed: 9 }]),
+        })
+        expect(path).toMatch(/^M -20 120 L -20 [\d.]+ L 0 /)
+        expect(path).toMatch(/L 1460 [\d.]+ L 1460 120 Z$/)
+        heights(path).forEach(y => {
+            expect(y).toBeGreaterThanOrEqual(0)
+            expect(y).toBeLessThanOrEqual(120)
+        })
+    })
+
+    it('tiles seamlessly when periodic', () => {
+        const path = generatePath('x', { periodic: true }, {
+            x: composePatterns([{ pattern: 'smooth' }, { pattern: 'noise', weight: 0.3, frequency: 4 }]),
+        })
+        expect(tilePeriodicPath(path)).not.toBeNull()
+    })
+
+    it('mirrors the composite as a whole', () => {
+        const generator = composePatterns([{ pattern: 'smooth' }, { pattern: 'mountain', weight: 0.5 }])
+        const straight = createPathGeometry(generatePath('x', {}, { x: generator }))
+        const mirrored = createPathGeometry(generatePath('x', { mirror: true }, { x: generator }))
+        for (const x of [100, 500, 900]) {
+            expect(mirrored.getYAtX(1440 - x)).toBeCloseTo(straight.getYAtX(x)!, 1)
+        }
+    })
+
+    it('anchors the composite once, not each layer', () => {
+        const generator = composePatterns([{ pattern: 'organic', weight: 0.5 }, { pattern: 'smooth', weight: 0.5, frequency: 3 }])
+        const anchors = [{ x: 0.5, y: 0.2 }]
+        const anchored = generatePath('x', { anchors }, { x: generator })
+        expect(anchored).toBe(applyAnchors(generatePath('x', {}, { x: generator }), anchors))
+        expect(createPathGeometry(anchored).getYAtX(720)).toBeCloseTo(96, 1)
+    })
+
+    it('resolves layer patterns from the scoped lookup', () => {
+        const flat = () => 'M -20 120 L -20 30 L 1460 30 L 1460 120 Z'
+        const path = generatePath('x', {}, { x: composePatterns([{ pattern: 'flat' }], { flat }) })
+        heights(path).forEach(y => expect(y).toBeCloseTo(30, 1))
+    })
+
+    it('rejects empty compositions', () => {
+        expect(() => composePatterns([])).toThrow('[wavy-bavy]')
+    })
+
+    it('draws the flat baseline when every weight is 0', () => {
+        const path = generatePath('x', {}, { x: composePatterns([{ pattern: 'smooth', weight: 0 }]) })
+        heights(path).forEach(y => expect(y).toBeCloseTo(120, 1))
+    })
+})
+
+describe('resolvePatternInput', () => {
+    it('passes pattern names through unchanged', () => {
+        const patterns = { custom: () => '' }
+        expect(resolvePatternInput('smooth', patterns)).toEqual({ pattern: 'smooth', patterns })
+    })
+
+    it('turns a layer array into the composed pattern', () => {
+        const resolved = resolvePatternInput([{ pattern: 'smooth' }, { pattern: 'organic', weight: 0.5 }])
+        expect(resolved.pattern).toBe(COMPOSED_PATTERN)
+        expect(typeof resolved.patterns?.[COMPOSED_PATTERN]).toBe('function')
+    })
+})
+
+describe('composed patterns in other features', () => {
+    const layers = [{ pattern: 'smooth' as const }, { pattern: 'organic' as const, weight: 0.25, frequency: 6 }]
+    const { pattern, patterns } = resolvePatternInput(layers)
+
+    it('interlocks', () => {
+        const result = generateInterlockPaths({
+            pattern,
+            patterns,
+            height: 120,
+            amplitude: 0.5,
+            frequency: 1,
+            intensity: 0.5,
+            mode: 'interlock',
+            seed: 42,
+        })
+        expect(result.baseCurve).toBe(generatePath(pattern, { height: 120, amplitude: 0.5, frequency: 1, seed: 42 }, patterns))
+    })
+
+    it('morphs with a stable command structure', () => {
+        const frames = generatePathKeyframes({
+            basePath: '',
+            frameCount: 5,
+            phaseRange: 0.3,
+            amplitudeVariation: 0.1,
+            pattern,
+            config: { height: 120, amplitude: 0.5, frequency: 1, patterns },
+        })
+        expect(new Set(frames).size).toBeGreaterThan(1)
+        const commands = frames.map(frame => frame.replace(/[^A-Z]/g, ''))
+        expect(new Set(commands).size).toBe(1)
+    })
+
+    it('exports to SVG from a layer array', () => {
+        const svg = exportWaveAsSVG({ pattern: layers })
+        const expected = generatePath(pattern, { width: 1440, height: 120, amplitude: 0.5, frequency: 1 }, patterns)
+        expect(svg).toContain(expected)
+    })
+})
@@ -9,6 +9,8 @@ describe('DEFAULTS', () => {
         expect(DEFAULTS.frequency).toBe(1)
         expect(DEFAULTS.animate).toBe('none')
         expect(DEFAULTS.respectReducedMotion).toBe(true)
+        expect(DEFAULTS.colorSpace).toBe('srgb')
+        expect(DEFAULTS.hueInterpolation).toBe('shorter')
     })
 })
 
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { generateCrossBoundaryPaths } from '../src/utils/interlock-generator'
+import { generateCrossBoundaryPaths, validateDualPath } from '../src/utils/interlock-generator'
 import type { CrossBoundaryOptions } from '../src/utils/interlock-generator'
 
 describe('generateCrossBoundaryPaths', () => {
@@ -134,4 +134,30 @@ describe('generateCrossBoundaryPaths', () => {
         expect(result.pathA).toContain('C') // Smooth cubic bezier segments
         expect(result.pathB).toContain('C')
     })
+
+    it('never lets differing patterns cross', () => {
+        // A tall sharp edge over a low organic one used to swap sides in slices
+        const result = generateCrossBoundaryPaths({
+            upperConfig: { pattern: 'sharp', height: 120, amplitude: 1, frequency: 5, seed: 3 },
+            lowerConfig: { pattern: 'organic', height: 120, amplitude: 1, frequency: 2, seed: 9 },
+            mode: 'overlap',
+            intensity: 0.1,
+        })
+        expect(validateDualPath(result).valid).toBe(true)
+    })
+
+    it('keeps at least the gap between the edges', () => {
+        for (const samples of [20, 60]) {
+            const result = generateCrossBoundaryPaths({
+                upperConfig: { pattern: 'mountain', height: 120, amplitude: 0.9, frequency: 3, seed: 3 },
+                lowerConfig: { pattern: 'smooth', height: 80, amplitude: 0.9, frequency: 1 },
+                intensity: 0.2,
+                gap: 6,
+                samples,
+            })
+            const validation = validateDualPath(result, { minSeparation: 6 })
+            expect(validation.valid, `samples=${samples}`).toBe(true)
+            expect(validation.minSeparation).toBeCloseTo(6, 1)
+        }
+    })
 })
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { parseColor } from '../src/utils/css-color'
+import { rgbaToHex } from '../src/utils/color-utils'
+
+/** Parse and format as hex, for compact expectations */
+function hexOf(value: string): string | null {
+    const color = parseColor(value)
+    return color && rgbaToHex(color)
+}
+
+// ============================================================
+// Named colors & hex
+// ============================================================
+
+describe('parseColor — named colors and hex', () => {
+    it('knows named colors case-insensitively', () => {
+        expect(hexOf('navy')).toBe('#000080')
+        expect(hexOf('rebeccapurple')).toBe('#663399')
+        expect(hexOf('LightGoldenrodYellow')).toBe('#fafad2')
+        expect(hexOf('transparent')).toBe('#00000000')
+    })
+
+    it('reads 3, 4, 6 and 8 digit hex', () => {
+        expect(parseColor('#f00')).toEqual({ r: 255, g: 0, b: 0, alpha: 1 })
+        expect(hexOf('#f008')).toBe('#ff000088')
+        expect(hexOf('#112233')).toBe('#112233')
+        expect(hexOf('#11223344')).toBe('#11223344')
+    })
+
+    it('rejects anything else', () => {
+        for (const value of ['', 'constructor', '#12345', 'notacolor', 'currentColor', 'var(--brand)', 'rgb(1 2)', 'rgb(1, 2 3)', 'hsl(10% 50% 50%)', 'color(oklab 1 0 0)', 'rgb(1 2 3']) {
+            expect(parseColor(value), value).toBeNull()
+        }
+    })
+})
+
+// ============================================================
+// Color functions
+// ============================================================
+
+describe('parseColor — color functions', () => {
+    it('reads rgb() and hsl() in legacy and modern syntax', () => {
+        expect(hexOf('rgba(0, 128, 255, .25)')).toBe('#0080ff40')
+        expect(hexOf('rgb(100% 0% 0% / 50%)')).toBe('#ff000080')
+        expect(hexOf('hsl(120, 100%, 25%)')).toBe('#008000')
+        expect(hexOf('hsla(0.5turn 50% 50% / 0.5)')).toBe('#40bfbf80')
+        expect(hexOf('hsl(3.14159rad 100 50)')).toBe('#00ffff')
+    })
+
+    it('reads hwb()', () => {
+        expect(hexOf('hwb(0 0% 0%)')).toBe('#ff0000')
+        expect(hexOf('hwb(120 60% 60%)')).toBe('#808080')
+    })
+
+    it('converts lab(), lch(), oklab() and oklch() to sRGB', () => {
+        expect(hexOf('lab(54.29 80.8 69.89)')).toBe('#ff0000')
+        expect(hexOf('lch(54.29% 106.84 40.85deg)')).toBe('#ff0000')
+        expect(hexOf('oklab(0.628 0.2249 0.1258)')).toBe('#ff0000')
+        expect(hexOf('oklch(62.8% 0.2577 29.23)')).toBe('#ff0000')
+        expect(hexOf('oklch(100% 0 none)')).toBe('#ffffff')
+    })
+
+    it('reads predefined spaces in color()', () => {
+        expect(hexOf('color(srgb 0.5 0.5 0.5)')).toBe('#808080')
+        expect(hexOf('color(srgb-linear 1 0 0)')).toBe('#ff0000')
+        expect(hexOf('color(rec2020 1 1 1)')).toBe('#ffffff')
+        expect(hexOf('color(prophoto-rgb 1 1 1)')).toBe('#ffffff')
+        expect(hexOf('color(xyz-d65 0.9505 1 1.089)')).toBe('#ffffff')
+        expect(hexOf('color(xyz-d50 0.9642 1 0.8252 / 0.5)')).toBe('#ffffff80')
+    })
+
+    it('clips colors outside sRGB', () => {
+        expect(hexOf('color(display-p3 1 0 0)')).toBe('#ff0000')
+        expect(hexOf('oklch(0.9 0.4 140)')).toBe('#00ff00')
+    })
+})
+
+// ============================================================
+// color-mix()
+// ============================================================
+
+describe('parseColor — color-mix()', () => {
+    it('mixes halfway unless percentages are given', () => {
+        expect(hexOf('color-mix(in srgb, red, blue)')).toBe('#800080')
+        expect(hexOf('color-mix(in srgb, red 25%, blue)')).toBe('#4000bf')
+        expect(hexOf('color-mix(in srgb, 75% blue, red)')).toBe('#4000bf')
+    })
+
+    it('scales alpha when the percentages sum below 100%', () => {
+        expect(hexOf('color-mix(in srgb, red 20%, blue 20%)')).toBe('#80008066')
+        expect(parseColor('color-mix(in srgb, red 0%, blue 0%)')).toBeNull()
+    })
+
+    it('mixes with premultiplied alpha', () => {
+        expect(hexOf('color-mix(in oklab, red, transparent)')).toBe('#ff000080')
+    })
+
+    it('interpolates hue the chosen way round', () => {
+        expect(hexOf('color-mix(in hsl, red, blue)')).toBe('#ff00ff')
+        expect(hexOf('color-mix(in hsl longer hue, red, blue)')).toBe('#00ff00')
+    })
+
+    it('takes the hue of the chromatic color when mixing with gray', () => {
+        const mixed = parseColor('color-mix(in oklch, white, blue)')!
+        expect(mixed.b).toBeGreaterThan(mixed.r)
+        expect(mixed.b).toBeGreaterThan(mixed.g)
+    })
+
+    it('nests', () => {
+        expect(hexOf('color-mix(in srgb, color-mix(in srgb, red, blue), white)')).toBe('#bf80bf')
+    })
+})
@@ -1,11 +1,12 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen, fireEvent, within } from '@testing-library/react'
+import { render, screen, fireEvent, within, act } from '@testing-library/react'
 import { renderHook } from '@testing-library/react'
 import React from 'react'
 import { WaveProvider } from '../src/context/WaveProvider'
 import { useWaveContext } from '../src/context/useWaveContext'
 import { WaveDebugPanel } from '../src/devtools/WaveDebugPanel'
 import { WavePatternGallery } from '../src/devtools/WavePatternGallery'
+import { registerPattern } from '../src/utils/pattern-registry'
 
 // ============================================================
 // WaveDebugPanel
@@ -130,7 +131,7 @@ describe('WavePatternGallery', () => {
             <WavePatternGallery backgroundColor="#000" fillColor="#fff" />,
         )
         const rects = container.querySelectorAll('rect')
-        expect(rects.length).toBe(7) // one per pattern (4 original + 3 new)
+        expect(rects.length).toBe(9) // one per pattern (4 original + 5 new)
         rects.forEach((rect) => {
             expect(rect.getAttribute('fill')).toBe('#000')
         })
@@ -141,6 +142,46 @@ describe('WavePatternGallery', () => {
         const gallery = screen.getByTestId('wave-pattern-gallery')
         expect(gallery.className).toContain('my-gallery')
     })
+
+    it('includes registered patterns with their label', () => {
+        const cleanup = registerPattern('gallery-test', () => 'M -20 80 L -20 40 L 1460 40 L 1460 80 Z', { label: 'Gallery Test' })
+        render(<WavePatternGallery />)
+        expect(screen.getByTestId('pattern-card-gallery-test')).toBeDefined()
+        expect(screen.getByText('Gallery Test')).toBeDefined()
+        cleanup()
+    })
+
+    it('shows catalog labels, descriptions and capability tags', () => {
+        render(<WavePatternGallery />)
+        const card = screen.getByTestId('pattern-card-noise')
+        expect(card.textContent).toContain('Noise')
+        expect(card.textContent).toContain('Seeded fractal noise')
+        const tags = screen.getByTestId('pattern-tags-noise').textContent!
+        expect(tags).toContain('seed')
+        expect(tags).toContain('periodic')
+        expect(tags).toContain('morph-safe')
+        expect(screen.getByTestId('pattern-tags-smooth').textContent).not.toContain('seed')
+    })
+
+    it('picks up patterns registered after mount', () => {
+        render(<WavePatternGallery />)
+        expect(screen.queryByTestId('pattern-card-late-test')).toBeNull()
+        let cleanup = () => {}
+        act(() => {
+            cleanup = registerPattern('late-test', () => 'M -20 80 L -20 40 L 1460 40 L 1460 80 Z')
+        })
+        expect(screen.getByTestId('pattern-card-late-test')).toBeDefined()
+        act(() => cleanup())
+    })
+
+    it('includes provider-scoped patterns', () => {
+        render(
+            <WaveProvider patterns={{ scoped: () => 'M -20 80 L -20 40 L 1460 40 L 1460 80 Z' }}>
+                <WavePatternGallery />
+            </WaveProvider>,
+        )
+        expect(screen.getByTestId('pattern-card-scoped')).toBeDefined()
+    })
 })
 
 // ============================================================
@@ -78,6 +78,36 @@ describe('exportWaveAsSVG', () => {
         const svg2 = exportWaveAsSVG(opts)
         expect(svg1).toBe(svg2)
     })
+
+    it('shrinks the path with optimize', () => {
+        const opts = { pattern: 'noise' as const, seed: 3, frequency: 3 }
+        const plain = exportWaveAsSVG(opts)
+        const optimized = exportWaveAsSVG({ ...opts, optimize: true })
+        const d = (svg: string) => svg.match(/<path d="([^"]+)"/)![1]
+        expect(d(optimized).length).toBeLessThan(d(plain).length)
+        expect(d(optimized)).toMatch(/^M -20 120 .* L 1460 120 Z$/)
+    })
+
+    it('exports both interlocked edges with a band between them', () => {
+        const svg = exportWaveAsSVG({
+            fillColor: '#ff0000',
+            backgroundColor: '#ffffff',
+            separation: { band: { fill: { type: 'dots', color: '#222222', size: 10 }, maxThickness: 16 } },
+        })
+        const paths = [...svg.matchAll(/<path d="([^"]+)" fill="([^"]+)"/g)]
+        expect(paths).toHaveLength(2)
+        expect(paths[0][2]).toBe('url(#wave-band)')
+        expect(paths[1][2]).toBe('#ff0000')
+        expect(svg).toContain('<defs><pattern id="wave-band" patternUnits="userSpaceOnUse" width="10" height="10">')
+        expect(svg).toContain('<circle cx="5" cy="5" r="2.5" fill="#222222" />')
+    })
+
+    it('shows the background between the edges without a band', () => {
+        const svg = exportWaveAsSVG({ backgroundColor: '#fafafa', separation: { mode: 'apart' } })
+        const fills = [...svg.matchAll(/<path d="[^"]+" fill="([^"]+)"/g)].map((m) => m[1])
+        expect(fills).toEqual(['#fafafa', '#6c5ce7'])
+        expect(svg).not.toContain('<defs>')
+    })
 })
 
 // ============================================================
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+    backgroundImageUrl,
+    extractEdgeColors,
+    sampleImageEdgeColors,
+    clearImageColorCache,
+    type ImagePixels,
+} from '../src/utils/image-colors'
+
+// ============================================================
+// Helpers
+// ============================================================
+
+type Rgba = [number, number, number, number]
+
+function makePixels(width: number, height: number, colorAt: (x: number, y: number) => Rgba): ImagePixels {
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) data.set(colorAt(x, y), (y * width + x) * 4)
+    }
+    return { data, width, height }
+}
+
+const RED: Rgba = [255, 0, 0, 255]
+const BLUE: Rgba = [0, 0, 255, 255]
+const CLEAR: Rgba = [0, 0, 0, 0]
+
+/** 10×10: three red rows over seven blue rows */
+const redOverBlue = makePixels(10, 10, (_, y) => (y < 3 ? RED : BLUE))
+
+/** Image whose load succeeds or fails after a tick, and a canvas reading back `pixels` */
+function stubImageLoading(pixels: ImagePixels | null, options: { taint?: boolean } = {}) {
+    const loads: string[] = []
+    class MockImage {
+        naturalWidth = pixels?.width ?? 0
+        naturalHeight = pixels?.height ?? 0
+        crossOrigin: string | null = null
+        onload: (() => void) | null = null
+        onerror: (() => void) | null = null
+        set src(url: string) {
+            loads.push(url)
+            setTimeout(() => (pixels ? this.onload?.() : this.onerror?.()))
+        }
+    }
+    vi.stubGlobal('Image', MockImage)
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+        return {
+            canvas: this,
+            drawImage: () => {},
+            getImageData: () => {
+                if (options.taint) throw new DOMException('The canvas has been tainted', 'SecurityError')
+                return pixels
+            },
+        } as unknown as CanvasRenderingContext2D
+    })
+    return loads
+}
+
+afterEach(() => {
+    clearImageColorCache()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+})
+
+// ============================================================
+// backgroundImageUrl
+// ============================================================
+
+describe('backgroundImageUrl', () => {
+    it('unquotes the first url()', () => {
+        expect(backgroundImageUrl('url(/hero.jpg)')).toBe('/hero.jpg')
+        expect(backgroundImageUrl('url("https://cdn.example.com/a b.png")')).toBe('https://cdn.example.com/a b.png')
+        expect(backgroundImageUrl("url('/one.png'), url('/two.png')")).toBe('/one.png')
+        expect(backgroundImageUrl('url(/one.png), url(/two.png)')).toBe('/one.png')
+    })
+
+    it('keeps parentheses inside unquoted URLs', () => {
+        expect(backgroundImageUrl('url(/a(1).png)')).toBe('/a(1).png')
+        expect(backgroundImageUrl('url(/a(1).png) center / cover, url(/b.png)')).toBe('/a(1).png')
+        expect(backgroundImageUrl('url("/a).png")')).toBe('/a).png')
+    })
+
+    it('returns null without a url', () => {
+        expect(backgroundImageUrl('#ffffff')).toBeNull()
+        expect(backgroundImageUrl('url()')).toBeNull()
+        expect(backgroundImageUrl('url(/unclosed.png')).toBeNull()
+    })
+})
+
+// ============================================================
+// extractEdgeColors
+// ============================================================
+
+describe('extractEdgeColors', () => {
+    it('samples a strip at every edge', () => {
+        expect(extractEdgeColors(redOverBlue, { strip: 0.1 })).toEqual({
+            top: '#ff0000',
+            right: '#0000ff',
+            bottom: '#0000ff',
+            left: '#0000ff',
+        })
+    })
+
+    it('averages the strip in average mode', () => {
+        const colors = extractEdgeColors(redOverBlue, { strip: 0.1, mode: 'average' })
+        expect(colors.top).toBe('#ff0000')
+        // 3 red + 7 blue pixels down the side
+        expect(colors.left).toBe('#4d00b3')
+    })
+
+    it('picks the most common color over stray pixels', () => {
+        const speckled = makePixels(10, 10, (x, y) => (y === 0 && x < 3 ? [255, 255, 255, 255] : [20, 40, 60, 255]))
+        expect(extractEdgeColors(speckled).top).toBe('#14283c')
+    })
+
+    it('skips transparent pixels and leaves out fully transparent edges', () => {
+        const fading = makePixels(4, 4, (_, y) => (y === 0 ? CLEAR : y === 3 ? [0, 0, 255, 128] : RED))
+        const colors = extractEdgeColors(fading, { strip: 0.25 })
+        expect(colors.top).toBeUndefined()
+        expect(colors.bottom).toBe('#0000ff80')
+        expect(colors.left).toBe('#ff0000')
+    })
+
+    it('samples at least one row of small images', () => {
+        expect(extractEdgeColors(makePixels(1, 1, () => BLUE), { strip: 0 })).toEqual({
+            top: '#0000ff',
+            right: '#0000ff',
+            bottom: '#0000ff',
+            left: '#0000ff',
+        })
+    })
+})
+
+// ============================================================
+// sampleImageEdgeColors
+// ============================================================
+
+describe('sampleImageEdgeColors', () => {
+    it('loads the image and samples its edges', async () => {
+        stubImageLoading(redOverBlue)
+        expect(await sampleImageEdgeColors('/hero.jpg', { strip: 0.1 })).toMatchObject({ top: '#ff0000', bottom: '#0000ff' })
+    })
+
+    it('loads each URL once', async () => {
+        const loads = stubImageLoading(redOverBlue)
+        await Promise.all([sampleImageEdgeColors('/hero.jpg'), sampleImageEdgeColors('/hero.jpg', { mode: 'average' })])
+        await sampleImageEdgeColors('/hero.jpg')
+        await sampleImageEdgeColors('/other.jpg')
+        expect(loads).toEqual(['/hero.jpg', '/other.jpg'])
+    })
+
+    it('resolves to null and warns when the image fails to load', async () => {
+        stubImageLoading(null)
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        expect(await sampleImageEdgeColors('/missing.jpg')).toBeNull()
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('/missing.jpg'))
+    })
+
+    it('resolves to null and warns when a cross-origin image cannot be read', async () => {
+        stubImageLoading(redOverBlue, { taint: true })
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        expect(await sampleImageEdgeColors('https://elsewhere.example/hero.jpg')).toBeNull()
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('CORS'))
+    })
+
+    it('loads the image again after a failed load', async () => {
+        stubImageLoading(null)
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        expect(await sampleImageEdgeColors('/flaky.jpg')).toBeNull()
+        const retries = stubImageLoading(redOverBlue)
+        expect(await sampleImageEdgeColors('/flaky.jpg', { strip: 0.1 })).toMatchObject({ top: '#ff0000' })
+        expect(retries).toEqual(['/flaky.jpg'])
+    })
+
+    it('reads a cross-origin image again once it could not be read back', async () => {
+        const loads = stubImageLoading(redOverBlue, { taint: true })
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+        await sampleImageEdgeColors('https://elsewhere.example/hero.jpg')
+        await sampleImageEdgeColors('https://elsewhere.example/hero.jpg')
+        expect(loads).toHaveLength(2)
+    })
+
+    it('resolves to null without a DOM image', async () => {
+        vi.stubGlobal('Image', undefined)
+        expect(await sampleImageEdgeColors('/hero.jpg')).toBeNull()
+    })
+})
@@ -1,5 +1,7 @@
-import { describe, it, expect } from 'vitest'
-import { generateInterlockPaths, autoSeed } from '../src/utils/interlock-generator'
+import { describe, it, expect, vi } from 'vitest'
+import { generateInterlockPaths, generateCrossBoundaryPaths, constrainDualPath, validateDualPath, autoSeed } from '../src/utils/interlock-generator'
+import { generatePath } from '../src/utils/path-generator'
+import { getPathBounds, parsePath } from '../src/utils/path-geometry'
 
 describe('autoSeed', () => {
     it('returns a number', () => {
@@ -106,6 +108,15 @@ describe('generateInterlockPaths', () => {
         }
     })
 
+    it('builds the base curve from spline anchors', () => {
+        const spline = { points: [{ x: 0, y: 0 }, { x: 0.3, y: 1 }, { x: 1, y: 0.4 }], interpolation: 'monotone' as const }
+        const result = generateInterlockPaths({
+            pattern: 'spline', height: 120, amplitude: 0.5, frequency: 1, intensity: 0.5, mode: 'interlock', spline,
+        })
+        expect(result.baseCurve).toBe(generatePath('spline', { height: 120, amplitude: 0.5, spline, seed: 42 }))
+        expect(result.baseCurve).not.toBe(generatePath('spline', { height: 120, amplitude: 0.5 }))
+    })
+
     it('overlap mode allows pathA peaks past pathB valleys', () => {
         const result = generateInterlockPaths({
             pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 1, intensity: 0.7, mode: 'overlap', seed: 42,
@@ -123,4 +134,167 @@ describe('generateInterlockPaths', () => {
         })
         expect(apart.pathA).not.toBe(interlock.pathA)
     })
+
+    it('keeps pathB at least the gap below pathA at full intensity', () => {
+        for (const mode of ['interlock', 'overlap', 'apart'] as const) {
+            for (const pattern of ['smooth', 'sharp', 'noise'] as const) {
+                const result = generateInterlockPaths({
+                    pattern, height: 120, amplitude: 1, frequency: 4, intensity: 1, mode, seed: 7, gap: 10,
+                })
+                expect(validateDualPath(result, { minSeparation: 10 }).valid, `${mode} ${pattern}`).toBe(true)
+            }
+        }
+    })
+
+    it('rebuilds the paths from the requested number of samples', () => {
+        const options = { pattern: 'organic' as const, height: 120, amplitude: 0.5, frequency: 3, intensity: 0.5, mode: 'interlock' as const, seed: 42 }
+        const curves = (path: string) => path.split('C').length - 1
+        expect(curves(generateInterlockPaths(options).pathA)).toBe(19)
+        expect(curves(generateInterlockPaths({ ...options, samples: 64 }).pathA)).toBe(63)
+        // At least two samples, rounded to a whole number
+        expect(curves(generateInterlockPaths({ ...options, samples: 1 }).pathA)).toBe(1)
+        expect(curves(generateInterlockPaths({ ...options, samples: 10.4 }).pathA)).toBe(9)
+    })
+})
+
+describe('accent band thickness', () => {
+    const options = { pattern: 'organic' as const, height: 120, amplitude: 0.8, frequency: 3, intensity: 0.8, mode: 'overlap' as const, seed: 11 }
+    const parse = (path: string) => path.match(/[A-Z]/g)!.join('')
+
+    it('keeps pathB between the band minimum and maximum below pathA', () => {
+        const result = generateInterlockPaths({ ...options, band: { fill: '#fc0', minThickness: 6, maxThickness: 18 } })
+        const validation = validateDualPath(result, { minSeparation: 6, maxSeparation: 18 })
+        expect(validation.valid).toBe(true)
+        expect(validation.maxSeparation).toBeCloseTo(18, 1)
+    })
+
+    it('is never thinner than the gap and defaults to 4px', () => {
+        const gapped = generateInterlockPaths({ ...options, intensity: 0, gap: 10, band: { fill: '#fc0', minThickness: 2 } })
+        expect(validateDualPath(gapped, { minSeparation: 10 }).valid).toBe(true)
+        const thin = generateInterlockPaths({ ...options, intensity: 0, band: { fill: '#fc0', maxThickness: 4 } })
+        expect(validateDualPath(thin).minSeparation).toBeCloseTo(4, 1)
+    })
+
+    it('warns and uses the minimum when the maximum is smaller', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const result = generateInterlockPaths({ ...options, band: { fill: '#fc0', minThickness: 8, maxThickness: 3 } })
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('[wavy-bavy] band maxThickness 3'))
+        spy.mockRestore()
+        const validation = validateDualPath(result, { minSeparation: 8, maxSeparation: 8 })
+        expect(validation.valid).toBe(true)
+    })
+
+    it('constrainDualPath rebuilds any two edges with one shared structure', () => {
+        const a = generatePath('organic', { seed: 1, frequency: 3 })
+        const b = generatePath('sharp', { frequency: 5 })
+        const constrained = constrainDualPath(a, b, { minSeparation: 5, maxSeparation: 30, samples: 32 })
+        expect(validateDualPath({ ...constrained, baseCurve: a }, { minSeparation: 5, maxSeparation: 30 }).valid).toBe(true)
+        expect(parse(constrained.pathA)).toBe(parse(constrained.pathB))
+        expect(parse(constrained.pathA)).toBe(`ML${'C'.repeat(31)}LLZ`)
+    })
+})
+
+describe('puzzle and zipper modes', () => {
+    const base = { height: 120, amplitude: 0.5, frequency: 2, intensity: 0.5, seed: 3 }
+    const xsOf = (path: string) => parsePath(path).filter(({ type }) => type === 'L').map(({ values }) => values[0])
+
+    it('meshes both edges exactly gap apart', () => {
+        for (const mode of ['puzzle', 'zipper'] as const) {
+            for (const pattern of ['smooth', 'organic', 'sharp'] as const) {
+                for (const gap of [4, 8]) {
+                    const result = generateInterlockPaths({ ...base, pattern, mode, gap })
+                    const validation = validateDualPath(result, { minSeparation: gap, samples: 720 })
+                    expect(validation.valid, `${mode} ${pattern} gap=${gap}`).toBe(true)
+                    expect(validation.minSeparation, `${mode} ${pattern} gap=${gap}`).toBeCloseTo(gap, 1)
+                }
+            }
+        }
+    })
+
+    it('gives identical edges without a gap', () => {
+        for (const mode of ['puzzle', 'zipper'] as const) {
+            const { pathA, pathB } = generateInterlockPaths({ ...base, pattern: 'organic', mode })
+            expect(pathA).toBe(pathB)
+        }
+    })
+
+    it('draws jigsaw tabs whose heads overhang their necks', () => {
+        const { pathB } = generateInterlockPaths({ ...base, pattern: 'smooth', mode: 'puzzle' })
+        const xs = xsOf(pathB)
+        expect(xs.some((x, i) => i > 0 && x < xs[i - 1])).toBe(true)
+    })
+
+    it('keeps tabs inside the wave frame', () => {
+        for (const mode of ['puzzle', 'zipper'] as const) {
+            const bounds = getPathBounds(generateInterlockPaths({ ...base, pattern: 'organic', mode, gap: 6 }).pathA)
+            expect(bounds.minY, mode).toBeGreaterThanOrEqual(0)
+            expect(bounds.maxY, mode).toBeLessThanOrEqual(120)
+        }
+    })
+
+    it('follows tabs.count and tabs.seed with one path structure per count', () => {
+        const structure = (path: string) => parsePath(path).map(({ type }) => type).join('')
+        const six = generateInterlockPaths({ ...base, pattern: 'smooth', mode: 'puzzle', tabs: { count: 6, seed: 1 } })
+        const reseeded = generateInterlockPaths({ ...base, pattern: 'smooth', mode: 'puzzle', tabs: { count: 6, seed: 2 } })
+        const four = generateInterlockPaths({ ...base, pattern: 'smooth', mode: 'puzzle', tabs: { count: 4, seed: 1 } })
+        expect(structure(reseeded.pathB)).toBe(structure(six.pathB))
+        expect(reseeded.pathB).not.toBe(six.pathB)
+        expect(structure(four.pathB)).not.toBe(structure(six.pathB))
+    })
+
+    it('alternates zipper teeth up and down', () => {
+        const { pathB } = generateInterlockPaths({ ...base, pattern: 'smooth', amplitude: 0, mode: 'zipper', tabs: { count: 4 } })
+        const bounds = getPathBounds(pathB.replace(/^M -20 120 /, 'M -20 60 ').replace(/L 1460 120 Z$/, 'Z'))
+        // Teeth rise above and drop below the flat center line
+        expect(bounds.minY).toBeLessThan(40)
+        expect(bounds.maxY).toBeGreaterThan(80)
+    })
+
+    it('uses the band minimum thickness as the gap', () => {
+        const result = generateInterlockPaths({ ...base, pattern: 'smooth', mode: 'zipper', band: { fill: '#fc0', minThickness: 6 } })
+        expect(validateDualPath(result, { minSeparation: 6 }).minSeparation).toBeCloseTo(6, 1)
+    })
+
+    it('meshes cross-boundary edge configs', () => {
+        for (const mode of ['puzzle', 'zipper'] as const) {
+            const result = generateCrossBoundaryPaths({
+                upperConfig: { pattern: 'organic', height: 120, amplitude: 0.6, frequency: 3, seed: 4 },
+                lowerConfig: { pattern: 'smooth', height: 80, amplitude: 0.5, frequency: 2 },
+                mode,
+                gap: 6,
+                tabs: { count: 5 },
+            })
+            expect(validateDualPath(result, { minSeparation: 6 }).valid, mode).toBe(true)
+        }
+    })
+})
+
+describe('validateDualPath', () => {
+    const edge = (y0: number, y1: number) => `M -20 120 L -20 ${y0} L 0 ${y0} L 1440 ${y1} L 1460 ${y1} L 1460 120 Z`
+
+    it('reports the smallest separation and where it is', () => {
+        const validation = validateDualPath({ pathA: edge(20, 40), pathB: edge(60, 50), baseCurve: edge(20, 40) })
+        expect(validation.valid).toBe(true)
+        expect(validation.minSeparation).toBeCloseTo(10)
+        expect(validation.minSeparationX).toBe(1440)
+        expect(validation.maxSeparation).toBeCloseTo(40)
+        expect(validation.violations).toEqual([])
+    })
+
+    it('flags crossing paths and separations below the minimum', () => {
+        const crossing = validateDualPath({ pathA: edge(20, 80), pathB: edge(60, 40), baseCurve: edge(20, 80) }, { samples: 5 })
+        expect(crossing.valid).toBe(false)
+        expect(crossing.minSeparation).toBeCloseTo(-40)
+        expect(crossing.violations).toEqual([1080, 1440])
+
+        const tight = validateDualPath({ pathA: edge(20, 40), pathB: edge(60, 50), baseCurve: edge(20, 40) }, { minSeparation: 20, samples: 5 })
+        expect(tight.valid).toBe(false)
+        expect(tight.violations).toEqual([1080, 1440])
+    })
+
+    it('is invalid when the paths cannot be sampled', () => {
+        const validation = validateDualPath({ pathA: '', pathB: '', baseCurve: '' })
+        expect(validation.valid).toBe(false)
+        expect(validation.minSeparation).toBeNaN()
+    })
 })
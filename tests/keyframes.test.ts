@@ -12,6 +12,7 @@ import {
     PATH_MORPH_GENERATORS,
     generateDualPathMorphKeyframes,
 } from '../src/utils/keyframes'
+import { validateDualPath } from '../src/utils/interlock-generator'
 
 describe('legacy keyframe generators', () => {
     it('flowLegacyKeyframes returns valid CSS @keyframes', () => {
@@ -105,6 +106,59 @@ describe('generateDualPathMorphKeyframes', () => {
         expect(result.cssB).toContain('d: path(')
     })
 
+    it('keeps an accent band within its thickness in every frame', () => {
+        const { cssA, cssB } = generateDualPathMorphKeyframes(
+            'band-a', 'band-b', '', '', 'morph', 'organic', { height: 120, amplitude: 0.6, frequency: 3, seed: 5 },
+            { gap: 2, band: { fill: '#fc0', minThickness: 4, maxThickness: 12 } },
+        )
+        const frames = (css: string) => [...css.matchAll(/d:\s*path\("([^"]+)"\)/g)].map((m) => m[1])
+        const framesA = frames(cssA)
+        const framesB = frames(cssB)
+        expect(framesA.length).toBe(framesB.length)
+        framesA.forEach((pathA, i) => {
+            expect(validateDualPath({ pathA, pathB: framesB[i], baseCurve: pathA }, { minSeparation: 4, maxSeparation: 12 }).valid).toBe(true)
+        })
+    })
+
+    it('keeps the gap in every frame without a band', () => {
+        const frames = (css: string) => [...css.matchAll(/d:\s*path\("([^"]+)"\)/g)].map((m) => m[1])
+        for (const [pattern, mode] of [['smooth', 'interlock'], ['organic', 'overlap'], ['noise', 'apart']] as const) {
+            const { cssA, cssB } = generateDualPathMorphKeyframes(
+                'gap-a', 'gap-b', '', '', 'morph', pattern, { height: 120, amplitude: 0.6, frequency: 3, seed: 5 },
+                { mode, gap: 10 },
+            )
+            const framesA = frames(cssA)
+            const framesB = frames(cssB)
+            expect(framesA.length).toBeGreaterThan(1)
+            framesA.forEach((pathA, i) => {
+                expect(pathA, `${pattern} frame ${i}`).not.toBe(framesB[i])
+                expect(validateDualPath({ pathA, pathB: framesB[i], baseCurve: pathA }, { minSeparation: 10 }).valid, `${pattern} frame ${i}`).toBe(true)
+            })
+        }
+    })
+
+    it('leaves flush frames as generated', () => {
+        const { cssA, cssB } = generateDualPathMorphKeyframes(
+            'flush-a', 'flush-b', '', '', 'morph', 'smooth', { height: 120, amplitude: 0.5, frequency: 1 }, { mode: 'flush', gap: 10 },
+        )
+        expect(cssB.replace(/flush-b/g, 'flush-a')).toBe(cssA)
+    })
+
+    it('keeps puzzle edges meshing in every frame', () => {
+        const { cssA, cssB } = generateDualPathMorphKeyframes(
+            'puzzle-a', 'puzzle-b', '', '', 'morph', 'organic', { height: 120, amplitude: 0.6, frequency: 3, seed: 5 },
+            { mode: 'puzzle', gap: 6, tabs: { count: 5 } },
+        )
+        const frames = (css: string) => [...css.matchAll(/d:\s*path\("([^"]+)"\)/g)].map((m) => m[1])
+        const framesA = frames(cssA)
+        const framesB = frames(cssB)
+        expect(framesA.length).toBeGreaterThan(1)
+        expect(new Set(framesA.map((frame) => frame.replace(/[-\d.]+/g, '#'))).size).toBe(1)
+        framesA.forEach((pathA, i) => {
+            expect(validateDualPath({ pathA, pathB: framesB[i], baseCurve: pathA }, { minSeparation: 6 }).valid, `frame ${i}`).toBe(true)
+        })
+    })
+
     it('returns empty strings for unknown animation', () => {
         const result = generateDualPathMorphKeyframes(
             'a', 'b', '', '', 'nonexistent', 'smooth', {}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { createNoise2D, fractalNoise } from '../src/utils/noise'
+
+const OPTIONS = { octaves: 3, lacunarity: 2, persistence: 0.5 }
+
+describe('createNoise2D', () => {
+    it('is deterministic per seed and differs between seeds', () => {
+        const a = createNoise2D(7)
+        const b = createNoise2D(7)
+        const c = createNoise2D(8)
+        const xs = [0.3, 1.7, 4.2, 9.9]
+        expect(xs.map(x => a(x, 0.5))).toEqual(xs.map(x => b(x, 0.5)))
+        expect(xs.map(x => a(x, 0.5))).not.toEqual(xs.map(x => c(x, 0.5)))
+    })
+
+    it('stays within [-1, 1] and varies continuously', () => {
+        const noise = createNoise2D(3)
+        for (let i = 0; i < 500; i++) {
+            const x = i * 0.037
+            const value = noise(x, 0.4)
+            expect(Math.abs(value)).toBeLessThanOrEqual(1)
+            expect(Math.abs(noise(x + 0.001, 0.4) - value)).toBeLessThan(0.01)
+        }
+    })
+
+    it('repeats along x with periodX', () => {
+        const noise = createNoise2D(11)
+        for (const x of [0.2, 1.5, 2.9]) {
+            expect(noise(x, 0.7, 3)).toBeCloseTo(noise(x + 3, 0.7, 3), 10)
+        }
+    })
+})
+
+describe('fractalNoise', () => {
+    it('adds finer detail with more octaves', () => {
+        const noise = createNoise2D(5)
+        const roughness = (octaves: number) => {
+            let total = 0
+            for (let i = 1; i < 400; i++) {
+                const x = i * 0.01
+                total += Math.abs(fractalNoise(noise, x, 0, { ...OPTIONS, octaves }) - fractalNoise(noise, x - 0.01, 0, { ...OPTIONS, octaves }))
+            }
+            return total
+        }
+        expect(roughness(5)).toBeGreaterThan(roughness(1))
+    })
+
+    it('tiles when given a period, even with fractional lacunarity', () => {
+        const noise = createNoise2D(2)
+        const options = { ...OPTIONS, lacunarity: 2.3, period: 4 }
+        for (const x of [0.1, 1.3, 3.8]) {
+            expect(fractalNoise(noise, x, 1.2, options)).toBeCloseTo(fractalNoise(noise, x + 4, 1.2, options), 10)
+        }
+    })
+
+    it('repeats along the time axis with periodY', () => {
+        const noise = createNoise2D(4)
+        const options = { ...OPTIONS, periodY: 3 }
+        for (const y of [0, 0.4, 2.2]) {
+            expect(fractalNoise(noise, 1.3, y, options)).toBeCloseTo(fractalNoise(noise, 1.3, y + 3, options), 10)
+        }
+        expect(fractalNoise(noise, 1.3, 1.5, options)).not.toBeCloseTo(fractalNoise(noise, 1.3, 0, options), 3)
+    })
+
+    it('changes gradually along the time axis', () => {
+        const noise = createNoise2D(9)
+        const a = fractalNoise(noise, 1.1, 0, OPTIONS)
+        expect(fractalNoise(noise, 1.1, 0.01, OPTIONS)).toBeCloseTo(a, 1)
+        expect(fractalNoise(noise, 1.1, 3, OPTIONS)).not.toBeCloseTo(a, 3)
+    })
+})
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest'
-import { generatePath, generateLayeredPaths, flipPathVertically } from '../src/utils/path-generator'
+import { describe, it, expect, vi } from 'vitest'
+import { generatePath, generateLayeredPaths, generateTransitionBands, flipPathVertically, transposePath, tilePeriodicPath } from '../src/utils/path-generator'
+import { createPathGeometry, getPathBounds, normalizePath, parsePath } from '../src/utils/path-geometry'
 
 // ============================================================
 // generatePath
@@ -59,6 +60,45 @@ describe('generatePath', () => {
         expect(f3Count).toBeGreaterThan(f1Count)
     })
 
+    it.each(['smooth', 'organic', 'flowing', 'ribbon', 'layered-organic'] as const)(
+        'repeats the %s pattern per frequency with the same commands',
+        (pattern) => {
+            const commands = (path: string) => path.match(/[A-Z]/g) ?? []
+            const curves = (path: string) => commands(path).filter(c => c === 'Q' || c === 'C')
+            const f1 = generatePath(pattern, { frequency: 1 })
+            const f3 = generatePath(pattern, { frequency: 3 })
+            expect(curves(f3)).toHaveLength(curves(f1).length * 3)
+            expect(new Set(commands(f3))).toEqual(new Set(commands(f1)))
+            // Same frame: starts below the left edge, closes below the right edge
+            expect(f3).toMatch(/^M -20 120 L -20 /)
+            expect(f3).toMatch(/L 1460 120 Z$/)
+        },
+    )
+
+    it('rounds fractional frequencies to whole periods', () => {
+        expect(generatePath('smooth', { frequency: 2.4 })).toBe(generatePath('smooth', { frequency: 2 }))
+        expect(generatePath('organic', { frequency: 0.3 })).toBe(generatePath('organic', { frequency: 1 }))
+    })
+
+    it('varies each organic period from the seed', () => {
+        const path = generatePath('organic', { frequency: 2, seed: 9 })
+        const curveYs = [...path.matchAll(/C [^,]+ ([\d.-]+),/g)].map(m => Number(m[1]))
+        // First curve of period 1 vs first curve of period 2
+        expect(curveYs[0]).not.toBeCloseTo(curveYs[2], 3)
+    })
+
+    it.each(['organic', 'ribbon', 'layered-organic'] as const)('matches slopes where %s periods meet', (pattern) => {
+        for (const periodic of [false, true]) {
+            const geometry = createPathGeometry(generatePath(pattern, { frequency: 3, seed: 9, periodic }))
+            const y = (x: number) => geometry.getYAtX(x)!
+            for (const join of [480, 960]) {
+                const before = y(join) - y(join - 1)
+                const after = y(join + 1) - y(join)
+                expect(Math.abs(after - before), `${join}, periodic ${periodic}`).toBeLessThan(0.1)
+            }
+        }
+    })
+
     it('applies mirror transform', () => {
         const normal = generatePath('smooth', { mirror: false })
         const mirrored = generatePath('smooth', { mirror: true })
@@ -128,6 +168,30 @@ describe('flipPathVertically', () => {
     })
 })
 
+// ============================================================
+// transposePath
+// ============================================================
+
+describe('transposePath', () => {
+    it('swaps x and y of every coordinate pair', () => {
+        expect(transposePath('M -20 120 L -20 60 C 10 20 30 40 50 60 L 1460 120 Z'))
+            .toBe('M120 -20 L60 -20 C20 10 40 30 60 50 L120 1460 Z')
+    })
+
+    it('swaps H and V, keeping relative commands relative', () => {
+        expect(transposePath('M 0 0 H 100 v 20 h -5')).toBe('M0 0 V100 h20 v-5')
+    })
+
+    it('mirrors arc rotation and inverts the sweep flag', () => {
+        expect(transposePath('M 0 0 A 10 20 30 0 1 50 60')).toBe('M0 0 A10 20 60 0 0 60 50')
+    })
+
+    it('is its own inverse', () => {
+        const path = 'M 1 2 L 3 4 Q 5 6 7 8 A 4 2 15 1 0 9 10 Z'
+        expect(transposePath(transposePath(path))).toBe('M1 2 L3 4 Q5 6 7 8 A4 2 15 1 0 9 10 Z')
+    })
+})
+
 // ============================================================
 // generateLayeredPaths
 // ============================================================
@@ -163,6 +227,39 @@ describe('generateLayeredPaths', () => {
     })
 })
 
+// ============================================================
+// generateTransitionBands
+// ============================================================
+
+describe('generateTransitionBands', () => {
+    it('draws the back band as the plain wave', () => {
+        const paths = generateTransitionBands('organic', 3, { height: 120, seed: 4, frequency: 3 })
+        expect(paths).toHaveLength(3)
+        expect(paths[0]).toBe(generatePath('organic', { height: 120, seed: 4, frequency: 3 }))
+    })
+
+    it('nests each band lower on the shared baseline', () => {
+        const paths = generateTransitionBands('smooth', 3, { height: 120, amplitude: 0.8 })
+        for (const [i, path] of paths.entries()) {
+            const bounds = getPathBounds(path)
+            expect(bounds.maxY, `band ${i}`).toBeCloseTo(120, 3)
+            // Band i is (3 - i) / 3 of the height tall
+            expect(bounds.minY, `band ${i}`).toBeGreaterThanOrEqual(40 * i - 0.01)
+        }
+    })
+
+    it('offsets the phase and seed of every band', () => {
+        const paths = generateTransitionBands('organic', 2, { height: 120, seed: 1, phase: 0.1 })
+        const second = generatePath('organic', { height: 60, seed: 2, phase: 0.35 })
+        expect(getPathBounds(paths[1]).minY).toBeCloseTo(getPathBounds(second).minY + 60, 3)
+    })
+
+    it('returns one band for counts below 2', () => {
+        expect(generateTransitionBands('smooth', 0)).toHaveLength(1)
+        expect(generateTransitionBands('smooth', 1.7)).toHaveLength(1)
+    })
+})
+
 // ============================================================
 // New patterns (flowing, ribbon, layered-organic)
 // ============================================================
@@ -206,3 +303,208 @@ describe('generatePath — new patterns', () => {
         expect(lo).not.toBe(org)
     })
 })
+
+// ============================================================
+// Spline pattern
+// ============================================================
+
+describe('spline pattern', () => {
+    const HILL = { points: [{ x: 0, y: 0.2 }, { x: 0.5, y: 1 }, { x: 1, y: 0.2 }] }
+    const yAt = (path: string, x: number) => createPathGeometry(path).getYAtX(x)!
+
+    it('passes through the anchors, scaled to height and amplitude', () => {
+        const path = generatePath('spline', { spline: HILL, height: 200, amplitude: 0.5 })
+        // y = height - anchor.y * height * amplitude
+        expect(yAt(path, 0)).toBeCloseTo(180, 1)
+        expect(yAt(path, 720)).toBeCloseTo(100, 1)
+        expect(yAt(path, 1440)).toBeCloseTo(180, 1)
+        expect(path).toMatch(/^M -20 200 L -20 180 /)
+        expect(path).toMatch(/L 1460 200 Z$/)
+    })
+
+    it('sorts anchors and uses default anchors when none are given', () => {
+        const shuffled = { points: [HILL.points[2], HILL.points[0], HILL.points[1]] }
+        expect(generatePath('spline', { spline: shuffled })).toBe(generatePath('spline', { spline: HILL }))
+        expect(generatePath('spline')).toContain('C')
+    })
+
+    it('warns and falls back to the default anchors with fewer than 2 points', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        expect(generatePath('spline', { spline: { points: [{ x: 0.5, y: 1 }] } })).toBe(generatePath('spline'))
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('[wavy-bavy] spline pattern needs at least 2 points'))
+        spy.mockRestore()
+    })
+
+    it('warns about and ignores points without a finite x and y', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const path = generatePath('spline', { spline: { points: [{ x: 0, y: NaN }, { x: 0.2, y: Infinity }, ...HILL.points] } })
+        expect(path).not.toMatch(/NaN|Infinity/)
+        expect(path).toBe(generatePath('spline', { spline: HILL }))
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('[wavy-bavy] spline points need a finite x and y'))
+        spy.mockRestore()
+    })
+
+    it('warns when points share an x, falling back without two distinct ones', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const stacked = [{ x: 0.5, y: 0.2 }, { x: 0.5, y: 0.8 }]
+        expect(generatePath('spline', { spline: { points: stacked } })).toBe(generatePath('spline'))
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('[wavy-bavy] spline points share an x'))
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('[wavy-bavy] spline pattern needs at least 2 points'))
+        spy.mockRestore()
+    })
+
+    it('draws no zero-length segments', () => {
+        for (const frequency of [1, 2, 3]) {
+            for (const phase of [0, 0.3]) {
+                const commands = normalizePath(generatePath('spline', { frequency, phase }))
+                const ends = commands.map(({ values }) => values.slice(-2).join(' '))
+                const repeated = commands.filter(({ type }, i) => type === 'C' && ends[i] === ends[i - 1])
+                expect(repeated, `frequency ${frequency}, phase ${phase}`).toHaveLength(0)
+            }
+        }
+        // Phase-shifted frames still share one structure
+        const structure = (phase: number) => parsePath(generatePath('spline', { frequency: 2, phase })).map(({ type }) => type).join('')
+        expect(structure(0)).toBe(structure(0.3))
+    })
+
+    it('monotone interpolation does not overshoot the anchors', () => {
+        const plateau = [{ x: 0, y: 0 }, { x: 0.45, y: 1 }, { x: 0.55, y: 1 }, { x: 1, y: 0 }]
+        const crest = (interpolation: 'catmull-rom' | 'monotone') =>
+            createPathGeometry(generatePath('spline', { spline: { points: plateau, interpolation } })).bounds.minY
+        // Crest anchors sit at y = 60
+        expect(crest('catmull-rom')).toBeLessThan(59.5)
+        expect(crest('monotone')).toBeGreaterThanOrEqual(59.99)
+    })
+
+    it('tension 1 draws straight segments between anchors', () => {
+        const path = generatePath('spline', { spline: { ...HILL, tension: 1 } })
+        // Halfway between y = 108 and y = 60
+        expect(yAt(path, 360)).toBeCloseTo(84, 1)
+    })
+
+    it('phase shifts the anchors along the repeating sequence', () => {
+        const path = generatePath('spline', { spline: HILL, phase: 0.25 })
+        expect(yAt(path, 1080)).toBeCloseTo(60, 1)
+        expect(yAt(path, 360)).toBeCloseTo(108, 1)
+    })
+
+    it('keeps one command structure across phases so morph frames interpolate', () => {
+        const commands = (path: string) => (path.match(/[A-Z]/g) ?? []).join('')
+        for (const periodic of [false, true]) {
+            const structures = [0, 0.1, 0.25, 0.5, -0.3, 1.7].map(phase =>
+                commands(generatePath('spline', { spline: HILL, phase, periodic, frequency: 2 })))
+            expect(new Set(structures).size).toBe(1)
+        }
+    })
+
+    it('repeats the anchors per frequency and mirrors', () => {
+        const twice = generatePath('spline', { spline: HILL, frequency: 2 })
+        expect(yAt(twice, 360)).toBeCloseTo(60, 1)
+        expect(yAt(twice, 1080)).toBeCloseTo(60, 1)
+
+        const ramp = { points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] }
+        const mirrored = generatePath('spline', { spline: ramp, mirror: true })
+        expect(yAt(mirrored, 0)).toBeCloseTo(60, 1)
+        expect(yAt(mirrored, 1440)).toBeCloseTo(120, 1)
+    })
+
+    it('periodic mode loops the anchors into a seamless tile', () => {
+        const spline = { points: [{ x: 0.1, y: 0 }, { x: 0.6, y: 1 }] }
+        const path = generatePath('spline', { spline, periodic: true, frequency: 2 })
+        expect(tilePeriodicPath(path)).not.toBeNull()
+        expect(yAt(path, 0.6 * 720)).toBeCloseTo(60, 1)
+    })
+})
+
+// ============================================================
+// Noise pattern
+// ============================================================
+
+describe('noise pattern', () => {
+    const yAt = (path: string, x: number) => createPathGeometry(path).getYAtX(x)!
+
+    it('is deterministic per seed with wide variety across seeds', () => {
+        expect(generatePath('noise', { seed: 4 })).toBe(generatePath('noise', { seed: 4 }))
+        const paths = new Set([1, 2, 3, 4, 5, 6, 7, 8].map(seed => generatePath('noise', { seed })))
+        expect(paths.size).toBe(8)
+        // Even the start height varies with the seed
+        const starts = new Set([1, 2, 3, 4].map(seed => yAt(generatePath('noise', { seed }), 0).toFixed(1)))
+        expect(starts.size).toBeGreaterThan(1)
+    })
+
+    it('stays inside the wave band', () => {
+        for (const seed of [1, 2, 3]) {
+            const { bounds } = createPathGeometry(generatePath('noise', { seed, height: 200, amplitude: 0.5, noise: { octaves: 6 } }))
+            expect(bounds.minY).toBeGreaterThanOrEqual(99)
+        }
+    })
+
+    it('samples more finely for extra octaves', () => {
+        const curves = (path: string) => (path.match(/C /g) ?? []).length
+        expect(curves(generatePath('noise', { noise: { octaves: 4 } })))
+            .toBeGreaterThan(curves(generatePath('noise', { noise: { octaves: 1 } })))
+    })
+
+    it('evolves with time while keeping the command structure', () => {
+        const commands = (path: string) => (path.match(/[A-Z]/g) ?? []).join('')
+        const a = generatePath('noise', { seed: 3, noise: { time: 0 } })
+        const b = generatePath('noise', { seed: 3, noise: { time: 0.05 } })
+        const c = generatePath('noise', { seed: 3, noise: { time: 2 } })
+        expect(commands(b)).toBe(commands(a))
+        expect(Math.abs(yAt(a, 500) - yAt(b, 500))).toBeLessThan(5)
+        expect(c).not.toBe(a)
+    })
+})
+
+// ============================================================
+// Periodic patterns & tiling
+// ============================================================
+
+describe('periodic patterns', () => {
+    const patterns = ['smooth', 'organic', 'sharp', 'mountain', 'flowing', 'ribbon', 'layered-organic', 'spline', 'noise'] as const
+
+    it.each(patterns)('%s matches height and slope at the seam', (pattern) => {
+        for (const frequency of [1, 3]) {
+            const geometry = createPathGeometry(generatePath(pattern, { periodic: true, frequency, seed: 5 }))
+            const y = (x: number) => geometry.getYAtX(x)!
+            expect(y(0)).toBeCloseTo(y(1440), 1)
+            const startSlope = y(2) - y(0)
+            const endSlope = y(1440) - y(1438)
+            expect(Math.abs(startSlope - endSlope)).toBeLessThan(0.5)
+        }
+    })
+
+    it('continues the seam tangent into the overflow', () => {
+        const geometry = createPathGeometry(generatePath('smooth', { periodic: true }))
+        const y = (x: number) => geometry.getYAtX(x)!
+        expect(y(-10) - y(-20)).toBeCloseTo(y(1460) - y(1450), 3)
+    })
+
+    it('does not change non-periodic output', () => {
+        expect(generatePath('organic', { seed: 3, periodic: false })).toBe(generatePath('organic', { seed: 3 }))
+    })
+})
+
+describe('tilePeriodicPath', () => {
+    it('repeats the tile every width units', () => {
+        const tiled = tilePeriodicPath(generatePath('organic', { periodic: true, seed: 11 }))!
+        expect(tiled).toMatch(/^M -1440 120 /)
+        expect(tiled).toMatch(/L 4320 120 Z$/)
+        const geometry = createPathGeometry(tiled)
+        for (const x of [-700, 100, 900, 1300]) {
+            expect(geometry.getYAtX(x)).toBeCloseTo(geometry.getYAtX(x + 1440)!, 1)
+        }
+    })
+
+    it('tiles mirrored periodic paths', () => {
+        const tiled = tilePeriodicPath(generatePath('ribbon', { periodic: true, mirror: true }))
+        expect(tiled).not.toBeNull()
+        expect(tiled).toMatch(/^M 4320 120 /)
+    })
+
+    it('returns null for non-periodic or invalid paths', () => {
+        expect(tilePeriodicPath(generatePath('smooth'))).toBeNull()
+        expect(tilePeriodicPath('')).toBeNull()
+        expect(tilePeriodicPath('not a path')).toBeNull()
+    })
+})
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import {
+    parsePath,
+    toAbsoluteCommands,
+    normalizePath,
+    serializePath,
+    flattenPath,
+    createPathGeometry,
+    getYAtX,
+    getPointAtLength,
+    getPathLength,
+    getPathBounds,
+} from '../src/utils/path-geometry'
+import { generatePath, flipPathVertically } from '../src/utils/path-generator'
+import { generateClipPath } from '../src/utils/clip-path'
+import { optimizePath } from '../src/utils/path-optimizer'
+
+// A single hump whose control points (y = 0) lie far above the curve (min y = 30)
+const HUMP = 'M 0 120 C 0 0, 100 0, 100 120'
+
+// ============================================================
+// parsePath
+// ============================================================
+
+describe('parsePath', () => {
+    it('parses absolute and relative commands', () => {
+        expect(parsePath('M 0 0 l 10 20 H 50 v -5 Z')).toEqual([
+            { type: 'M', values: [0, 0] },
+            { type: 'l', values: [10, 20] },
+            { type: 'H', values: [50] },
+            { type: 'v', values: [-5] },
+            { type: 'Z', values: [] },
+        ])
+    })
+
+    it('treats extra moveto pairs as implicit linetos', () => {
+        expect(parsePath('M 0 0 10 10 m 5 5 1 1').map(c => c.type)).toEqual(['M', 'L', 'm', 'l'])
+    })
+
+    it('handles compact number syntax and arc flags', () => {
+        expect(parsePath('M1.5.5L-1-2e1')).toEqual([
+            { type: 'M', values: [1.5, 0.5] },
+            { type: 'L', values: [-1, -20] },
+        ])
+        expect(parsePath('a10 10 0 0110 10')[0].values).toEqual([10, 10, 0, 0, 1, 10, 10])
+    })
+
+    it('throws on invalid data', () => {
+        expect(() => parsePath('M 0 0 X 5')).toThrow('[wavy-bavy]')
+        expect(() => parsePath('M 0')).toThrow('[wavy-bavy]')
+    })
+})
+
+// ============================================================
+// Normalization
+// ============================================================
+
+describe('toAbsoluteCommands / normalizePath', () => {
+    it('resolves relative coordinates and keeps command types', () => {
+        const abs = toAbsoluteCommands(parsePath('M 10 10 h 5 v 5 a 5 5 0 0 1 10 0'))
+        expect(abs).toEqual([
+            { type: 'M', values: [10, 10] },
+            { type: 'H', values: [15] },
+            { type: 'V', values: [15] },
+            { type: 'A', values: [5, 5, 0, 0, 1, 25, 15] },
+        ])
+    })
+
+    it('reduces every command to M, L, C and Z', () => {
+        const types = normalizePath('M 0 0 H 10 V 10 S 20 20 30 10 Q 40 0 50 10 T 70 10 A 10 10 0 0 1 90 10 Z')
+            .map(c => c.type)
+        expect(new Set(types)).toEqual(new Set(['M', 'L', 'C', 'Z']))
+    })
+
+    it('reflects the previous control point for S', () => {
+        const [, first, second] = normalizePath('M 0 0 C 10 -10, 20 -10, 30 0 S 50 10, 60 0')
+        expect(first.type).toBe('C')
+        expect(second.values.slice(0, 2)).toEqual([40, 10])
+    })
+
+    it('serializes in the library path style', () => {
+        expect(serializePath(normalizePath('M 0 0 C 1 2 3 4 5 6.00001 Z'))).toBe('M 0 0 C 1 2, 3 4, 5 6 Z')
+    })
+})
+
+// ============================================================
+// Flattening & measurement
+// ============================================================
+
+describe('flattenPath', () => {
+    it('emits only on-curve points', () => {
+        const [polyline] = flattenPath(HUMP)
+        expect(polyline.points.length).toBeGreaterThan(4)
+        // Cubic with control points at y=0 peaks at y = 120 * 0.25 = 30
+        expect(Math.min(...polyline.points.map(p => p.y))).toBeGreaterThanOrEqual(29.9)
+    })
+
+    it('uses fewer points for a looser tolerance', () => {
+        const fine = flattenPath(HUMP, { tolerance: 0.05 })[0].points.length
+        const coarse = flattenPath(HUMP, { tolerance: 5 })[0].points.length
+        expect(coarse).toBeLessThan(fine)
+    })
+
+    it('splits subpaths and records closing', () => {
+        const polylines = flattenPath('M 0 0 L 10 0 Z M 20 0 L 30 0')
+        expect(polylines).toHaveLength(2)
+        expect(polylines[0].closed).toBe(true)
+        expect(polylines[1].closed).toBe(false)
+    })
+
+    it('continues from the subpath start after Z', () => {
+        const [, line] = flattenPath('M 10 20 L 30 20 L 30 40 Z L 50 60')
+        expect(line.points).toEqual([{ x: 10, y: 20 }, { x: 50, y: 60 }])
+        const [, curve] = flattenPath('M 10 20 L 30 40 Z C 10 60, 50 60, 50 20', { tolerance: 0.05 })
+        expect(curve.points[0]).toEqual({ x: 10, y: 20 })
+        expect(curve.points.every(({ y }) => y >= 20 - 1e-9)).toBe(true)
+    })
+})
+
+describe('path measurement', () => {
+    it('getYAtX returns the curve, not a control-point interpolation', () => {
+        expect(getYAtX(HUMP, 50)).toBeCloseTo(30, 0)
+        expect(getYAtX(HUMP, 500)).toBeNull()
+    })
+
+    it('getYAtX picks the wave edge of generated paths', () => {
+        const path = generatePath('smooth', { height: 120, amplitude: 0.5 })
+        const y = getYAtX(path, 720)!
+        expect(y).toBeLessThan(120)
+        expect(getYAtX(path, 720, 'bottom')).toBe(120)
+    })
+
+    it('measures arc length', () => {
+        expect(getPathLength('M 0 0 L 30 40')).toBeCloseTo(50)
+        // Semicircle of radius 50
+        expect(getPathLength('M 0 0 A 50 50 0 0 1 100 0')).toBeCloseTo(Math.PI * 50, 0)
+    })
+
+    it('getPointAtLength walks the outline', () => {
+        expect(getPointAtLength('M 0 0 L 100 0 L 100 100', 150)).toEqual({ x: 100, y: 50 })
+        expect(getPointAtLength('M 0 0 L 100 0', 500)).toEqual({ x: 100, y: 0 })
+    })
+
+    it('bounds exclude control points', () => {
+        const bounds = getPathBounds(HUMP)
+        expect(bounds.minY).toBeCloseTo(30, 0)
+        expect(bounds.maxX).toBe(100)
+        expect(bounds.height).toBeCloseTo(90, 0)
+    })
+
+    it('createPathGeometry handles empty paths', () => {
+        const geometry = createPathGeometry('')
+        expect(geometry.length).toBe(0)
+        expect(geometry.getYAtX(0)).toBeNull()
+        expect(geometry.getPointAtLength(10)).toEqual({ x: 0, y: 0 })
+    })
+})
+
+// ============================================================
+// Utilities built on the geometry engine
+// ============================================================
+
+describe('geometry-backed utilities', () => {
+    it('mirror keeps the path frame and reflects the curve', () => {
+        const normal = generatePath('smooth', { mirror: false })
+        const mirrored = generatePath('smooth', { mirror: true })
+        expect(mirrored).toMatch(/^M 1460 120 /)
+        expect(mirrored).toMatch(/L -20 120 Z$/)
+        expect(getYAtX(mirrored, 1440 - 300)).toBeCloseTo(getYAtX(normal, 300)!, 1)
+    })
+
+    it('flipPathVertically treats a leading relative moveto as absolute', () => {
+        expect(flipPathVertically('m 0 20 l 10 20', 120)).toBe('m0 100 l10 -20')
+    })
+
+    it('clip-path polygons stay on the rendered curve', () => {
+        const clip = generateClipPath(HUMP, 120)
+        const ys = [...clip.matchAll(/(-?[\d.]+)% (-?[\d.]+)%/g)].map(m => parseFloat(m[2]))
+        // Control points at y=0 would show up as 0% beyond the two corners
+        expect(ys.filter(y => y === 0)).toHaveLength(2)
+        expect(Math.min(...ys.filter(y => y > 0))).toBeCloseTo(25, 0)
+    })
+
+    it('optimizePath simplifies the flattened curve', () => {
+        const optimized = optimizePath(HUMP, 2)
+        expect(optimized).toMatch(/^M 0 120/)
+        expect(optimized).not.toMatch(/ 0 L| 0 Z/)
+    })
+})
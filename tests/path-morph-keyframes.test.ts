@@ -6,6 +6,7 @@ import {
     rippleOutKeyframes,
     generatePathKeyframes,
 } from '../src/utils/keyframes'
+import { generatePath } from '../src/utils/path-generator'
 
 describe('new path-morphing keyframe generators', () => {
     it('driftKeyframes generates CSS with d: path()', () => {
@@ -61,4 +62,46 @@ describe('new path-morphing keyframe generators', () => {
         const unique = new Set(frames)
         expect(unique.size).toBeGreaterThan(1)
     })
+
+    it('generatePathKeyframes morphs spline anchors from config', () => {
+        const spline = { points: [{ x: 0, y: 0.1 }, { x: 0.2, y: 0.9 }, { x: 1, y: 0.3 }] }
+        const options = {
+            basePath: '',
+            frameCount: 5,
+            phaseRange: 0.3,
+            amplitudeVariation: 0.1,
+            pattern: 'spline' as const,
+            config: { height: 120, amplitude: 0.5, frequency: 1, spline },
+        }
+        const frames = generatePathKeyframes(options)
+        expect(frames[0]).toBe(generatePath('spline', { height: 120, amplitude: 0.5, spline, phase: 0 }))
+        expect(new Set(frames).size).toBeGreaterThan(1)
+        expect(frames).not.toEqual(generatePathKeyframes({ ...options, config: { ...options.config, spline: undefined } }))
+    })
+
+    it('generatePathKeyframes advances noise time instead of phase', () => {
+        const frames = generatePathKeyframes({
+            basePath: '',
+            frameCount: 5,
+            phaseRange: 0.3,
+            amplitudeVariation: 0,
+            pattern: 'noise',
+            config: { height: 120, amplitude: 0.5, frequency: 1, seed: 6, phase: 0.1 },
+        })
+        // Phase range 0.3 becomes a time loop of 1 cell, travelled linearly: t = 0.25 sits at time 0.25
+        expect(frames[1]).toBe(generatePath('noise', { height: 120, amplitude: 0.5, seed: 6, phase: 0.1, noise: { time: 0.25, loop: 1 } }))
+        expect(frames[0]).toBe(frames[4])
+    })
+
+    it('generatePathKeyframes moves noise forward around its loop without reversing', () => {
+        const config = { height: 120, amplitude: 0.5, frequency: 1, seed: 6 }
+        const frames = generatePathKeyframes({
+            basePath: '', frameCount: 5, phaseRange: 0.5, amplitudeVariation: 0, pattern: 'noise', config,
+        })
+        // A back-and-forth swing would pass frame 0's shape again halfway through
+        expect(frames[2]).not.toBe(frames[0])
+        expect(new Set(frames.slice(0, 4)).size).toBe(4)
+        // The last step closes the loop: one full loop (2 cells) on lands back on the start
+        expect(generatePath('noise', { ...config, noise: { time: 2, loop: 2 } })).toBe(generatePath('noise', { ...config, noise: { time: 0, loop: 2 } }))
+    })
 })
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { matchPathStructure, morphBetween } from '../src/utils/path-morph'
+import { generatePath } from '../src/utils/path-generator'
+import { createPathGeometry, parsePath } from '../src/utils/path-geometry'
+import { generatePathKeyframes, generateDualPathMorphKeyframes } from '../src/utils/keyframes'
+import type { PatternGenerator } from '../src/types'
+
+const structure = (path: string) => parsePath(path).map(({ type }) => type.toUpperCase()).join('')
+
+function maxHeightError(a: string, b: string): number {
+    // Fine flattening, so the comparison measures the curves rather than their polylines
+    const ga = createPathGeometry(a, { tolerance: 0.005 })
+    const gb = createPathGeometry(b, { tolerance: 0.005 })
+    let max = 0
+    for (let x = 0; x <= 1440; x += 10) max = Math.max(max, Math.abs(ga.getYAtX(x)! - gb.getYAtX(x)!))
+    return max
+}
+
+/** A pattern whose command count changes with phase */
+const steps: PatternGenerator = ({ height, phase }) => {
+    const count = 2 + Math.round(phase * 10)
+    const points = Array.from({ length: count + 1 }, (_, i) => `L ${(1440 * i) / count} ${i % 2 ? 40 : 80}`)
+    return `M -20 ${height} L -20 80 ${points.join(' ')} L 1460 80 L 1460 ${height} Z`
+}
+
+describe('matchPathStructure', () => {
+    it('returns compatible paths unchanged', () => {
+        const paths = [generatePath('smooth'), generatePath('smooth', { phase: 0.3 })]
+        expect(matchPathStructure(paths)).toEqual(paths)
+    })
+
+    it('gives paths with different structures one command list', () => {
+        const paths = [generatePath('sharp', { frequency: 2 }), generatePath('smooth', { frequency: 3 }), 'M 0 0 L 10 10 Z']
+        const matched = matchPathStructure(paths)
+        expect(new Set(matched.map(structure)).size).toBe(1)
+    })
+
+    it('keeps the geometry of every path', () => {
+        const paths = [generatePath('sharp', { frequency: 2 }), generatePath('organic', { seed: 5 })]
+        matchPathStructure(paths).forEach((matched, i) => {
+            expect(maxHeightError(matched, paths[i])).toBeLessThan(0.01)
+        })
+    })
+
+    it('keeps the library path frame', () => {
+        const [matched] = matchPathStructure([generatePath('mountain', { frequency: 2 }), generatePath('flowing')])
+        expect(matched).toMatch(/^M -20 120 /)
+        expect(matched).toMatch(/L 1460 120 Z$/)
+    })
+
+    it('pairs points by arc length', () => {
+        const [a, b] = matchPathStructure(['M 0 0 L 100 0', 'M 0 0 L 30 0 L 30 70'])
+        // The corner of path B (30% along) cuts path A at 30 as well
+        expect(a).toBe('M 0 0 L 30 0 L 100 0')
+        expect(b).toBe('M 0 0 L 30 0 L 30 70')
+    })
+
+    it('collapses subpaths missing from a path', () => {
+        const [a, b] = matchPathStructure(['M 0 0 L 10 0 Z', 'M 0 0 L 10 10 Z M 20 20 L 30 30'])
+        expect(structure(a)).toBe(structure(b))
+        expect(a).toContain('M 10 0 L 10 0')
+    })
+})
+
+describe('morphBetween', () => {
+    const sharp = generatePath('sharp', { frequency: 2 })
+    const smooth = generatePath('smooth', { frequency: 3 })
+
+    it('matches either end at t = 0 and t = 1', () => {
+        expect(maxHeightError(morphBetween(sharp, smooth, 0), sharp)).toBeLessThan(0.01)
+        expect(maxHeightError(morphBetween(sharp, smooth, 1), smooth)).toBeLessThan(0.01)
+    })
+
+    it('blends coordinates in between', () => {
+        expect(morphBetween('M 0 0 L 10 20', 'M 10 0 L 30 40', 0.5)).toBe('M 5 0 L 20 30')
+    })
+
+    it('blends compatible paths that mix absolute and relative commands', () => {
+        expect(morphBetween('M 0 0 l 10 10', 'M 0 0 L 30 30', 0.5)).toBe('M 0 0 L 20 20')
+    })
+})
+
+describe('structure-compatible keyframes', () => {
+    const config = { height: 120, amplitude: 0.5, frequency: 1, patterns: { steps } }
+
+    it('generatePathKeyframes frames share one command structure', () => {
+        const frames = generatePathKeyframes({
+            basePath: '',
+            frameCount: 5,
+            phaseRange: 0.4,
+            amplitudeVariation: 0.05,
+            pattern: 'steps',
+            config,
+        })
+        expect(new Set(frames.map(structure)).size).toBe(1)
+        expect(frames[0]).toBe(frames[frames.length - 1])
+    })
+
+    it('generateDualPathMorphKeyframes frames share one command structure per path', () => {
+        const { cssA, cssB } = generateDualPathMorphKeyframes('a', 'b', '', '', 'flow', 'steps', config)
+        for (const css of [cssA, cssB]) {
+            const frames = Array.from(css.matchAll(/d: path\("([^"]+)"\)/g), (m) => m[1])
+            expect(frames.length).toBe(5)
+            expect(new Set(frames.map(structure)).size).toBe(1)
+        }
+    })
+})
@@ -1,6 +1,24 @@
 import { describe, it, expect } from 'vitest'
 import { optimizePath } from '../src/utils/path-optimizer'
 import { generatePath } from '../src/utils/path-generator'
+import { normalizePath, flattenPath } from '../src/utils/path-geometry'
+import type { PathPoint } from '../src/utils/path-geometry'
+import { matchPathStructure } from '../src/utils/path-morph'
+
+/** Largest distance from a point of either outline to the other outline */
+function maxDeviation(a: string, b: string): number {
+    const outline = (path: string) => flattenPath(path, { tolerance: 0.01 }).flatMap(({ points }) => points)
+    const toPolyline = (p: PathPoint, line: PathPoint[]) => Math.min(...line.slice(1).map((end, i) => {
+        const start = line[i]
+        const dx = end.x - start.x
+        const dy = end.y - start.y
+        const lengthSq = dx * dx + dy * dy
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - start.x) * dx + (p.y - start.y) * dy) / lengthSq)) : 0
+        return Math.hypot(p.x - start.x - t * dx, p.y - start.y - t * dy)
+    }))
+    const [pointsA, pointsB] = [outline(a), outline(b)]
+    return Math.max(...pointsA.map((p) => toPolyline(p, pointsB)), ...pointsB.map((p) => toPolyline(p, pointsA)))
+}
 
 describe('optimizePath', () => {
     it('returns the same path for epsilon <= 0', () => {
@@ -38,3 +56,60 @@ describe('optimizePath', () => {
         expect(optimized).toContain('1440 120')
     })
 })
+
+describe('optimizePath (curve mode)', () => {
+    it('keeps curves instead of flattening them to lines', () => {
+        const path = generatePath('noise', { seed: 3, frequency: 3 })
+        const optimized = optimizePath(path, {})
+        expect(optimized).toContain('C ')
+        expect(optimized.length).toBeLessThan(path.length)
+        expect(normalizePath(optimized).length).toBeLessThan(normalizePath(path).length)
+    })
+
+    it('stays within the tolerance of the original outline', () => {
+        const path = generatePath('noise', { seed: 11, frequency: 2 })
+        for (const tolerance of [0.5, 1, 3]) {
+            const optimized = optimizePath(path, { tolerance, precision: 3 })
+            expect(maxDeviation(path, optimized)).toBeLessThanOrEqual(tolerance + 0.01)
+        }
+    })
+
+    it('merges over-segmented curves into fewer cubics', () => {
+        // Structure matching cuts a smooth wave at every breakpoint of a sharp one
+        const [smooth] = matchPathStructure([generatePath('smooth'), generatePath('sharp', { frequency: 6 })])
+        const optimized = optimizePath(smooth, { tolerance: 0.5 })
+        expect(normalizePath(optimized).length).toBeLessThan(normalizePath(smooth).length)
+        expect(maxDeviation(smooth, optimized)).toBeLessThanOrEqual(0.51)
+    })
+
+    it('keeps corners and straight runs as lines', () => {
+        const optimized = optimizePath(generatePath('sharp', { frequency: 3 }), {})
+        expect(optimized).not.toContain('C')
+        expect(optimized).toContain('L 240 60')
+        expect(optimized).toContain('L 480 120')
+    })
+
+    it('keeps the library path frame', () => {
+        const optimized = optimizePath(generatePath('organic', { seed: 5 }), {})
+        expect(optimized).toMatch(/^M -20 120 L -20 [\d.]+ /)
+        expect(optimized).toMatch(/L 1460 120 Z$/)
+    })
+
+    it('never grows an already compact path', () => {
+        const path = generatePath('smooth', { frequency: 2 })
+        expect(optimizePath(path, {}).length).toBeLessThanOrEqual(path.length)
+    })
+
+    it('rounds coordinates to the requested precision', () => {
+        const optimized = optimizePath(generatePath('ribbon', { seed: 2 }), { precision: 1 })
+        expect(optimized).not.toMatch(/\.\d{2}/)
+        expect(optimizePath('M 0 0.123456 L 10 0.123456 L 10 20.5678 Z', { mode: 'polyline', precision: 2 })).toBe('M 0 0.12 L 10 0.12 L 10 20.57 Z')
+    })
+
+    it('handles several subpaths', () => {
+        const path = 'M 0 0 C 10 10, 20 10, 30 0 Z M 100 100 L 200 100 L 300 100'
+        const optimized = optimizePath(path, {})
+        expect(optimized.match(/M/g)).toHaveLength(2)
+        expect(optimized).toContain('M 100 100 L 300 100')
+    })
+})
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+    registerPattern,
+    unregisterPattern,
+    resetPatternRegistry,
+    resolvePatternGenerator,
+    hasPattern,
+    getPatternNames,
+    getPatternMeta,
+    getPatternInfo,
+    listPatterns,
+    subscribePatternRegistry,
+} from '../src/utils/pattern-registry'
+import { generatePath, generateLayeredPaths } from '../src/utils/path-generator'
+import { generateInterlockPaths, generateCrossBoundaryPaths } from '../src/utils/interlock-generator'
+import { generatePathKeyframes } from '../src/utils/keyframes'
+import { PATTERN_REGISTRY, PATTERN_CATALOG, PATTERN_FREQUENCY_RANGE, DEFAULT_FREQUENCY_RANGE } from '../src/constants'
+import wavyBavyPlugin from '../src/tailwind/plugin'
+import type { PatternConfig } from '../src/types'
+
+declare module '../src/types' {
+    interface CustomPatterns {
+        'test-step': true
+    }
+}
+
+const stepGenerator = ({ width, height, amplitude }: PatternConfig) => {
+    const y = height * (1 - amplitude)
+    return `M -20 ${height} L -20 ${y} L ${width / 2} ${y} L ${width / 2} ${height / 2} L ${width + 20} ${height / 2} L ${width + 20} ${height} Z`
+}
+
+afterEach(() => {
+    resetPatternRegistry()
+})
+
+describe('registerPattern', () => {
+    it('adds the generator to the global registry', () => {
+        registerPattern('test-step', stepGenerator)
+        expect(resolvePatternGenerator('test-step')).toBe(stepGenerator)
+        expect(hasPattern('test-step')).toBe(true)
+        expect(getPatternNames()).toContain('test-step')
+    })
+
+    it('stores metadata', () => {
+        registerPattern('test-step', stepGenerator, { label: 'Step', description: 'A single step' })
+        expect(getPatternMeta('test-step')).toEqual({ label: 'Step', description: 'A single step' })
+    })
+
+    it('returns a cleanup function that unregisters the pattern', () => {
+        const cleanup = registerPattern('test-step', stepGenerator)
+        cleanup()
+        expect(hasPattern('test-step')).toBe(false)
+        expect(getPatternMeta('test-step')).toBeUndefined()
+    })
+
+    it('throws when overriding a built-in or reserved name', () => {
+        expect(() => registerPattern('smooth', stepGenerator)).toThrow('[wavy-bavy]')
+        expect(() => registerPattern('custom', stepGenerator)).toThrow('[wavy-bavy]')
+        expect(() => registerPattern('layered', stepGenerator)).toThrow('[wavy-bavy]')
+    })
+
+    it('throws for an empty name or missing generator', () => {
+        expect(() => registerPattern('', stepGenerator)).toThrow('[wavy-bavy]')
+        expect(() => registerPattern('test-step', undefined as unknown as typeof stepGenerator)).toThrow('[wavy-bavy]')
+    })
+
+    it('warns when replacing an existing registration', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        registerPattern('test-step', stepGenerator)
+        registerPattern('test-step', (config) => stepGenerator(config))
+        expect(spy).toHaveBeenCalledWith(expect.stringContaining('already registered'))
+        spy.mockRestore()
+    })
+
+    it('notifies subscribers on register and unregister', () => {
+        const listener = vi.fn()
+        const unsubscribe = subscribePatternRegistry(listener)
+        registerPattern('test-step', stepGenerator)
+        unregisterPattern('test-step')
+        expect(listener).toHaveBeenCalledTimes(2)
+        unsubscribe()
+    })
+
+    it('leaves the built-in PATTERN_REGISTRY untouched', () => {
+        registerPattern('test-step', stepGenerator)
+        expect(Object.prototype.hasOwnProperty.call(PATTERN_REGISTRY, 'test-step')).toBe(false)
+    })
+})
+
+describe('resetPatternRegistry', () => {
+    it('removes every registered pattern and keeps the built-ins', () => {
+        registerPattern('test-step', stepGenerator, { label: 'Step' })
+        const listener = vi.fn()
+        const unsubscribe = subscribePatternRegistry(listener)
+        resetPatternRegistry()
+        expect(hasPattern('test-step')).toBe(false)
+        expect(getPatternMeta('test-step')).toBeUndefined()
+        expect(hasPattern('smooth')).toBe(true)
+        expect(listener).toHaveBeenCalledTimes(1)
+        unsubscribe()
+    })
+})
+
+describe('pattern lookups', () => {
+    it('ignores Object.prototype members', () => {
+        expect(hasPattern('toString')).toBe(false)
+        expect(hasPattern('constructor', {})).toBe(false)
+        expect(resolvePatternGenerator('__proto__')).toBeUndefined()
+        expect(getPatternInfo('hasOwnProperty')).toBeUndefined()
+    })
+
+    it('falls back to smooth for prototype names in generatePath', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        expect(generatePath('toString')).toBe(generatePath('smooth'))
+        expect(generatePath('constructor')).toBe(generatePath('smooth'))
+        spy.mockRestore()
+    })
+})
+
+describe('unregisterPattern', () => {
+    it('cannot remove built-in patterns', () => {
+        expect(unregisterPattern('smooth')).toBe(false)
+        expect(PATTERN_REGISTRY.smooth).toBeDefined()
+    })
+
+    it('returns false for unknown names', () => {
+        expect(unregisterPattern('does-not-exist')).toBe(false)
+    })
+})
+
+describe('registered patterns in generators', () => {
+    it('generatePath uses the registered generator', () => {
+        registerPattern('test-step', stepGenerator)
+        const config = { width: 1440, height: 120, amplitude: 0.5, frequency: 1, phase: 0, mirror: false }
+        expect(generatePath('test-step', config)).toBe(stepGenerator(config))
+    })
+
+    it('generatePath prefers scoped patterns over the global registry', () => {
+        const scoped = vi.fn(() => 'M -20 120 L -20 60 L 1460 60 L 1460 120 Z')
+        registerPattern('test-step', stepGenerator)
+        expect(generatePath('test-step', {}, { 'test-step': scoped })).toBe('M -20 120 L -20 60 L 1460 60 L 1460 120 Z')
+        expect(scoped).toHaveBeenCalled()
+    })
+
+    it('generatePath resolves scoped-only patterns without warning', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const path = generatePath('test-step', {}, { 'test-step': stepGenerator })
+        expect(path).toContain('Z')
+        expect(spy).not.toHaveBeenCalled()
+        spy.mockRestore()
+    })
+
+    it('generateLayeredPaths works with registered patterns', () => {
+        registerPattern('test-step', stepGenerator)
+        const paths = generateLayeredPaths('test-step', 3)
+        expect(paths).toHaveLength(3)
+        expect(paths[0]).not.toBe(paths[1])
+    })
+
+    it('generateInterlockPaths samples the registered pattern', () => {
+        registerPattern('test-step', stepGenerator)
+        const result = generateInterlockPaths({
+            pattern: 'test-step', height: 120, amplitude: 0.5, frequency: 1, intensity: 0.5, mode: 'flush',
+        })
+        expect(result.baseCurve).toBe(generatePath('test-step', { height: 120, amplitude: 0.5 }))
+    })
+
+    it('generateCrossBoundaryPaths accepts scoped patterns', () => {
+        const scoped = vi.fn(stepGenerator)
+        const result = generateCrossBoundaryPaths({
+            upperConfig: { pattern: 'test-step', height: 120, amplitude: 0.5, frequency: 1 },
+            lowerConfig: { pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 1 },
+            patterns: { 'test-step': scoped },
+        })
+        expect(scoped).toHaveBeenCalled()
+        expect(result.pathA).toContain('Z')
+    })
+
+    it('path-morph keyframes are generated from the registered pattern', () => {
+        const scoped = vi.fn(stepGenerator)
+        const frames = generatePathKeyframes({
+            basePath: '',
+            frameCount: 5,
+            phaseRange: 0.3,
+            amplitudeVariation: 0.1,
+            pattern: 'test-step',
+            config: { height: 120, amplitude: 0.5, frequency: 1, patterns: { 'test-step': scoped } },
+        })
+        expect(frames).toHaveLength(5)
+        expect(scoped).toHaveBeenCalledTimes(5)
+        // The lookup itself is not forwarded into the generator config
+        expect(scoped.mock.calls[0][0]).not.toHaveProperty('patterns')
+    })
+
+    it('Tailwind plugin emits utilities for registered and listed patterns', () => {
+        registerPattern('test-step', stepGenerator)
+        const addUtilities = vi.fn()
+        const api = { addUtilities, matchUtilities: vi.fn(), theme: vi.fn(), e: vi.fn() }
+        wavyBavyPlugin({ patterns: ['brand'] })(api as any)
+        const allCalls = addUtilities.mock.calls.map(c => c[0])
+        expect(allCalls.some(obj => '.wave-test-step' in obj)).toBe(true)
+        expect(allCalls.some(obj => '.wave-brand' in obj)).toBe(true)
+    })
+})
+
+describe('pattern catalog', () => {
+    it('has an entry for every built-in generator', () => {
+        const builtIns = getPatternNames()
+        for (const name of builtIns) {
+            expect(PATTERN_CATALOG).toHaveProperty(name)
+        }
+        expect(Object.keys(PATTERN_CATALOG).sort()).toEqual([...builtIns, 'custom', 'layered'].sort())
+    })
+
+    it('getPatternInfo returns catalog info for built-ins', () => {
+        const info = getPatternInfo('flowing')!
+        expect(info).toMatchObject({
+            name: 'flowing',
+            label: 'Flowing',
+            builtIn: true,
+            morphSafe: true,
+            periodic: true,
+            frequencyRange: PATTERN_FREQUENCY_RANGE.flowing,
+        })
+        expect(info.params).toContain('phase')
+        expect(info.params).not.toContain('seed')
+        expect(getPatternInfo('smooth')!.params).toEqual(['amplitude', 'frequency'])
+        expect(getPatternInfo('custom')!.periodic).toBe(false)
+    })
+
+    it('getPatternInfo fills defaults for registered patterns from their meta', () => {
+        registerPattern('test-step', stepGenerator, { label: 'Step', params: ['amplitude'], periodic: true })
+        expect(getPatternInfo('test-step')).toEqual({
+            name: 'test-step',
+            label: 'Step',
+            description: '',
+            builtIn: false,
+            params: ['amplitude'],
+            frequencyRange: DEFAULT_FREQUENCY_RANGE,
+            amplitudeRange: [0, 1],
+            morphSafe: false,
+            periodic: true,
+        })
+    })
+
+    it('scoped patterns shadow the catalog and unknown names return undefined', () => {
+        const scoped = { 'test-step': stepGenerator }
+        const info = getPatternInfo('test-step', scoped)!
+        expect(info.builtIn).toBe(false)
+        expect(info.label).toBe('test-step')
+        expect(info.params).toContain('seed')
+        expect(getPatternInfo('nope')).toBeUndefined()
+        expect(getPatternInfo('toString')).toBeUndefined()
+    })
+
+    it('listPatterns follows getPatternNames', () => {
+        registerPattern('test-step', stepGenerator)
+        const names = listPatterns().map((info) => info.name)
+        expect(names).toEqual(getPatternNames())
+        expect(names).toContain('test-step')
+    })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { generateRadialPath, wrapRadialPath, wrapRadialKeyframes, radialPatternConfig } from '../src/utils/radial-path'
+import { generatePath } from '../src/utils/path-generator'
+import { flattenPath, getPathBounds, parsePath } from '../src/utils/path-geometry'
+import { PATH_MORPH_GENERATORS } from '../src/utils/keyframes'
+
+/** Distances from the center of every flattened outline point (closing point dropped) */
+function radii(path: string, cx: number, cy: number): number[] {
+    const points = flattenPath(path)[0].points
+    const [first, last] = [points[0], points[points.length - 1]]
+    const open = Math.hypot(first.x - last.x, first.y - last.y) < 0.01 ? points.slice(0, -1) : points
+    return open.map(({ x, y }) => Math.hypot(x - cx, y - cy))
+}
+
+function structureOf(path: string): string {
+    return parsePath(path).map(({ type }) => type).join('')
+}
+
+describe('generateRadialPath', () => {
+    it('returns a single closed subpath of cubics', () => {
+        const path = generateRadialPath()
+        expect(path).toMatch(/^M [\d.]+ [\d.]+ C /)
+        expect(path).toMatch(/Z$/)
+        expect(structureOf(path)).toMatch(/^MC+Z$/)
+    })
+
+    it('stays inside the radius for every built-in pattern', () => {
+        for (const pattern of ['smooth', 'organic', 'sharp', 'mountain', 'flowing', 'ribbon', 'spline', 'noise'] as const) {
+            const path = generateRadialPath({ pattern, radius: 50, seed: 4 })
+            const bounds = getPathBounds(path)
+            expect(bounds.minX, pattern).toBeGreaterThanOrEqual(0)
+            expect(bounds.minY, pattern).toBeGreaterThanOrEqual(0)
+            expect(bounds.maxX, pattern).toBeLessThanOrEqual(100)
+            expect(bounds.maxY, pattern).toBeLessThanOrEqual(100)
+        }
+    })
+
+    it('keeps the wave within the depth band', () => {
+        const r = radii(generateRadialPath({ radius: 100, depth: 0.3, amplitude: 1 }), 100, 100)
+        expect(Math.min(...r)).toBeGreaterThanOrEqual(70 - 0.5)
+        expect(Math.max(...r)).toBeLessThanOrEqual(100 + 0.5)
+        // The wave actually wobbles
+        expect(Math.max(...r) - Math.min(...r)).toBeGreaterThan(5)
+    })
+
+    it('closes the seam smoothly (start and end meet)', () => {
+        const path = generateRadialPath({ pattern: 'organic', seed: 7 })
+        const [first, ...rest] = parsePath(path)
+        const last = rest[rest.length - 2].values
+        expect(last[4]).toBeCloseTo(first.values[0], 1)
+        expect(last[5]).toBeCloseTo(first.values[1], 1)
+    })
+
+    it('puts one wave per frequency step around the circle', () => {
+        const r = radii(generateRadialPath({ frequency: 5, radius: 100 }), 100, 100)
+        // Count local maxima of the radius around the closed outline
+        let peaks = 0
+        for (let i = 0; i < r.length; i++) {
+            const prev = r[(i - 1 + r.length) % r.length]
+            const next = r[(i + 1) % r.length]
+            if (r[i] > prev && r[i] >= next) peaks++
+        }
+        expect(peaks).toBe(5)
+    })
+
+    it('draws ellipses with radiusY', () => {
+        const bounds = getPathBounds(generateRadialPath({ radius: 100, radiusY: 50 }))
+        expect(bounds.maxX).toBeGreaterThan(150)
+        expect(bounds.maxY).toBeLessThanOrEqual(100)
+        expect(bounds.width / bounds.height).toBeCloseTo(2, 1)
+    })
+
+    it('keeps one command structure across phases and amplitudes', () => {
+        const a = generateRadialPath({ pattern: 'flowing', phase: 0 })
+        const b = generateRadialPath({ pattern: 'flowing', phase: 0.4, amplitude: 0.8 })
+        expect(structureOf(a)).toBe(structureOf(b))
+        expect(a).not.toBe(b)
+    })
+
+    it('is deterministic for a seed', () => {
+        expect(generateRadialPath({ pattern: 'organic', seed: 3 })).toBe(generateRadialPath({ pattern: 'organic', seed: 3 }))
+        expect(generateRadialPath({ pattern: 'organic', seed: 3 })).not.toBe(generateRadialPath({ pattern: 'organic', seed: 4 }))
+    })
+})
+
+describe('wrapRadialPath', () => {
+    it('wraps non-periodic paths over their own width', () => {
+        const path = wrapRadialPath(generatePath('smooth', { frequency: 2 }), { radius: 40 })
+        expect(structureOf(path)).toMatch(/^MC+Z$/)
+        expect(getPathBounds(path).maxX).toBeLessThanOrEqual(80)
+    })
+
+    it('returns an empty string for paths without a wave curve', () => {
+        expect(wrapRadialPath('')).toBe('')
+        expect(wrapRadialPath('M 0 0 Z')).toBe('')
+    })
+})
+
+describe('wrapRadialKeyframes', () => {
+    it('wraps every keyframe into paths that share one structure', () => {
+        const config = radialPatternConfig({ frequency: 4 })
+        const css = PATH_MORPH_GENERATORS.morph('blob', generatePath('smooth', config), 'smooth', config)
+        const wrapped = wrapRadialKeyframes(css, { radius: 60 })
+        const frames = [...wrapped.matchAll(/d: path\("([^"]+)"\)/g)].map((m) => m[1])
+        expect(frames.length).toBeGreaterThan(2)
+        expect(new Set(frames.map(structureOf)).size).toBe(1)
+        expect(structureOf(frames[0])).toMatch(/^MC+Z$/)
+        expect(wrapped).toMatch(/^@keyframes blob \{/)
+    })
+})
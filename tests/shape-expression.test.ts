@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+    compileShapeExpression,
+    isShapeExpression,
+    parseShapeExpression,
+    toExpression,
+} from '../src/utils/shape-expression'
+import { generatePath } from '../src/utils/path-generator'
+import { generatePathKeyframes } from '../src/utils/keyframes'
+import { registerPattern } from '../src/utils/pattern-registry'
+import { createPathGeometry, parsePath } from '../src/utils/path-geometry'
+
+const EXAMPLE = 'sine(f=2,a=0.4) + noise(seed=7,a=0.1) | mirror | clamp(0.1,0.9)'
+
+function yAt(path: string, x: number): number {
+    return createPathGeometry(path).getYAtX(x)!
+}
+
+function parseErrorOf(source: string): string {
+    try {
+        parseShapeExpression(source)
+    } catch (error) {
+        return (error as Error).message
+    }
+    throw new Error(`expected "${source}" to fail`)
+}
+
+describe('parseShapeExpression', () => {
+    it('parses terms, params and filters', () => {
+        expect(parseShapeExpression(EXAMPLE)).toEqual({
+            terms: [
+                { pattern: 'smooth', frequency: 2, amplitude: 0.4 },
+                { pattern: 'noise', seed: 7, amplitude: 0.1 },
+            ],
+            filters: [{ type: 'mirror' }, { type: 'clamp', min: 0.1, max: 0.9 }],
+        })
+    })
+
+    it('accepts long parameter names, bare terms and loose whitespace', () => {
+        expect(parseShapeExpression('  organic ( frequency = 3 , amplitude=.5, phase=-0.25, s=2 )+sharp|scale(1.5)|offset(-0.1) ')).toEqual({
+            terms: [
+                { pattern: 'organic', frequency: 3, amplitude: 0.5, phase: -0.25, seed: 2 },
+                { pattern: 'sharp' },
+            ],
+            filters: [{ type: 'scale', factor: 1.5 }, { type: 'offset', amount: -0.1 }],
+        })
+    })
+
+    it('points at the column of the problem', () => {
+        expect(parseErrorOf('sine(f=2')).toBe(
+            '[wavy-bavy] Invalid shape expression: expected "," or ")" but found end of expression at column 9\n'
+            + '  sine(f=2\n'
+            + '          ^',
+        )
+        expect(parseErrorOf('sine(q=1)')).toContain('unknown parameter "q" (use f, a, p or seed) at column 6')
+        expect(parseErrorOf('sine | blur')).toContain('unknown filter "blur" (use mirror, clamp, scale, offset) at column 8')
+        expect(parseErrorOf('sine | clamp(1)')).toContain('clamp needs 2 arguments (min, max) at column 8')
+        expect(parseErrorOf('sine | mirror(1)')).toContain('mirror takes no arguments at column 15')
+        expect(parseErrorOf('sine $')).toContain('unexpected character "$" at column 6')
+        expect(parseErrorOf('sine(f=1,freq=2)')).toContain('duplicate parameter "freq" at column 10')
+        expect(parseErrorOf('sine(f=0)')).toContain('frequency must be greater than 0 at column 8')
+        expect(parseErrorOf('sine | clamp(0.9,0.1)')).toContain('clamp min must not exceed max')
+        expect(parseErrorOf('sine +')).toContain('expected a pattern name but found end of expression at column 7')
+        expect(parseErrorOf('sine sharp')).toContain('expected "+", "|" or end of expression but found "sharp" at column 6')
+    })
+})
+
+describe('toExpression', () => {
+    it('writes the canonical form', () => {
+        expect(toExpression(parseShapeExpression(EXAMPLE))).toBe('sine(f=2,a=0.4) + noise(a=0.1,seed=7) | mirror | clamp(0.1,0.9)')
+        expect(toExpression({ terms: [{ pattern: 'organic' }] })).toBe('organic')
+    })
+
+    it('round-trips through the parser', () => {
+        for (const source of [EXAMPLE, 'organic(p=0.5,s=3) + sharp(f=6,a=0.2) | scale(0.8) | offset(0.05)', 'sine']) {
+            const expression = parseShapeExpression(source)
+            const text = toExpression(expression)
+            expect(parseShapeExpression(text)).toEqual(expression)
+            expect(toExpression(parseShapeExpression(text))).toBe(text)
+        }
+    })
+
+    it('throws without terms', () => {
+        expect(() => toExpression({ terms: [] })).toThrow('[wavy-bavy] toExpression needs at least one term')
+    })
+})
+
+describe('shape expressions as patterns', () => {
+    it('recognises expression syntax but not plain names', () => {
+        expect(isShapeExpression('sine')).toBe(true)
+        expect(isShapeExpression('smooth + sharp')).toBe(true)
+        expect(isShapeExpression('organic(seed=1)')).toBe(true)
+        expect(isShapeExpression('organic')).toBe(false)
+        expect(isShapeExpression('layered-organic')).toBe(false)
+    })
+
+    it('generatePath draws an expression with the compiled generator', () => {
+        const config = { width: 1440, height: 120, amplitude: 0.5, frequency: 2, phase: 0, mirror: false, seed: 1 }
+        const path = generatePath(EXAMPLE, config)
+        expect(path).toBe(compileShapeExpression(EXAMPLE)(config))
+        expect(path.startsWith('M -20 120')).toBe(true)
+        expect(path.endsWith('Z')).toBe(true)
+    })
+
+    it('stays between the clamp bounds', () => {
+        const path = generatePath('sine(a=2) | clamp(0.2,0.6)', { frequency: 3 })
+        for (let x = 0; x <= 1440; x += 30) {
+            const y = yAt(path, x)
+            expect(y, `x=${x}`).toBeGreaterThanOrEqual(120 * 0.4 - 1)
+            expect(y, `x=${x}`).toBeLessThanOrEqual(120 * 0.8 + 1)
+        }
+    })
+
+    it('mirror flips the wave horizontally', () => {
+        const plain = generatePath('organic(seed=3)', { frequency: 3 })
+        const mirrored = generatePath('organic(seed=3) | mirror', { frequency: 3 })
+        for (const x of [180, 500, 900]) {
+            expect(yAt(mirrored, x)).toBeCloseTo(yAt(plain, 1440 - x), 0)
+        }
+    })
+
+    it('adds the heights of its terms', () => {
+        const single = generatePath('sine(a=0.5)', { frequency: 2 })
+        const doubled = generatePath('sine(a=0.5) + sine(a=0.5)', { frequency: 2 })
+        for (const x of [200, 720, 1100]) {
+            expect(120 - yAt(doubled, x)).toBeCloseTo(2 * (120 - yAt(single, x)), 0)
+        }
+    })
+
+    it('shifts terms by p waves', () => {
+        const base = generatePath('sine(f=2)', {})
+        const shifted = generatePath('sine(f=2,p=0.5)', {})
+        // Half a wave at frequency 2 is 360 units
+        expect(yAt(shifted, 200)).toBeCloseTo(yAt(base, 560), 0)
+    })
+
+    it('uses registered patterns as terms', () => {
+        const cleanup = registerPattern('flat-top', ({ width, height }) => `M -20 ${height} L -20 0 L ${width + 20} 0 L ${width + 20} ${height} Z`)
+        const path = generatePath('flat-top(a=0.5) | scale(0.5)', {})
+        expect(yAt(path, 720)).toBeCloseTo(60, 0)
+        cleanup()
+    })
+
+    it('draws periodic tiles that start and end at the same depth', () => {
+        const path = generatePath('sine(f=3) + noise(a=0.2,seed=4)', { frequency: 3, periodic: true })
+        expect(yAt(path, 0)).toBeCloseTo(yAt(path, 1440), 0)
+    })
+
+    it('keeps one path structure across morph frames', () => {
+        const frames = generatePathKeyframes({
+            basePath: '', frameCount: 4, phaseRange: 0.5, amplitudeVariation: 0.1, pattern: 'sine(f=2) + noise(a=0.1,seed=2)',
+            config: { height: 120, amplitude: 0.5, frequency: 2 },
+        })
+        const structures = frames.map((frame) => parsePath(frame).map(({ type }) => type).join(''))
+        expect(new Set(structures).size).toBe(1)
+        expect(frames[1]).not.toBe(frames[0])
+    })
+
+    it('warns with the parse error and falls back to smooth', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        const path = generatePath('sine(f=2', { frequency: 2 })
+        expect(path).toBe(generatePath('smooth', { frequency: 2 }))
+        expect(spy).toHaveBeenCalledTimes(1)
+        expect(spy.mock.calls[0][0]).toContain('at column 9')
+        expect(spy.mock.calls[0][0]).toContain('Falling back to "smooth".')
+        spy.mockRestore()
+    })
+})
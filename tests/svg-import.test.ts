@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest'
+import { importWaveSVG, fitCustomPath } from '../src/utils/svg-import'
+import { generatePath } from '../src/utils/path-generator'
+import { createPathGeometry } from '../src/utils/path-geometry'
+import { generateInterlockPaths } from '../src/utils/interlock-generator'
+
+const FIGMA_EXPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Exported from Figma -->
+<svg width="2880" height="240" viewBox="0 0 2880 240" fill="none" xmlns="http://www.w3.org/2000/svg">
+  <defs><clipPath id="clip"><path d="M0 0 H5000 V5000 H0 Z" /></clipPath></defs>
+  <g clip-path="url(#clip)" transform="translate(0 40)">
+    <path id="divider" d="M0 100C480 0 960 0 1440 100s960 100 1440 0V200H0z" fill="#6c5ce7" />
+    <path id="dot" d="M10 10h5v5h-5z" />
+  </g>
+</svg>`
+
+describe('importWaveSVG', () => {
+    it('maps the viewBox onto the wave frame and applies transforms', () => {
+        expect(importWaveSVG(FIGMA_EXPORT)).toBe(
+            'M -20 120 L -20 70 L 0 70 C 240 20, 480 20, 720 70 C 960 120, 1200 120, 1440 70 L 1460 70 L 1460 120 Z',
+        )
+    })
+
+    it('scales to the requested height', () => {
+        const path = importWaveSVG(FIGMA_EXPORT, { height: 60 })
+        expect(path).toMatch(/^M -20 60 L -20 35 /)
+        expect(path).toMatch(/L 1460 60 Z$/)
+    })
+
+    it('picks a shape by id', () => {
+        const path = importWaveSVG(FIGMA_EXPORT, { pathId: 'dot' })
+        expect(path).toMatch(/^M -20 120 /)
+        expect(() => importWaveSVG(FIGMA_EXPORT, { pathId: 'missing' })).toThrow('[wavy-bavy]')
+    })
+
+    it('flips shapes that hang from the top edge', () => {
+        const hanging = '<svg viewBox="0 0 100 50"><path d="M0 0 L0 20 L50 40 L100 20 L100 0 Z"/></svg>'
+        const expected = 'M -20 120 L -20 72 L 0 72 L 720 24 L 1440 72 L 1460 72 L 1460 120 Z'
+        expect(importWaveSVG(hanging)).toBe(expected)
+        // The same shape drawn upside down through a transform is already bottom-anchored
+        const transformed = '<svg viewBox="0 0 100 50"><g transform="scale(1,-1) translate(0,-50)"><path d="M0 0 L0 20 L50 40 L100 20 L100 0 Z"/></g></svg>'
+        expect(importWaveSVG(transformed)).toBe(expected)
+    })
+
+    it('imports polygons with relative viewBox origins', () => {
+        const svg = '<svg viewBox="-10 -10 200 100"><polygon points="-10,40 90,0 190,40 190,90 -10,90"/></svg>'
+        expect(importWaveSVG(svg)).toBe('M -20 120 L -20 60 L 0 60 L 720 12 L 1440 60 L 1460 60 L 1460 120 Z')
+    })
+
+    it('traces the top of shapes that are not a single edge', () => {
+        const blob = '<svg viewBox="0 0 100 100"><path d="M10 50 A40 30 0 1 1 90 50 A40 30 0 1 1 10 50 Z"/></svg>'
+        const geometry = createPathGeometry(importWaveSVG(blob))
+        expect(geometry.getYAtX(720)).toBeCloseTo(24, 0)
+    })
+
+    it('throws when there is nothing to import', () => {
+        expect(() => importWaveSVG('<svg viewBox="0 0 10 10"><rect width="10" height="10"/></svg>')).toThrow('[wavy-bavy]')
+    })
+})
+
+describe('custom pattern', () => {
+    const customPath = importWaveSVG(FIGMA_EXPORT)
+
+    it('draws the customPath', () => {
+        expect(generatePath('custom', { customPath })).toBe(customPath)
+        expect(fitCustomPath(customPath, 1440, 120)).toBe(customPath)
+    })
+
+    it('scales closed paths to the wave height', () => {
+        const tall = generatePath('custom', { customPath, height: 240 })
+        expect(tall).toMatch(/^M -20 240 L -20 140 /)
+    })
+
+    it('mirrors like the built-ins', () => {
+        const mirrored = createPathGeometry(generatePath('custom', { customPath, mirror: true }))
+        const original = createPathGeometry(customPath)
+        expect(mirrored.getYAtX(300)).toBeCloseTo(original.getYAtX(1140)!, 3)
+    })
+
+    it('frames raw paths that skip the overflow', () => {
+        expect(generatePath('custom', { customPath: 'M 0 120 L 0 40 L 1440 80 L 1440 120 Z' }))
+            .toBe('M -20 120 L -20 40 L 0 40 L 1440 80 L 1460 80 L 1460 120 Z')
+    })
+
+    it('reads the source width from the frame, or takes it as given', () => {
+        // Starts left of 0 without the library frame: its right end is its width
+        expect(fitCustomPath('M -10 120 L -10 40 L 720 80 L 720 120 Z', 1440, 120))
+            .toBe('M -20 120 L -20 40 L 1440 80 L 1460 80 L 1460 120 Z')
+        expect(fitCustomPath('M 0 120 L 0 40 L 360 80 L 360 120 Z', 1440, 120, 720))
+            .toBe('M -20 120 L -20 40 L 0 40 L 720 80 L 1460 80 L 1460 120 Z')
+    })
+
+    it.each(['hello', 'M 0 0'])('warns and draws "smooth" for the unusable customPath %j', (bad) => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        expect(generatePath('custom', { customPath: bad })).toBe(generatePath('smooth'))
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('[wavy-bavy]'))
+        warn.mockRestore()
+    })
+
+    it('interlocks around the custom shape', () => {
+        const result = generateInterlockPaths({
+            pattern: 'custom',
+            customPath,
+            height: 120,
+            amplitude: 0.5,
+            frequency: 1,
+            intensity: 0.5,
+            mode: 'interlock',
+        })
+        expect(result.baseCurve).toBe(customPath)
+    })
+})
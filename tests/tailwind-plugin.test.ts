@@ -78,4 +78,16 @@ describe('Tailwind plugin', () => {
         const fn = waveHCall![0]['wave-h']
         expect(fn('120px')).toEqual({ '--wavy-bavy-height': '120px' })
     })
+
+    it('emits utilities for every built-in pattern in the catalog', () => {
+        const addUtilities = vi.fn()
+        const api = { addUtilities, matchUtilities: vi.fn(), theme: vi.fn(), e: vi.fn() }
+        wavyBavyPlugin()(api as any)
+
+        const allCalls = addUtilities.mock.calls.map(c => c[0])
+        for (const pattern of ['flowing', 'ribbon', 'layered-organic', 'spline', 'noise', 'layered']) {
+            expect(allCalls.some(obj => `.wave-${pattern}` in obj)).toBe(true)
+        }
+        expect(allCalls.some(obj => '.wave-custom' in obj)).toBe(false)
+    })
 })
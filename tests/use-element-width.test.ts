@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useElementWidth } from '../src/utils/use-element-width'
+
+// ============================================================
+// Mock ResizeObserver
+// ============================================================
+
+let observerCallback: ResizeObserverCallback
+let observerInstances: MockResizeObserver[] = []
+
+class MockResizeObserver implements ResizeObserver {
+    constructor(callback: ResizeObserverCallback) {
+        observerCallback = callback
+        observerInstances.push(this)
+    }
+
+    observe = vi.fn()
+    unobserve = vi.fn()
+    disconnect = vi.fn()
+}
+
+beforeEach(() => {
+    observerInstances = []
+    vi.stubGlobal('ResizeObserver', MockResizeObserver)
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+})
+
+function triggerResize(width: number) {
+    act(() => {
+        observerCallback(
+            [{ contentRect: { width } } as ResizeObserverEntry],
+            observerInstances[observerInstances.length - 1],
+        )
+    })
+}
+
+// ============================================================
+// useElementWidth
+// ============================================================
+
+describe('useElementWidth', () => {
+    it('returns [ref, null] before the first measurement', () => {
+        const { result } = renderHook(() => useElementWidth())
+        expect(typeof result.current[0]).toBe('function')
+        expect(result.current[1]).toBeNull()
+    })
+
+    it('reports the first measurement immediately, rounded', () => {
+        const { result } = renderHook(() => useElementWidth())
+        act(() => result.current[0](document.createElement('div')))
+
+        expect(observerInstances[0].observe).toHaveBeenCalled()
+        triggerResize(374.6)
+        expect(result.current[1]).toBe(375)
+    })
+
+    it('debounces later resizes', () => {
+        vi.useFakeTimers()
+        const { result } = renderHook(() => useElementWidth({ debounce: 50 }))
+        act(() => result.current[0](document.createElement('div')))
+
+        triggerResize(800)
+        triggerResize(900)
+        triggerResize(1000)
+        expect(result.current[1]).toBe(800)
+
+        act(() => { vi.advanceTimersByTime(50) })
+        expect(result.current[1]).toBe(1000)
+    })
+
+    it('reports the height with dimension: height', () => {
+        const { result } = renderHook(() => useElementWidth({ dimension: 'height' }))
+        act(() => result.current[0](document.createElement('div')))
+
+        act(() => {
+            observerCallback(
+                [{ contentRect: { width: 320, height: 900 } } as ResizeObserverEntry],
+                observerInstances[0],
+            )
+        })
+        expect(result.current[1]).toBe(900)
+    })
+
+    it('measures a new element from scratch', () => {
+        vi.useFakeTimers()
+        const { result } = renderHook(() => useElementWidth({ debounce: 50 }))
+        act(() => result.current[0](document.createElement('div')))
+        triggerResize(800)
+
+        act(() => result.current[0](document.createElement('div')))
+        expect(result.current[1]).toBeNull()
+        // The new element's first measurement is not debounced
+        triggerResize(500)
+        expect(result.current[1]).toBe(500)
+    })
+
+    it('measures again from scratch when the dimension changes', () => {
+        vi.useFakeTimers()
+        const node = document.createElement('div')
+        const { result, rerender } = renderHook(
+            ({ dimension }: { dimension: 'width' | 'height' }) => useElementWidth({ dimension }),
+            { initialProps: { dimension: 'width' } },
+        )
+        act(() => result.current[0](node))
+        triggerResize(800)
+
+        rerender({ dimension: 'height' })
+        act(() => result.current[0](node))
+        expect(result.current[1]).toBeNull()
+        act(() => {
+            observerCallback(
+                [{ contentRect: { width: 800, height: 300 } } as ResizeObserverEntry],
+                observerInstances[observerInstances.length - 1],
+            )
+        })
+        expect(result.current[1]).toBe(300)
+    })
+
+    it('keeps the measurement when the same element is attached again', () => {
+        const node = document.createElement('div')
+        const { result } = renderHook(() => useElementWidth())
+        act(() => result.current[0](node))
+        triggerResize(800)
+
+        act(() => result.current[0](null))
+        act(() => result.current[0](node))
+        expect(result.current[1]).toBe(800)
+    })
+
+    it('treats a zero width (hidden element) as unmeasured', () => {
+        const { result } = renderHook(() => useElementWidth())
+        act(() => result.current[0](document.createElement('div')))
+
+        triggerResize(0)
+        expect(result.current[1]).toBeNull()
+    })
+
+    it('does not observe when disabled', () => {
+        const { result } = renderHook(() => useElementWidth({ disabled: true }))
+        act(() => result.current[0](document.createElement('div')))
+
+        expect(observerInstances).toHaveLength(0)
+        expect(result.current[1]).toBeNull()
+    })
+
+    it('returns null without ResizeObserver', () => {
+        vi.stubGlobal('ResizeObserver', undefined)
+        const { result } = renderHook(() => useElementWidth())
+        act(() => result.current[0](document.createElement('div')))
+
+        expect(result.current[1]).toBeNull()
+    })
+
+    it('disconnects on unmount', () => {
+        const { result, unmount } = renderHook(() => useElementWidth())
+        act(() => result.current[0](document.createElement('div')))
+
+        const observer = observerInstances[0]
+        unmount()
+        expect(observer.disconnect).toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,194 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { needsRuntimeBackground, resolveBackground, useResolvedBackground } from '../src/utils/use-resolved-background'
+import { parseBackground } from '../src/utils/color-utils'
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const styleSheets: HTMLStyleElement[] = []
+
+function addStyles(css: string) {
+    const style = document.createElement('style')
+    style.textContent = css
+    document.head.appendChild(style)
+    styleSheets.push(style)
+}
+
+/** A section inside a wrapper, attached to the document */
+function mountSection(className = ''): { section: HTMLElement; wrapper: HTMLElement } {
+    const wrapper = document.createElement('div')
+    const section = document.createElement('section')
+    section.className = className
+    wrapper.appendChild(section)
+    document.body.appendChild(wrapper)
+    return { section, wrapper }
+}
+
+/** Let the frame-throttled re-resolve run */
+function nextFrame(): Promise<void> {
+    return new Promise((resolve) => requestAnimationFrame(() => resolve()))
+}
+
+afterEach(() => {
+    styleSheets.splice(0).forEach((style) => style.remove())
+    document.body.innerHTML = ''
+    vi.restoreAllMocks()
+})
+
+// ============================================================
+// needsRuntimeBackground
+// ============================================================
+
+describe('needsRuntimeBackground', () => {
+    it('flags var(), currentColor and missing backgrounds', () => {
+        expect(needsRuntimeBackground('var(--surface-2)')).toBe(true)
+        expect(needsRuntimeBackground('linear-gradient(var(--a), white)')).toBe(true)
+        expect(needsRuntimeBackground('currentColor')).toBe(true)
+        expect(needsRuntimeBackground(undefined)).toBe(true)
+    })
+
+    it('leaves plain colors, gradients and images alone', () => {
+        expect(needsRuntimeBackground('#1a1a2e')).toBe(false)
+        expect(needsRuntimeBackground('oklch(0.5 0.1 200)')).toBe(false)
+        expect(needsRuntimeBackground('url(/hero.jpg)')).toBe(false)
+    })
+})
+
+// ============================================================
+// resolveBackground
+// ============================================================
+
+describe('resolveBackground', () => {
+    it('reads custom properties, keeping the raw value', () => {
+        addStyles('section { --surface-2: #112233 }')
+        const { section } = mountSection()
+        expect(resolveBackground('var(--surface-2)', section)).toEqual({ type: 'color', value: 'var(--surface-2)', dominantColor: '#112233' })
+    })
+
+    it('follows fallbacks and nested var()', () => {
+        addStyles('section { --brand: var(--blue); --blue: navy }')
+        const { section } = mountSection()
+        expect(resolveBackground('var(--missing, var(--brand))', section).dominantColor).toBe('#000080')
+        expect(resolveBackground('var(--missing, #fff8)', section).dominantColor).toBe('#ffffff88')
+    })
+
+    it('resolves var() inside gradients', () => {
+        addStyles('section { --from: rgb(255, 0, 0) }')
+        const { section } = mountSection()
+        const resolved = resolveBackground('linear-gradient(to right, var(--from), blue)', section)
+        expect(resolved.type).toBe('gradient')
+        expect(resolved.dominantColor).toBe('#ff0000')
+    })
+
+    it('uses the text color for currentColor', () => {
+        const { section } = mountSection()
+        section.style.color = 'rgb(0, 128, 0)'
+        expect(resolveBackground('currentColor', section).dominantColor).toBe('#008000')
+    })
+
+    it('reads class-provided backgrounds', () => {
+        addStyles('.brand { background-color: rgb(26, 26, 46) }')
+        const { section } = mountSection('brand')
+        expect(resolveBackground(undefined, section)).toEqual({ type: 'color', value: 'rgb(26, 26, 46)', dominantColor: '#1a1a2e' })
+    })
+
+    it('keeps the white default when nothing paints the section', () => {
+        const { section } = mountSection()
+        expect(resolveBackground(undefined, section)).toEqual(parseBackground(undefined))
+        addStyles('section { background-color: transparent }')
+        expect(resolveBackground(undefined, section)).toEqual(parseBackground(undefined))
+    })
+})
+
+// ============================================================
+// useResolvedBackground
+// ============================================================
+
+describe('useResolvedBackground', () => {
+    it('returns the parsed background for plain colors', () => {
+        const { section } = mountSection()
+        const parsed = parseBackground('#ff0000')
+        const { result } = renderHook(() => useResolvedBackground('#ff0000', parsed, { current: section }))
+        expect(result.current).toBe(parsed)
+    })
+
+    it('resolves after mount and again when a theme class changes', async () => {
+        addStyles('section { --surface: #ffffff } .dark section { --surface: #111827 }')
+        const { section, wrapper } = mountSection()
+        const value = 'var(--surface)'
+        const { result } = renderHook(() => useResolvedBackground(value, parseBackground(value), { current: section }))
+        expect(result.current.dominantColor).toBe('#ffffff')
+
+        await act(async () => {
+            wrapper.className = 'dark'
+            await nextFrame()
+        })
+        expect(result.current.dominantColor).toBe('#111827')
+
+        await act(async () => {
+            wrapper.className = ''
+            await nextFrame()
+        })
+        expect(result.current.dominantColor).toBe('#ffffff')
+    })
+
+    it('re-resolves when inline custom properties change', async () => {
+        const { section } = mountSection()
+        section.style.setProperty('--surface', '#00ff00')
+        const value = 'var(--surface)'
+        const { result } = renderHook(() => useResolvedBackground(value, parseBackground(value), { current: section }))
+        expect(result.current.dominantColor).toBe('#00ff00')
+
+        await act(async () => {
+            section.style.setProperty('--surface', '#0000ff')
+            await nextFrame()
+        })
+        expect(result.current.dominantColor).toBe('#0000ff')
+    })
+
+    it('stops observing on unmount', async () => {
+        addStyles('section { --surface: #ffffff } .dark section { --surface: #111827 }')
+        const { section, wrapper } = mountSection()
+        const value = 'var(--surface)'
+        const { result, unmount } = renderHook(() => useResolvedBackground(value, parseBackground(value), { current: section }))
+        const before = result.current
+        unmount()
+        await act(async () => {
+            wrapper.className = 'dark'
+            await nextFrame()
+        })
+        expect(result.current).toBe(before)
+    })
+
+    it('re-resolves once per frame, and only for theme attributes', async () => {
+        const { section, wrapper } = mountSection()
+        const value = 'var(--surface)'
+        const ref = { current: section }
+        renderHook(() => useResolvedBackground(value, parseBackground(value), ref))
+        const getComputedStyle = vi.spyOn(window, 'getComputedStyle')
+
+        await act(async () => {
+            wrapper.setAttribute('aria-expanded', 'true')
+            section.setAttribute('data-state', 'open')
+            await nextFrame()
+        })
+        expect(getComputedStyle).not.toHaveBeenCalled()
+
+        await act(async () => {
+            wrapper.className = 'dark'
+            wrapper.setAttribute('data-theme', 'dark')
+            section.style.setProperty('--surface', '#111827')
+            await nextFrame()
+        })
+        expect(getComputedStyle).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not observe plain colors', () => {
+        const observe = vi.spyOn(MutationObserver.prototype, 'observe')
+        const { section } = mountSection()
+        renderHook(() => useResolvedBackground('#ff0000', parseBackground('#ff0000'), { current: section }))
+        expect(observe).not.toHaveBeenCalled()
+    })
+})
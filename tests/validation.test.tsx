@@ -85,6 +85,57 @@ describe('Prop Validation', () => {
         spy.mockRestore()
     })
 
+    it('clamps frequency to the pattern range', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" pattern="layered-organic" frequency={10}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#f5f5f5">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>
+        )
+
+        expect(spy).toHaveBeenCalledWith(
+            expect.stringContaining('valid range [0.1, 6] for pattern "layered-organic", clamped to 6')
+        )
+        spy.mockRestore()
+    })
+
+    it('accepts fractional frequencies unless periodic', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" frequency={0.5}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#f5f5f5">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>
+        )
+        expect(spy.mock.calls.filter((call) => String(call[0]).includes('frequency'))).toHaveLength(0)
+
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" frequency={0.5} periodic>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#f5f5f5">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>
+        )
+        expect(spy).toHaveBeenCalledWith(
+            expect.stringContaining('frequency 0.5 is outside valid range [1, 20] for pattern "smooth", clamped to 1')
+        )
+        spy.mockRestore()
+    })
+
     it('does not warn for valid amplitude and frequency', () => {
         const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
 
@@ -109,6 +160,47 @@ describe('Prop Validation', () => {
         expect(frequencyWarnings.length).toBe(0)
         spy.mockRestore()
     })
+
+    it('warns when a prop is set that the pattern ignores', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" pattern="smooth" seed={3} phase={0.2}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#f5f5f5">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>
+        )
+
+        expect(spy).toHaveBeenCalledWith(
+            expect.stringContaining('pattern "smooth" ignores phase, seed (it responds to amplitude, frequency)')
+        )
+        spy.mockRestore()
+    })
+
+    it('does not warn when the pattern responds to the prop', () => {
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+        render(
+            <WaveProvider>
+                <WaveSection background="#ffffff" pattern="organic" seed={3}>
+                    <p>Section 1</p>
+                </WaveSection>
+                <WaveSection background="#f5f5f5">
+                    <p>Section 2</p>
+                </WaveSection>
+            </WaveProvider>
+        )
+
+        const ignoreWarnings = spy.mock.calls.filter(call =>
+            typeof call[0] === 'string' && call[0].includes('ignores')
+        )
+        expect(ignoreWarnings.length).toBe(0)
+        spy.mockRestore()
+    })
 })
 
 describe('Error Messages', () => {
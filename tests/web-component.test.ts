@@ -1,4 +1,6 @@
-import { describe, it, expect, beforeAll, afterEach } from 'vitest'
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { registerPattern } from '../src/utils/pattern-registry'
+import { generateInterlockPaths, validateDualPath } from '../src/utils/interlock-generator'
 
 // Import registers the custom element
 import '../src/web-component'
@@ -166,6 +168,20 @@ describe('WavySectionElement', () => {
         expect(path!.getAttribute('style')).toContain('8s')
     })
 
+    it('scrolls a tiled periodic wave for animate="flow" with periodic', () => {
+        const el = document.createElement('wavy-section')
+        el.setAttribute('animate', 'flow')
+        el.setAttribute('periodic', '')
+        el.setAttribute('wave-position', 'both')
+        document.body.appendChild(el)
+        expect(el.shadowRoot!.querySelector('svg style')!.textContent).toContain('translateX(-1440px)')
+        const top = el.shadowRoot!.querySelector('.wavy-top svg path')!
+        expect(top.getAttribute('style')).toContain('wavy-wc-tile')
+        // Geometry is flipped directly because the animation owns the transform
+        expect(top.getAttribute('transform')).toBeNull()
+        expect(top.getAttribute('d')).toMatch(/^M-1440 0/)
+    })
+
     it('applies transform for top wave direction', () => {
         const el = document.createElement('wavy-section')
         el.setAttribute('wave-position', 'top')
@@ -173,4 +189,61 @@ describe('WavySectionElement', () => {
         const path = el.shadowRoot!.querySelector('.wavy-top svg path')
         expect(path!.getAttribute('transform')).toContain('scale(1, -1)')
     })
+
+    it('renders shape expressions from the pattern attribute', () => {
+        const el = document.createElement('wavy-section')
+        el.setAttribute('pattern', 'sine(f=3) | clamp(0.2,0.8)')
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        document.body.appendChild(el)
+        expect(spy).not.toHaveBeenCalled()
+        spy.mockRestore()
+        const d = el.shadowRoot!.querySelector('svg path')!.getAttribute('d')!
+        expect(d).toMatch(/^M -20 120/)
+        expect(d).toContain('C')
+    })
+
+    it('paints an accent band between interlocked edges', () => {
+        const el = document.createElement('wavy-section')
+        el.setAttribute('fill-color', '#e94560')
+        el.setAttribute('separation-mode', 'interlock')
+        el.setAttribute('band-color', '#ffd166')
+        el.setAttribute('band-max-thickness', '10')
+        el.setAttribute('animate', 'morph')
+        document.body.appendChild(el)
+        const paths = el.shadowRoot!.querySelectorAll('.wavy-bottom svg path')
+        expect(paths[0].getAttribute('fill')).toBe('#ffd166')
+        expect(paths[1].getAttribute('fill')).toBe('#e94560')
+        // Both edges morph with coordinated keyframes
+        const css = el.shadowRoot!.querySelector('.wavy-bottom svg style')!.textContent!
+        expect(css).toContain('@keyframes wavy-wc-morph-a-morph')
+        expect(css).toContain('@keyframes wavy-wc-morph-b-morph')
+    })
+
+    it('meshes puzzle edges with the tab attributes', () => {
+        const el = document.createElement('wavy-section')
+        el.setAttribute('separation-mode', 'puzzle')
+        el.setAttribute('gap', '6')
+        el.setAttribute('tab-count', '4')
+        el.setAttribute('tab-seed', '9')
+        document.body.appendChild(el)
+        const [pathA, pathB] = Array.from(el.shadowRoot!.querySelectorAll('.wavy-bottom svg path')).map((p) => p.getAttribute('d')!)
+        expect(pathB).toBe(generateInterlockPaths({
+            pattern: 'smooth', height: 120, amplitude: 0.5, frequency: 1, intensity: 0.5, mode: 'puzzle', gap: 6, tabs: { count: 4, seed: 9 }, phase: 0, mirror: false,
+        }).pathB)
+        expect(validateDualPath({ pathA, pathB, baseCurve: pathA }, { minSeparation: 6 }).valid).toBe(true)
+    })
+
+    it('renders registered custom patterns and re-renders when they are registered late', () => {
+        const customPath = 'M -20 120 L -20 30 L 1460 90 L 1460 120 Z'
+        const el = document.createElement('wavy-section')
+        el.setAttribute('pattern', 'wc-test')
+        const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        document.body.appendChild(el)
+        spy.mockRestore()
+
+        const cleanup = registerPattern('wc-test', () => customPath)
+        const path = el.shadowRoot!.querySelector('svg path')
+        expect(path!.getAttribute('d')).toBe(customPath)
+        cleanup()
+    })
 })